@@ -4,7 +4,8 @@
  * Adjust these thresholds based on your team's budget and usage patterns.
  * Color coding helps identify usage levels at a glance.
  *
- * Pricing Reference (Claude Sonnet 4.5):
+ * Pricing Reference (Claude Sonnet 4.5, the default model; other models are
+ * priced from $lib/config/modelPricing.json):
  * - Input: $3.00 per million tokens
  * - Cache creation: $3.75 per million tokens
  * - Cache read: $0.30 per million tokens
@@ -127,3 +127,43 @@ export function searchMessages(query) {
 export function getReservations(agentName = null, projectPath = null) {
 	return agentMail.getReservations(agentName, projectPath);
 }
+
+/**
+ * Get every file pattern each agent has reserved, released and expired included
+ * @param {string|null} agentName - Optional agent name to filter by
+ * @param {string|null} projectPath - Optional project path to filter by
+ * @returns {Array<Object>} - Latest reservation per agent and pattern
+ */
+export function getReservationHistory(agentName = null, projectPath = null) {
+	return agentMail.getReservationHistory(agentName, projectPath);
+}
+
+/**
+ * Get messages sent after a given message ID (oldest first)
+ * @param {number} afterId - Only return messages with a greater ID
+ * @param {number} [limit] - Maximum number of messages
+ * @returns {Array} - Array of message objects
+ */
+export function getMessagesSince(afterId, limit = 100) {
+	return agentMail.getMessagesSince(afterId, limit);
+}
+
+/**
+ * Get the ID of the most recent message
+ * @returns {number} - Highest message ID (0 if none)
+ */
+export function getLatestMessageId() {
+	return agentMail.getLatestMessageId();
+}
+
+/**
+ * Get task lifecycle announcements (Starting/Paused/Completed, oldest first)
+ * @param {string|null} [threadId] - Only this task's thread (default: all)
+ * @returns {Array} - Messages with thread_id, subject, created_ts, sender_name
+ */
+export function getTaskLifecycleMessages(threadId = null) {
+	return agentMail.getTaskLifecycleMessages(threadId);
+}
+
+/** Path of the Agent Mail database (watched for changes by /api/events) */
+export const AGENT_MAIL_DB_PATH = agentMail.DB_PATH;
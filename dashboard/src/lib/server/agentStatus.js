@@ -0,0 +1,119 @@
+/**
+ * Server-side agent status tracking
+ * Computes each agent's status once (see $lib/utils/agentStatus.ts) and
+ * remembers when it last changed, so responses can carry `status_since`
+ *
+ * Thresholds come from the environment (minutes, decimals allowed):
+ *   JAT_STATUS_LIVE_MINUTES   (default 1)
+ *   JAT_STATUS_ACTIVE_MINUTES (default 10)
+ *   JAT_STATUS_IDLE_MINUTES   (default 60)
+ *
+ * Transitions are kept in memory; after a restart `status_since` is
+ * estimated from activity timestamps and lock/task start times.
+ */
+
+import { env } from '$env/dynamic/private';
+import {
+	computeAgentStatus,
+	estimateStatusSince,
+	parseActivityTimestamp,
+	DEFAULT_STATUS_THRESHOLDS
+} from '$lib/utils/agentStatus';
+
+/** Transitions remembered per agent */
+const MAX_TRANSITIONS = 20;
+
+/**
+ * @typedef {import('$lib/utils/agentStatus').AgentStatus} AgentStatus
+ * @typedef {import('$lib/utils/agentStatus').StatusTransition} StatusTransition
+ */
+
+/** @type {Map<string, {status: AgentStatus, since: number|null, transitions: StatusTransition[]}>} */
+const tracked = new Map();
+
+/**
+ * @param {string|undefined} value - Minutes from the environment
+ * @param {number} fallbackMs
+ */
+function minutesToMs(value, fallbackMs) {
+	const minutes = parseFloat(value ?? '');
+	return Number.isFinite(minutes) && minutes > 0 ? minutes * 60000 : fallbackMs;
+}
+
+/**
+ * Get the configured status thresholds
+ * @returns {import('$lib/utils/agentStatus').StatusThresholds}
+ */
+export function getStatusThresholds() {
+	return {
+		liveMs: minutesToMs(env.JAT_STATUS_LIVE_MINUTES, DEFAULT_STATUS_THRESHOLDS.liveMs),
+		activeMs: minutesToMs(env.JAT_STATUS_ACTIVE_MINUTES, DEFAULT_STATUS_THRESHOLDS.activeMs),
+		idleMs: minutesToMs(env.JAT_STATUS_IDLE_MINUTES, DEFAULT_STATUS_THRESHOLDS.idleMs)
+	};
+}
+
+/**
+ * Compute an agent's status and record a transition if it changed
+ *
+ * Counts are taken from the arguments rather than the agent, so callers can
+ * pass work across all projects even when their response is filtered.
+ * @param {{name: string, last_active_ts?: string|null}} agent
+ * @param {any[]} inProgressTasks - The agent's in-progress tasks (all projects)
+ * @param {any[]} reservations - The agent's active reservations
+ * @param {number} [now]
+ * @returns {{status: AgentStatus, status_since: string|null}}
+ */
+export function trackAgentStatus(agent, inProgressTasks, reservations, now = Date.now()) {
+	const thresholds = getStatusThresholds();
+	const input = {
+		last_active_ts: agent.last_active_ts,
+		in_progress_tasks: inProgressTasks.length,
+		reservation_count: reservations.length
+	};
+	const status = computeAgentStatus(input, now, thresholds);
+
+	const previous = tracked.get(agent.name);
+	let since;
+
+	if (!previous) {
+		// First sighting: work started with the earliest lock or task update
+		const starts = [
+			...reservations.map(r => parseActivityTimestamp(r.created_ts)),
+			...inProgressTasks.map(t => parseActivityTimestamp(t.updated_at))
+		].filter(ms => ms !== null);
+		const workStarted = starts.length > 0 ? Math.min(...starts) : null;
+
+		since = estimateStatusSince(status, input, workStarted, thresholds);
+		tracked.set(agent.name, { status, since, transitions: [] });
+	} else if (previous.status !== status) {
+		// Falling back through the time thresholds happens at a known time,
+		// which may be before this call noticed it
+		const crossed = status === 'working' || status === 'live'
+			? null
+			: estimateStatusSince(status, input, null, thresholds);
+		since = crossed === null ? now : Math.min(now, Math.max(crossed, previous.since ?? crossed));
+
+		previous.transitions.push({ from: previous.status, to: status, at: new Date(since).toISOString() });
+		if (previous.transitions.length > MAX_TRANSITIONS) {
+			previous.transitions.shift();
+		}
+		previous.status = status;
+		previous.since = since;
+	} else {
+		since = previous.since;
+	}
+
+	return {
+		status,
+		status_since: since === null ? null : new Date(since).toISOString()
+	};
+}
+
+/**
+ * Get the recorded status transitions of an agent (oldest first)
+ * @param {string} agentName
+ * @returns {StatusTransition[]}
+ */
+export function getStatusTransitions(agentName) {
+	return tracked.get(agentName)?.transitions ?? [];
+}
@@ -0,0 +1,37 @@
+/**
+ * Tests for server-side agent status tracking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { trackAgentStatus, getStatusTransitions } from './agentStatus.js';
+
+const NOW = Date.parse('2025-11-20T12:00:00Z');
+
+describe('trackAgentStatus', () => {
+	it('should estimate status_since on first sighting from the earliest lock', () => {
+		const agent = { name: 'FirstSight', last_active_ts: '2025-11-20 11:58:00' };
+		const reservations = [{ created_ts: '2025-11-20 11:18:00' }, { created_ts: '2025-11-20 11:40:00' }];
+
+		expect(trackAgentStatus(agent, [], reservations, NOW)).toEqual({
+			status: 'working',
+			status_since: '2025-11-20T11:18:00.000Z'
+		});
+		expect(getStatusTransitions(agent.name)).toEqual([]);
+	});
+
+	it('should record transitions and date threshold crossings', () => {
+		const agent = { name: 'Tracked', last_active_ts: '2025-11-20 11:59:30' };
+
+		trackAgentStatus(agent, [{ updated_at: '2025-11-20T11:30:00Z' }], [], NOW);
+		const later = trackAgentStatus(agent, [], [], NOW + 20 * 60000);
+
+		// Idle since last activity + 10 minutes, not since this call
+		expect(later).toEqual({ status: 'idle', status_since: '2025-11-20T12:09:30.000Z' });
+		expect(getStatusTransitions(agent.name)).toEqual([
+			{ from: 'working', to: 'idle', at: '2025-11-20T12:09:30.000Z' }
+		]);
+
+		// Unchanged status keeps its start time
+		expect(trackAgentStatus(agent, [], [], NOW + 25 * 60000).status_since).toBe(later.status_since);
+	});
+});
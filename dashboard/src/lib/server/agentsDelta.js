@@ -0,0 +1,144 @@
+/**
+ * Incremental responses for /api/agents
+ *
+ * Every full payload gets a cursor: a hash over per-item fingerprints of its
+ * agents, tasks and reservations. The fingerprints are kept (not the items)
+ * for the most recent cursors, so a later request can send `since=<cursor>`
+ * and receive only what changed plus tombstones for what disappeared.
+ *
+ * Cursors are content-addressed: clients that have seen the same data share
+ * one, and a cursor stays valid whichever filters produced it, since the
+ * fingerprints describe exactly the items the client holds.
+ */
+
+import { createHash } from 'crypto';
+
+/** Number of cursors remembered; older ones fall back to a full response */
+const MAX_CURSORS = 100;
+
+/**
+ * @typedef {Object} Fingerprints
+ * @property {Map<string, string>} agents - Agent name → hash
+ * @property {Map<string, string>} tasks - Task ID → hash
+ * @property {Map<number, string>} reservations - Reservation ID → hash
+ */
+
+/** @type {Map<string, Fingerprints>} */
+const cursors = new Map();
+
+/** @param {string} text */
+function hash(text) {
+	return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * @template K
+ * @param {any[]} items
+ * @param {(item: any) => K} key
+ * @returns {Map<K, string>}
+ */
+function fingerprint(items, key) {
+	return new Map(items.map(item => [key(item), hash(JSON.stringify(item))]));
+}
+
+/**
+ * @param {{agents: any[], tasks: any[], reservations: any[]}} payload
+ * @returns {Fingerprints}
+ */
+function fingerprintPayload(payload) {
+	return {
+		agents: fingerprint(payload.agents, a => a.name),
+		tasks: fingerprint(payload.tasks, t => t.id),
+		reservations: fingerprint(payload.reservations, r => r.id)
+	};
+}
+
+/**
+ * Derive the cursor for a set of fingerprints (order-independent)
+ * @param {Fingerprints} prints
+ */
+function cursorFor(prints) {
+	const parts = [];
+	for (const [kind, map] of Object.entries(prints)) {
+		for (const [key, value] of map) {
+			parts.push(`${kind}:${key}:${value}`);
+		}
+	}
+	return hash(parts.sort().join('\n')).slice(0, 20);
+}
+
+/**
+ * Register a full payload and return its cursor
+ * @param {{agents: any[], tasks: any[], reservations: any[]}} payload
+ * @returns {{cursor: string, prints: Fingerprints}}
+ */
+export function registerPayload(payload) {
+	const prints = fingerprintPayload(payload);
+	const cursor = cursorFor(prints);
+
+	// Re-insert to mark as most recently used
+	cursors.delete(cursor);
+	cursors.set(cursor, prints);
+	while (cursors.size > MAX_CURSORS) {
+		const oldest = cursors.keys().next().value;
+		if (oldest === undefined) break;
+		cursors.delete(oldest);
+	}
+
+	return { cursor, prints };
+}
+
+/**
+ * @template K
+ * @param {any[]} items - Current items
+ * @param {(item: any) => K} key
+ * @param {Map<K, string>} current - Fingerprints of `items`
+ * @param {Map<K, string>} previous - Fingerprints the client holds
+ */
+function diffItems(items, key, current, previous) {
+	const changed = items.filter(item => previous.get(key(item)) !== current.get(key(item)));
+	const removed = [...previous.keys()].filter(k => !current.has(k));
+	return { changed, removed };
+}
+
+/**
+ * Compute the changes since a cursor
+ * @param {string} since - Cursor from an earlier response
+ * @param {{agents: any[], tasks: any[], reservations: any[]}} payload - Current full payload
+ * @param {Fingerprints} prints - Fingerprints of `payload` (from registerPayload)
+ * @returns {{agents: any[], tasks: any[], reservations: any[], removed: {agents: string[], tasks: string[], reservations: number[]}} | null}
+ *   Changed items and tombstones, or null if the cursor is unknown
+ */
+export function diffSince(since, payload, prints) {
+	const previous = cursors.get(since);
+	if (!previous) {
+		return null;
+	}
+
+	const agents = diffItems(payload.agents, a => a.name, prints.agents, previous.agents);
+	const tasks = diffItems(payload.tasks, t => t.id, prints.tasks, previous.tasks);
+	const reservations = diffItems(payload.reservations, r => r.id, prints.reservations, previous.reservations);
+
+	return {
+		agents: agents.changed,
+		tasks: tasks.changed,
+		reservations: reservations.changed,
+		removed: {
+			agents: agents.removed,
+			tasks: tasks.removed,
+			reservations: reservations.removed
+		}
+	};
+}
+
+/**
+ * Build the ETag for a response
+ *
+ * Unkeyed extras (e.g. hourly usage) are folded in so a 304 is only sent
+ * when they are unchanged too.
+ * @param {string} cursor - Cursor from registerPayload()
+ * @param {unknown} [extra] - Other data included in the response
+ */
+export function etagFor(cursor, extra) {
+	return extra == null ? `"${cursor}"` : `"${cursor}-${hash(JSON.stringify(extra)).slice(0, 12)}"`;
+}
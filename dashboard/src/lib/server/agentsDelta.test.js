@@ -0,0 +1,62 @@
+/**
+ * Tests for incremental /api/agents responses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { registerPayload, diffSince, etagFor } from './agentsDelta.js';
+
+function makePayload(overrides = {}) {
+	return {
+		agents: [{ name: 'Alpha', task_count: 1 }],
+		tasks: [
+			{ id: 'jat-a', status: 'open' },
+			{ id: 'jat-b', status: 'open' }
+		],
+		reservations: [{ id: 1, path_pattern: 'src/**' }],
+		...overrides
+	};
+}
+
+describe('agentsDelta', () => {
+	it('should give identical content the same cursor regardless of order', () => {
+		const a = registerPayload(makePayload());
+		const b = registerPayload(makePayload({
+			tasks: [
+				{ id: 'jat-b', status: 'open' },
+				{ id: 'jat-a', status: 'open' }
+			]
+		}));
+
+		expect(a.cursor).toBe(b.cursor);
+		expect(etagFor(a.cursor)).toBe(`"${a.cursor}"`);
+		expect(etagFor(a.cursor, [1, 2])).not.toBe(etagFor(a.cursor, [1, 3]));
+	});
+
+	it('should return changed items and tombstones since a cursor', () => {
+		const { cursor } = registerPayload(makePayload());
+
+		const next = makePayload({
+			agents: [{ name: 'Alpha', task_count: 2 }],
+			tasks: [
+				{ id: 'jat-a', status: 'open' },
+				{ id: 'jat-c', status: 'open' }
+			],
+			reservations: []
+		});
+		const { prints } = registerPayload(next);
+
+		expect(diffSince(cursor, next, prints)).toEqual({
+			agents: [{ name: 'Alpha', task_count: 2 }],
+			tasks: [{ id: 'jat-c', status: 'open' }],
+			reservations: [],
+			removed: { agents: [], tasks: ['jat-b'], reservations: [1] }
+		});
+	});
+
+	it('should return null for unknown cursors', () => {
+		const payload = makePayload();
+		const { prints } = registerPayload(payload);
+
+		expect(diffSince('not-a-cursor', payload, prints)).toBeNull();
+	});
+});
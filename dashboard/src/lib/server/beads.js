@@ -3,7 +3,35 @@
  * Wraps lib/beads.js for use in SvelteKit server routes
  */
 
-import { getTasks as getTasksFromBeads, getTaskById as getTaskByIdFromBeads } from '../../../../lib/beads.js';
+import {
+	getProjects as getProjectsFromBeads,
+	getIssuePrefix,
+	getTasks as getTasksFromBeads,
+	getTaskById as getTaskByIdFromBeads,
+	getProjectFromTaskId as getProjectFromTaskIdFromBeads,
+	getTaskStatusEvents as getTaskStatusEventsFromBeads
+} from '../../../../lib/beads.js';
+
+/**
+ * Get all projects with Beads databases
+ * @returns {Array<{name: string, path: string, dbPath: string, color: string|null}>} List of projects
+ */
+export function getProjects() {
+	return getProjectsFromBeads();
+}
+
+/**
+ * Get the project registry as the client sees it (see $lib/utils/projectUtils.ts)
+ * @returns {import('$lib/utils/projectUtils').ProjectInfo[]} Projects with their task ID prefix
+ */
+export function getProjectRegistry() {
+	return getProjectsFromBeads().map(project => ({
+		name: project.name,
+		path: project.path,
+		prefix: getIssuePrefix(project) ?? project.path.split('/').pop() ?? project.name,
+		color: project.color
+	}));
+}
 
 /**
  * Get all tasks from all projects
@@ -25,3 +53,21 @@ export function getTasks(options = {}) {
 export function getTaskById(taskId) {
 	return getTaskByIdFromBeads(taskId);
 }
+
+/**
+ * Get the project prefix of a task ID
+ * @param {string} taskId - Task ID (e.g. "jat-abc")
+ * @returns {string|null} Prefix (e.g. "jat") or null if malformed
+ */
+export function getProjectFromTaskId(taskId) {
+	return getProjectFromTaskIdFromBeads(taskId);
+}
+
+/**
+ * Get status history events for tasks (oldest first)
+ * @param {string|null} [taskId] - Only this task's events (default: all tasks)
+ * @returns {Array<{issue_id: string, event_type: string, actor: string, status: string, assignee: string|null, created_at: string, project: string}>} Events
+ */
+export function getTaskStatusEvents(taskId = null) {
+	return getTaskStatusEventsFromBeads(taskId);
+}
@@ -0,0 +1,224 @@
+/**
+ * Tests for the Beads query layer (lib/beads.js) over pooled connections
+ * (lib/db-pool.js), including a latency benchmark for getTasks()
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdirSync, mkdtempSync, renameSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getTasks, getTaskById } from '../../../../lib/beads.js';
+import { closeAllConnections, getConnection, getPooledPaths, prepare } from '../../../../lib/db-pool.js';
+import { parseTaskQuery } from '../../../../lib/task-query.js';
+
+const PROJECT_COUNT = 10;
+const TASKS_PER_PROJECT = 200;
+
+/** Warm getTasks() over all 2,000 tasks must stay under this (median of several runs) */
+const TARGET_MS = 100;
+
+const SCHEMA = `
+	CREATE TABLE issues (
+		id TEXT PRIMARY KEY,
+		title TEXT NOT NULL,
+		description TEXT NOT NULL DEFAULT '',
+		status TEXT NOT NULL DEFAULT 'open',
+		priority INTEGER NOT NULL DEFAULT 2,
+		issue_type TEXT NOT NULL DEFAULT 'task',
+		assignee TEXT,
+		created_at DATETIME NOT NULL,
+		updated_at DATETIME NOT NULL
+	);
+	CREATE TABLE dependencies (
+		issue_id TEXT NOT NULL,
+		depends_on_id TEXT NOT NULL,
+		type TEXT NOT NULL DEFAULT 'blocks',
+		PRIMARY KEY (issue_id, depends_on_id)
+	);
+	CREATE INDEX idx_dependencies_depends_on ON dependencies(depends_on_id);
+	CREATE TABLE labels (issue_id TEXT NOT NULL, label TEXT NOT NULL, PRIMARY KEY (issue_id, label));
+	CREATE TABLE comments (id INTEGER PRIMARY KEY, issue_id TEXT, author TEXT, text TEXT, created_at DATETIME);
+	CREATE TABLE config (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`;
+
+/** @type {string} */
+let root;
+/** @type {Record<string, string|undefined>} */
+const savedEnv = {};
+
+/**
+ * Create a project with a Beads database
+ * @param {number} index
+ * @returns {string} Database path
+ */
+function makeProject(index) {
+	const prefix = `p${index}`;
+	const dir = join(root, prefix, '.beads');
+	mkdirSync(dir, { recursive: true });
+
+	const dbPath = join(dir, 'beads.db');
+	const db = new Database(dbPath);
+	db.exec(SCHEMA);
+	db.prepare("INSERT INTO config (key, value) VALUES ('issue_prefix', ?)").run(prefix);
+
+	const insertIssue = db.prepare(
+		'INSERT INTO issues (id, title, status, priority, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+	);
+	const insertDep = db.prepare('INSERT INTO dependencies (issue_id, depends_on_id) VALUES (?, ?)');
+	const insertLabel = db.prepare('INSERT INTO labels (issue_id, label) VALUES (?, ?)');
+
+	db.transaction(() => {
+		for (let n = 0; n < TASKS_PER_PROJECT; n++) {
+			const id = `${prefix}-t${n}`;
+			const created = new Date(Date.UTC(2025, 10, 1, 0, n)).toISOString();
+			insertIssue.run(id, `Task ${n} of ${prefix}`, n % 3 === 0 ? 'closed' : 'open', n % 5, created, created);
+			insertLabel.run(id, 'backend');
+			insertLabel.run(id, `files:src/${prefix}/**`);
+
+			// Each task depends on the previous one; every tenth on a task in the next project
+			if (n > 0) insertDep.run(id, `${prefix}-t${n - 1}`);
+			if (n % 10 === 0) insertDep.run(id, `p${(index + 1) % PROJECT_COUNT}-t${n}`);
+		}
+	})();
+
+	db.close();
+	return dbPath;
+}
+
+/**
+ * getTasks(), with tasks typed loosely enough to inspect
+ * @param {Parameters<typeof getTasks>[0]} [options]
+ * @returns {any[]}
+ */
+function loadTasks(options) {
+	return getTasks(options);
+}
+
+beforeAll(() => {
+	root = mkdtempSync(join(tmpdir(), 'beads-query-'));
+	for (let i = 0; i < PROJECT_COUNT; i++) {
+		makeProject(i);
+	}
+
+	for (const key of ['JAT_PROJECT_ROOTS', 'JAT_PROJECTS_FILE']) {
+		savedEnv[key] = process.env[key];
+	}
+	process.env.JAT_PROJECT_ROOTS = root;
+	process.env.JAT_PROJECTS_FILE = join(root, 'no-registry.json');
+});
+
+afterAll(() => {
+	closeAllConnections();
+	for (const [key, value] of Object.entries(savedEnv)) {
+		if (value === undefined) delete process.env[key];
+		else process.env[key] = value;
+	}
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('getTasks', () => {
+	it('should load every task with labels, file scopes and dependencies', () => {
+		const tasks = loadTasks();
+		expect(tasks).toHaveLength(PROJECT_COUNT * TASKS_PER_PROJECT);
+
+		const task = tasks.find(t => t.id === 'p3-t20');
+		expect(task.labels).toEqual(['backend']);
+		expect(task.files).toEqual(['src/p3/**']);
+		expect(task.depends_on).toEqual([
+			{ id: 'p3-t19', type: 'blocks', title: 'Task 19 of p3', status: 'open', priority: 4 },
+			{ id: 'p4-t20', type: 'blocks', title: 'Task 20 of p4', status: 'open', priority: 0, project: 'p4' }
+		]);
+		expect(task.blocked_by).toEqual([
+			{ id: 'p3-t21', type: 'blocks', title: 'Task 21 of p3', status: 'closed', priority: 1 },
+			{ id: 'p2-t20', type: 'blocks', title: 'Task 20 of p2', status: 'open', priority: 0, project: 'p2' }
+		]);
+	});
+
+	it('should only attach dependencies to tasks matching the filters', () => {
+		const tasks = loadTasks({ status: 'closed' });
+
+		expect(tasks.every(t => t.status === 'closed')).toBe(true);
+		const task = tasks.find(t => t.id === 'p0-t3');
+		expect(task.depends_on.map((/** @type {{id: string}} */ d) => d.id)).toEqual(['p0-t2']);
+		expect(task.blocked_by.map((/** @type {{id: string}} */ d) => d.id)).toEqual(['p0-t4']);
+	});
+
+	it('should filter with a task query in SQL', () => {
+		const tasks = loadTasks({ query: parseTaskQuery('project:p2 status:closed priority<=1 label:backend') });
+
+		// Closed is every third task and priority n % 5, so n % 15 is 0 or 6
+		expect(tasks).toHaveLength(27);
+		expect(tasks.every(t => t.project === 'p2' && t.status === 'closed' && t.priority <= 1)).toBe(true);
+		expect(tasks.find(t => t.id === 'p2-t6').depends_on.map((/** @type {{id: string}} */ d) => d.id)).toEqual(['p2-t5']);
+	});
+
+	it('should match getTaskById for dependencies within a project', () => {
+		const fromList = loadTasks().find(t => t.id === 'p5-t7');
+		const single = /** @type {any} */ (getTaskById('p5-t7'));
+
+		expect(fromList.depends_on).toEqual(single.depends_on);
+		expect(fromList.blocked_by).toEqual(single.blocked_by);
+	});
+
+	it(`should load ${PROJECT_COUNT * TASKS_PER_PROJECT} tasks across ${PROJECT_COUNT} projects in under ${TARGET_MS}ms`, () => {
+		getTasks(); // Warm the pool
+
+		const timings = [];
+		for (let run = 0; run < 5; run++) {
+			const start = performance.now();
+			getTasks();
+			timings.push(performance.now() - start);
+		}
+		timings.sort((a, b) => a - b);
+
+		expect(timings[2]).toBeLessThan(TARGET_MS);
+	});
+});
+
+describe('connection pool', () => {
+	it('should keep one connection per database between calls', () => {
+		getTasks();
+		const dbPath = join(root, 'p0', '.beads', 'beads.db');
+		const connection = getConnection(dbPath);
+
+		getTasks();
+
+		expect(getConnection(dbPath)).toBe(connection);
+		expect(getPooledPaths().filter(path => path.startsWith(root))).toHaveLength(PROJECT_COUNT);
+	});
+
+	it('should keep the connection and its statements when the file is written to', () => {
+		const dbPath = join(root, 'p2', '.beads', 'beads.db');
+		loadTasks();
+		const connection = getConnection(dbPath);
+		const statement = prepare(dbPath, 'SELECT COUNT(*) AS count FROM issues');
+		const before = /** @type {{count: number}} */ (statement.get()).count;
+
+		// Write the way bd would, from another connection
+		const db = new Database(dbPath);
+		db.prepare("INSERT INTO issues (id, title, created_at, updated_at) VALUES ('p2-new', 'Added', '2025-11-20', '2025-11-20')").run();
+		db.close();
+
+		expect(loadTasks().filter(t => t.project === 'p2').map(t => t.id)).toContain('p2-new');
+		expect(getConnection(dbPath)).toBe(connection);
+		expect(prepare(dbPath, 'SELECT COUNT(*) AS count FROM issues')).toBe(statement);
+		expect(/** @type {{count: number}} */ (statement.get()).count).toBe(before + 1);
+	});
+
+	it('should reopen a database whose file was replaced', () => {
+		const dbPath = join(root, 'p1', '.beads', 'beads.db');
+		const connection = getConnection(dbPath);
+
+		// Rebuild the project the way `bd init` would: a new file in place of the old
+		renameSync(dbPath, `${dbPath}.old`);
+		const db = new Database(dbPath);
+		db.exec(SCHEMA);
+		db.prepare("INSERT INTO issues (id, title, created_at, updated_at) VALUES ('p1-new', 'Fresh', '2025-11-20', '2025-11-20')").run();
+		db.close();
+
+		expect(loadTasks().filter(t => t.project === 'p1').map(t => t.id)).toEqual(['p1-new']);
+		expect(connection.open).toBe(false);
+		expect(getConnection(dbPath)).not.toBe(connection);
+	});
+});
@@ -0,0 +1,236 @@
+/**
+ * Server-side spend budgets
+ * Evaluates the budgets in JAT_BUDGETS_FILE (default ~/.jat-budgets.json)
+ * against token usage across all Beads projects (see $lib/utils/budgets.ts
+ * for the file format), and alerts agents over 80% or 100% of a budget with
+ * an urgent Agent Mail message. Weeks start on JAT_WEEK_START (0-6 or a day
+ * name, default Sunday).
+ *
+ * Each alert goes out once per budget, period, level and agent: the alert
+ * thread (`budget:<key>:<period start>`) records who has been told. Agent
+ * Mail has no system identity, and agents can only message agents of their
+ * own project, so an alert is sent by the agent to itself.
+ */
+
+import { env } from '$env/dynamic/private';
+import { readFile } from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as os from 'os';
+import * as path from 'path';
+import { getProjects } from './beads.js';
+import { getAgents, getThreadMessages } from './agent-mail.js';
+import { buildSessionAgentMap, getAllSessionIds, getUsageBetween } from '$lib/utils/tokenUsage';
+import { describeBudget, evaluateBudgets, getBudgetPeriod, parseBudgetConfig } from '$lib/utils/budgets';
+import { parseWeekStartDay } from '$lib/utils/dateRange';
+import { formatCost, formatTokens } from '$lib/utils/numberFormat';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * @typedef {import('$lib/utils/budgets').Budget} Budget
+ * @typedef {import('$lib/utils/budgets').BudgetPeriod} BudgetPeriod
+ * @typedef {import('$lib/utils/budgets').BudgetStatus} BudgetStatus
+ * @typedef {import('$lib/utils/budgets').SpendEntry} SpendEntry
+ */
+
+/** How long evaluated statuses are reused (the banner polls every minute) */
+const STATUS_TTL_MS = 30_000;
+
+/** @type {{at: number, promise: Promise<BudgetStatus[]>} | null} */
+let cached = null;
+
+/**
+ * Day weeks start on, for weekly budgets and the weekly quota
+ * @returns {number} 0 = Sunday … 6 = Saturday
+ */
+export function getWeekStartDay() {
+	const day = parseWeekStartDay(env.JAT_WEEK_START);
+	if (day === null && env.JAT_WEEK_START) {
+		console.warn(`Ignoring invalid JAT_WEEK_START "${env.JAT_WEEK_START}", weeks start on Sunday`);
+	}
+	return day ?? 0;
+}
+
+/**
+ * Path of the budgets file
+ * @returns {string}
+ */
+export function getBudgetsPath() {
+	return env.JAT_BUDGETS_FILE || path.join(os.homedir(), '.jat-budgets.json');
+}
+
+/**
+ * Load the configured budgets (none if the file doesn't exist)
+ * @returns {Promise<Budget[]>}
+ * @throws {Error} If the file is not valid JSON or has invalid budgets
+ */
+export async function loadBudgets() {
+	const file = getBudgetsPath();
+
+	let content;
+	try {
+		content = await readFile(file, 'utf-8');
+	} catch (error) {
+		if (/** @type {NodeJS.ErrnoException} */ (error).code === 'ENOENT') return [];
+		throw error;
+	}
+
+	try {
+		return parseBudgetConfig(JSON.parse(content));
+	} catch (error) {
+		throw new Error(`Invalid budgets file ${file}: ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+/**
+ * Evaluate all budgets and send alerts for those at 80%/100%
+ *
+ * Results are reused for STATUS_TTL_MS, so concurrent requests neither
+ * re-read usage nor send duplicate alerts.
+ * @param {Object} [options]
+ * @param {boolean} [options.refresh] - Ignore the cached result
+ * @returns {Promise<BudgetStatus[]>} Statuses, most used first
+ */
+export function getBudgetStatuses(options = {}) {
+	if (!options.refresh && cached && Date.now() - cached.at < STATUS_TTL_MS) {
+		return cached.promise;
+	}
+
+	const promise = evaluate();
+	cached = { at: Date.now(), promise };
+	promise.catch(() => {
+		if (cached?.promise === promise) cached = null;
+	});
+	return promise;
+}
+
+/**
+ * @returns {Promise<BudgetStatus[]>}
+ */
+async function evaluate() {
+	const budgets = await loadBudgets();
+	if (budgets.length === 0) return [];
+
+	const now = new Date();
+	const weekStartDay = getWeekStartDay();
+	const periods = /** @type {BudgetPeriod[]} */ ([...new Set(budgets.map(budget => budget.period))]);
+	const spend = await collectSpend(periods, now, weekStartDay);
+	const statuses = evaluateBudgets(budgets, spend, now, weekStartDay);
+
+	await sendBudgetAlerts(statuses);
+	return statuses;
+}
+
+/**
+ * Sum usage per project and agent since the start of each period
+ * @param {BudgetPeriod[]} periods
+ * @param {Date} now
+ * @param {number} weekStartDay
+ * @returns {Promise<Record<BudgetPeriod, SpendEntry[]>>}
+ */
+async function collectSpend(periods, now, weekStartDay) {
+	/** @type {Record<BudgetPeriod, SpendEntry[]>} */
+	const spend = { daily: [], weekly: [] };
+
+	for (const project of getProjects()) {
+		const sessionIds = await getAllSessionIds(project.path);
+		if (sessionIds.length === 0) continue;
+
+		// Group sessions by agent (null: sessions no agent claimed)
+		const sessionAgents = await buildSessionAgentMap(project.path);
+		/** @type {Map<string|null, string[]>} */
+		const sessionsByAgent = new Map();
+		for (const sessionId of sessionIds) {
+			const agent = sessionAgents.get(sessionId) ?? null;
+			sessionsByAgent.set(agent, [...(sessionsByAgent.get(agent) ?? []), sessionId]);
+		}
+
+		for (const period of periods) {
+			const { start } = getBudgetPeriod(period, now, weekStartDay);
+			for (const [agent, agentSessions] of sessionsByAgent) {
+				const usage = await getUsageBetween(project.path, agentSessions, start.getTime(), now.getTime());
+				if (usage.total_tokens > 0) {
+					spend[period].push({ project: project.name, agent, cost: usage.cost, tokens: usage.total_tokens });
+				}
+			}
+		}
+	}
+
+	return spend;
+}
+
+/**
+ * Send an urgent Agent Mail alert to the agents behind each budget at 80%/100%
+ *
+ * Agent budgets alert their agent; project and global budgets alert every
+ * agent that spent in the period. Agents not registered in Agent Mail are
+ * skipped, and failures are logged rather than thrown.
+ * @param {BudgetStatus[]} statuses
+ */
+export async function sendBudgetAlerts(statuses) {
+	const alerts = statuses.filter(status => status.level !== 'ok');
+	if (alerts.length === 0) return;
+
+	/** @type {Map<string, string>} */
+	const agentProjects = new Map(getAgents().map(agent => [agent.name, agent.project_path]));
+	const amSend = path.join(os.homedir(), '.local', 'bin', 'am-send');
+
+	for (const status of alerts) {
+		const recipients = (status.budget.scope === 'agent' && status.target ? [status.target] : status.agents)
+			.filter(agent => agentProjects.has(agent));
+		if (recipients.length === 0) continue;
+
+		const thread = `budget:${status.key}:${status.period_start}`;
+		const subject = `[Budget] ${status.level === 'exceeded' ? 'Exceeded' : 'Warning'}: ${describeBudget(status)}`;
+
+		const alreadyTold = new Set(
+			getThreadMessages(thread)
+				.filter(message => message.subject === subject)
+				.flatMap(message => (message.recipients ?? []).map(/** @param {any} r */ r => r.agent_name))
+		);
+
+		for (const agent of recipients) {
+			if (alreadyTold.has(agent)) continue;
+
+			try {
+				await execFileAsync(amSend, [
+					subject,
+					formatAlertBody(status),
+					'--from', agent,
+					'--to', agent,
+					'--thread', thread,
+					'--importance', 'urgent',
+					'--project', /** @type {string} */ (agentProjects.get(agent))
+				]);
+			} catch (error) {
+				const { stderr, message } = /** @type {{stderr?: string, message: string}} */ (error);
+				console.error(`Failed to send budget alert to ${agent}:`, stderr || message);
+			}
+		}
+	}
+}
+
+/**
+ * @param {BudgetStatus} status
+ * @returns {string} Markdown body of an alert
+ */
+function formatAlertBody(status) {
+	const { budget } = status;
+	const limits = [];
+	if (budget.limit_usd) limits.push(`${formatCost(status.spent_usd)} of ${formatCost(budget.limit_usd)}`);
+	if (budget.limit_tokens) limits.push(`${formatTokens(status.spent_tokens)} of ${formatTokens(budget.limit_tokens)} tokens`);
+
+	const lines = [
+		`${describeBudget(status)}: ${Math.round(status.ratio * 100)}% used (${limits.join(', ')}).`,
+		'',
+		`Resets ${new Date(status.period_end).toLocaleString()}.`
+	];
+	if (status.agents.length > 0) {
+		lines.push(`Spent by: ${status.agents.join(', ')}.`);
+	}
+	if (status.level === 'exceeded') {
+		lines.push('', 'Finish or pause (/agent:pause) your current task before starting new work.');
+	}
+	return lines.join('\n');
+}
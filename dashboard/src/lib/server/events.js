@@ -0,0 +1,241 @@
+/**
+ * Server-side change feed
+ * Watches the Agent Mail and Beads databases and pushes typed deltas to
+ * subscribers (the /api/events stream)
+ *
+ * One watcher set is shared by every subscriber, so open tabs no longer each
+ * re-read every database on a timer. On a change the databases are read once,
+ * diffed against the last snapshot for each project filter in use, and the
+ * resulting events are fanned out.
+ */
+
+import { watch, readdirSync, statSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { getAgents, getReservations, getMessagesSince, getLatestMessageId, AGENT_MAIL_DB_PATH } from './agent-mail.js';
+import { getTasks } from './beads.js';
+import { buildAgentStats } from './orchestration.js';
+import { diffSnapshots } from '$lib/utils/agentEvents';
+import { getProjects, getProjectFromTaskId } from '../../../../lib/beads.js';
+
+/** Wait this long after the last file change before reading (writes come in bursts) */
+const DEBOUNCE_MS = 250;
+
+/** Re-read at least this often; reservations expire without any write */
+const RESYNC_INTERVAL_MS = 30000;
+
+/** mtime polling interval when fs.watch is unavailable */
+const FALLBACK_POLL_MS = 2000;
+
+/** Matches SQLite database files and their WAL/journal companions */
+const DB_FILE_PATTERN = /\.db(-wal|-journal)?$/;
+
+/**
+ * @typedef {Object} Subscriber
+ * @property {string|null} projectName - Task filter (task ID prefix), as in /api/agents?project=
+ * @property {(event: import('$lib/utils/agentEvents').AgentEvent) => void} listener
+ */
+
+/** @type {Set<Subscriber>} */
+const subscribers = new Set();
+
+/** Last snapshot per project filter ('' = all projects) */
+const snapshots = new Map();
+
+/** @type {Array<{ close: () => void }>} */
+let watchers = [];
+/** @type {ReturnType<typeof setTimeout> | null} */
+let debounceTimer = null;
+/** @type {ReturnType<typeof setInterval> | null} */
+let resyncTimer = null;
+let lastMessageId = 0;
+
+/**
+ * Build the snapshot one project filter sees
+ * @param {{agents: any[], reservations: any[], tasks: any[]}} raw - Unfiltered data
+ * @param {string|null} projectName - Task ID prefix to filter by
+ */
+function buildSnapshot(raw, projectName) {
+	// Same scoping as /api/agents: agents and reservations span all projects,
+	// only tasks (and the agent stats derived from them) are filtered
+	const tasks = projectName
+		? raw.tasks.filter(t => getProjectFromTaskId(t.id) === projectName)
+		: raw.tasks;
+
+	return {
+		agents: buildAgentStats(raw.agents, raw.reservations, tasks, raw),
+		tasks,
+		reservations: raw.reservations
+	};
+}
+
+function readRaw() {
+	return {
+		agents: getAgents(null),
+		reservations: getReservations(null, null),
+		tasks: getTasks({})
+	};
+}
+
+/**
+ * Re-read the databases and notify subscribers of what changed
+ */
+function refresh() {
+	debounceTimer = null;
+	if (subscribers.size === 0) return;
+
+	const raw = readRaw();
+
+	for (const key of snapshots.keys()) {
+		const next = buildSnapshot(raw, key || null);
+		const events = diffSnapshots(snapshots.get(key), next);
+		snapshots.set(key, next);
+
+		if (events.length === 0) continue;
+		for (const subscriber of subscribers) {
+			if ((subscriber.projectName ?? '') !== key) continue;
+			for (const event of events) {
+				subscriber.listener(event);
+			}
+		}
+	}
+
+	// Messages aren't project-scoped, like agents
+	const messages = getMessagesSince(lastMessageId);
+	if (messages.length > 0) {
+		lastMessageId = messages[messages.length - 1].id;
+		for (const message of messages) {
+			for (const subscriber of subscribers) {
+				subscriber.listener({ type: 'message-sent', message });
+			}
+		}
+	}
+}
+
+function scheduleRefresh() {
+	if (debounceTimer) {
+		clearTimeout(debounceTimer);
+	}
+	debounceTimer = setTimeout(refresh, DEBOUNCE_MS);
+}
+
+/**
+ * Watch a directory for writes to database files
+ * @param {string} dir - Directory to watch
+ * @param {(filename: string) => boolean} matches - Which files count
+ * @returns {{ close: () => void }}
+ */
+function watchDatabases(dir, matches) {
+	try {
+		const watcher = watch(dir, { persistent: false }, (eventType, filename) => {
+			if (filename && matches(filename.toString())) {
+				scheduleRefresh();
+			}
+		});
+		watcher.on('error', (error) => {
+			console.error(`File watcher for ${dir} failed, falling back to polling:`, error);
+			watcher.close();
+			const index = watchers.indexOf(watcher);
+			if (index !== -1) {
+				watchers[index] = pollDatabases(dir, matches);
+			}
+		});
+		return watcher;
+	} catch (error) {
+		console.error(`Cannot watch ${dir}, falling back to polling:`, error);
+		return pollDatabases(dir, matches);
+	}
+}
+
+/**
+ * Poll database file mtimes (for filesystems without fs.watch support)
+ * @param {string} dir - Directory containing the files
+ * @param {(filename: string) => boolean} matches - Which files count
+ * @returns {{ close: () => void }}
+ */
+function pollDatabases(dir, matches) {
+	let last = '';
+	const timer = setInterval(() => {
+		let current = '';
+		try {
+			current = readdirSync(dir)
+				.filter(matches)
+				.sort()
+				.map(name => `${name}:${statSync(join(dir, name)).mtimeMs}`)
+				.join(',');
+		} catch {
+			// Directory gone or unreadable; treat as unchanged
+			return;
+		}
+		if (last && current !== last) {
+			scheduleRefresh();
+		}
+		last = current;
+	}, FALLBACK_POLL_MS);
+
+	return { close: () => clearInterval(timer) };
+}
+
+function start() {
+	lastMessageId = getLatestMessageId();
+
+	// Agent Mail lives in the home directory; only its own files count
+	const mailFile = basename(AGENT_MAIL_DB_PATH);
+	watchers.push(watchDatabases(dirname(AGENT_MAIL_DB_PATH), name => name.startsWith(mailFile)));
+
+	// Projects added after this point are picked up on the next start
+	for (const project of getProjects()) {
+		watchers.push(watchDatabases(dirname(project.dbPath), name => DB_FILE_PATTERN.test(name)));
+	}
+
+	resyncTimer = setInterval(scheduleRefresh, RESYNC_INTERVAL_MS);
+}
+
+function stop() {
+	for (const watcher of watchers) {
+		watcher.close();
+	}
+	watchers = [];
+	snapshots.clear();
+
+	if (debounceTimer) {
+		clearTimeout(debounceTimer);
+		debounceTimer = null;
+	}
+	if (resyncTimer) {
+		clearInterval(resyncTimer);
+		resyncTimer = null;
+	}
+}
+
+/**
+ * Subscribe to change events
+ *
+ * Watchers start with the first subscriber and stop with the last one.
+ * @param {string|null} projectName - Only report tasks with this ID prefix (null for all)
+ * @param {(event: import('$lib/utils/agentEvents').AgentEvent) => void} listener - Called once per event
+ * @returns {() => void} - Unsubscribe function
+ */
+export function subscribeToChanges(projectName, listener) {
+	if (subscribers.size === 0) {
+		start();
+	}
+
+	// Baseline for this filter, so the first diff only reports real changes
+	const key = projectName ?? '';
+	if (!snapshots.has(key)) {
+		snapshots.set(key, buildSnapshot(readRaw(), projectName));
+	}
+
+	/** @type {Subscriber} */
+	const subscriber = { projectName, listener };
+	subscribers.add(subscriber);
+
+	return () => {
+		subscribers.delete(subscriber);
+		if (subscribers.size === 0) {
+			stop();
+		} else if (![...subscribers].some(s => (s.projectName ?? '') === key)) {
+			snapshots.delete(key);
+		}
+	};
+}
@@ -0,0 +1,71 @@
+/**
+ * Server-side orchestration summaries
+ * Per-agent stats shared by /api/agents and /api/events
+ *
+ * Task summaries and reservation grouping live in $lib/utils/agentEvents.ts,
+ * since the agents store recomputes them when applying events.
+ */
+
+import { getBeadsActivities } from './agent-mail.js';
+import { trackAgentStatus } from './agentStatus.js';
+
+/**
+ * Add per-agent counts, activity state, status and recent activities
+ *
+ * Counts follow the (possibly filtered) `reservations` and `tasks`; status is
+ * computed from `all`, so filtering a response never changes an agent's
+ * status or records a spurious transition.
+ * @param {any[]} agents - Agents from getAgents()
+ * @param {any[]} reservations - Active reservations from getReservations()
+ * @param {any[]} tasks - Tasks from getTasks()
+ * @param {{reservations: any[], tasks: any[]}} [all] - Unfiltered reservations and tasks
+ * @returns {any[]} - Agents with reservation_count, task_count, open_tasks,
+ *   in_progress_tasks, active, status, status_since and activities
+ */
+export function buildAgentStats(agents, reservations, tasks, all = { reservations, tasks }) {
+	const now = Date.now();
+
+	return agents.map(agent => {
+		// Count reservations per agent
+		const agentReservations = reservations.filter(r => r.agent_name === agent.name);
+
+		// Count tasks assigned to agent
+		const agentTasks = tasks.filter(t => t.assignee === agent.name);
+		const openTasks = agentTasks.filter(t => t.status === 'open').length;
+		const inProgressTasks = agentTasks.filter(t => t.status === 'in_progress').length;
+
+		// Determine if agent is active based on reservations or active tasks
+		const hasActiveReservations = agentReservations.some(r => {
+			const expiresAt = new Date(r.expires_ts);
+			return expiresAt > new Date() && !r.released_ts;
+		});
+
+		// Get recent activities from Beads task history (last 10 task updates)
+		let activities = [];
+		try {
+			activities = getBeadsActivities(agent.name, tasks);
+		} catch (error) {
+			console.error(`Failed to fetch activities for agent ${agent.name}:`, error);
+			// Continue with empty activities array
+		}
+
+		const { status, status_since } = trackAgentStatus(
+			agent,
+			all.tasks.filter(t => t.assignee === agent.name && t.status === 'in_progress'),
+			all.reservations.filter(r => r.agent_name === agent.name),
+			now
+		);
+
+		return {
+			...agent,
+			reservation_count: agentReservations.length,
+			task_count: agentTasks.length,
+			open_tasks: openTasks,
+			in_progress_tasks: inProgressTasks,
+			active: hasActiveReservations || inProgressTasks > 0,
+			status,
+			status_since,
+			activities: activities
+		};
+	});
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for the project registry (lib/project-registry.js)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+	discoverProjects,
+	loadProjectRegistryConfig,
+	normalizeRegistryConfig
+} from '../../../../lib/project-registry.js';
+
+/** @type {string} */
+let home;
+
+/**
+ * Create a project directory with an (empty) Beads database
+ * @param {string} relativePath - Below the temporary home
+ */
+function makeProject(relativePath) {
+	const dir = join(home, relativePath, '.beads');
+	mkdirSync(dir, { recursive: true });
+	writeFileSync(join(dir, 'beads.db'), '');
+}
+
+/**
+ * @param {any} raw
+ * @param {string} [roots]
+ */
+function discover(raw, roots) {
+	return discoverProjects(normalizeRegistryConfig(raw, { home, roots })).map(project => ({
+		name: project.name,
+		path: project.path.slice(home.length + 1),
+		color: project.color
+	}));
+}
+
+beforeAll(() => {
+	home = mkdtempSync(join(tmpdir(), 'project-registry-'));
+	makeProject('code/alpha');
+	makeProject('code/beta');
+	makeProject('code/jomarchy-agent-tools');
+	makeProject('work/acme');
+	makeProject('work/acme/packages/api');
+	makeProject('work/acme/node_modules/dep');
+	makeProject('work/archive/legacy');
+	makeProject('vendor/billing');
+	mkdirSync(join(home, 'code', 'not-a-project'), { recursive: true });
+});
+
+afterAll(() => {
+	rmSync(home, { recursive: true, force: true });
+});
+
+describe('normalizeRegistryConfig', () => {
+	it('should default to direct children of ~/code', () => {
+		const config = normalizeRegistryConfig(null, { home });
+
+		expect(config).toEqual({
+			roots: [join(home, 'code')],
+			depth: 1,
+			include: ['**'],
+			exclude: [],
+			projects: {}
+		});
+	});
+
+	it('should let JAT_PROJECT_ROOTS override the configured roots', () => {
+		const config = normalizeRegistryConfig({ roots: ['~/code'] }, { home, roots: '~/work: /srv/repos' });
+
+		expect(config.roots).toEqual([join(home, 'work'), '/srv/repos']);
+	});
+
+	it('should key path settings by absolute path', () => {
+		const config = normalizeRegistryConfig({ projects: { '~/vendor/billing': { color: '#f59e0b' }, beta: { hidden: true } } }, { home });
+
+		expect(config.projects).toEqual({
+			[join(home, 'vendor', 'billing')]: { alias: undefined, color: '#f59e0b', hidden: undefined },
+			beta: { alias: undefined, color: undefined, hidden: true }
+		});
+	});
+
+	it('should reject invalid fields', () => {
+		expect(() => normalizeRegistryConfig([], { home })).toThrow('must be a JSON object');
+		expect(() => normalizeRegistryConfig({ roots: '~/code' }, { home })).toThrow('"roots" must be a list');
+		expect(() => normalizeRegistryConfig({ depth: 0 }, { home })).toThrow('"depth" must be a whole number');
+		expect(() => normalizeRegistryConfig({ projects: { a: { color: 'blue' } } }, { home })).toThrow('hex color');
+		expect(() => normalizeRegistryConfig({ projects: { a: { alias: '' } } }, { home })).toThrow('"alias"');
+	});
+});
+
+describe('discoverProjects', () => {
+	it('should find direct children with a Beads database by default', () => {
+		expect(discover(null).map(p => p.name)).toEqual(['alpha', 'beta', 'jomarchy-agent-tools']);
+	});
+
+	it('should search nested directories up to the depth, skipping node_modules', () => {
+		const projects = discover({ roots: ['~/work'], depth: 3 });
+
+		expect(projects.map(p => p.name)).toEqual(['acme', 'acme/packages/api', 'archive/legacy']);
+		expect(discover({ roots: ['~/work'], depth: 2 }).map(p => p.name)).toEqual(['acme', 'archive/legacy']);
+	});
+
+	it('should apply include and exclude globs to paths relative to the root', () => {
+		const projects = discover({ roots: ['~/work'], depth: 3, include: ['acme/**', 'archive/*'], exclude: ['archive/**'] });
+
+		expect(projects.map(p => p.name)).toEqual(['acme', 'acme/packages/api']);
+	});
+
+	it('should apply aliases, colors and hidden flags', () => {
+		const projects = discover({
+			projects: {
+				'jomarchy-agent-tools': { alias: 'jat', color: '#3b82f6' },
+				beta: { hidden: true },
+				'~/vendor/billing': { color: '#f59e0b' }
+			}
+		});
+
+		expect(projects).toEqual([
+			{ name: 'alpha', path: 'code/alpha', color: null },
+			{ name: 'jat', path: 'code/jomarchy-agent-tools', color: '#3b82f6' },
+			{ name: 'billing', path: 'vendor/billing', color: '#f59e0b' }
+		]);
+	});
+
+	it('should keep the first of two projects with the same name', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const projects = discover({ projects: { alpha: { alias: 'shared' }, beta: { alias: 'shared' } } });
+
+		expect(projects.map(p => p.path)).toEqual(['code/alpha', 'code/jomarchy-agent-tools']);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('"shared"'));
+		warn.mockRestore();
+	});
+});
+
+describe('loadProjectRegistryConfig', () => {
+	it('should fall back to the defaults for an invalid file', () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const configPath = join(home, 'projects.json');
+		writeFileSync(configPath, JSON.stringify({ depth: 'deep' }));
+
+		expect(loadProjectRegistryConfig(configPath).depth).toBe(1);
+		expect(error).toHaveBeenCalledWith(expect.stringContaining(configPath), expect.stringContaining('"depth"'));
+		error.mockRestore();
+	});
+});
@@ -0,0 +1,127 @@
+/**
+ * Server-side task cost attribution
+ * Charges token usage to Beads tasks: the windows in which agents worked on
+ * a task come from $lib/utils/taskCost.ts, and each agent's sessions
+ * (buildSessionAgentMap) are summed over those windows
+ */
+
+import { getTaskLifecycleMessages } from './agent-mail.js';
+import { getTaskStatusEvents } from './beads.js';
+import { buildSessionAgentMap, getUsageBetween } from '$lib/utils/tokenUsage';
+import { mergeModelUsage } from '$lib/utils/modelPricing';
+import {
+	deriveWorkIntervals,
+	rankTaskCosts,
+	signalsFromMessages,
+	signalsFromStatusEvents
+} from '$lib/utils/taskCost';
+
+/**
+ * @typedef {import('$lib/utils/taskCost').TaskCost} TaskCost
+ * @typedef {import('$lib/utils/taskCost').WorkSignal} WorkSignal
+ * @typedef {import('$lib/utils/taskCost').TaskTimes & {id: string, project_path?: string}} CostedTask
+ */
+
+/**
+ * Get the token usage and cost charged to one task
+ * @param {CostedTask} task - Task from getTaskById
+ * @returns {Promise<TaskCost>}
+ */
+export async function getTaskCost(task) {
+	const signals = [
+		...signalsFromMessages(getTaskLifecycleMessages(task.id)),
+		...signalsFromStatusEvents(getTaskStatusEvents(task.id))
+	];
+	return costTask(task, signals, new Map());
+}
+
+/**
+ * Get costs for many tasks, most expensive first
+ * @param {CostedTask[]} tasks - Tasks from getTasks
+ * @param {Object} [options]
+ * @param {number} [options.limit] - Keep only the most expensive tasks
+ * @returns {Promise<TaskCost[]>} Tasks with usage (tasks without any are left out)
+ */
+export async function getTaskCosts(tasks, options = {}) {
+	/** @type {Map<string, WorkSignal[]>} */
+	const signalsByTask = new Map();
+	/** @param {string} taskId @param {WorkSignal[]} signals */
+	const addSignals = (taskId, signals) => {
+		signalsByTask.set(taskId, [...(signalsByTask.get(taskId) ?? []), ...signals]);
+	};
+
+	for (const message of getTaskLifecycleMessages()) {
+		addSignals(message.thread_id, signalsFromMessages([message]));
+	}
+	for (const event of getTaskStatusEvents()) {
+		addSignals(event.issue_id, signalsFromStatusEvents([event]));
+	}
+
+	/** @type {Map<string, Promise<Map<string, string>>>} */
+	const sessionMaps = new Map();
+	const costs = [];
+	for (const task of tasks) {
+		const signals = signalsByTask.get(task.id);
+		if (!signals) continue;
+		costs.push(await costTask(task, signals, sessionMaps));
+	}
+
+	return rankTaskCosts(costs, options.limit);
+}
+
+/**
+ * Sum usage over a task's work windows
+ * @param {CostedTask} task
+ * @param {WorkSignal[]} signals
+ * @param {Map<string, Promise<Map<string, string>>>} sessionMaps - Session → agent maps per project (filled as needed)
+ * @returns {Promise<TaskCost>}
+ */
+async function costTask(task, signals, sessionMaps) {
+	/** @type {TaskCost} */
+	const cost = {
+		task_id: task.id,
+		total_tokens: 0,
+		tokens: { input: 0, cache_creation: 0, cache_read: 0, output: 0 },
+		cost: 0,
+		byModel: {},
+		agents: [],
+		intervals: []
+	};
+
+	const intervals = deriveWorkIntervals(task, signals);
+	if (intervals.length === 0 || !task.project_path) return cost;
+
+	if (!sessionMaps.has(task.project_path)) {
+		sessionMaps.set(task.project_path, buildSessionAgentMap(task.project_path));
+	}
+	const sessionAgents = await /** @type {Promise<Map<string, string>>} */ (sessionMaps.get(task.project_path));
+
+	/** @type {Map<string, number>} */
+	const costByAgent = new Map();
+
+	for (const interval of intervals) {
+		const sessionIds = [...sessionAgents]
+			.filter(([, agent]) => agent === interval.agent)
+			.map(([sessionId]) => sessionId);
+
+		const usage = await getUsageBetween(
+			task.project_path,
+			sessionIds,
+			Date.parse(interval.start),
+			Date.parse(interval.end)
+		);
+
+		cost.tokens.input += usage.input_tokens;
+		cost.tokens.cache_creation += usage.cache_creation_input_tokens;
+		cost.tokens.cache_read += usage.cache_read_input_tokens;
+		cost.tokens.output += usage.output_tokens;
+		cost.total_tokens += usage.total_tokens;
+		cost.cost += usage.cost;
+		mergeModelUsage(cost.byModel, usage.byModel);
+		cost.intervals.push({ ...interval, total_tokens: usage.total_tokens, cost: usage.cost });
+		costByAgent.set(interval.agent, (costByAgent.get(interval.agent) ?? 0) + usage.cost);
+	}
+
+	cost.agents = [...costByAgent].sort((a, b) => b[1] - a[1]).map(([agent]) => agent);
+	return cost;
+}
@@ -0,0 +1,500 @@
+/**
+ * Task mutations
+ * Creates and changes Beads tasks through the bd CLI, run with argument
+ * arrays (execFile, no shell) so titles, descriptions and labels reach bd
+ * exactly as given: quotes, backticks, $(...) and newlines included.
+ *
+ * Every function resolves to a result instead of throwing:
+ *   { ok: true, task }                 - the task as getTaskById() now sees it
+ *   { ok: false, error: MutationError } - see MUTATION_ERROR_STATUS for HTTP statuses
+ *
+ * Flag values are passed as --flag=value, so values starting with "-" can't
+ * be taken for flags, and task IDs are checked before they reach bd.
+ */
+
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { promisify } from 'util';
+import { toFileScopeLabels } from '../../../../lib/beads.js';
+import { getTaskById, getProjectRegistry } from './beads.js';
+import { findProject } from '$lib/utils/projectUtils';
+
+const execFileAsync = promisify(execFile);
+
+/** bd gets this long per command before it is killed */
+const BD_TIMEOUT_MS = 30_000;
+
+export const TASK_TYPES = ['task', 'bug', 'feature', 'epic', 'chore'];
+export const TASK_STATUSES = ['open', 'in_progress', 'blocked', 'closed'];
+export const DEPENDENCY_TYPES = ['blocks', 'related', 'parent-child', 'discovered-from'];
+
+/** Task IDs bd can be given safely as positional arguments (e.g. jat-abc, jat-abc.1) */
+const TASK_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/** Project names and prefixes; no path separators, so ~/code/<name> stays inside ~/code */
+const PROJECT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/**
+ * @typedef {'validation_error' | 'not_found' | 'bd_failed' | 'bd_unavailable' | 'server_error'} MutationErrorCode
+ */
+
+/**
+ * @typedef {Object} MutationError
+ * @property {MutationErrorCode} code
+ * @property {string} message
+ * @property {string[]} [errors] - Each invalid field, for validation_error (e.g. "priority: Must be …")
+ * @property {string} [stderr] - bd's error output, for bd_failed
+ * @property {string} [taskId] - Task that was created or changed, when reading it back failed
+ */
+
+/**
+ * @typedef {{ok: true, task: any, error?: undefined} | {ok: false, task?: undefined, error: MutationError}} MutationResult
+ */
+
+/**
+ * @typedef {Object} CreateTaskInput
+ * @property {string} title
+ * @property {string} type - One of TASK_TYPES
+ * @property {number|string} [priority] - 0-3 (default 2)
+ * @property {string} [description]
+ * @property {string[]} [labels]
+ * @property {string[]} [files] - File scope globs, stored as files:<glob> labels
+ * @property {string[]} [deps] - IDs of tasks the new task depends on
+ * @property {string} [assignee]
+ * @property {string} [project] - Project name or prefix to create the task in (default: bd's own lookup from the server's directory)
+ */
+
+/**
+ * @typedef {Object} TaskChanges
+ * @property {string} [title]
+ * @property {string|null} [description] - null or '' clears it
+ * @property {number|string} [priority] - 0-3
+ * @property {string} [status] - One of TASK_STATUSES
+ * @property {string|null} [assignee] - null or '' unassigns
+ */
+
+/**
+ * HTTP status for each error code
+ * @type {Record<MutationErrorCode, number>}
+ */
+export const MUTATION_ERROR_STATUS = {
+	validation_error: 400,
+	not_found: 404,
+	bd_failed: 400,
+	bd_unavailable: 503,
+	server_error: 500
+};
+
+/**
+ * @param {MutationErrorCode} code
+ * @param {string} message
+ * @param {Omit<MutationError, 'code' | 'message'>} [extra]
+ * @returns {MutationResult}
+ */
+function failure(code, message, extra = {}) {
+	return { ok: false, error: { code, message, ...extra } };
+}
+
+/**
+ * Validation failure listing every invalid field
+ * @param {string[]} errors
+ * @returns {MutationResult}
+ */
+function invalid(errors) {
+	return failure('validation_error', errors.length === 1 ? errors[0] : 'Validation failed', { errors });
+}
+
+/**
+ * @param {unknown} value
+ * @returns {value is string}
+ */
+function isTaskId(value) {
+	return typeof value === 'string' && TASK_ID_PATTERN.test(value);
+}
+
+/**
+ * @param {unknown} value
+ * @returns {number|null} Priority 0-3, or null if invalid
+ */
+function toPriority(value) {
+	const priority = typeof value === 'number' ? value : parseInt(String(value), 10);
+	return Number.isInteger(priority) && priority >= 0 && priority <= 3 ? priority : null;
+}
+
+/**
+ * Trimmed non-empty strings of an array
+ * @param {unknown[]} values
+ * @returns {string[]}
+ */
+function cleanStrings(values) {
+	return values
+		.filter(value => typeof value === 'string' && value.trim())
+		.map(value => /** @type {string} */ (value).trim());
+}
+
+/**
+ * Check and normalise the input of createTask()
+ * @param {CreateTaskInput} input
+ * @returns {{args: string[], errors?: undefined} | {args?: undefined, errors: string[]}}
+ *   bd create arguments (see buildCreateArgs), or what's wrong with the input
+ */
+function validateCreate(input) {
+	/** @type {string[]} */
+	const errors = [];
+
+	if (typeof input.title !== 'string' || !input.title.trim()) {
+		errors.push('title: Must be a non-empty string');
+	}
+	if (typeof input.type !== 'string' || !TASK_TYPES.includes(input.type.trim().toLowerCase())) {
+		errors.push(`type: Must be one of: ${TASK_TYPES.join(', ')}`);
+	}
+	if (input.priority !== undefined && input.priority !== null && toPriority(input.priority) === null) {
+		errors.push('priority: Must be 0 (P0), 1 (P1), 2 (P2), or 3 (P3)');
+	}
+	if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+		errors.push('description: Must be a string');
+	}
+	if (input.assignee !== undefined && input.assignee !== null && typeof input.assignee !== 'string') {
+		errors.push('assignee: Must be a string');
+	}
+	if (input.project !== undefined && input.project !== null && input.project !== '') {
+		if (typeof input.project !== 'string' || !PROJECT_NAME_PATTERN.test(input.project.trim())) {
+			errors.push('project: Must be a project name or prefix (letters, digits, ".", "_" and "-")');
+		}
+	}
+
+	/** @type {string[]} */
+	let labels = [];
+	if (input.labels !== undefined && input.labels !== null) {
+		if (!Array.isArray(input.labels)) {
+			errors.push('labels: Must be an array of strings');
+		} else {
+			labels = cleanStrings(input.labels);
+			// bd create takes labels as one comma-separated list
+			if (labels.some(label => label.includes(','))) {
+				errors.push('labels: Labels can\'t contain commas');
+			}
+		}
+	}
+
+	if (input.files !== undefined && input.files !== null) {
+		if (!Array.isArray(input.files)) {
+			errors.push('files: Must be an array of glob patterns (e.g., ["src/lib/**"])');
+		} else {
+			try {
+				labels.push(...toFileScopeLabels(cleanStrings(input.files)));
+			} catch (err) {
+				errors.push(`files: ${/** @type {Error} */ (err).message}`);
+			}
+		}
+	}
+
+	/** @type {string[]} */
+	let deps = [];
+	if (input.deps !== undefined && input.deps !== null) {
+		deps = Array.isArray(input.deps) ? cleanStrings(input.deps) : [];
+		if (!Array.isArray(input.deps) || !deps.every(isTaskId)) {
+			errors.push('deps: Must be an array of task IDs (e.g., ["jat-abc", "jat-xyz"])');
+		}
+	}
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+
+	return {
+		args: buildCreateArgs({
+			title: input.title.trim(),
+			type: input.type.trim().toLowerCase(),
+			priority: toPriority(input.priority ?? 2) ?? 2,
+			description: input.description?.trim() || undefined,
+			labels,
+			deps,
+			assignee: input.assignee?.trim() || undefined
+		})
+	};
+}
+
+/**
+ * Arguments for `bd create` (validated input)
+ * @param {{title: string, type: string, priority: number, description?: string, labels?: string[], deps?: string[], assignee?: string}} fields
+ * @returns {string[]}
+ */
+export function buildCreateArgs(fields) {
+	const args = ['create', `--type=${fields.type}`, `--priority=${fields.priority}`];
+
+	if (fields.description) args.push(`--description=${fields.description}`);
+	if (fields.labels?.length) args.push(`--labels=${fields.labels.join(',')}`);
+	if (fields.deps?.length) args.push(`--deps=${fields.deps.join(',')}`);
+	if (fields.assignee) args.push(`--assignee=${fields.assignee}`);
+
+	// The title goes after "--" so one starting with "-" isn't read as a flag
+	args.push('--json', '--', fields.title);
+	return args;
+}
+
+/**
+ * Arguments for `bd update` (validated changes)
+ * @param {string} taskId
+ * @param {TaskChanges} changes
+ * @returns {string[]} Arguments, or [] if nothing changes
+ */
+export function buildUpdateArgs(taskId, changes) {
+	const args = [];
+
+	if (changes.title !== undefined) args.push(`--title=${changes.title.trim()}`);
+	if (changes.description !== undefined) args.push(`--description=${changes.description?.trim() ?? ''}`);
+	if (changes.priority !== undefined) args.push(`--priority=${toPriority(changes.priority)}`);
+	if (changes.status !== undefined) args.push(`--status=${changes.status}`);
+	if (changes.assignee !== undefined) args.push(`--assignee=${changes.assignee?.trim() ?? ''}`);
+
+	return args.length > 0 ? ['update', taskId, ...args] : [];
+}
+
+/**
+ * Run bd in a project directory
+ * @param {string[]} args
+ * @param {string} [cwd] - Project directory (default: the server's)
+ * @returns {Promise<{stdout: string, error?: undefined} | {stdout?: undefined, error: MutationError}>}
+ */
+async function runBd(args, cwd) {
+	try {
+		const { stdout } = await execFileAsync('bd', args, { cwd, timeout: BD_TIMEOUT_MS });
+		return { stdout };
+	} catch (err) {
+		const { code, stderr, message } = /** @type {{code?: string|number, stderr?: string, message: string}} */ (err);
+
+		if (code === 'ENOENT') {
+			return { error: { code: 'bd_unavailable', message: 'bd is not installed or not on PATH' } };
+		}
+
+		const output = (stderr ?? '').trim();
+		console.error(`bd ${args[0]} failed:`, output || message);
+		return {
+			error: {
+				code: 'bd_failed',
+				message: output.split('\n').find(line => line.includes('Error')) || output || message,
+				stderr: output
+			}
+		};
+	}
+}
+
+/**
+ * The task as it is now, after a change
+ * @param {string} taskId
+ * @returns {MutationResult}
+ */
+function reload(taskId) {
+	const task = getTaskById(taskId);
+	return task
+		? { ok: true, task }
+		: failure('server_error', `Task ${taskId} was changed but could not be read back`, { taskId });
+}
+
+/**
+ * Find an existing task, for commands run in its project
+ * @param {unknown} taskId
+ * @returns {{task: any, error?: undefined} | {task?: undefined, error: MutationResult}}
+ */
+function findTask(taskId) {
+	if (!isTaskId(taskId)) {
+		return { error: invalid([`id: Not a valid task ID: ${String(taskId)}`]) };
+	}
+	const task = getTaskById(taskId);
+	if (!task) {
+		return { error: failure('not_found', `Task '${taskId}' not found`) };
+	}
+	return { task };
+}
+
+/**
+ * Run a bd command against an existing task and return the task afterwards
+ * @param {any} task - From getTaskById()
+ * @param {string[]} args
+ * @returns {Promise<MutationResult>}
+ */
+async function mutate(task, args) {
+	const result = await runBd(args, task.project_path);
+	if (result.error) {
+		return { ok: false, error: result.error };
+	}
+	return reload(task.id);
+}
+
+/**
+ * Create a task
+ * @param {CreateTaskInput} input
+ * @returns {Promise<MutationResult>} The new task
+ */
+export async function createTask(input) {
+	const validated = validateCreate(input ?? /** @type {CreateTaskInput} */ ({}));
+	if (validated.errors) {
+		return invalid(validated.errors);
+	}
+
+	let cwd;
+	if (input.project && input.project.trim()) {
+		const project = input.project.trim();
+		cwd = findProject(project, getProjectRegistry())?.path ?? `${process.env.HOME}/code/${project}`;
+		if (!existsSync(cwd)) {
+			return invalid([`project: Project directory not found: ${cwd}`]);
+		}
+	}
+
+	const result = await runBd(validated.args, cwd);
+	if (result.error) {
+		return { ok: false, error: result.error };
+	}
+
+	/** @type {string|undefined} */
+	let taskId;
+	try {
+		taskId = JSON.parse(result.stdout).id;
+	} catch {
+		// Older bd without --json output: "✓ Created issue: jat-abc"
+		taskId = result.stdout.match(/Created issue: ([A-Za-z0-9_.-]+)/)?.[1];
+	}
+	if (!taskId) {
+		console.error('Failed to parse task ID from bd create output:', result.stdout);
+		return failure('server_error', 'Task may have been created but its ID could not be read from bd');
+	}
+
+	return reload(taskId);
+}
+
+/**
+ * Change fields of a task
+ * @param {string} taskId
+ * @param {TaskChanges} changes - Fields to change; others are left alone
+ * @returns {Promise<MutationResult>} The updated task (unchanged if changes is empty)
+ */
+export async function updateTask(taskId, changes) {
+	/** @type {string[]} */
+	const errors = [];
+
+	if (changes.title !== undefined && (typeof changes.title !== 'string' || !changes.title.trim())) {
+		errors.push('title: Must be a non-empty string');
+	}
+	if (changes.description !== undefined && changes.description !== null && typeof changes.description !== 'string') {
+		errors.push('description: Must be a string');
+	}
+	if (changes.priority !== undefined && toPriority(changes.priority) === null) {
+		errors.push('priority: Must be 0 (P0), 1 (P1), 2 (P2), or 3 (P3)');
+	}
+	if (changes.status !== undefined && !TASK_STATUSES.includes(/** @type {string} */ (changes.status))) {
+		errors.push(`status: Must be one of: ${TASK_STATUSES.join(', ')}`);
+	}
+	if (changes.assignee !== undefined && changes.assignee !== null && typeof changes.assignee !== 'string') {
+		errors.push('assignee: Must be a string');
+	}
+	if (errors.length > 0) {
+		return invalid(errors);
+	}
+
+	const found = findTask(taskId);
+	if (found.error) return found.error;
+
+	const args = buildUpdateArgs(taskId, changes);
+	return args.length > 0 ? mutate(found.task, args) : { ok: true, task: found.task };
+}
+
+/**
+ * Close a task
+ * @param {string} taskId
+ * @param {{reason?: string}} [options]
+ * @returns {Promise<MutationResult>} The closed task
+ */
+export async function closeTask(taskId, options = {}) {
+	const found = findTask(taskId);
+	if (found.error) return found.error;
+
+	const args = ['close', taskId];
+	if (options.reason) args.push(`--reason=${options.reason}`);
+	return mutate(found.task, args);
+}
+
+/**
+ * Assign a task to an agent, or unassign it
+ * @param {string} taskId
+ * @param {string|null} assignee - Agent name; null or '' unassigns
+ * @returns {Promise<MutationResult>}
+ */
+export async function assignTask(taskId, assignee) {
+	return updateTask(taskId, { assignee });
+}
+
+/**
+ * @param {'add' | 'remove'} action
+ * @param {string} taskId
+ * @param {unknown} label
+ * @returns {Promise<MutationResult>}
+ */
+async function changeLabel(action, taskId, label) {
+	if (typeof label !== 'string' || !label.trim()) {
+		return invalid(['label: Must be a non-empty string']);
+	}
+
+	const found = findTask(taskId);
+	if (found.error) return found.error;
+
+	return mutate(found.task, ['label', action, taskId, '--', label.trim()]);
+}
+
+/**
+ * Add a label to a task (file scopes are files:<glob> labels)
+ * @param {string} taskId
+ * @param {string} label
+ * @returns {Promise<MutationResult>}
+ */
+export async function addLabel(taskId, label) {
+	return changeLabel('add', taskId, label);
+}
+
+/**
+ * Remove a label from a task
+ * @param {string} taskId
+ * @param {string} label
+ * @returns {Promise<MutationResult>}
+ */
+export async function removeLabel(taskId, label) {
+	return changeLabel('remove', taskId, label);
+}
+
+/**
+ * Make a task depend on another
+ * @param {string} taskId
+ * @param {string} dependsOnId - Task that must be done first
+ * @param {{type?: string}} [options] - Dependency type, one of DEPENDENCY_TYPES (default blocks)
+ * @returns {Promise<MutationResult>} The dependent task
+ */
+export async function addDependency(taskId, dependsOnId, options = {}) {
+	const type = options.type ?? 'blocks';
+	/** @type {string[]} */
+	const errors = [];
+	if (!isTaskId(dependsOnId)) errors.push(`dependsOn: Not a valid task ID: ${String(dependsOnId)}`);
+	if (!DEPENDENCY_TYPES.includes(type)) errors.push(`type: Must be one of: ${DEPENDENCY_TYPES.join(', ')}`);
+	if (errors.length > 0) return invalid(errors);
+
+	const found = findTask(taskId);
+	if (found.error) return found.error;
+
+	return mutate(found.task, ['dep', 'add', taskId, dependsOnId, `--type=${type}`]);
+}
+
+/**
+ * Remove a dependency between two tasks
+ * @param {string} taskId
+ * @param {string} dependsOnId
+ * @returns {Promise<MutationResult>} The dependent task
+ */
+export async function removeDependency(taskId, dependsOnId) {
+	if (!isTaskId(dependsOnId)) {
+		return invalid([`dependsOn: Not a valid task ID: ${String(dependsOnId)}`]);
+	}
+
+	const found = findTask(taskId);
+	if (found.error) return found.error;
+
+	return mutate(found.task, ['dep', 'remove', taskId, dependsOnId]);
+}
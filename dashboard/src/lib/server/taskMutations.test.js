@@ -0,0 +1,245 @@
+/**
+ * Tests for task mutations ($lib/server/taskMutations.js)
+ *
+ * Argument building and validation run everywhere. The round trips through
+ * bd run against a temporary `bd init` project, and are skipped where bd
+ * isn't installed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import { execFileSync, spawnSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { closeAllConnections } from '../../../../lib/db-pool.js';
+import {
+	addDependency,
+	addLabel,
+	assignTask,
+	buildCreateArgs,
+	buildUpdateArgs,
+	closeTask,
+	createTask,
+	removeDependency,
+	removeLabel,
+	updateTask
+} from './taskMutations.js';
+
+const BD_AVAILABLE = !spawnSync('bd', ['--version']).error;
+
+/** Text a shell would have mangled or executed */
+const HOSTILE = 'Run `touch pwned` and $(touch pwned), say "hi" & \'bye\'\nSecond line; $HOME \\ -x';
+
+/** @type {string} */
+let root;
+/** @type {string} */
+let projectDir;
+/** @type {Record<string, string|undefined>} */
+const savedEnv = {};
+
+beforeAll(() => {
+	root = mkdtempSync(join(tmpdir(), 'task-mutations-'));
+	projectDir = join(root, 'mut');
+	mkdirSync(join(projectDir, '.beads'), { recursive: true });
+
+	if (BD_AVAILABLE) {
+		execFileSync('git', ['init', '-q'], { cwd: projectDir });
+		rmSync(join(projectDir, '.beads'), { recursive: true, force: true });
+		execFileSync('bd', ['init', '--prefix=mut', '--quiet'], { cwd: projectDir });
+	} else {
+		// Enough of a project for lookups; bd never runs against it
+		const db = new Database(join(projectDir, '.beads', 'beads.db'));
+		db.exec(`
+			CREATE TABLE issues (
+				id TEXT PRIMARY KEY, title TEXT NOT NULL, description TEXT NOT NULL DEFAULT '',
+				status TEXT NOT NULL DEFAULT 'open', priority INTEGER NOT NULL DEFAULT 2,
+				issue_type TEXT NOT NULL DEFAULT 'task', assignee TEXT,
+				created_at DATETIME NOT NULL DEFAULT '2025-11-01', updated_at DATETIME NOT NULL DEFAULT '2025-11-01'
+			);
+			CREATE TABLE dependencies (issue_id TEXT, depends_on_id TEXT, type TEXT);
+			CREATE TABLE labels (issue_id TEXT, label TEXT);
+			CREATE TABLE comments (id INTEGER PRIMARY KEY, issue_id TEXT, author TEXT, text TEXT, created_at DATETIME);
+			CREATE TABLE config (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+			INSERT INTO config VALUES ('issue_prefix', 'mut');
+			INSERT INTO issues (id, title) VALUES ('mut-a1', 'Existing task');
+		`);
+		db.close();
+	}
+
+	for (const key of ['JAT_PROJECT_ROOTS', 'JAT_PROJECTS_FILE']) {
+		savedEnv[key] = process.env[key];
+	}
+	process.env.JAT_PROJECT_ROOTS = root;
+	process.env.JAT_PROJECTS_FILE = join(root, 'no-registry.json');
+});
+
+afterAll(() => {
+	closeAllConnections();
+	for (const [key, value] of Object.entries(savedEnv)) {
+		if (value === undefined) delete process.env[key];
+		else process.env[key] = value;
+	}
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('buildCreateArgs', () => {
+	it('should pass every value as its own argument, unquoted', () => {
+		expect(
+			buildCreateArgs({
+				title: '-rf `whoami`',
+				type: 'bug',
+				priority: 1,
+				description: HOSTILE,
+				labels: ['ui', 'files:src/lib/**'],
+				deps: ['jat-abc'],
+				assignee: 'PaleStar'
+			})
+		).toEqual([
+			'create',
+			'--type=bug',
+			'--priority=1',
+			`--description=${HOSTILE}`,
+			'--labels=ui,files:src/lib/**',
+			'--deps=jat-abc',
+			'--assignee=PaleStar',
+			'--json',
+			'--',
+			'-rf `whoami`'
+		]);
+	});
+
+	it('should leave out optional flags that are not set', () => {
+		expect(buildCreateArgs({ title: 'Plain', type: 'task', priority: 2 })).toEqual([
+			'create', '--type=task', '--priority=2', '--json', '--', 'Plain'
+		]);
+	});
+});
+
+describe('buildUpdateArgs', () => {
+	it('should only include changed fields, and allow clearing', () => {
+		expect(buildUpdateArgs('jat-abc', { title: ' New $(title) ', description: null, assignee: '' })).toEqual([
+			'update', 'jat-abc', '--title=New $(title)', '--description=', '--assignee='
+		]);
+		expect(buildUpdateArgs('jat-abc', { priority: '0', status: 'blocked' })).toEqual([
+			'update', 'jat-abc', '--priority=0', '--status=blocked'
+		]);
+		expect(buildUpdateArgs('jat-abc', {})).toEqual([]);
+	});
+});
+
+describe('validation', () => {
+	it('should report every invalid field of a new task', async () => {
+		const result = await createTask(/** @type {any} */ ({ title: ' ', type: 'story', priority: 7, deps: ['ok-1', '--force'] }));
+
+		expect(result.ok).toBe(false);
+		expect(result.error).toMatchObject({ code: 'validation_error', message: 'Validation failed' });
+		expect(result.error?.errors).toEqual([
+			'title: Must be a non-empty string',
+			'type: Must be one of: task, bug, feature, epic, chore',
+			'priority: Must be 0 (P0), 1 (P1), 2 (P2), or 3 (P3)',
+			'deps: Must be an array of task IDs (e.g., ["jat-abc", "jat-xyz"])'
+		]);
+	});
+
+	it('should reject labels bd would split, and invalid file scopes', async () => {
+		const result = await createTask({ title: 'T', type: 'task', labels: ['a,b'], files: ['src/a,b/**'] });
+
+		expect(result.error?.errors).toEqual([
+			'labels: Labels can\'t contain commas',
+			'files: File scope "src/a,b/**" cannot contain a comma outside braces'
+		]);
+	});
+
+	it('should reject project names that are paths', async () => {
+		for (const project of ['../mut', 'mut/../..', '/tmp', '.', '..']) {
+			const result = await createTask({ title: 'T', type: 'task', project });
+
+			expect(result.error?.errors).toEqual(['project: Must be a project name or prefix (letters, digits, ".", "_" and "-")']);
+		}
+	});
+
+	it('should reject a project without a directory', async () => {
+		const result = await createTask({ title: 'T', type: 'task', project: 'no-such-project-here' });
+
+		expect(result.error?.code).toBe('validation_error');
+		expect(result.error?.message).toMatch(/^project: Project directory not found/);
+	});
+
+	it('should reject task IDs that could be read as flags', async () => {
+		expect((await updateTask('--all', { title: 'x' })).error?.code).toBe('validation_error');
+		expect((await addDependency('mut-a1', '-x')).error?.code).toBe('validation_error');
+		expect((await addDependency('mut-a1', 'mut-b2', { type: 'sometimes' })).error?.errors).toEqual([
+			'type: Must be one of: blocks, related, parent-child, discovered-from'
+		]);
+		expect((await addLabel('mut-a1', '  ')).error?.code).toBe('validation_error');
+	});
+
+	it('should report missing tasks as not_found', async () => {
+		const result = await closeTask('mut-zzz');
+
+		expect(result).toEqual({ ok: false, error: { code: 'not_found', message: "Task 'mut-zzz' not found" } });
+	});
+
+	it('should check changes before looking the task up', async () => {
+		const result = await updateTask('mut-zzz', { status: 'done', priority: -1 });
+
+		expect(result.error?.code).toBe('validation_error');
+		expect(result.error?.errors).toHaveLength(2);
+	});
+});
+
+describe.skipIf(!BD_AVAILABLE)('round trips through bd', () => {
+	it('should create a task with text a shell would have interpreted', async () => {
+		const result = await createTask({
+			title: '-Leading dash and `ticks`',
+			type: 'bug',
+			priority: 1,
+			description: HOSTILE,
+			labels: ['ui'],
+			files: ['src/lib/**'],
+			project: 'mut'
+		});
+
+		expect(result.error).toBeUndefined();
+		expect(result.task).toMatchObject({
+			title: '-Leading dash and `ticks`',
+			description: HOSTILE.trim(),
+			issue_type: 'bug',
+			priority: 1,
+			labels: ['ui'],
+			files: ['src/lib/**']
+		});
+		expect(existsSync(join(projectDir, 'pwned'))).toBe(false);
+	});
+
+	it('should update, label, link, assign and close tasks', async () => {
+		const first = await createTask({ title: 'First', type: 'task', project: 'mut' });
+		const second = await createTask({ title: 'Second', type: 'task', project: 'mut' });
+		const id = /** @type {string} */ (second.task?.id);
+		const dependsOn = /** @type {string} */ (first.task?.id);
+
+		const updated = await updateTask(id, { title: 'Second $(again)', description: 'Line 1\nLine 2', status: 'in_progress' });
+		expect(updated.task).toMatchObject({ title: 'Second $(again)', description: 'Line 1\nLine 2', status: 'in_progress' });
+
+		expect((await addLabel(id, 'needs review')).task?.labels).toEqual(['needs review']);
+		expect((await removeLabel(id, 'needs review')).task?.labels).toEqual([]);
+
+		const linked = await addDependency(id, dependsOn);
+		expect(linked.task?.depends_on.map((/** @type {{id: string}} */ d) => d.id)).toEqual([dependsOn]);
+		expect((await removeDependency(id, dependsOn)).task?.depends_on).toEqual([]);
+
+		expect((await assignTask(id, 'PaleStar')).task?.assignee).toBe('PaleStar');
+		expect((await assignTask(id, null)).task?.assignee ?? null).toBeNull();
+
+		expect((await closeTask(id, { reason: 'Done; "really"' })).task?.status).toBe('closed');
+	});
+
+	it('should pass bd errors back as bd_failed', async () => {
+		const task = await createTask({ title: 'Lonely', type: 'task', project: 'mut' });
+		const result = await addDependency(/** @type {string} */ (task.task?.id), 'mut-doesnotexist');
+
+		expect(result.error?.code).toBe('bd_failed');
+		expect(result.error?.message).toBeTruthy();
+	});
+});
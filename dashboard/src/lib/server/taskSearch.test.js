@@ -0,0 +1,239 @@
+/**
+ * Tests for the task search index (lib/task-search.js): ranking, highlights,
+ * Agent Mail threads, and keeping up with database changes
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { closeAllConnections } from '../../../../lib/db-pool.js';
+import { TaskSearchIndex, toFtsQuery } from '../../../../lib/task-search.js';
+
+const BEADS_SCHEMA = `
+	CREATE TABLE issues (
+		id TEXT PRIMARY KEY,
+		title TEXT NOT NULL,
+		description TEXT NOT NULL DEFAULT '',
+		notes TEXT NOT NULL DEFAULT '',
+		status TEXT NOT NULL DEFAULT 'open',
+		priority INTEGER NOT NULL DEFAULT 2,
+		issue_type TEXT NOT NULL DEFAULT 'task',
+		assignee TEXT,
+		created_at DATETIME NOT NULL DEFAULT '2025-11-01',
+		updated_at DATETIME NOT NULL DEFAULT '2025-11-01'
+	);
+	CREATE TABLE labels (issue_id TEXT NOT NULL, label TEXT NOT NULL, PRIMARY KEY (issue_id, label));
+	CREATE TABLE comments (id INTEGER PRIMARY KEY, issue_id TEXT, author TEXT, text TEXT, created_at DATETIME);
+	CREATE TABLE config (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`;
+
+const MAIL_SCHEMA = `
+	CREATE TABLE messages (
+		id INTEGER PRIMARY KEY,
+		thread_id TEXT,
+		subject TEXT,
+		body_md TEXT,
+		created_ts TEXT
+	);
+`;
+
+/** @type {Record<string, Array<{id: string, title: string, description?: string, notes?: string, status?: string}>>} */
+const PROJECTS = {
+	web: [
+		{ id: 'web-a1', title: 'OAuth login fails on Safari', description: 'Users bounce back to the login page' },
+		{ id: 'web-b2', title: 'Dashboard polish', description: 'Tidy the OAuth settings panel spacing' },
+		{ id: 'web-c3', title: 'Session expiry', notes: 'Tokens should refresh silently', status: 'closed' },
+		{ id: 'web-d4', title: 'Renderer <script> escaping', description: 'Titles like <b>bold</b> must stay text' }
+	],
+	api: [
+		{ id: 'api-e5', title: 'Rate limiting', description: 'Throttle bursts per client' },
+		{ id: 'api-f6', title: 'Webhook retries' }
+	]
+};
+
+/** @type {string} */
+let root;
+/** @type {string} */
+let mailPath;
+/** @type {Record<string, string>} */
+const dbPaths = {};
+/** @type {Record<string, string|undefined>} */
+const savedEnv = {};
+/** @type {TaskSearchIndex} */
+let index;
+
+/**
+ * Open a fixture database for writing (as bd or Agent Mail would)
+ * @param {string} dbPath
+ * @param {(db: InstanceType<typeof Database>) => void} write
+ */
+function withDb(dbPath, write) {
+	const db = new Database(dbPath);
+	try {
+		write(db);
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * IDs of the results for a search
+ * @param {string} text
+ * @param {{limit?: number, project?: string}} [options]
+ */
+function ids(text, options) {
+	return index.search(text, options).map(result => result.id);
+}
+
+/**
+ * Text of the marked segments
+ * @param {Array<{text: string, match: boolean}>} segments
+ */
+function marked(segments) {
+	return segments.filter(segment => segment.match).map(segment => segment.text);
+}
+
+beforeAll(() => {
+	root = mkdtempSync(join(tmpdir(), 'task-search-'));
+
+	for (const [name, issues] of Object.entries(PROJECTS)) {
+		const dir = join(root, name, '.beads');
+		mkdirSync(dir, { recursive: true });
+		dbPaths[name] = join(dir, 'beads.db');
+
+		withDb(dbPaths[name], db => {
+			db.exec(BEADS_SCHEMA);
+			db.prepare("INSERT INTO config (key, value) VALUES ('issue_prefix', ?)").run(name);
+			const insert = db.prepare(
+				'INSERT INTO issues (id, title, description, notes, status) VALUES (?, ?, ?, ?, ?)'
+			);
+			for (const issue of issues) {
+				insert.run(issue.id, issue.title, issue.description ?? '', issue.notes ?? '', issue.status ?? 'open');
+			}
+		});
+	}
+
+	withDb(dbPaths.api, db => {
+		db.prepare(
+			"INSERT INTO comments (issue_id, author, text, created_at) VALUES ('api-f6', 'PaleStar', 'Use exponential backoff', '2025-11-02')"
+		).run();
+	});
+
+	mailPath = join(root, 'agent-mail.db');
+	withDb(mailPath, db => {
+		db.exec(MAIL_SCHEMA);
+		db.prepare(
+			"INSERT INTO messages (thread_id, subject, body_md, created_ts) VALUES ('api-e5', '[api-e5] Starting', 'Going with a token bucket per API key', '2025-11-03')"
+		).run();
+	});
+
+	for (const key of ['JAT_PROJECT_ROOTS', 'JAT_PROJECTS_FILE']) {
+		savedEnv[key] = process.env[key];
+	}
+	process.env.JAT_PROJECT_ROOTS = root;
+	process.env.JAT_PROJECTS_FILE = join(root, 'no-registry.json');
+
+	index = new TaskSearchIndex({ agentMailPath: mailPath });
+});
+
+afterAll(() => {
+	index.close();
+	closeAllConnections();
+	for (const [key, value] of Object.entries(savedEnv)) {
+		if (value === undefined) delete process.env[key];
+		else process.env[key] = value;
+	}
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('toFtsQuery', () => {
+	it('should quote terms and make the last word a prefix', () => {
+		expect(toFtsQuery('oauth "refresh bug" tok')).toBe('"oauth" "refresh bug" "tok"*');
+		expect(toFtsQuery('"refresh bug"')).toBe('"refresh bug"');
+		expect(toFtsQuery('web-a1')).toBe('"web-a1"*');
+	});
+
+	it('should neutralise FTS5 syntax and drop terms with nothing to match', () => {
+		expect(toFtsQuery('title:x OR NEAR(a')).toBe('"title:x" "OR" "NEAR(a"*');
+		expect(toFtsQuery('say "a ""b')).toBe('"say" "a " "b"');
+		expect(toFtsQuery(' - * "" ')).toBe('');
+	});
+});
+
+describe('TaskSearchIndex', () => {
+	it('should search titles, descriptions, notes, comments and thread messages across projects', () => {
+		expect(ids('safari')).toEqual(['web-a1']);
+		expect(ids('spacing')).toEqual(['web-b2']);
+		expect(ids('silently')).toEqual(['web-c3']);
+		expect(ids('backoff')).toEqual(['api-f6']);
+		expect(ids('token bucket')).toEqual(['api-e5']);
+	});
+
+	it('should rank title matches above description matches', () => {
+		expect(ids('oauth')).toEqual(['web-a1', 'web-b2']);
+
+		const [first, second] = index.search('oauth');
+		expect(first.score).toBeGreaterThan(second.score);
+	});
+
+	it('should match word prefixes and stems, and task IDs', () => {
+		expect(ids('throt')).toEqual(['api-e5']);
+		expect(ids('retry')).toEqual(['api-f6']);
+		expect(ids('web-c3')).toEqual(['web-c3']);
+	});
+
+	it('should require every term', () => {
+		expect(ids('oauth safari')).toEqual(['web-a1']);
+		expect(ids('oauth webhook')).toEqual([]);
+	});
+
+	it('should mark matching terms in the title and snippet', () => {
+		const [titleMatch, descriptionMatch] = index.search('oauth');
+
+		expect(titleMatch).toMatchObject({ project: 'web', title: 'OAuth login fails on Safari', status: 'open', priority: 2 });
+		expect(titleMatch.title_highlight).toEqual([
+			{ text: 'OAuth', match: true },
+			{ text: ' login fails on Safari', match: false }
+		]);
+		expect(marked(descriptionMatch.title_highlight)).toEqual([]);
+		expect(marked(descriptionMatch.snippet)).toEqual(['OAuth']);
+		expect(descriptionMatch.snippet.map(segment => segment.text).join('')).toContain('Tidy the OAuth settings');
+	});
+
+	it('should return markup in the text as plain text segments', () => {
+		const [result] = index.search('bold');
+
+		expect(result.id).toBe('web-d4');
+		expect(result.snippet.map(segment => segment.text).join('')).toContain('<b>bold</b>');
+		expect(marked(result.snippet)).toEqual(['bold']);
+	});
+
+	it('should filter by project and limit results', () => {
+		expect(ids('oauth', { project: 'api' })).toEqual([]);
+		expect(ids('oauth', { limit: 1 })).toEqual(['web-a1']);
+	});
+
+	it('should return nothing for input without searchable terms', () => {
+		expect(ids('  ')).toEqual([]);
+		expect(ids('"')).toEqual([]);
+	});
+
+	it('should pick up tasks and thread messages written since the last search', () => {
+		expect(ids('graphql')).toEqual([]);
+
+		withDb(dbPaths.web, db => {
+			db.prepare("INSERT INTO issues (id, title) VALUES ('web-g7', 'GraphQL schema')").run();
+			db.prepare("UPDATE issues SET title = 'Login fails on Safari' WHERE id = 'web-a1'").run();
+		});
+		withDb(mailPath, db => {
+			db.prepare(
+				"INSERT INTO messages (thread_id, subject, body_md, created_ts) VALUES ('web-b2', '[web-b2] Done', 'Also exposed it over GraphQL', '2025-11-04')"
+			).run();
+		});
+
+		expect(ids('graphql')).toEqual(['web-g7', 'web-b2']);
+		expect(ids('oauth')).toEqual(['web-b2']);
+	});
+});
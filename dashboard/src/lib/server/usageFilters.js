@@ -0,0 +1,91 @@
+/**
+ * Token usage query filters
+ * Parses and validates the filters shared by the usage endpoints
+ * (/api/agents/sparkline, /api/usage/export): range, from, to, tz, agent,
+ * session and bucketSize.
+ */
+
+import { isValidTimeZone, resolveDateRange } from '$lib/utils/dateRange';
+
+/**
+ * @typedef {Object} UsageFilters
+ * @property {'24h' | '7d' | 'all'} range
+ * @property {string} [from]
+ * @property {string} [to]
+ * @property {string} [tz]
+ * @property {string} [agentName]
+ * @property {string} [sessionId]
+ * @property {import('$lib/utils/tokenUsageTimeSeries').BucketSize} bucketSize
+ */
+
+export const VALID_RANGES = ['24h', '7d', 'all'];
+export const VALID_BUCKET_SIZES = ['30min', 'hour', 'day', 'week', 'session'];
+
+/**
+ * Parse usage filters from query parameters
+ *
+ * @param {URLSearchParams} searchParams
+ * @param {{range?: '24h' | '7d' | 'all'}} [defaults] - Range when none is given (default 24h)
+ * @returns {{filters: UsageFilters, error?: undefined} | {filters?: undefined, error: {error: string, message: string, validValues?: string[]}}}
+ */
+export function parseUsageFilters(searchParams, defaults = {}) {
+	const range = searchParams.get('range') || defaults.range || '24h';
+	const bucketSize = searchParams.get('bucketSize') || '30min';
+	const from = searchParams.get('from') || undefined;
+	const to = searchParams.get('to') || undefined;
+	const tz = searchParams.get('tz') || undefined;
+
+	if (!VALID_RANGES.includes(range)) {
+		return {
+			error: {
+				error: 'Invalid range parameter',
+				message: 'Range must be: 24h, 7d, or all',
+				validValues: VALID_RANGES
+			}
+		};
+	}
+
+	if (!VALID_BUCKET_SIZES.includes(bucketSize)) {
+		return {
+			error: {
+				error: 'Invalid bucketSize parameter',
+				message: 'Bucket size must be: 30min, hour, day, week, or session',
+				validValues: VALID_BUCKET_SIZES
+			}
+		};
+	}
+
+	if (tz && !isValidTimeZone(tz)) {
+		return {
+			error: {
+				error: 'Invalid tz parameter',
+				message: `Unknown time zone "${tz}" (expected an IANA name such as Europe/Berlin)`
+			}
+		};
+	}
+
+	if (from || to) {
+		try {
+			resolveDateRange({ from, to }, tz);
+		} catch (rangeError) {
+			return {
+				error: {
+					error: 'Invalid from/to parameters',
+					message: rangeError instanceof Error ? rangeError.message : String(rangeError)
+				}
+			};
+		}
+	}
+
+	return {
+		filters: {
+			range: /** @type {UsageFilters['range']} */ (range),
+			from,
+			to,
+			tz,
+			agentName: searchParams.get('agent') || undefined,
+			sessionId: searchParams.get('session') || undefined,
+			bucketSize: /** @type {UsageFilters['bucketSize']} */ (bucketSize)
+		}
+	};
+}
@@ -1,14 +1,20 @@
 /**
  * Agents Store
  *
- * Reactive Svelte 5 store that polls the /api/agents endpoint
- * for real-time agent coordination data.
+ * Reactive Svelte 5 store for real-time agent coordination data. Loads
+ * /api/agents once, then applies deltas from the /api/events stream,
+ * falling back to polling /api/agents while the stream is down.
  *
  * Usage:
  * ```svelte
  * <script lang="ts">
  *   import { agents } from '$lib/stores/agents.svelte';
  *
+ *   $effect(() => {
+ *     agents.connect();
+ *     return () => agents.disconnect();
+ *   });
+ *
  *   // Access reactive state
  *   const agentList = $derived(agents.agents);
  *   const tasks = $derived(agents.tasks);
@@ -16,6 +22,21 @@
  * ```
  */
 
+import {
+	AGENT_EVENT_TYPES,
+	applyAgentEvent,
+	applyAgentsDelta,
+	type AgentEvent,
+	type MessageSummary
+} from '$lib/utils/agentEvents';
+import { getAgentStatus, type AgentStatus } from '$lib/utils/agentStatus';
+
+/** Wait this long before retrying the event stream after it drops */
+const STREAM_RETRY_MS = 10000;
+
+/** Number of recent messages kept from 'message-sent' events */
+const RECENT_MESSAGES_LIMIT = 20;
+
 export interface AgentActivity {
 	ts: string;
 	agent: string;
@@ -42,6 +63,10 @@ export interface Agent {
 	active: boolean;
 	activities?: AgentActivity[];
 	current_activity?: AgentActivity | null;
+	/** Computed by the server (see $lib/utils/agentStatus.ts) */
+	status?: AgentStatus;
+	/** When the agent entered its current status (ISO 8601) */
+	status_since?: string | null;
 }
 
 export interface Reservation {
@@ -66,8 +91,10 @@ export interface Task {
 	project: string;
 	assignee?: string;
 	labels: string[];
-	depends_on?: Array<{ id: string; title: string; status: string }>;
-	blocked_by?: Array<{ id: string; title: string; status: string }>;
+	created_at?: string;
+	updated_at?: string;
+	depends_on?: Array<{ id: string; title: string; status: string; project?: string }>;
+	blocked_by?: Array<{ id: string; title: string; status: string; project?: string }>;
 }
 
 export interface AgentsData {
@@ -92,6 +119,8 @@ export interface AgentsData {
 	};
 	tasks_with_deps_count: number;
 	tasks_with_deps: Task[];
+	/** Pass back as `since` to get only changes (see /api/agents) */
+	cursor?: string;
 	timestamp: string;
 	meta: {
 		poll_interval_ms: number;
@@ -127,7 +156,15 @@ class AgentsStore {
 
 	loading = $state(false);
 	error = $state<string | null>(null);
+	/** True while updates arrive over /api/events (false while polling) */
+	streaming = $state(false);
+	/** Messages seen on the event stream, newest first */
+	recentMessages = $state<MessageSummary[]>([]);
 	private pollInterval: ReturnType<typeof setInterval> | null = null;
+	/** ETag of the last response, for If-None-Match */
+	private etag: string | null = null;
+	private eventSource: EventSource | null = null;
+	private streamRetry: ReturnType<typeof setTimeout> | null = null;
 
 	// Derived state for convenient access
 	get agents() {
@@ -150,76 +187,39 @@ class AgentsStore {
 		return this.data.task_stats;
 	}
 
-	// Helper to compute agent status (matches AgentCard.svelte logic)
-	private getAgentStatus(agent: Agent): 'live' | 'working' | 'active' | 'idle' | 'offline' {
-		const hasActiveLocks = agent.reservation_count > 0;
-		const hasInProgressTask = agent.in_progress_tasks > 0;
-
-		let timeSinceActive = Infinity;
-		if (agent.last_active_ts) {
-			const isoTimestamp = agent.last_active_ts.includes('T')
-				? agent.last_active_ts
-				: agent.last_active_ts.replace(' ', 'T') + 'Z';
-			const lastActivity = new Date(isoTimestamp);
-			timeSinceActive = Date.now() - lastActivity.getTime();
-		}
-
-		// Priority 1: WORKING - Has active task or file locks
-		// Agent has work in progress (takes priority over recency)
-		if (hasInProgressTask || hasActiveLocks) {
-			return 'working';
-		}
-
-		// Priority 2: LIVE - Very recent activity (< 1 minute) without active work
-		// Agent is responsive but not actively working
-		if (timeSinceActive < 60000) {
-			return 'live';
-		}
-
-		// Priority 3: ACTIVE - Recent activity (< 10 minutes)
-		if (timeSinceActive < 600000) {
-			return 'active';
-		}
-
-		// Priority 4: IDLE - Within 1 hour
-		if (timeSinceActive < 3600000) {
-			return 'idle';
-		}
-
-		// Priority 5: OFFLINE
-		return 'offline';
-	}
-
 	get liveAgents() {
-		return this.data.agents.filter(a => this.getAgentStatus(a) === 'live');
+		return this.data.agents.filter(a => getAgentStatus(a) === 'live');
 	}
 
 	get workingAgents() {
-		return this.data.agents.filter(a => this.getAgentStatus(a) === 'working');
+		return this.data.agents.filter(a => getAgentStatus(a) === 'working');
 	}
 
 	get activeAgents() {
-		return this.data.agents.filter(a => this.getAgentStatus(a) === 'active');
+		return this.data.agents.filter(a => getAgentStatus(a) === 'active');
 	}
 
 	get idleAgents() {
-		return this.data.agents.filter(a => this.getAgentStatus(a) === 'idle');
+		return this.data.agents.filter(a => getAgentStatus(a) === 'idle');
 	}
 
 	get offlineAgents() {
-		return this.data.agents.filter(a => this.getAgentStatus(a) === 'offline');
+		return this.data.agents.filter(a => getAgentStatus(a) === 'offline');
 	}
 
 	get availableAgents() {
 		// Live, active, or idle agents (can take work)
 		return this.data.agents.filter(a => {
-			const status = this.getAgentStatus(a);
+			const status = getAgentStatus(a);
 			return status === 'live' || status === 'active' || status === 'idle';
 		});
 	}
 
 	/**
 	 * Fetch fresh data from the API
+	 *
+	 * After the first load only changes are requested (`since` the last
+	 * cursor) and merged in; a 304 means nothing changed.
 	 */
 	async fetch(options?: { project?: string; agent?: string }) {
 		try {
@@ -229,18 +229,29 @@ class AgentsStore {
 			const params = new URLSearchParams();
 			if (options?.project) params.set('project', options.project);
 			if (options?.agent) params.set('agent', options.agent);
+			if (this.data.cursor) params.set('since', this.data.cursor);
 
 			const url = `/api/agents?full=true${params.toString() ? `&${params}` : ''}`;
-			const response = await fetch(url);
+			const response = await fetch(url, {
+				headers: this.etag ? { 'If-None-Match': this.etag } : {}
+			});
+
+			if (response.status === 304) {
+				return;
+			}
 
 			if (!response.ok) {
 				throw new Error(`HTTP ${response.status}: ${response.statusText}`);
 			}
 
 			const newData = await response.json();
+			this.etag = response.headers.get('ETag');
 
-			// Only update if we received valid data
-			if (newData.agents || newData.tasks) {
+			if (newData.delta) {
+				this.data = { ...applyAgentsDelta(this.data, newData), cursor: newData.cursor };
+				this.error = null;
+			} else if (newData.agents || newData.tasks) {
+				// Only update if we received valid data
 				this.data = newData;
 				this.error = null;
 			}
@@ -252,6 +263,91 @@ class AgentsStore {
 		}
 	}
 
+	/**
+	 * Apply one delta from the event stream
+	 */
+	applyEvent(event: AgentEvent) {
+		if (event.type === 'message-sent') {
+			this.recentMessages = [event.message, ...this.recentMessages].slice(0, RECENT_MESSAGES_LIMIT);
+			return;
+		}
+		this.data = applyAgentEvent(this.data, event);
+		// The data no longer matches the last response
+		this.etag = null;
+	}
+
+	/**
+	 * Subscribe to /api/events, polling instead whenever the stream is down
+	 *
+	 * The full payload is (re)loaded each time the stream becomes ready, so
+	 * nothing missed while disconnected is lost.
+	 */
+	connect(options?: { project?: string; agent?: string }) {
+		this.disconnect();
+
+		if (typeof EventSource === 'undefined') {
+			this.startPolling(options);
+			return;
+		}
+
+		this.openStream(options);
+	}
+
+	private openStream(options?: { project?: string; agent?: string }) {
+		const params = new URLSearchParams();
+		if (options?.project) params.set('project', options.project);
+		const source = new EventSource(`/api/events${params.toString() ? `?${params}` : ''}`);
+		this.eventSource = source;
+
+		source.addEventListener('ready', () => {
+			this.stopPolling();
+			this.streaming = true;
+			this.fetch(options);
+		});
+
+		for (const type of AGENT_EVENT_TYPES) {
+			source.addEventListener(type, (message) => {
+				try {
+					this.applyEvent(JSON.parse((message as MessageEvent).data));
+				} catch (err) {
+					console.error(`Failed to apply ${type} event:`, err);
+				}
+			});
+		}
+
+		source.onerror = () => {
+			// Take over from EventSource's own reconnects: poll until a retry succeeds
+			source.close();
+			this.eventSource = null;
+			this.streaming = false;
+
+			if (!this.pollInterval) {
+				console.warn('Agent event stream dropped, falling back to polling');
+				this.startPolling(options);
+			}
+			this.streamRetry = setTimeout(() => {
+				this.streamRetry = null;
+				this.openStream(options);
+			}, STREAM_RETRY_MS);
+		};
+	}
+
+	/**
+	 * Close the event stream and stop any fallback polling
+	 */
+	disconnect() {
+		if (this.streamRetry) {
+			clearTimeout(this.streamRetry);
+			this.streamRetry = null;
+		}
+		if (this.eventSource) {
+			this.eventSource.close();
+			this.eventSource = null;
+		}
+		this.streaming = false;
+		this.stopPolling();
+	}
+
 	/**
 	 * Start polling the API at the recommended interval
 	 */
@@ -284,7 +380,7 @@ class AgentsStore {
 	 * Cleanup method for component unmount
 	 */
 	destroy() {
-		this.stopPolling();
+		this.disconnect();
 	}
 }
 
@@ -0,0 +1,201 @@
+/**
+ * Agent Events Tests
+ *
+ * Tests for snapshot diffing, event application and incremental response
+ * merging in agentEvents.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Agent, AgentsData, Reservation, Task } from '$lib/stores/agents.svelte';
+import { applyAgentEvent, applyAgentsDelta, diffSnapshots, summarizeTasks, type AgentsSnapshot } from './agentEvents';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+function makeAgent(name: string, overrides: Partial<Agent> = {}): Agent {
+	return {
+		id: 1,
+		name,
+		program: 'claude-code',
+		model: 'sonnet-4.5',
+		task_description: '',
+		last_active_ts: '2025-11-20 10:00:00',
+		reservation_count: 0,
+		task_count: 0,
+		open_tasks: 0,
+		in_progress_tasks: 0,
+		active: false,
+		...overrides
+	};
+}
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+	return {
+		id,
+		title: `Task ${id}`,
+		description: '',
+		status: 'open',
+		priority: 2,
+		issue_type: 'task',
+		project: 'jat',
+		labels: [],
+		...overrides
+	};
+}
+
+function makeReservation(id: number, agentName: string): Reservation {
+	return {
+		id,
+		path_pattern: `src/${id}/**`,
+		exclusive: 1,
+		reason: '',
+		created_ts: '2025-11-20 10:00:00',
+		expires_ts: '2025-11-20 12:00:00',
+		released_ts: null,
+		agent_name: agentName,
+		project_path: '/home/user/code/jat'
+	};
+}
+
+function makeData(snapshot: AgentsSnapshot): AgentsData {
+	return {
+		agents: snapshot.agents,
+		reservations: snapshot.reservations,
+		reservations_by_agent: {},
+		tasks: snapshot.tasks,
+		...summarizeTasks(snapshot.tasks),
+		timestamp: '2025-11-20T10:00:00.000Z',
+		meta: { poll_interval_ms: 3000, data_sources: [], cache_ttl_ms: 2000 }
+	};
+}
+
+// ============================================================================
+// Tests: diffSnapshots
+// ============================================================================
+
+describe('diffSnapshots', () => {
+	const before: AgentsSnapshot = {
+		agents: [makeAgent('Alpha'), makeAgent('Beta')],
+		tasks: [makeTask('jat-a'), makeTask('jat-b'), makeTask('jat-c')],
+		reservations: [makeReservation(1, 'Alpha')]
+	};
+
+	it('should report nothing for identical snapshots', () => {
+		expect(diffSnapshots(before, structuredClone(before))).toEqual([]);
+	});
+
+	it('should report typed deltas', () => {
+		const after: AgentsSnapshot = {
+			agents: [makeAgent('Alpha', { in_progress_tasks: 1, active: true }), makeAgent('Beta')],
+			tasks: [
+				makeTask('jat-a', { status: 'in_progress', assignee: 'Alpha' }),
+				makeTask('jat-b', { title: 'Renamed' }),
+				makeTask('jat-d')
+			],
+			reservations: [makeReservation(2, 'Alpha')]
+		};
+
+		expect(diffSnapshots(before, after).map(e => e.type)).toEqual([
+			'agent-updated',
+			'task-status-changed',
+			'task-updated',
+			'task-status-changed',
+			'task-removed',
+			'reservation-created',
+			'reservation-released'
+		]);
+
+		const statusChanges = diffSnapshots(before, after).filter(e => e.type === 'task-status-changed');
+		expect(statusChanges).toEqual([
+			{ type: 'task-status-changed', task: after.tasks[0], previous_status: 'open' },
+			{ type: 'task-status-changed', task: after.tasks[2], previous_status: null }
+		]);
+	});
+});
+
+// ============================================================================
+// Tests: applyAgentEvent
+// ============================================================================
+
+describe('applyAgentEvent', () => {
+	it('should reproduce the next snapshot from the diff', () => {
+		const before: AgentsSnapshot = {
+			agents: [makeAgent('Alpha')],
+			tasks: [makeTask('jat-a'), makeTask('jat-b')],
+			reservations: [makeReservation(1, 'Alpha')]
+		};
+		const after: AgentsSnapshot = {
+			agents: [makeAgent('Alpha', { task_count: 1 }), makeAgent('Gamma')],
+			tasks: [makeTask('jat-a', { status: 'closed', assignee: 'Alpha' }), makeTask('jat-c')],
+			reservations: [makeReservation(2, 'Gamma')]
+		};
+
+		const patched = diffSnapshots(before, after).reduce(applyAgentEvent, makeData(before));
+
+		expect(patched.agents).toEqual(after.agents);
+		expect(patched.tasks.map(t => [t.id, t.status])).toEqual([
+			['jat-a', 'closed'],
+			['jat-c', 'open']
+		]);
+		expect(patched.reservations).toEqual(after.reservations);
+		expect(patched.reservations_by_agent).toEqual({ Gamma: after.reservations });
+	});
+
+	it('should recompute task-derived fields', () => {
+		const data = makeData({ agents: [], tasks: [makeTask('jat-a')], reservations: [] });
+
+		const next = applyAgentEvent(data, {
+			type: 'task-status-changed',
+			task: makeTask('jat-a', { status: 'in_progress', assignee: 'Alpha' }),
+			previous_status: 'open'
+		});
+
+		expect(next.task_stats.open).toBe(0);
+		expect(next.task_stats.in_progress).toBe(1);
+		expect(next.unassigned_tasks).toEqual([]);
+		// The input is left untouched
+		expect(data.task_stats.open).toBe(1);
+	});
+});
+
+// ============================================================================
+// Tests: applyAgentsDelta
+// ============================================================================
+
+describe('applyAgentsDelta', () => {
+	it('should upsert changes, drop tombstones and keep server ordering', () => {
+		const data = makeData({
+			agents: [makeAgent('Alpha', { last_active_ts: '2025-11-20 10:00:00' })],
+			tasks: [
+				makeTask('jat-a', { priority: 1, created_at: '2025-11-19' }),
+				makeTask('jat-b', { priority: 2 })
+			],
+			reservations: [makeReservation(1, 'Alpha'), makeReservation(2, 'Alpha')]
+		});
+
+		const merged = applyAgentsDelta(data, {
+			delta: true,
+			since: 'old',
+			cursor: 'new',
+			agents: [makeAgent('Beta', { last_active_ts: '2025-11-20 11:00:00' })],
+			tasks: [
+				makeTask('jat-b', { priority: 2, status: 'closed' }),
+				makeTask('jat-c', { priority: 1, created_at: '2025-11-20' })
+			],
+			reservations: [],
+			removed: { agents: [], tasks: ['jat-a'], reservations: [1] },
+			timestamp: '2025-11-20T11:00:00.000Z',
+			meta: data.meta
+		});
+
+		expect(merged.agents.map(a => a.name)).toEqual(['Beta', 'Alpha']);
+		expect(merged.tasks.map(t => [t.id, t.status])).toEqual([
+			['jat-c', 'open'],
+			['jat-b', 'closed']
+		]);
+		expect(merged.task_stats.closed).toBe(1);
+		expect(merged.reservations.map(r => r.id)).toEqual([2]);
+		expect(merged.reservations_by_agent.Alpha).toHaveLength(1);
+	});
+});
@@ -0,0 +1,287 @@
+/**
+ * Agent Events
+ *
+ * Typed deltas pushed by the /api/events stream, plus the pure functions on
+ * both ends of it: diffSnapshots() turns two server snapshots into events,
+ * applyAgentEvent() patches the client's AgentsData with one.
+ *
+ * Also merges the incremental responses of /api/agents?since=<cursor>
+ * (applyAgentsDelta()).
+ */
+
+import type { Agent, AgentsData, Reservation, Task } from '$lib/stores/agents.svelte';
+
+/**
+ * Summary of a newly sent Agent Mail message (no body)
+ */
+export interface MessageSummary {
+	id: number;
+	thread_id: string | null;
+	subject: string;
+	importance: string;
+	ack_required: number;
+	created_ts: string;
+	sender_name: string;
+	recipients: string[];
+	project_path: string;
+}
+
+export type AgentEvent =
+	| { type: 'agent-updated'; agent: Agent }
+	| { type: 'task-status-changed'; task: Task; previous_status: string | null }
+	| { type: 'task-updated'; task: Task }
+	| { type: 'task-removed'; id: string }
+	| { type: 'reservation-created'; reservation: Reservation }
+	| { type: 'reservation-released'; reservation: Reservation }
+	| { type: 'message-sent'; message: MessageSummary };
+
+export type AgentEventType = AgentEvent['type'];
+
+/**
+ * Incremental /api/agents response: changed items plus tombstones
+ */
+export interface AgentsDelta {
+	delta: true;
+	since: string;
+	cursor: string;
+	agents: Agent[];
+	tasks: Task[];
+	reservations: Reservation[];
+	removed: {
+		agents: string[];
+		tasks: string[];
+		reservations: number[];
+	};
+	timestamp: string;
+	meta: AgentsData['meta'];
+}
+
+/** Every event type, for registering EventSource listeners */
+export const AGENT_EVENT_TYPES: AgentEventType[] = [
+	'agent-updated',
+	'task-status-changed',
+	'task-updated',
+	'task-removed',
+	'reservation-created',
+	'reservation-released',
+	'message-sent'
+];
+
+/**
+ * The parts of AgentsData the server diffs between changes
+ */
+export interface AgentsSnapshot {
+	agents: Agent[];
+	tasks: Task[];
+	reservations: Reservation[];
+}
+
+/**
+ * Index items by key, keeping their serialized form for comparison
+ */
+function indexByKey<T>(items: T[], key: (item: T) => string | number): Map<string | number, { item: T; json: string }> {
+	return new Map(items.map(item => [key(item), { item, json: JSON.stringify(item) }]));
+}
+
+/**
+ * Compute the events that turn one snapshot into the next
+ *
+ * A task whose status changed yields 'task-status-changed' (previous_status
+ * is null for new tasks); any other change to a task yields 'task-updated'.
+ * Reservations are only listed while active, so one that disappears is
+ * reported as released (or expired). Messages are not part of snapshots.
+ */
+export function diffSnapshots(prev: AgentsSnapshot, next: AgentsSnapshot): AgentEvent[] {
+	const events: AgentEvent[] = [];
+
+	const prevAgents = indexByKey(prev.agents, a => a.name);
+	for (const agent of next.agents) {
+		if (prevAgents.get(agent.name)?.json !== JSON.stringify(agent)) {
+			events.push({ type: 'agent-updated', agent });
+		}
+	}
+
+	const prevTasks = indexByKey(prev.tasks, t => t.id);
+	const nextTaskIds = new Set<string>();
+	for (const task of next.tasks) {
+		nextTaskIds.add(task.id);
+		const before = prevTasks.get(task.id);
+
+		if (!before || before.item.status !== task.status) {
+			events.push({ type: 'task-status-changed', task, previous_status: before?.item.status ?? null });
+		} else if (before.json !== JSON.stringify(task)) {
+			events.push({ type: 'task-updated', task });
+		}
+	}
+	for (const id of prevTasks.keys()) {
+		if (!nextTaskIds.has(id as string)) {
+			events.push({ type: 'task-removed', id: id as string });
+		}
+	}
+
+	const prevReservations = indexByKey(prev.reservations, r => r.id);
+	const nextReservations = indexByKey(next.reservations, r => r.id);
+	for (const [id, { item }] of nextReservations) {
+		if (!prevReservations.has(id)) {
+			events.push({ type: 'reservation-created', reservation: item });
+		}
+	}
+	for (const [id, { item }] of prevReservations) {
+		if (!nextReservations.has(id)) {
+			events.push({ type: 'reservation-released', reservation: item });
+		}
+	}
+
+	return events;
+}
+
+/**
+ * Group reservations by agent name
+ */
+export function groupReservationsByAgent(reservations: Reservation[]): Record<string, Reservation[]> {
+	const reservationsByAgent: Record<string, Reservation[]> = {};
+	for (const r of reservations) {
+		if (!reservationsByAgent[r.agent_name]) {
+			reservationsByAgent[r.agent_name] = [];
+		}
+		reservationsByAgent[r.agent_name].push(r);
+	}
+	return reservationsByAgent;
+}
+
+/**
+ * Compute the task-derived fields of AgentsData
+ */
+export function summarizeTasks(
+	tasks: Task[]
+): Pick<AgentsData, 'unassigned_tasks' | 'task_stats' | 'tasks_with_deps_count' | 'tasks_with_deps'> {
+	const countPriority = (p: number) => tasks.filter(t => t.priority === p).length;
+
+	// Tasks with dependencies, for visualization
+	const tasksWithDeps = tasks.filter(
+		t => (t.depends_on && t.depends_on.length > 0) || (t.blocked_by && t.blocked_by.length > 0)
+	);
+
+	return {
+		// Ready for assignment
+		unassigned_tasks: tasks.filter(t => !t.assignee && t.status === 'open'),
+		task_stats: {
+			total: tasks.length,
+			open: tasks.filter(t => t.status === 'open').length,
+			in_progress: tasks.filter(t => t.status === 'in_progress').length,
+			blocked: tasks.filter(t => t.status === 'blocked').length,
+			closed: tasks.filter(t => t.status === 'closed').length,
+			by_priority: {
+				p0: countPriority(0),
+				p1: countPriority(1),
+				p2: countPriority(2),
+				p3: countPriority(3),
+				p4: countPriority(4)
+			}
+		},
+		tasks_with_deps_count: tasksWithDeps.length,
+		tasks_with_deps: tasksWithDeps
+	};
+}
+
+/**
+ * Apply one event to AgentsData, returning a new object
+ *
+ * Derived fields (task stats, unassigned tasks, reservations by agent) are
+ * recomputed. 'message-sent' carries no AgentsData changes and returns the
+ * data unchanged.
+ */
+export function applyAgentEvent(data: AgentsData, event: AgentEvent): AgentsData {
+	switch (event.type) {
+		case 'agent-updated': {
+			const exists = data.agents.some(a => a.name === event.agent.name);
+			const agents = exists
+				? data.agents.map(a => (a.name === event.agent.name ? event.agent : a))
+				: [...data.agents, event.agent];
+			return { ...data, agents };
+		}
+
+		case 'task-status-changed':
+		case 'task-updated': {
+			const exists = data.tasks.some(t => t.id === event.task.id);
+			const tasks = exists
+				? data.tasks.map(t => (t.id === event.task.id ? event.task : t))
+				: [...data.tasks, event.task];
+			return { ...data, tasks, ...summarizeTasks(tasks) };
+		}
+
+		case 'task-removed': {
+			const tasks = data.tasks.filter(t => t.id !== event.id);
+			return { ...data, tasks, ...summarizeTasks(tasks) };
+		}
+
+		case 'reservation-created': {
+			const reservations = [
+				event.reservation,
+				...data.reservations.filter(r => r.id !== event.reservation.id)
+			];
+			return { ...data, reservations, reservations_by_agent: groupReservationsByAgent(reservations) };
+		}
+
+		case 'reservation-released': {
+			const reservations = data.reservations.filter(r => r.id !== event.reservation.id);
+			return { ...data, reservations, reservations_by_agent: groupReservationsByAgent(reservations) };
+		}
+
+		case 'message-sent':
+			return data;
+	}
+}
+
+/**
+ * Replace items by key, append new ones and drop removed keys
+ */
+function mergeByKey<T, K>(items: T[], changed: T[], removed: K[], key: (item: T) => K): T[] {
+	const updates = new Map(changed.map(item => [key(item), item]));
+	const gone = new Set(removed);
+
+	const merged = items
+		.filter(item => !gone.has(key(item)))
+		.map(item => {
+			const update = updates.get(key(item));
+			updates.delete(key(item));
+			return update ?? item;
+		});
+
+	return [...merged, ...updates.values()];
+}
+
+/**
+ * Merge an incremental /api/agents response into AgentsData
+ *
+ * Lists are re-sorted the way the server orders them (tasks by priority then
+ * newest first, agents by last activity, reservations newest first) and the
+ * derived fields are recomputed.
+ */
+export function applyAgentsDelta(data: AgentsData, delta: AgentsDelta): AgentsData {
+	const byNewest = (a?: string, b?: string) => (b ?? '').localeCompare(a ?? '');
+
+	const agents = mergeByKey(data.agents, delta.agents, delta.removed.agents, a => a.name).sort((a, b) =>
+		byNewest(a.last_active_ts, b.last_active_ts)
+	);
+	const tasks = mergeByKey(data.tasks, delta.tasks, delta.removed.tasks, t => t.id).sort(
+		(a, b) => a.priority - b.priority || byNewest(a.created_at, b.created_at)
+	);
+	const reservations = mergeByKey(
+		data.reservations,
+		delta.reservations,
+		delta.removed.reservations,
+		r => r.id
+	).sort((a, b) => byNewest(a.created_ts, b.created_ts));
+
+	return {
+		...data,
+		agents,
+		tasks,
+		...summarizeTasks(tasks),
+		reservations,
+		reservations_by_agent: groupReservationsByAgent(reservations),
+		timestamp: delta.timestamp,
+		meta: delta.meta
+	};
+}
@@ -0,0 +1,98 @@
+/**
+ * Agent Status Tests
+ *
+ * Tests for status computation, status_since estimation and duration
+ * formatting in agentStatus.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	computeAgentStatus,
+	countByStatus,
+	estimateStatusSince,
+	formatStatusDuration,
+	getAgentStatus,
+	parseActivityTimestamp,
+	compareStatus
+} from './agentStatus';
+
+const NOW = Date.parse('2025-11-20T12:00:00Z');
+
+/** SQLite-style timestamp `minutes` before NOW */
+function minutesAgo(minutes: number): string {
+	return new Date(NOW - minutes * 60000).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// ============================================================================
+// Tests: computeAgentStatus
+// ============================================================================
+
+describe('computeAgentStatus', () => {
+	it('should prefer work in progress over recency', () => {
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(0.5), in_progress_tasks: 1 }, NOW)).toBe('working');
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(300), reservation_count: 2 }, NOW)).toBe('working');
+	});
+
+	it('should fall through the time thresholds', () => {
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(0.5) }, NOW)).toBe('live');
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(5) }, NOW)).toBe('active');
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(30) }, NOW)).toBe('idle');
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(90) }, NOW)).toBe('offline');
+		expect(computeAgentStatus({ last_active_ts: null }, NOW)).toBe('offline');
+	});
+
+	it('should honour custom thresholds', () => {
+		const thresholds = { liveMs: 5 * 60000, activeMs: 15 * 60000, idleMs: 120 * 60000 };
+
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(3) }, NOW, thresholds)).toBe('live');
+		expect(computeAgentStatus({ last_active_ts: minutesAgo(90) }, NOW, thresholds)).toBe('idle');
+	});
+});
+
+// ============================================================================
+// Tests: estimateStatusSince
+// ============================================================================
+
+describe('estimateStatusSince', () => {
+	it('should date time-based statuses at the threshold crossing', () => {
+		const agent = { last_active_ts: minutesAgo(30) };
+		const lastActive = parseActivityTimestamp(agent.last_active_ts)!;
+
+		expect(estimateStatusSince('idle', agent)).toBe(lastActive + 10 * 60000);
+		expect(estimateStatusSince('live', agent)).toBe(lastActive);
+	});
+
+	it('should date working at the start of work when known', () => {
+		const agent = { last_active_ts: minutesAgo(2), in_progress_tasks: 1 };
+
+		expect(estimateStatusSince('working', agent, NOW - 42 * 60000)).toBe(NOW - 42 * 60000);
+		expect(estimateStatusSince('working', agent)).toBe(parseActivityTimestamp(agent.last_active_ts));
+		expect(estimateStatusSince('offline', { last_active_ts: null })).toBeNull();
+	});
+});
+
+// ============================================================================
+// Tests: helpers
+// ============================================================================
+
+describe('status helpers', () => {
+	it('should prefer a server-computed status', () => {
+		expect(getAgentStatus({ status: 'idle', in_progress_tasks: 3 })).toBe('idle');
+		expect(getAgentStatus({ in_progress_tasks: 3 })).toBe('working');
+	});
+
+	it('should sort and count statuses', () => {
+		const statuses = ['offline', 'working', 'live', 'idle', 'working'] as const;
+
+		expect([...statuses].sort(compareStatus)).toEqual(['live', 'working', 'working', 'idle', 'offline']);
+		expect(countByStatus([...statuses])).toEqual({ live: 1, working: 2, active: 0, idle: 1, offline: 1 });
+	});
+
+	it('should format time in status', () => {
+		expect(formatStatusDuration(new Date(NOW - 20000).toISOString(), NOW)).toBe('<1m');
+		expect(formatStatusDuration(new Date(NOW - 42 * 60000).toISOString(), NOW)).toBe('42m');
+		expect(formatStatusDuration(new Date(NOW - 185 * 60000).toISOString(), NOW)).toBe('3h 5m');
+		expect(formatStatusDuration(new Date(NOW - 50 * 3600000).toISOString(), NOW)).toBe('2d');
+		expect(formatStatusDuration(null, NOW)).toBeNull();
+	});
+});
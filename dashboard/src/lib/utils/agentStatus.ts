@@ -0,0 +1,183 @@
+/**
+ * Agent Status
+ *
+ * The one definition of an agent's status, shared by the server (which
+ * computes `status` and `status_since` for /api/agents, /api/events and
+ * /api/agents/stats) and the client (fallback when an agent arrives without
+ * a status, plus display helpers).
+ *
+ * Status priority:
+ *   working - has an in-progress task or file locks (regardless of recency)
+ *   live    - active within thresholds.liveMs
+ *   active  - active within thresholds.activeMs
+ *   idle    - active within thresholds.idleMs
+ *   offline - otherwise, or never active
+ */
+
+export type AgentStatus = 'live' | 'working' | 'active' | 'idle' | 'offline';
+
+export interface StatusThresholds {
+	/** Activity this recent counts as live */
+	liveMs: number;
+	/** Activity this recent counts as active */
+	activeMs: number;
+	/** Activity this recent counts as idle; older is offline */
+	idleMs: number;
+}
+
+export const DEFAULT_STATUS_THRESHOLDS: StatusThresholds = {
+	liveMs: 60 * 1000,
+	activeMs: 10 * 60 * 1000,
+	idleMs: 60 * 60 * 1000
+};
+
+/**
+ * The fields status is computed from
+ */
+export interface StatusInput {
+	last_active_ts?: string | null;
+	in_progress_tasks?: number;
+	reservation_count?: number;
+}
+
+/**
+ * A recorded change of status
+ */
+export interface StatusTransition {
+	from: AgentStatus;
+	to: AgentStatus;
+	/** ISO 8601 */
+	at: string;
+}
+
+/** Sort order for agent lists (lower first) */
+const STATUS_PRIORITY: Record<AgentStatus, number> = {
+	live: 1,
+	working: 2,
+	active: 3,
+	idle: 4,
+	offline: 5
+};
+
+/**
+ * Parse an activity timestamp
+ *
+ * Agent Mail stores SQLite "YYYY-MM-DD HH:MM:SS" timestamps in UTC without
+ * a zone (Beads adds one); ISO strings are used as-is.
+ *
+ * @returns Milliseconds since the epoch, or null if missing or invalid
+ */
+export function parseActivityTimestamp(ts: string | null | undefined): number | null {
+	if (!ts) return null;
+
+	let iso = ts;
+	if (!ts.includes('T')) {
+		iso = ts.replace(' ', 'T');
+		if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(iso)) iso += 'Z';
+	}
+	const ms = new Date(iso).getTime();
+	return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Compute an agent's status
+ */
+export function computeAgentStatus(
+	agent: StatusInput,
+	now: number = Date.now(),
+	thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS
+): AgentStatus {
+	// Work in progress takes priority over recency
+	if ((agent.in_progress_tasks ?? 0) > 0 || (agent.reservation_count ?? 0) > 0) {
+		return 'working';
+	}
+
+	const lastActive = parseActivityTimestamp(agent.last_active_ts);
+	if (lastActive === null) {
+		return 'offline';
+	}
+
+	const elapsed = now - lastActive;
+	if (elapsed < thresholds.liveMs) return 'live';
+	if (elapsed < thresholds.activeMs) return 'active';
+	if (elapsed < thresholds.idleMs) return 'idle';
+	return 'offline';
+}
+
+/**
+ * Estimate when an agent entered its current status, for agents seen in
+ * that status for the first time
+ *
+ * Time-based statuses start when the previous threshold was crossed;
+ * 'working' starts at `workStartedMs` (earliest lock or task start) if known.
+ *
+ * @returns Milliseconds since the epoch, or null if unknown
+ */
+export function estimateStatusSince(
+	status: AgentStatus,
+	agent: StatusInput,
+	workStartedMs: number | null = null,
+	thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS
+): number | null {
+	const lastActive = parseActivityTimestamp(agent.last_active_ts);
+
+	switch (status) {
+		case 'working':
+			return workStartedMs ?? lastActive;
+		case 'live':
+			return lastActive;
+		case 'active':
+			return lastActive === null ? null : lastActive + thresholds.liveMs;
+		case 'idle':
+			return lastActive === null ? null : lastActive + thresholds.activeMs;
+		case 'offline':
+			return lastActive === null ? null : lastActive + thresholds.idleMs;
+	}
+}
+
+/**
+ * Get an agent's status, preferring the one the server computed
+ */
+export function getAgentStatus(agent: StatusInput & { status?: AgentStatus }): AgentStatus {
+	return agent.status ?? computeAgentStatus(agent);
+}
+
+/**
+ * Compare two statuses for sorting (live first, offline last)
+ */
+export function compareStatus(a: AgentStatus, b: AgentStatus): number {
+	return STATUS_PRIORITY[a] - STATUS_PRIORITY[b];
+}
+
+/**
+ * Count agents per status
+ */
+export function countByStatus(statuses: AgentStatus[]): Record<AgentStatus, number> {
+	const counts: Record<AgentStatus, number> = { live: 0, working: 0, active: 0, idle: 0, offline: 0 };
+	for (const status of statuses) {
+		counts[status]++;
+	}
+	return counts;
+}
+
+/**
+ * Format how long an agent has been in its status, e.g. "42m" or "3h 5m"
+ *
+ * @returns Short duration, or null if `since` is unknown
+ */
+export function formatStatusDuration(since: string | null | undefined, now: number = Date.now()): string | null {
+	const start = parseActivityTimestamp(since);
+	if (start === null) return null;
+
+	const minutes = Math.max(0, Math.floor((now - start) / 60000));
+	if (minutes < 1) return '<1m';
+	if (minutes < 60) return `${minutes}m`;
+
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) {
+		const rest = minutes % 60;
+		return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+	}
+
+	return `${Math.floor(hours / 24)}d`;
+}
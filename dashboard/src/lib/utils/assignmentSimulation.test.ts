@@ -0,0 +1,169 @@
+/**
+ * Assignment Simulation Tests
+ *
+ * Tests for load projection, overlap detection, completion order and
+ * what-if moves in assignmentSimulation.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { moveAssignment, simulateAssignments, type SimulationInput } from './assignmentSimulation';
+import { planAutoAssignments, type Agent, type Reservation, type Task } from './autoAssign';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const FUTURE = new Date(Date.now() + 3600000).toISOString();
+
+function makeAgent(name: string, overrides: Partial<Agent> = {}): Agent {
+	return {
+		name,
+		active: false,
+		task_count: 0,
+		in_progress_tasks: 0,
+		reservation_count: 0,
+		...overrides
+	};
+}
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+	return {
+		id,
+		title: `Task ${id}`,
+		priority: 2,
+		status: 'open',
+		...overrides
+	};
+}
+
+function makeReservation(agentName: string, pattern: string): Reservation {
+	return { agent_name: agentName, path_pattern: pattern, expires_ts: FUTURE };
+}
+
+function makeInput(overrides: Partial<SimulationInput> = {}): SimulationInput {
+	return {
+		agents: [makeAgent('Alpha'), makeAgent('Beta', { task_count: 2, in_progress_tasks: 1 })],
+		reservations: [],
+		tasks: [],
+		...overrides
+	};
+}
+
+// ============================================================================
+// Tests: simulateAssignments
+// ============================================================================
+
+describe('simulateAssignments', () => {
+	it('should project per-agent load', () => {
+		const input = makeInput();
+		const plan = planAutoAssignments([makeTask('jat-a'), makeTask('jat-b')], input.agents, [], [], [], {
+			capacity: 2
+		});
+
+		const result = simulateAssignments(input, plan.assignments);
+		const alpha = result.agents.find(a => a.agent.name === 'Alpha');
+		const beta = result.agents.find(a => a.agent.name === 'Beta');
+
+		// Beta: 1 in progress (3) + 1 queued (1)
+		expect(beta?.currentLoad).toBe(4);
+		expect((alpha?.newTasks.length ?? 0) + (beta?.newTasks.length ?? 0)).toBe(2);
+		expect(alpha?.projectedLoad).toBe((alpha?.currentLoad ?? 0) + (alpha?.newTasks.length ?? 0));
+		expect(result.totalScore).toBe(plan.totalScore);
+	});
+
+	it('should flag agents pushed to the load threshold', () => {
+		const input = makeInput({ agents: [makeAgent('Busy', { task_count: 9 })] });
+		const [assignment] = moveAssignment(
+			input,
+			[{ agent: makeAgent('Other'), task: makeTask('jat-a'), confidence: 'high', score: 0, warnings: [], reasons: [] }],
+			'jat-a',
+			'Busy'
+		);
+
+		const result = simulateAssignments(input, [assignment]);
+		expect(result.agents[0].overloaded).toBe(true);
+	});
+
+	it('should report overlaps with other agents and within the batch', () => {
+		const input = makeInput({
+			agents: [makeAgent('Alpha'), makeAgent('Beta'), makeAgent('Gamma')],
+			reservations: [makeReservation('Gamma', 'src/lib/server/**')]
+		});
+		const assignments = [
+			{ agent: input.agents[0], task: makeTask('jat-a', { files: ['src/lib/server/db.ts'] }) },
+			{ agent: input.agents[1], task: makeTask('jat-b', { files: ['src/lib/**/*.ts'] }) }
+		].map(pair => ({ ...pair, confidence: 'high' as const, score: 0, warnings: [], reasons: [] }));
+
+		const { overlaps } = simulateAssignments(input, assignments);
+
+		expect(overlaps.map(o => [o.task.id, o.otherAgent, o.source])).toEqual([
+			['jat-a', 'Gamma', 'reservation'],
+			['jat-a', 'Beta', 'batch'],
+			['jat-b', 'Gamma', 'reservation']
+		]);
+	});
+
+	it('should order completion by queue position, then priority', () => {
+		const input = makeInput();
+		const assignments = [
+			{ agent: input.agents[1], task: makeTask('jat-beta', { priority: 0 }) },
+			{ agent: input.agents[0], task: makeTask('jat-a1', { priority: 3 }) },
+			{ agent: input.agents[0], task: makeTask('jat-a2', { priority: 1 }) }
+		].map(pair => ({ ...pair, confidence: 'high' as const, score: 0, warnings: [], reasons: [] }));
+
+		const { completionOrder } = simulateAssignments(input, assignments);
+
+		expect(completionOrder.map(c => [c.task.id, c.queuePosition, c.order])).toEqual([
+			['jat-a1', 1, 1],
+			['jat-a2', 2, 2],
+			['jat-beta', 3, 3]
+		]);
+	});
+});
+
+// ============================================================================
+// Tests: moveAssignment
+// ============================================================================
+
+describe('moveAssignment', () => {
+	it('should move a task and re-score the batch', () => {
+		const input = makeInput({
+			reservations: [makeReservation('Beta', 'dashboard/**')]
+		});
+		const plan = planAutoAssignments(
+			[makeTask('jat-ui', { files: ['dashboard/src/app.css'] })],
+			input.agents,
+			input.reservations
+		);
+		expect(plan.assignments[0].agent.name).toBe('Alpha');
+
+		const moved = moveAssignment(input, plan.assignments, 'jat-ui', 'Beta');
+
+		expect(moved[0].agent.name).toBe('Beta');
+		expect(moved[0].score).toBeLessThan(plan.assignments[0].score);
+		expect(moved[0].warnings).toContain('File conflicts: dashboard/**');
+		expect(moved[0].warnings).toContain('Auto-assign would not pick this agent (overloaded or low score)');
+	});
+
+	it('should return the batch unchanged for unknown tasks or agents', () => {
+		const input = makeInput();
+		const plan = planAutoAssignments([makeTask('jat-a')], input.agents, []);
+
+		expect(moveAssignment(input, plan.assignments, 'jat-zzz', 'Beta')).toBe(plan.assignments);
+		expect(moveAssignment(input, plan.assignments, 'jat-a', 'Nobody')).toBe(plan.assignments);
+		expect(moveAssignment(input, plan.assignments, 'jat-a', 'Alpha')).toBe(plan.assignments);
+	});
+
+	it('should keep the total score when re-scoring an unchanged optimal plan', () => {
+		const input = makeInput();
+		const tasks = ['a', 'b', 'c'].map(id => makeTask(`jat-${id}`));
+		const plan = planAutoAssignments(tasks, input.agents, [], [], [], { capacity: 2 });
+
+		// Move a task away and back; the pairing is the original one again
+		const target = plan.assignments[0].agent.name === 'Alpha' ? 'Beta' : 'Alpha';
+		const away = moveAssignment(input, plan.assignments, plan.assignments[0].task.id, target);
+		const back = moveAssignment(input, away, plan.assignments[0].task.id, plan.assignments[0].agent.name);
+
+		expect(simulateAssignments(input, back).totalScore).toBe(plan.totalScore);
+	});
+});
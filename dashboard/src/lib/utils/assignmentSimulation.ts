@@ -0,0 +1,219 @@
+/**
+ * Assignment Simulation
+ *
+ * Pure "what-if" projections for a batch of assignments before it is
+ * committed: per-agent load, reservation overlaps and an estimated completion
+ * order. Backs the what-if mode of AutoAssignModal, where tasks can be moved
+ * between agents and the plan re-scored.
+ */
+
+import {
+	calculateAgentLoad,
+	getTaskFilePatterns,
+	scoreAssignments,
+	LOAD_THRESHOLD,
+	type Agent,
+	type Assignment,
+	type Reservation,
+	type Task
+} from './autoAssign';
+import { globsIntersect } from './globIntersect';
+
+/**
+ * The slice of AgentsData a simulation needs
+ */
+export interface SimulationInput {
+	agents: Agent[];
+	/** Active reservations */
+	reservations: Reservation[];
+	/** Full task list; closed tasks feed affinity and dependency chains */
+	tasks: Task[];
+	/** Past reservations, released and expired included; feed affinity */
+	reservationHistory?: Reservation[];
+}
+
+export interface AgentProjection {
+	agent: Agent;
+	/** Load before this batch (see calculateAgentLoad) */
+	currentLoad: number;
+	/** Load after this batch; each new task counts as one queued task */
+	projectedLoad: number;
+	/** Tasks this batch gives the agent, in assignment order */
+	newTasks: Task[];
+	/** True when the projected load reaches the auto-assign threshold */
+	overloaded: boolean;
+}
+
+export interface ReservationOverlap {
+	task: Task;
+	agent: string;
+	taskPattern: string;
+	/** Agent holding (or about to work on) the overlapping files */
+	otherAgent: string;
+	otherPattern: string;
+	/** 'reservation' = an active lock; 'batch' = another task in this batch */
+	source: 'reservation' | 'batch';
+	/** Task on the other side of a 'batch' overlap */
+	otherTask?: Task;
+}
+
+export interface CompletionEstimate {
+	task: Task;
+	agent: string;
+	/** Position in the agent's queue, counting work it already has */
+	queuePosition: number;
+	/** 1-based position in the estimated global completion order */
+	order: number;
+}
+
+export interface SimulationResult {
+	agents: AgentProjection[];
+	overlaps: ReservationOverlap[];
+	completionOrder: CompletionEstimate[];
+	totalScore: number;
+}
+
+/**
+ * Check whether a reservation is currently held
+ */
+function isActive(reservation: Reservation, now: Date): boolean {
+	if (reservation.released_ts) return false;
+	return new Date(reservation.expires_ts) > now;
+}
+
+/**
+ * Find file overlaps a batch would create
+ *
+ * Each assignment's file patterns are checked against active reservations
+ * held by other agents, and against tasks given to other agents in the same
+ * batch (each such pair is reported once).
+ */
+function findOverlaps(assignments: Assignment[], reservations: Reservation[]): ReservationOverlap[] {
+	const now = new Date();
+	const active = reservations.filter(r => isActive(r, now));
+	const patterns = assignments.map(a => getTaskFilePatterns(a.task));
+	const overlaps: ReservationOverlap[] = [];
+
+	assignments.forEach((assignment, i) => {
+		for (const taskPattern of patterns[i]) {
+			for (const reservation of active) {
+				if (reservation.agent_name === assignment.agent.name) continue;
+				if (globsIntersect(taskPattern, reservation.path_pattern)) {
+					overlaps.push({
+						task: assignment.task,
+						agent: assignment.agent.name,
+						taskPattern,
+						otherAgent: reservation.agent_name,
+						otherPattern: reservation.path_pattern,
+						source: 'reservation'
+					});
+				}
+			}
+
+			for (let j = i + 1; j < assignments.length; j++) {
+				const other = assignments[j];
+				if (other.agent.name === assignment.agent.name) continue;
+
+				const otherPattern = patterns[j].find(p => globsIntersect(taskPattern, p));
+				if (otherPattern) {
+					overlaps.push({
+						task: assignment.task,
+						agent: assignment.agent.name,
+						taskPattern,
+						otherAgent: other.agent.name,
+						otherPattern,
+						source: 'batch',
+						otherTask: other.task
+					});
+				}
+			}
+		}
+	});
+
+	return overlaps;
+}
+
+/**
+ * Estimate the order in which batch tasks finish
+ *
+ * Assumes every task takes the same time and each agent first works through
+ * the tasks it already has (task_count), then its new tasks in order. Ties
+ * are broken by priority, then task ID.
+ */
+function estimateCompletionOrder(assignments: Assignment[]): CompletionEstimate[] {
+	const queued = new Map<string, number>();
+
+	const estimates = assignments.map(({ agent, task }) => {
+		const ahead = queued.get(agent.name) ?? agent.task_count;
+		queued.set(agent.name, ahead + 1);
+		return { task, agent: agent.name, queuePosition: ahead + 1, order: 0 };
+	});
+
+	estimates.sort((a, b) => {
+		if (a.queuePosition !== b.queuePosition) return a.queuePosition - b.queuePosition;
+		if (a.task.priority !== b.task.priority) return a.task.priority - b.task.priority;
+		return a.task.id.localeCompare(b.task.id);
+	});
+	estimates.forEach((estimate, i) => {
+		estimate.order = i + 1;
+	});
+
+	return estimates;
+}
+
+/**
+ * Project the effect of committing a batch of assignments
+ *
+ * Does not re-score; pass assignments from planAutoAssignments() or
+ * moveAssignment() so scores are current.
+ */
+export function simulateAssignments(input: SimulationInput, assignments: Assignment[]): SimulationResult {
+	const agents = input.agents.map(agent => {
+		const newTasks = assignments.filter(a => a.agent.name === agent.name).map(a => a.task);
+		const currentLoad = calculateAgentLoad(agent);
+		const projectedLoad = currentLoad + newTasks.length;
+
+		return {
+			agent,
+			currentLoad,
+			projectedLoad,
+			newTasks,
+			overloaded: projectedLoad >= LOAD_THRESHOLD
+		};
+	});
+
+	return {
+		agents,
+		overlaps: findOverlaps(assignments, input.reservations),
+		completionOrder: estimateCompletionOrder(assignments),
+		totalScore: assignments.reduce((sum, a) => sum + a.score, 0)
+	};
+}
+
+/**
+ * Move one task to another agent and re-score the whole batch
+ *
+ * The moved task goes to the end of its new agent's queue. Returns the
+ * assignments unchanged if the task or agent is unknown, or if the task
+ * already belongs to that agent.
+ */
+export function moveAssignment(
+	input: SimulationInput,
+	assignments: Assignment[],
+	taskId: string,
+	agentName: string
+): Assignment[] {
+	const moving = assignments.find(a => a.task.id === taskId);
+	const agent = input.agents.find(a => a.name === agentName);
+
+	if (!moving || !agent || moving.agent.name === agentName) {
+		return assignments;
+	}
+
+	const pairs = [
+		...assignments.filter(a => a !== moving).map(a => ({ agent: a.agent, task: a.task })),
+		{ agent, task: moving.task }
+	];
+
+	return scoreAssignments(pairs, input.reservations, input.tasks, input.reservationHistory);
+}
@@ -0,0 +1,95 @@
+/**
+ * Assignment Solver Tests
+ *
+ * Tests for the Hungarian algorithm in assignmentSolver.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveAssignment } from './assignmentSolver';
+
+/**
+ * Brute-force the best total over all matchings that pair
+ * min(rows, cols) rows (small inputs only)
+ */
+function bruteForceBest(values: number[][]): number {
+	const cols = values[0]?.length ?? 0;
+	const target = Math.min(values.length, cols);
+	let best = -Infinity;
+
+	function walk(row: number, used: Set<number>, total: number) {
+		if (row === values.length) {
+			if (used.size === target) best = Math.max(best, total);
+			return;
+		}
+		for (let c = 0; c < cols; c++) {
+			if (used.has(c)) continue;
+			used.add(c);
+			walk(row + 1, used, total + values[row][c]);
+			used.delete(c);
+		}
+		walk(row + 1, used, total);
+	}
+
+	walk(0, new Set(), 0);
+	return best;
+}
+
+function totalOf(values: number[][], matching: number[]): number {
+	return matching.reduce((sum, c, r) => (c >= 0 ? sum + values[r][c] : sum), 0);
+}
+
+describe('solveAssignment', () => {
+	it('should return an empty matching for empty input', () => {
+		expect(solveAssignment([])).toEqual([]);
+		expect(solveAssignment([[], []])).toEqual([-1, -1]);
+	});
+
+	it('should find the maximum-value matching on a square matrix', () => {
+		const values = [
+			[10, 9, 1],
+			[9, 1, 1],
+			[1, 1, 5]
+		];
+		// Greedy would take (0,0)=10 then (1,1)=1; optimal swaps rows 0 and 1
+		expect(solveAssignment(values)).toEqual([1, 0, 2]);
+	});
+
+	it('should leave surplus rows unmatched when there are more rows than columns', () => {
+		const values = [
+			[1, 2],
+			[8, 3],
+			[4, 9]
+		];
+		const matching = solveAssignment(values);
+		expect(matching).toEqual([-1, 0, 1]);
+	});
+
+	it('should use each column at most once', () => {
+		const values = [
+			[5, 1, 1, 1],
+			[5, 1, 1, 1]
+		];
+		const matching = solveAssignment(values);
+		expect(new Set(matching).size).toBe(2);
+		expect(totalOf(values, matching)).toBe(6);
+	});
+
+	it('should match brute force on random matrices', () => {
+		let seed = 42;
+		const random = () => {
+			seed = (seed * 1103515245 + 12345) % 2147483648;
+			return seed / 2147483648;
+		};
+
+		for (let trial = 0; trial < 50; trial++) {
+			const rows = 1 + Math.floor(random() * 5);
+			const cols = 1 + Math.floor(random() * 5);
+			const values = Array.from({ length: rows }, () =>
+				Array.from({ length: cols }, () => Math.round(random() * 200 - 100))
+			);
+
+			const matching = solveAssignment(values);
+			expect(totalOf(values, matching)).toBe(bruteForceBest(values));
+		}
+	});
+});
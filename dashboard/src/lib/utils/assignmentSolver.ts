@@ -0,0 +1,107 @@
+/**
+ * Assignment Solver
+ *
+ * Hungarian algorithm (Kuhn-Munkres) for the rectangular assignment problem.
+ * Used by autoAssign.ts to optimize a whole batch of task assignments at once
+ * instead of greedily picking the best agent task by task.
+ */
+
+/**
+ * Find the row → column matching that maximizes the total value
+ *
+ * Every row is matched to at most one column and every column to at most
+ * one row. Exactly min(rows, cols) pairs are matched, so the surplus side
+ * is left unmatched; callers that want to allow skipping a pairing should
+ * give it a value no better than leaving it out (e.g. 0 with positive
+ * values elsewhere).
+ *
+ * @param values - values[row][col]; all rows must have the same length
+ * @returns For each row, the matched column index or -1 if unmatched
+ */
+export function solveAssignment(values: number[][]): number[] {
+	const rows = values.length;
+	const cols = rows > 0 ? values[0].length : 0;
+
+	if (rows === 0 || cols === 0) {
+		return new Array(rows).fill(-1);
+	}
+
+	// The core algorithm needs rows <= cols, so transpose when necessary
+	if (rows > cols) {
+		const transposed = Array.from({ length: cols }, (_, c) =>
+			Array.from({ length: rows }, (_, r) => values[r][c])
+		);
+		const colToRow = solveAssignment(transposed);
+		const result = new Array(rows).fill(-1);
+		colToRow.forEach((r, c) => {
+			if (r >= 0) result[r] = c;
+		});
+		return result;
+	}
+
+	// Convert maximization to minimization
+	let maxValue = -Infinity;
+	for (const row of values) {
+		for (const value of row) {
+			if (value > maxValue) maxValue = value;
+		}
+	}
+	const cost = (r: number, c: number) => maxValue - values[r][c];
+
+	// Potentials and matching (1-indexed, index 0 is a sentinel)
+	const u = new Array(rows + 1).fill(0);
+	const v = new Array(cols + 1).fill(0);
+	const match = new Array(cols + 1).fill(0); // match[col] = row
+	const way = new Array(cols + 1).fill(0);
+
+	for (let i = 1; i <= rows; i++) {
+		match[0] = i;
+		let j0 = 0;
+		const minv = new Array(cols + 1).fill(Infinity);
+		const used = new Array(cols + 1).fill(false);
+
+		do {
+			used[j0] = true;
+			const i0 = match[j0];
+			let delta = Infinity;
+			let j1 = 0;
+
+			for (let j = 1; j <= cols; j++) {
+				if (used[j]) continue;
+				const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+				if (cur < minv[j]) {
+					minv[j] = cur;
+					way[j] = j0;
+				}
+				if (minv[j] < delta) {
+					delta = minv[j];
+					j1 = j;
+				}
+			}
+
+			for (let j = 0; j <= cols; j++) {
+				if (used[j]) {
+					u[match[j]] += delta;
+					v[j] -= delta;
+				} else {
+					minv[j] -= delta;
+				}
+			}
+
+			j0 = j1;
+		} while (match[j0] !== 0);
+
+		// Augment along the alternating path
+		do {
+			const j1 = way[j0];
+			match[j0] = match[j1];
+			j0 = j1;
+		} while (j0 !== 0);
+	}
+
+	const result = new Array(rows).fill(-1);
+	for (let j = 1; j <= cols; j++) {
+		if (match[j] > 0) result[match[j] - 1] = j - 1;
+	}
+	return result;
+}
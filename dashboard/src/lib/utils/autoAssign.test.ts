@@ -0,0 +1,391 @@
+/**
+ * Auto-Assign Algorithm Tests
+ *
+ * Tests for agent profiles, affinity scoring and batch planning in autoAssign.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	buildAgentProfiles,
+	generateAutoAssignments,
+	getTaskFilePatterns,
+	planAutoAssignments,
+	scoreAssignments,
+	type Agent,
+	type Task,
+	type Reservation
+} from './autoAssign';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const FUTURE = new Date(Date.now() + 3600000).toISOString();
+
+function makeAgent(name: string, overrides: Partial<Agent> = {}): Agent {
+	return {
+		name,
+		active: false,
+		task_count: 0,
+		in_progress_tasks: 0,
+		reservation_count: 0,
+		...overrides
+	};
+}
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+	return {
+		id,
+		title: `Task ${id}`,
+		priority: 2,
+		status: 'open',
+		...overrides
+	};
+}
+
+function makeReservation(agentName: string, pattern: string): Reservation {
+	return { agent_name: agentName, path_pattern: pattern, expires_ts: FUTURE };
+}
+
+// ============================================================================
+// Tests: buildAgentProfiles
+// ============================================================================
+
+describe('buildAgentProfiles', () => {
+	it('should count labels, types and projects from closed tasks only', () => {
+		const profiles = buildAgentProfiles([
+			makeTask('jat-a1', { status: 'closed', assignee: 'Alpha', labels: ['ui'], issue_type: 'bug', project: 'jat' }),
+			makeTask('jat-a2', { status: 'closed', assignee: 'Alpha', labels: ['ui', 'db'], issue_type: 'bug', project: 'jat' }),
+			makeTask('jat-a3', { status: 'open', assignee: 'Alpha', labels: ['ui'] })
+		]);
+
+		const alpha = profiles.get('Alpha');
+		expect(alpha?.closedCount).toBe(2);
+		expect(alpha?.labels).toEqual({ ui: 2, db: 1 });
+		expect(alpha?.issueTypes).toEqual({ bug: 2 });
+		expect(alpha?.projects).toEqual({ jat: 2 });
+	});
+
+	it('should remember reserved file patterns', () => {
+		const profiles = buildAgentProfiles([], [
+			makeReservation('Beta', 'src/lib/db/**'),
+			makeReservation('Beta', 'src/lib/db/**')
+		]);
+
+		expect(profiles.get('Beta')?.filePatterns).toEqual(['src/lib/db/**']);
+	});
+});
+
+// ============================================================================
+// Tests: getTaskFilePatterns
+// ============================================================================
+
+describe('getTaskFilePatterns', () => {
+	it('should prefer the declared file scope over title heuristics', () => {
+		const task = makeTask('jat-f1', { title: 'Fix dashboard backend', files: ['lib/beads.js'] });
+
+		expect(getTaskFilePatterns(task)).toEqual(['lib/beads.js']);
+	});
+
+	it('should fall back to heuristics without a declared scope', () => {
+		expect(getTaskFilePatterns(makeTask('jat-f2', { title: 'Fix dashboard layout' }))).toEqual([
+			'dashboard/**'
+		]);
+		expect(getTaskFilePatterns(makeTask('jat-f3', { title: 'Fix dashboard layout', files: [] }))).toEqual([
+			'dashboard/**'
+		]);
+	});
+
+	it('should only report conflicts for the declared scope', () => {
+		const reservations = [makeReservation('Busy', 'dashboard/**')];
+		const agents = [makeAgent('Busy', { reservation_count: 1 })];
+
+		// Title mentions the dashboard but the declared scope is elsewhere
+		const [assignment] = generateAutoAssignments(
+			[makeTask('jat-f4', { title: 'Dashboard data: fix query', files: ['lib/beads.js'] })],
+			agents,
+			reservations
+		);
+
+		expect(assignment?.agent.name).toBe('Busy');
+		expect(assignment?.warnings.some(w => w.startsWith('File conflicts'))).toBe(false);
+	});
+});
+
+// ============================================================================
+// Tests: affinity
+// ============================================================================
+
+describe('generateAutoAssignments - affinity', () => {
+	it('should prefer the agent with matching history and explain why', () => {
+		const history = [
+			makeTask('jat-h1', { status: 'closed', assignee: 'DbAgent', labels: ['migration'], issue_type: 'task' }),
+			makeTask('jat-h2', { status: 'closed', assignee: 'DbAgent', labels: ['migration'], issue_type: 'task' }),
+			makeTask('jat-h3', { status: 'closed', assignee: 'UiAgent', labels: ['svelte'] })
+		];
+		const task = makeTask('jat-new', { labels: ['migration'], issue_type: 'task' });
+
+		const [assignment] = generateAutoAssignments(
+			[task],
+			[makeAgent('UiAgent'), makeAgent('DbAgent')],
+			[],
+			history
+		);
+
+		expect(assignment.agent.name).toBe('DbAgent');
+		expect(assignment.reasons).toContain('Closed 2 tasks labeled "migration"');
+	});
+
+	it('should break ties by affinity, and keep listed order when that ties too', () => {
+		const history = [
+			makeTask('jat-h1', { status: 'closed', assignee: 'Alpha', project: 'jat' }),
+			makeTask('jat-h2', { status: 'closed', assignee: 'Beta', project: 'jat' })
+		];
+		const task = makeTask('jat-new', { project: 'jat' });
+
+		for (const strategy of ['greedy', 'optimal'] as const) {
+			const pick = (agents: Agent[]) =>
+				generateAutoAssignments([task], agents, [], history, [], { strategy })[0]?.agent.name;
+
+			expect(pick([makeAgent('Beta'), makeAgent('Alpha')])).toBe('Beta');
+			expect(pick([makeAgent('Alpha'), makeAgent('Beta')])).toBe('Alpha');
+			expect(pick([makeAgent('Gamma'), makeAgent('Alpha')])).toBe('Alpha');
+		}
+	});
+
+	it('should not let a little affinity outweigh load', () => {
+		const history = [makeTask('jat-h1', { status: 'closed', assignee: 'Alpha', project: 'jat' })];
+
+		const [assignment] = generateAutoAssignments(
+			[makeTask('jat-new', { project: 'jat' })],
+			[makeAgent('Alpha', { task_count: 1 }), makeAgent('Beta')],
+			[],
+			history
+		);
+
+		expect(assignment.agent.name).toBe('Beta');
+	});
+});
+
+describe('scoreAssignments - affinity', () => {
+	// Idle and inactive, so the score is the affinity alone
+	const alpha = makeAgent('Alpha');
+
+	const score = (
+		task: Task,
+		history: Task[] = [],
+		reservationHistory: Reservation[] = [],
+		reservations: Reservation[] = []
+	) => scoreAssignments([{ agent: alpha, task }], reservations, history, reservationHistory)[0];
+
+	it('should count each matching label, capped', () => {
+		const history = [
+			...['jat-h1', 'jat-h2'].map(id =>
+				makeTask(id, { status: 'closed', assignee: 'Alpha', labels: ['ui', 'api'] })
+			),
+			...['jat-h3', 'jat-h4', 'jat-h5', 'jat-h6', 'jat-h7'].map(id =>
+				makeTask(id, { status: 'closed', assignee: 'Alpha', labels: ['ui'] })
+			)
+		];
+
+		const api = score(makeTask('jat-new', { labels: ['api', 'docs'] }), history);
+		expect(api.score).toBe(4);
+		expect(api.reasons).toContain('Closed 2 tasks labeled "api"');
+
+		// 7 × ui + 2 × api, capped
+		expect(score(makeTask('jat-new', { labels: ['ui', 'api'] }), history).score).toBe(12);
+		expect(score(makeTask('jat-new', { labels: ['docs'] }), history).score).toBe(0);
+	});
+
+	it('should count issue types and projects, capped', () => {
+		const history = ['jat-h1', 'jat-h2', 'jat-h3', 'jat-h4', 'jat-h5', 'jat-h6', 'jat-h7'].map(id =>
+			makeTask(id, { status: 'closed', assignee: 'Alpha', issue_type: 'bug', project: 'jat' })
+		);
+
+		const result = score(makeTask('jat-new', { issue_type: 'bug', project: 'jat' }), history);
+
+		expect(result.score).toBe(12);
+		expect(result.reasons).toEqual(expect.arrayContaining(['Closed 7 bug tasks', 'Closed 7 tasks in jat']));
+		expect(score(makeTask('jat-new', { issue_type: 'feature', project: 'web' }), history).score).toBe(0);
+	});
+
+	it('should favour files overlapping patterns reserved before', () => {
+		const reservationHistory = [
+			{ ...makeReservation('Alpha', 'src/lib/db/**'), released_ts: new Date().toISOString() },
+			{ ...makeReservation('Alpha', 'docs/*.md'), expires_ts: new Date(Date.now() - 3600000).toISOString() }
+		];
+
+		const familiar = score(
+			makeTask('jat-new', { files: ['src/lib/db/schema.ts', 'src/routes/**'] }),
+			[],
+			reservationHistory
+		);
+		expect(familiar.score).toBe(8);
+		expect(familiar.reasons).toContain('Previously reserved src/lib/db/**');
+		expect(familiar.warnings).toEqual([]);
+
+		expect(score(makeTask('jat-new', { files: ['docs/setup.md'] }), [], reservationHistory).score).toBe(8);
+		expect(score(makeTask('jat-new', { files: ['src/routes/**'] }), [], reservationHistory).score).toBe(0);
+	});
+
+	it('should not count active reservations as history', () => {
+		const active = [makeReservation('Alpha', 'src/lib/db/**')];
+
+		const result = score(makeTask('jat-new', { files: ['src/lib/db/schema.ts'] }), [], [], active);
+
+		expect(result.score).toBe(-100);
+		expect(result.reasons.some(r => r.startsWith('Previously reserved'))).toBe(false);
+		expect(result.warnings).toContain('File conflicts: src/lib/db/**');
+	});
+
+	it('should treat a pattern still held as a conflict, not familiarity', () => {
+		// History includes the current reservation alongside an older release
+		const active = [makeReservation('Alpha', 'src/lib/db/**')];
+		const reservationHistory = [
+			...active,
+			{ ...makeReservation('Alpha', 'src/lib/api/**'), released_ts: new Date().toISOString() }
+		];
+
+		const held = score(makeTask('jat-new', { files: ['src/lib/db/schema.ts'] }), [], reservationHistory, active);
+		expect(held.score).toBe(-100);
+		expect(held.warnings).toContain('File conflicts: src/lib/db/**');
+		expect(held.reasons.some(r => r.startsWith('Previously reserved'))).toBe(false);
+
+		const released = score(makeTask('jat-new', { files: ['src/lib/api/routes.ts'] }), [], reservationHistory, active);
+		expect(released.score).toBe(8);
+		expect(released.warnings).toEqual([]);
+	});
+});
+
+// ============================================================================
+// Tests: planAutoAssignments
+// ============================================================================
+
+describe('planAutoAssignments', () => {
+	// Busy holds a reservation on dashboard/**, so it cannot take dashboard work
+	const agents = [makeAgent('Free'), makeAgent('Busy', { reservation_count: 1 })];
+	const reservations = [makeReservation('Busy', 'dashboard/**')];
+	const tasks = [
+		makeTask('jat-p1', { priority: 1, title: 'Fix flaky auth retry' }),
+		makeTask('jat-p2', { priority: 2, title: 'Restyle dashboard header' })
+	];
+
+	it('should leave work unassigned when greedy picks block later tasks', () => {
+		const plan = planAutoAssignments(tasks, agents, reservations, [], [], { strategy: 'greedy' });
+
+		expect(plan.assignments.map(a => [a.task.id, a.agent.name])).toEqual([['jat-p1', 'Free']]);
+		expect(plan.unassigned.map(t => t.id)).toEqual(['jat-p2']);
+	});
+
+	it('should assign the whole batch when an optimal plan exists', () => {
+		const plan = planAutoAssignments(tasks, agents, reservations, [], [], { strategy: 'optimal' });
+
+		const pairs = Object.fromEntries(plan.assignments.map(a => [a.task.id, a.agent.name]));
+		expect(pairs).toEqual({ 'jat-p1': 'Busy', 'jat-p2': 'Free' });
+		expect(plan.unassigned).toEqual([]);
+		expect(plan.totalScore).toBe(plan.assignments.reduce((sum, a) => sum + a.score, 0));
+	});
+
+	it('should respect per-agent capacity', () => {
+		const many = ['a', 'b', 'c', 'd', 'e'].map(id => makeTask(`jat-${id}`));
+
+		const single = planAutoAssignments(many, [makeAgent('Solo')], [], [], [], { capacity: 1 });
+		expect(single.assignments).toHaveLength(1);
+
+		const triple = planAutoAssignments(many, [makeAgent('Solo')], [], [], [], { capacity: 3 });
+		expect(triple.assignments).toHaveLength(3);
+		expect(triple.unassigned).toHaveLength(2);
+
+		const perAgent = planAutoAssignments(many, [makeAgent('A'), makeAgent('B')], [], [], [], {
+			capacity: { A: 2 }
+		});
+		expect(perAgent.assignments.filter(a => a.agent.name === 'A')).toHaveLength(2);
+		expect(perAgent.assignments.filter(a => a.agent.name === 'B')).toHaveLength(1);
+	});
+
+	it('should assign higher-priority tasks first when capacity is scarce', () => {
+		const plan = planAutoAssignments(
+			[makeTask('jat-low', { priority: 3 }), makeTask('jat-high', { priority: 0 })],
+			[makeAgent('Solo')],
+			[]
+		);
+
+		expect(plan.assignments.map(a => a.task.id)).toEqual(['jat-high']);
+	});
+
+	it('should skip tasks with open dependencies', () => {
+		const plan = planAutoAssignments(
+			[makeTask('jat-blk', { dependencies: [{ id: 'jat-dep', status: 'open' }] })],
+			[makeAgent('Solo')],
+			[]
+		);
+
+		expect(plan.assignments).toEqual([]);
+	});
+});
+
+// ============================================================================
+// Tests: dependency-aware planning
+// ============================================================================
+
+describe('planAutoAssignments - dependencies', () => {
+	it('should defer blocked tasks and explain what they wait on', () => {
+		const blocker = makeTask('jat-dep', { status: 'in_progress', assignee: 'Other' });
+		const blocked = makeTask('jat-blk', { depends_on: [{ id: 'jat-dep', status: 'in_progress' }] });
+
+		const plan = planAutoAssignments([blocked], [makeAgent('Solo')], [], [blocker]);
+
+		expect(plan.deferred).toEqual([
+			{ task: blocked, reason: 'Blocked by jat-dep (in progress by Other)', blockers: ['jat-dep'] }
+		]);
+		expect(plan.unassigned).toEqual([]);
+	});
+
+	it('should note blockers planned in the same batch and upstream depth', () => {
+		const root = makeTask('jat-root');
+		const middle = makeTask('jat-mid', { depends_on: [{ id: 'jat-root', status: 'open' }] });
+		const leaf = makeTask('jat-leaf', { depends_on: [{ id: 'jat-mid', status: 'open' }] });
+
+		const plan = planAutoAssignments([root, middle, leaf], [makeAgent('Solo')], []);
+
+		expect(plan.assignments.map(a => a.task.id)).toEqual(['jat-root']);
+		const reasons = Object.fromEntries(plan.deferred.map(d => [d.task.id, d.reason]));
+		expect(reasons['jat-mid']).toBe('Blocked by jat-root (planned for Solo in this batch)');
+		expect(reasons['jat-leaf']).toBe(
+			'Blocked by jat-mid (itself blocked); 1 more open task further upstream'
+		);
+	});
+
+	it('should schedule blockers of P0/P1 work ahead of higher nominal priority', () => {
+		const blocker = makeTask('jat-blocker', { priority: 3 });
+		const urgent = makeTask('jat-urgent', {
+			priority: 0,
+			depends_on: [{ id: 'jat-blocker', status: 'open' }]
+		});
+		const medium = makeTask('jat-medium', { priority: 2 });
+
+		for (const strategy of ['greedy', 'optimal'] as const) {
+			const plan = planAutoAssignments([blocker, urgent, medium], [makeAgent('Solo')], [], [], [], {
+				strategy
+			});
+
+			expect(plan.assignments.map(a => a.task.id)).toEqual(['jat-blocker']);
+			expect(plan.assignments[0].reasons).toContain('Unblocks 1 P0/P1 task: jat-urgent');
+		}
+	});
+
+	it('should keep a chain with the agent who worked on it', () => {
+		const history = [makeTask('jat-step1', { status: 'closed', assignee: 'Chain' })];
+		const next = makeTask('jat-step2', { depends_on: [{ id: 'jat-step1', status: 'closed' }] });
+
+		const [assignment] = generateAutoAssignments(
+			[next],
+			[makeAgent('Fresh'), makeAgent('Chain')],
+			[],
+			history
+		);
+
+		expect(assignment.agent.name).toBe('Chain');
+		expect(assignment.reasons).toContain('Continues chain: worked on jat-step1');
+	});
+});
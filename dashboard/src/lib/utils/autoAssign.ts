@@ -5,9 +5,15 @@
  * - Agent availability and load
  * - Task priority
  * - File reservation conflicts
- * - Task dependencies
+ * - Task dependencies (blocked tasks are deferred, blockers of urgent work go
+ *   first, and chains stay with the agent that worked on them)
+ * - Agent affinity (labels, issue types, projects and files from closed work)
  */
 
+import { solveAssignment } from './assignmentSolver';
+import { globsIntersect } from './globIntersect';
+import { buildDependencyChain } from './dependencyUtils';
+
 export interface Agent {
 	name: string;
 	active: boolean;
@@ -22,6 +28,15 @@ export interface Task {
 	priority: number;
 	status: string;
 	assignee?: string;
+	description?: string;
+	issue_type?: string;
+	project?: string;
+	labels?: string[];
+	/** Declared file scope globs (`files:` labels in Beads) */
+	files?: string[];
+	/** Tasks this task depends on (as returned by lib/beads.js) */
+	depends_on?: Array<{ id: string; status: string }>;
+	/** Legacy alias for depends_on */
 	dependencies?: Array<{ id: string; status: string }>;
 }
 
@@ -36,7 +51,92 @@ export interface Assignment {
 	agent: Agent;
 	task: Task;
 	confidence: 'high' | 'medium' | 'low';
+	score: number;
 	warnings: string[];
+	reasons: string[];
+}
+
+/**
+ * Work history for one agent, derived from the tasks it has closed
+ * and the file patterns it has reserved
+ */
+export interface AgentProfile {
+	name: string;
+	closedCount: number;
+	labels: Record<string, number>;
+	issueTypes: Record<string, number>;
+	projects: Record<string, number>;
+	filePatterns: string[];
+}
+
+// Affinity weights (per matching closed task) and caps (per signal)
+const AFFINITY_LABEL_WEIGHT = 2;
+const AFFINITY_LABEL_CAP = 12;
+const AFFINITY_TYPE_WEIGHT = 1;
+const AFFINITY_TYPE_CAP = 6;
+const AFFINITY_PROJECT_WEIGHT = 1;
+const AFFINITY_PROJECT_CAP = 6;
+const AFFINITY_FILE_BONUS = 8;
+// Bonus for the agent who worked on a task's upstream dependency
+const CHAIN_AFFINITY_BONUS = 15;
+// Downstream tasks at or above this priority count as critical work
+const CRITICAL_PRIORITY = 1;
+
+// Agents at or above this load are not given new work
+export const LOAD_THRESHOLD = 10;
+// Pairings scoring below this are rejected (e.g. file conflicts)
+const MIN_ASSIGNMENT_SCORE = -50;
+// Solver tie-breakers: any feasible pairing beats none, then priority wins
+const SOLVER_FEASIBLE_OFFSET = 1000;
+const SOLVER_PRIORITY_WEIGHT = 25;
+const SOLVER_UNBLOCK_WEIGHT = 5;
+
+export type AssignmentStrategy = 'greedy' | 'optimal';
+
+export interface AutoAssignOptions {
+	strategy?: AssignmentStrategy;
+	/** Max tasks per agent in one batch: one number for all, or per agent name */
+	capacity?: number | Record<string, number>;
+}
+
+export interface AssignmentPlan {
+	strategy: AssignmentStrategy;
+	assignments: Assignment[];
+	/** Sum of assignment scores, comparable across strategies */
+	totalScore: number;
+	/** Ready (unblocked) tasks that could not be given an agent */
+	unassigned: Task[];
+	/** Tasks skipped because of open dependencies, with the reason why */
+	deferred: DeferredTask[];
+}
+
+export interface DeferredTask {
+	task: Task;
+	/** Human-readable explanation (e.g. "Blocked by jat-abc (in progress by Alpha)") */
+	reason: string;
+	/** Open tasks anywhere upstream in the dependency chain */
+	blockers: string[];
+}
+
+/**
+ * What the dependency graph says about one ready task
+ */
+interface TaskLookahead {
+	/** Best priority among the task and the open work it (transitively) unblocks */
+	effectivePriority: number;
+	/** Open P0/P1 tasks that (transitively) wait on this task */
+	unblocks: string[];
+	/** Agent name → nearest upstream task that agent worked on */
+	chainAgents: Map<string, string>;
+}
+
+/**
+ * Everything the scoring functions need besides the task and agent
+ */
+interface PlanContext {
+	reservations: Reservation[];
+	profiles: Map<string, AgentProfile>;
+	lookahead: Map<string, TaskLookahead>;
 }
 
 /**
@@ -56,8 +156,7 @@ function hasFileConflict(
 		return expiresAt > new Date();
 	});
 
-	// Extract file patterns from task description (heuristic-based)
-	const taskPatterns = extractFilePatterns(task.title + ' ' + (task as any).description || '');
+	const taskPatterns = getTaskFilePatterns(task);
 
 	if (taskPatterns.length === 0) {
 		// No patterns detected, assume no conflict
@@ -69,7 +168,7 @@ function hasFileConflict(
 
 	for (const taskPattern of taskPatterns) {
 		for (const reservation of agentReservations) {
-			if (patternsOverlap(taskPattern, reservation.path_pattern)) {
+			if (globsIntersect(taskPattern, reservation.path_pattern)) {
 				conflicting.push(reservation.path_pattern);
 			}
 		}
@@ -81,6 +180,19 @@ function hasFileConflict(
 	};
 }
 
+/**
+ * Get the file patterns a task is expected to touch
+ *
+ * Uses the task's declared file scope when it has one and only falls back to
+ * guessing from the title and description when it doesn't.
+ */
+export function getTaskFilePatterns(task: Task): string[] {
+	if (task.files && task.files.length > 0) {
+		return task.files;
+	}
+	return extractFilePatterns(task.title + ' ' + (task.description || ''));
+}
+
 /**
  * Extract file patterns from task text using heuristics
  * Looks for common patterns like: dashboard/src/**, src/lib/**, etc.
@@ -124,46 +236,22 @@ function extractFilePatterns(text: string): string[] {
 }
 
 /**
- * Check if two file patterns overlap
- * Simplified glob matching for common cases
+ * Get a task's dependencies from either field name
  */
-function patternsOverlap(pattern1: string, pattern2: string): boolean {
-	// Exact match
-	if (pattern1 === pattern2) return true;
-
-	// Convert patterns to comparable format
-	const p1 = pattern1.replace(/\*\*/g, '.*').replace(/\*/g, '[^/]*');
-	const p2 = pattern2.replace(/\*\*/g, '.*').replace(/\*/g, '[^/]*');
-
-	// Check if either pattern matches the other
-	try {
-		const regex1 = new RegExp(`^${p1}$`);
-		const regex2 = new RegExp(`^${p2}$`);
-
-		// Test if patterns overlap by checking common prefixes
-		const prefix1 = pattern1.split('**')[0];
-		const prefix2 = pattern2.split('**')[0];
-
-		if (prefix1 && prefix2) {
-			return prefix1.startsWith(prefix2) || prefix2.startsWith(prefix1);
-		}
-	} catch (e) {
-		// Regex compilation failed, assume overlap for safety
-		return true;
-	}
-
-	return false;
+function getDependencies(task: Task): Array<{ id: string; status: string }> {
+	return task.depends_on ?? task.dependencies ?? [];
 }
 
 /**
  * Check if task has unmet dependencies
  */
 function hasBlockingDependencies(task: Task): { isBlocked: boolean; blockingTasks: string[] } {
-	if (!task.dependencies || task.dependencies.length === 0) {
+	const dependencies = getDependencies(task);
+	if (dependencies.length === 0) {
 		return { isBlocked: false, blockingTasks: [] };
 	}
 
-	const blocking = task.dependencies.filter(dep => dep.status !== 'closed');
+	const blocking = dependencies.filter(dep => dep.status !== 'closed');
 
 	return {
 		isBlocked: blocking.length > 0,
@@ -174,7 +262,7 @@ function hasBlockingDependencies(task: Task): { isBlocked: boolean; blockingTask
 /**
  * Calculate agent load score (lower is better, more available)
  */
-function calculateAgentLoad(agent: Agent): number {
+export function calculateAgentLoad(agent: Agent): number {
 	let load = 0;
 
 	// Weight in-progress tasks heavily
@@ -189,137 +277,620 @@ function calculateAgentLoad(agent: Agent): number {
 	return load;
 }
 
+/**
+ * Index known tasks by ID, normalizing dependencies onto `depends_on`
+ *
+ * Later entries win, so pass the freshest list last.
+ */
+function indexTasks(tasks: Task[]): Map<string, Task> {
+	const byId = new Map<string, Task>();
+	for (const task of tasks) {
+		byId.set(task.id, { ...task, depends_on: getDependencies(task) });
+	}
+	return byId;
+}
+
+/**
+ * Look ahead through the dependency graph for each ready task
+ *
+ * Walks downstream to find the open work a task unblocks (critical-path
+ * weighting) and upstream, via buildDependencyChain, to find agents who
+ * already worked on the chain.
+ */
+function buildLookahead(readyTasks: Task[], allTasks: Map<string, Task>): Map<string, TaskLookahead> {
+	// Reverse edges: task ID → tasks that depend on it
+	const dependents = new Map<string, Task[]>();
+	for (const task of allTasks.values()) {
+		for (const dep of getDependencies(task)) {
+			const list = dependents.get(dep.id) ?? [];
+			list.push(task);
+			dependents.set(dep.id, list);
+		}
+	}
+
+	const knownTasks = [...allTasks.values()];
+	const lookahead = new Map<string, TaskLookahead>();
+
+	for (const task of readyTasks) {
+		let effectivePriority = task.priority;
+		const unblocks: string[] = [];
+
+		// Downstream: every open task that (transitively) waits on this one
+		const visited = new Set<string>([task.id]);
+		const stack = [...(dependents.get(task.id) ?? [])];
+		let next: Task | undefined;
+		while ((next = stack.pop())) {
+			if (visited.has(next.id) || next.status === 'closed') continue;
+			visited.add(next.id);
+
+			effectivePriority = Math.min(effectivePriority, next.priority);
+			if (next.priority <= CRITICAL_PRIORITY) {
+				unblocks.push(next.id);
+			}
+			stack.push(...(dependents.get(next.id) ?? []));
+		}
+
+		// Upstream: the nearest chain task each agent worked on
+		const chainAgents = new Map<string, string>();
+		const chain = buildDependencyChain(allTasks.get(task.id) ?? task, knownTasks);
+		chain.sort((a, b) => a.level - b.level);
+		for (const { task: upstream } of chain) {
+			if (upstream.assignee && !chainAgents.has(upstream.assignee)) {
+				chainAgents.set(upstream.assignee, upstream.id);
+			}
+		}
+
+		lookahead.set(task.id, { effectivePriority, unblocks: unblocks.sort(), chainAgents });
+	}
+
+	return lookahead;
+}
+
+/**
+ * Explain why a blocked task is deferred
+ *
+ * Each open direct blocker is described by what is happening to it: planned
+ * in this batch, in progress, itself blocked, or simply open.
+ */
+function describeDeferral(
+	task: Task,
+	allTasks: Map<string, Task>,
+	planned: Map<string, string>
+): DeferredTask {
+	const direct = getDependencies(task)
+		.map((dep): Task => allTasks.get(dep.id) ?? { id: dep.id, title: dep.id, priority: 4, status: dep.status })
+		.filter(dep => dep.status !== 'closed');
+
+	const chain = buildDependencyChain(allTasks.get(task.id) ?? task, [...allTasks.values()]);
+	const blockers = [
+		...new Set([
+			...direct.map(dep => dep.id),
+			...chain.filter(item => item.task.status !== 'closed').map(item => item.task.id)
+		])
+	];
+
+	const parts = direct.map(dep => {
+		const plannedFor = planned.get(dep.id);
+		if (plannedFor) {
+			return `${dep.id} (planned for ${plannedFor} in this batch)`;
+		}
+		if (dep.status === 'in_progress') {
+			return dep.assignee ? `${dep.id} (in progress by ${dep.assignee})` : `${dep.id} (in progress)`;
+		}
+		if (hasBlockingDependencies(dep).isBlocked) {
+			return `${dep.id} (itself blocked)`;
+		}
+		return `${dep.id} (${dep.status})`;
+	});
+
+	let reason = `Blocked by ${parts.join(', ')}`;
+	const upstreamCount = blockers.length - direct.length;
+	if (upstreamCount > 0) {
+		reason += `; ${upstreamCount} more open task${upstreamCount === 1 ? '' : 's'} further upstream`;
+	}
+
+	return { task, reason, blockers };
+}
+
+/**
+ * Build per-agent profiles from closed tasks and reservation history
+ *
+ * Only closed tasks with an assignee count as history. `reservationHistory`
+ * is every reservation agents have held, released and expired ones included
+ * (/api/reservations?history=true); each pattern is remembered once.
+ */
+export function buildAgentProfiles(
+	history: Task[],
+	reservationHistory: Reservation[] = []
+): Map<string, AgentProfile> {
+	const profiles = new Map<string, AgentProfile>();
+
+	const getProfile = (name: string): AgentProfile => {
+		let profile = profiles.get(name);
+		if (!profile) {
+			profile = {
+				name,
+				closedCount: 0,
+				labels: {},
+				issueTypes: {},
+				projects: {},
+				filePatterns: []
+			};
+			profiles.set(name, profile);
+		}
+		return profile;
+	};
+
+	for (const task of history) {
+		if (task.status !== 'closed' || !task.assignee) continue;
+
+		const profile = getProfile(task.assignee);
+		profile.closedCount++;
+
+		for (const label of task.labels || []) {
+			profile.labels[label] = (profile.labels[label] || 0) + 1;
+		}
+		if (task.issue_type) {
+			profile.issueTypes[task.issue_type] = (profile.issueTypes[task.issue_type] || 0) + 1;
+		}
+		if (task.project) {
+			profile.projects[task.project] = (profile.projects[task.project] || 0) + 1;
+		}
+	}
+
+	for (const reservation of reservationHistory) {
+		const profile = getProfile(reservation.agent_name);
+		if (!profile.filePatterns.includes(reservation.path_pattern)) {
+			profile.filePatterns.push(reservation.path_pattern);
+		}
+	}
+
+	return profiles;
+}
+
+/**
+ * Score how well a task matches an agent's past work (higher is better)
+ *
+ * Patterns in `held` are reservations the agent holds right now; those
+ * count as conflicts, not familiarity.
+ */
+function calculateAffinity(
+	task: Task,
+	profile: AgentProfile | undefined,
+	held: string[] = []
+): { score: number; reasons: string[] } {
+	const reasons: string[] = [];
+	if (!profile) {
+		return { score: 0, reasons };
+	}
+
+	let score = 0;
+
+	// Labels: sum over every label the task carries
+	let labelScore = 0;
+	for (const label of task.labels || []) {
+		const count = profile.labels[label] || 0;
+		if (count > 0) {
+			labelScore += count * AFFINITY_LABEL_WEIGHT;
+			reasons.push(`Closed ${count} task${count === 1 ? '' : 's'} labeled "${label}"`);
+		}
+	}
+	score += Math.min(labelScore, AFFINITY_LABEL_CAP);
+
+	// Issue type (bug, feature, chore, ...)
+	const typeCount = task.issue_type ? profile.issueTypes[task.issue_type] || 0 : 0;
+	if (typeCount > 0) {
+		score += Math.min(typeCount * AFFINITY_TYPE_WEIGHT, AFFINITY_TYPE_CAP);
+		reasons.push(`Closed ${typeCount} ${task.issue_type} task${typeCount === 1 ? '' : 's'}`);
+	}
+
+	// Project familiarity
+	const projectCount = task.project ? profile.projects[task.project] || 0 : 0;
+	if (projectCount > 0) {
+		score += Math.min(projectCount * AFFINITY_PROJECT_WEIGHT, AFFINITY_PROJECT_CAP);
+		reasons.push(`Closed ${projectCount} task${projectCount === 1 ? '' : 's'} in ${task.project}`);
+	}
+
+	// Files the agent has reserved before
+	const taskPatterns = getTaskFilePatterns(task);
+	const familiar = profile.filePatterns.filter(reserved =>
+		!held.includes(reserved) && taskPatterns.some(pattern => globsIntersect(pattern, reserved))
+	);
+	if (familiar.length > 0) {
+		score += AFFINITY_FILE_BONUS;
+		reasons.push(`Previously reserved ${familiar.slice(0, 3).join(', ')}`);
+	}
+
+	return { score, reasons };
+}
+
+/**
+ * Score one agent for one task (higher is better)
+ *
+ * `batchLoad` is the number of tasks already given to this agent earlier in
+ * the same batch; each counts as one queued task.
+ */
+function scoreAgentForTask(
+	task: Task,
+	agent: Agent,
+	context: PlanContext,
+	batchLoad = 0
+): { score: number; feasible: boolean; warnings: string[]; reasons: string[] } {
+	let score = 0;
+	const warnings: string[] = [];
+	const reasons: string[] = [];
+	const lookahead = context.lookahead.get(task.id);
+
+	// Check file conflicts
+	const conflict = hasFileConflict(task, agent, context.reservations);
+	if (conflict.hasConflict) {
+		score -= 100; // Heavy penalty
+		warnings.push(`File conflicts: ${conflict.conflictingPatterns.join(', ')}`);
+	}
+
+	// Prefer less loaded agents
+	const load = calculateAgentLoad(agent) + batchLoad;
+	score -= load * 5;
+	if (load === 0) {
+		reasons.push('No queued or in-progress work');
+	}
+
+	// Prefer active agents (recently used)
+	if (agent.active) {
+		score += 10;
+	}
+
+	// Prefer agents that have done similar work before
+	const affinity = calculateAffinity(task, context.profiles.get(agent.name), conflict.conflictingPatterns);
+	score += affinity.score;
+	reasons.push(...affinity.reasons);
+
+	// Keep a dependency chain with the agent who worked on it
+	const chainTask = lookahead?.chainAgents.get(agent.name);
+	if (chainTask) {
+		score += CHAIN_AFFINITY_BONUS;
+		reasons.push(`Continues chain: worked on ${chainTask}`);
+	}
+
+	// Same for every agent; explains why the task was picked early
+	if (lookahead && lookahead.unblocks.length > 0) {
+		const count = lookahead.unblocks.length;
+		reasons.push(`Unblocks ${count} P0/P1 task${count === 1 ? '' : 's'}: ${lookahead.unblocks.slice(0, 3).join(', ')}`);
+	}
+
+	const feasible = load < LOAD_THRESHOLD && score >= MIN_ASSIGNMENT_SCORE;
+
+	return { score, feasible, warnings, reasons };
+}
+
+/**
+ * Map a score and its warnings to a confidence level
+ */
+function toConfidence(score: number, warnings: string[]): 'high' | 'medium' | 'low' {
+	if (score > 0 && warnings.length === 0) return 'high';
+	if (score > -20) return 'medium';
+	return 'low';
+}
+
+/**
+ * Resolve how many tasks an agent may take in one batch
+ */
+function getCapacity(agent: Agent, capacity: AutoAssignOptions['capacity']): number {
+	if (typeof capacity === 'number') return capacity;
+	return capacity?.[agent.name] ?? 1;
+}
+
 /**
  * Find the best agent for a task
  */
 function findBestAgent(
 	task: Task,
 	agents: Agent[],
-	reservations: Reservation[]
-): { agent: Agent | null; warnings: string[]; confidence: 'high' | 'medium' | 'low' } {
+	context: PlanContext,
+	batchCounts: Map<string, number> = new Map()
+): {
+	agent: Agent | null;
+	score: number;
+	warnings: string[];
+	reasons: string[];
+	confidence: 'high' | 'medium' | 'low';
+} {
 	const warnings: string[] = [];
 
 	// Filter to idle or low-load agents
 	const availableAgents = agents.filter(a => {
-		const load = calculateAgentLoad(a);
-		return load < 10; // Arbitrary threshold: less than 10 load units
+		const load = calculateAgentLoad(a) + (batchCounts.get(a.name) || 0);
+		return load < LOAD_THRESHOLD;
 	});
 
 	if (availableAgents.length === 0) {
 		warnings.push('No agents available (all are at capacity)');
-		return { agent: null, warnings, confidence: 'low' };
+		return { agent: null, score: 0, warnings, reasons: [], confidence: 'low' };
 	}
 
 	// Score each agent
-	const scores = availableAgents.map(agent => {
-		let score = 0;
-		const agentWarnings: string[] = [];
-
-		// Check file conflicts
-		const conflict = hasFileConflict(task, agent, reservations);
-		if (conflict.hasConflict) {
-			score -= 100; // Heavy penalty
-			agentWarnings.push(`File conflicts: ${conflict.conflictingPatterns.join(', ')}`);
-		}
-
-		// Prefer less loaded agents
-		const load = calculateAgentLoad(agent);
-		score -= load * 5;
-
-		// Prefer active agents (recently used)
-		if (agent.active) {
-			score += 10;
-		}
-
-		return { agent, score, warnings: agentWarnings };
-	});
+	const scores = availableAgents.map(agent => ({
+		agent,
+		...scoreAgentForTask(task, agent, context, batchCounts.get(agent.name) || 0)
+	}));
 
 	// Sort by score (descending)
 	scores.sort((a, b) => b.score - a.score);
 
 	const best = scores[0];
 
-	if (!best || best.score < -50) {
+	if (!best || !best.feasible) {
 		warnings.push('No suitable agent found (all have conflicts)');
-		return { agent: null, warnings, confidence: 'low' };
+		return { agent: null, score: 0, warnings, reasons: [], confidence: 'low' };
 	}
 
 	warnings.push(...best.warnings);
 
-	const confidence =
-		best.score > 0 && best.warnings.length === 0
-			? 'high'
-			: best.score > -20
-			? 'medium'
-			: 'low';
-
-	return { agent: best.agent, warnings, confidence };
+	return {
+		agent: best.agent,
+		score: best.score,
+		warnings,
+		reasons: best.reasons,
+		confidence: toConfidence(best.score, best.warnings)
+	};
 }
 
 /**
- * Generate auto-assignment recommendations
+ * Sort tasks by priority (lower number = higher priority), then by ID
  *
- * Algorithm:
- * 1. Sort unassigned tasks by priority (P0 > P1 > P2)
- * 2. For each task:
- *    a. Check dependencies
- *    b. Find best available agent (considering load and conflicts)
- *    c. Create assignment recommendation
- * 3. Return list of assignments for user review
+ * With lookahead, a task inherits the priority of the most urgent open work
+ * waiting on it, and blockers of more P0/P1 tasks go first among equals.
  */
-export function generateAutoAssignments(
-	unassignedTasks: Task[],
-	agents: Agent[],
-	reservations: Reservation[]
-): Assignment[] {
-	const assignments: Assignment[] = [];
+function sortByPriority(tasks: Task[], lookahead?: Map<string, TaskLookahead>): Task[] {
+	const priorityOf = (task: Task) => lookahead?.get(task.id)?.effectivePriority ?? task.priority;
+	const unblockCount = (task: Task) => lookahead?.get(task.id)?.unblocks.length ?? 0;
 
-	// Sort tasks by priority (lower number = higher priority)
-	const sortedTasks = [...unassignedTasks].sort((a, b) => {
-		if (a.priority !== b.priority) {
-			return a.priority - b.priority;
+	return [...tasks].sort((a, b) => {
+		if (priorityOf(a) !== priorityOf(b)) {
+			return priorityOf(a) - priorityOf(b);
+		}
+		if (unblockCount(a) !== unblockCount(b)) {
+			return unblockCount(b) - unblockCount(a);
 		}
 		// Secondary sort by ID for consistency
 		return a.id.localeCompare(b.id);
 	});
+}
+
+/**
+ * Greedy planner: walk tasks in priority order, give each the best agent
+ * that still has capacity in this batch
+ */
+function planGreedy(
+	tasks: Task[],
+	agents: Agent[],
+	context: PlanContext,
+	capacity: AutoAssignOptions['capacity']
+): Omit<AssignmentPlan, 'deferred'> {
+	const assignments: Assignment[] = [];
+	const unassigned: Task[] = [];
+
+	// Track how many tasks each agent got in this batch
+	const batchCounts = new Map<string, number>();
 
-	// Track which agents we've assigned in this batch
-	const assignedAgents = new Set<string>();
+	for (const task of tasks) {
+		// Filter out agents that are full for this batch
+		const availableAgents = agents.filter(
+			a => (batchCounts.get(a.name) || 0) < getCapacity(a, capacity)
+		);
 
-	for (const task of sortedTasks) {
-		const warnings: string[] = [];
+		const result =
+			availableAgents.length > 0
+				? findBestAgent(task, availableAgents, context, batchCounts)
+				: null;
+
+		if (result?.agent) {
+			assignments.push({
+				agent: result.agent,
+				task,
+				confidence: result.confidence,
+				score: result.score,
+				warnings: result.warnings,
+				reasons: result.reasons
+			});
 
-		// Check dependencies
-		const depCheck = hasBlockingDependencies(task);
-		if (depCheck.isBlocked) {
-			warnings.push(`Blocked by: ${depCheck.blockingTasks.join(', ')}`);
-			// Skip this task
-			continue;
+			batchCounts.set(result.agent.name, (batchCounts.get(result.agent.name) || 0) + 1);
+		} else {
+			unassigned.push(task);
 		}
+	}
 
-		// Filter out agents already assigned in this batch
-		const availableAgents = agents.filter(a => !assignedAgents.has(a.name));
+	return {
+		strategy: 'greedy',
+		assignments,
+		totalScore: assignments.reduce((sum, a) => sum + a.score, 0),
+		unassigned
+	};
+}
 
-		if (availableAgents.length === 0) {
-			warnings.push('All agents assigned in this batch');
-			break; // No more agents available
+/**
+ * Optimal planner: solve the whole batch as one assignment problem
+ *
+ * Each agent contributes one "slot" per unit of capacity; slot k carries k
+ * extra queued tasks of load. The solver maximizes, in order: the number of
+ * feasible assignments, the priority of the tasks that get assigned, and
+ * the summed agent scores. Priority here is the lookahead's effective
+ * priority, plus a bonus per P0/P1 task the assignment would unblock.
+ */
+function planOptimal(
+	tasks: Task[],
+	agents: Agent[],
+	context: PlanContext,
+	capacity: AutoAssignOptions['capacity']
+): Omit<AssignmentPlan, 'deferred'> {
+	const slots: Array<{ agent: Agent; batchLoad: number }> = [];
+	for (const agent of agents) {
+		const agentCapacity = getCapacity(agent, capacity);
+		for (let k = 0; k < agentCapacity; k++) {
+			slots.push({ agent, batchLoad: k });
 		}
+	}
+
+	const scored = tasks.map(task =>
+		slots.map(slot => scoreAgentForTask(task, slot.agent, context, slot.batchLoad))
+	);
+
+	const values = scored.map((row, t) => {
+		const lookahead = context.lookahead.get(tasks[t].id);
+		const priority = lookahead?.effectivePriority ?? tasks[t].priority;
+		const urgency =
+			Math.max(0, 4 - priority) * SOLVER_PRIORITY_WEIGHT +
+			(lookahead?.unblocks.length ?? 0) * SOLVER_UNBLOCK_WEIGHT;
+
+		return row.map(result =>
+			result.feasible ? SOLVER_FEASIBLE_OFFSET + urgency + result.score : 0
+		);
+	});
 
-		// Find best agent
-		const result = findBestAgent(task, availableAgents, reservations);
+	const matching = solveAssignment(values);
 
-		if (result.agent) {
+	const assignments: Assignment[] = [];
+	const unassigned: Task[] = [];
+
+	tasks.forEach((task, t) => {
+		const s = matching[t];
+		const result = s >= 0 ? scored[t][s] : null;
+
+		if (result?.feasible) {
 			assignments.push({
-				agent: result.agent,
+				agent: slots[s].agent,
 				task,
-				confidence: result.confidence,
-				warnings: [...warnings, ...result.warnings]
+				confidence: toConfidence(result.score, result.warnings),
+				score: result.score,
+				warnings: result.warnings,
+				reasons: result.reasons
 			});
-
-			// Mark agent as assigned for this batch
-			assignedAgents.add(result.agent.name);
+		} else {
+			unassigned.push(task);
 		}
+	});
+
+	return {
+		strategy: 'optimal',
+		assignments,
+		totalScore: assignments.reduce((sum, a) => sum + a.score, 0),
+		unassigned
+	};
+}
+
+/**
+ * Plan a batch of auto-assignments
+ *
+ * Algorithm:
+ * 1. Defer tasks with open dependencies, explaining what they wait on
+ * 2. Look ahead through the dependency graph: ready tasks inherit the
+ *    priority of urgent work they unblock, and agents who worked on a
+ *    task's upstream chain get a bonus for it
+ * 3. Sort ready tasks by (effective) priority (P0 > P1 > P2)
+ * 4. Pair them with agents (considering load, conflicts, affinity, chains
+ *    and per-agent capacity), either greedily task by task or optimally
+ *    across the whole batch
+ * 5. Return the plan with its total score for user review
+ *
+ * `reservations` are the active reservations, checked for conflicts.
+ * `history` is any task list containing closed tasks (e.g. the full task
+ * list from /api/agents); it is used to build agent affinity profiles and
+ * to resolve dependency chains. `reservationHistory` adds the files agents
+ * have reserved before to those profiles (see buildAgentProfiles).
+ */
+export function planAutoAssignments(
+	unassignedTasks: Task[],
+	agents: Agent[],
+	reservations: Reservation[],
+	history: Task[] = [],
+	reservationHistory: Reservation[] = [],
+	options: AutoAssignOptions = {}
+): AssignmentPlan {
+	const { strategy = 'optimal', capacity = 1 } = options;
+	const allTasks = indexTasks([...history, ...unassignedTasks]);
+
+	const readyTasks: Task[] = [];
+	const blockedTasks: Task[] = [];
+	for (const task of unassignedTasks) {
+		(hasBlockingDependencies(task).isBlocked ? blockedTasks : readyTasks).push(task);
 	}
 
-	return assignments;
+	const lookahead = buildLookahead(readyTasks, allTasks);
+	const context: PlanContext = {
+		reservations,
+		profiles: buildAgentProfiles(history, reservationHistory),
+		lookahead
+	};
+
+	const sorted = sortByPriority(readyTasks, lookahead);
+	const plan =
+		strategy === 'greedy'
+			? planGreedy(sorted, agents, context, capacity)
+			: planOptimal(sorted, agents, context, capacity);
+
+	const planned = new Map(plan.assignments.map(a => [a.task.id, a.agent.name]));
+	const deferred = sortByPriority(blockedTasks).map(task => describeDeferral(task, allTasks, planned));
+
+	return { ...plan, deferred };
+}
+
+/**
+ * Score a fixed set of task → agent pairings
+ *
+ * Used to evaluate hand-edited plans (e.g. a task dragged to another agent
+ * in the preview). Pairings are scored in order, so an agent's earlier tasks
+ * in the list count as batch load for its later ones. Pairings the planner
+ * would have rejected are kept but carry a warning.
+ */
+export function scoreAssignments(
+	pairs: Array<Pick<Assignment, 'agent' | 'task'>>,
+	reservations: Reservation[],
+	history: Task[] = [],
+	reservationHistory: Reservation[] = []
+): Assignment[] {
+	const tasks = pairs.map(pair => pair.task);
+	const context: PlanContext = {
+		reservations,
+		profiles: buildAgentProfiles(history, reservationHistory),
+		lookahead: buildLookahead(tasks, indexTasks([...history, ...tasks]))
+	};
+
+	const batchCounts = new Map<string, number>();
+
+	return pairs.map(({ agent, task }) => {
+		const batchLoad = batchCounts.get(agent.name) || 0;
+		batchCounts.set(agent.name, batchLoad + 1);
+
+		const result = scoreAgentForTask(task, agent, context, batchLoad);
+		const warnings = result.feasible
+			? result.warnings
+			: [...result.warnings, 'Auto-assign would not pick this agent (overloaded or low score)'];
+
+		return {
+			agent,
+			task,
+			confidence: toConfidence(result.score, warnings),
+			score: result.score,
+			warnings,
+			reasons: result.reasons
+		};
+	});
+}
+
+/**
+ * Generate auto-assignment recommendations
+ *
+ * Convenience wrapper around planAutoAssignments() that returns only the
+ * assignments.
+ */
+export function generateAutoAssignments(
+	unassignedTasks: Task[],
+	agents: Agent[],
+	reservations: Reservation[],
+	history: Task[] = [],
+	reservationHistory: Reservation[] = [],
+	options: AutoAssignOptions = {}
+): Assignment[] {
+	return planAutoAssignments(unassignedTasks, agents, reservations, history, reservationHistory, options)
+		.assignments;
 }
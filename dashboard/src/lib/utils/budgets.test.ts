@@ -0,0 +1,141 @@
+/**
+ * Budget Tests
+ *
+ * Tests for config validation, periods and evaluation in budgets.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	evaluateBudgets,
+	getBudgetLevel,
+	getBudgetPeriod,
+	parseBudgetConfig,
+	type SpendEntry
+} from './budgets';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+// Wednesday afternoon, local time
+const NOW = new Date(2025, 10, 19, 15, 30);
+
+const DAILY: SpendEntry[] = [
+	{ project: 'jat', agent: 'FreeMarsh', cost: 9, tokens: 900_000 },
+	{ project: 'jat', agent: 'PaleStar', cost: 2, tokens: 200_000 },
+	{ project: 'chimaro', agent: 'PaleStar', cost: 4, tokens: 400_000 },
+	{ project: 'chimaro', agent: null, cost: 1, tokens: 100_000 }
+];
+
+// ============================================================================
+// Tests: configuration
+// ============================================================================
+
+describe('parseBudgetConfig', () => {
+	it('should accept valid budgets', () => {
+		const budgets = parseBudgetConfig({
+			budgets: [
+				{ scope: 'global', period: 'weekly', limit_usd: 500 },
+				{ scope: 'agent', name: 'FreeMarsh', period: 'daily', limit_tokens: 5_000_000, note: 'ignored' }
+			]
+		});
+
+		expect(budgets).toEqual([
+			{ scope: 'global', period: 'weekly', limit_usd: 500 },
+			{ scope: 'agent', name: 'FreeMarsh', period: 'daily', limit_tokens: 5_000_000 }
+		]);
+	});
+
+	it('should reject invalid budgets with their index', () => {
+		expect(() => parseBudgetConfig({})).toThrow('"budgets" array');
+		expect(() => parseBudgetConfig({ budgets: [{ scope: 'team', period: 'daily', limit_usd: 1 }] })).toThrow(
+			'budgets[0]: scope'
+		);
+		expect(() =>
+			parseBudgetConfig({ budgets: [{ scope: 'agent', period: 'daily', limit_usd: 1 }, { scope: 'agent', period: 'monthly' }] })
+		).toThrow('budgets[1]: period');
+		expect(() => parseBudgetConfig({ budgets: [{ scope: 'global', name: 'x', period: 'daily', limit_usd: 1 }] })).toThrow(
+			'name'
+		);
+		expect(() => parseBudgetConfig({ budgets: [{ scope: 'agent', period: 'daily', limit_usd: -5 }] })).toThrow(
+			'limit_usd must be a positive number'
+		);
+		expect(() => parseBudgetConfig({ budgets: [{ scope: 'agent', period: 'daily' }] })).toThrow('set limit_usd');
+	});
+});
+
+// ============================================================================
+// Tests: periods and levels
+// ============================================================================
+
+describe('getBudgetPeriod', () => {
+	it('should span the local day and the week from Sunday', () => {
+		const day = getBudgetPeriod('daily', NOW);
+		expect(day.start).toEqual(new Date(2025, 10, 19));
+		expect(day.end).toEqual(new Date(2025, 10, 20));
+
+		const week = getBudgetPeriod('weekly', NOW);
+		expect(week.start).toEqual(new Date(2025, 10, 16));
+		expect(week.end).toEqual(new Date(2025, 10, 23));
+	});
+});
+
+describe('getBudgetLevel', () => {
+	it('should warn at 80% and flag 100%', () => {
+		expect(getBudgetLevel(0.79)).toBe('ok');
+		expect(getBudgetLevel(0.8)).toBe('warning');
+		expect(getBudgetLevel(1)).toBe('exceeded');
+	});
+});
+
+// ============================================================================
+// Tests: evaluation
+// ============================================================================
+
+describe('evaluateBudgets', () => {
+	it('should evaluate global, project and agent budgets', () => {
+		const statuses = evaluateBudgets(
+			[
+				{ scope: 'global', period: 'daily', limit_usd: 20 },
+				{ scope: 'project', name: 'chimaro', period: 'daily', limit_usd: 10 },
+				{ scope: 'agent', name: 'FreeMarsh', period: 'daily', limit_usd: 8 }
+			],
+			{ daily: DAILY, weekly: [] },
+			NOW
+		);
+
+		expect(statuses.map(s => [s.key, s.spent_usd, s.level, s.agents])).toEqual([
+			['agent:FreeMarsh:daily', 9, 'exceeded', ['FreeMarsh']],
+			['global:*:daily', 16, 'warning', ['FreeMarsh', 'PaleStar']],
+			['project:chimaro:daily', 5, 'ok', ['PaleStar']]
+		]);
+		expect(statuses[0].period_start).toBe(new Date(2025, 10, 19).toISOString());
+	});
+
+	it('should apply unnamed budgets to each target, unless it has its own', () => {
+		const statuses = evaluateBudgets(
+			[
+				{ scope: 'agent', period: 'daily', limit_usd: 5 },
+				{ scope: 'agent', name: 'FreeMarsh', period: 'daily', limit_usd: 50 }
+			],
+			{ daily: DAILY, weekly: [] },
+			NOW
+		);
+
+		expect(statuses.map(s => [s.key, s.budget.limit_usd, s.spent_usd])).toEqual([
+			['agent:PaleStar:daily', 5, 6],
+			['agent:FreeMarsh:daily', 50, 9]
+		]);
+	});
+
+	it('should use the limit closest to being reached', () => {
+		const [status] = evaluateBudgets(
+			[{ scope: 'project', name: 'jat', period: 'daily', limit_usd: 100, limit_tokens: 1_000_000 }],
+			{ daily: DAILY, weekly: [] },
+			NOW
+		);
+
+		expect(status.ratio).toBeCloseTo(1.1, 6);
+		expect(status.level).toBe('exceeded');
+	});
+});
@@ -0,0 +1,246 @@
+/**
+ * Spend Budgets
+ *
+ * Daily and weekly spend limits, globally, per project and per agent,
+ * evaluated against token usage (see $lib/server/budgets.js for where the
+ * budgets and the usage come from, and how alerts are sent).
+ *
+ * A budget without a `name` applies to every project (or agent) on its own:
+ * `{ "scope": "agent", "period": "daily", "limit_usd": 20 }` gives each agent
+ * $20 a day, except agents with a daily budget of their own. Budgets can limit cost (`limit_usd`), tokens (`limit_tokens`) or
+ * both; the one closest to its limit decides the level.
+ *
+ * Periods follow local time: a day starts at midnight, a week on the
+ * configured week start day (as for /api/claude/weekly-quota).
+ */
+
+import { getWeekWindow } from './dateRange';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BudgetScope = 'global' | 'project' | 'agent';
+export type BudgetPeriod = 'daily' | 'weekly';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface Budget {
+	scope: BudgetScope;
+	/** Project or agent name; omit to apply the budget to each one separately */
+	name?: string;
+	period: BudgetPeriod;
+	limit_usd?: number;
+	limit_tokens?: number;
+}
+
+/**
+ * Usage of one agent (or of sessions without an agent) in one project
+ */
+export interface SpendEntry {
+	project: string;
+	agent: string | null;
+	cost: number;
+	tokens: number;
+}
+
+export interface BudgetStatus {
+	/** Stable key: scope, target and period (e.g. "agent:FreeMarsh:daily") */
+	key: string;
+	budget: Budget;
+	/** Project or agent the status is for (null for global budgets) */
+	target: string | null;
+	period_start: string;
+	period_end: string;
+	spent_usd: number;
+	spent_tokens: number;
+	/** Highest of spent/limit over the limits set */
+	ratio: number;
+	level: BudgetLevel;
+	/** Agents that spent in the period, biggest spender first */
+	agents: string[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Share of a budget at which it turns to `warning` */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const SCOPES: BudgetScope[] = ['global', 'project', 'agent'];
+const PERIODS: BudgetPeriod[] = ['daily', 'weekly'];
+
+/**
+ * Validate a budgets file (`{ "budgets": [...] }`)
+ *
+ * @throws Error naming the first invalid entry
+ */
+export function parseBudgetConfig(raw: unknown): Budget[] {
+	const entries = (raw as { budgets?: unknown } | null)?.budgets;
+	if (!Array.isArray(entries)) {
+		throw new Error('Budgets file must contain a "budgets" array');
+	}
+
+	return entries.map((entry, index) => {
+		const budget = entry as Budget;
+		const where = `budgets[${index}]`;
+
+		if (!SCOPES.includes(budget?.scope)) {
+			throw new Error(`${where}: scope must be one of ${SCOPES.join(', ')}`);
+		}
+		if (!PERIODS.includes(budget.period)) {
+			throw new Error(`${where}: period must be one of ${PERIODS.join(', ')}`);
+		}
+		if (budget.name !== undefined && (budget.scope === 'global' || typeof budget.name !== 'string')) {
+			throw new Error(`${where}: name must be a string, and only project and agent budgets have one`);
+		}
+		for (const limit of ['limit_usd', 'limit_tokens'] as const) {
+			const value = budget[limit];
+			if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+				throw new Error(`${where}: ${limit} must be a positive number`);
+			}
+		}
+		if (budget.limit_usd === undefined && budget.limit_tokens === undefined) {
+			throw new Error(`${where}: set limit_usd, limit_tokens or both`);
+		}
+
+		return {
+			scope: budget.scope,
+			...(budget.name !== undefined && { name: budget.name }),
+			period: budget.period,
+			...(budget.limit_usd !== undefined && { limit_usd: budget.limit_usd }),
+			...(budget.limit_tokens !== undefined && { limit_tokens: budget.limit_tokens })
+		};
+	});
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/**
+ * Get the local day or week containing `now`
+ *
+ * @param weekStartDay - Day weeks start on (0 = Sunday … 6 = Saturday)
+ * @returns Start (inclusive) and end (exclusive)
+ */
+export function getBudgetPeriod(
+	period: BudgetPeriod,
+	now: Date = new Date(),
+	weekStartDay: number = 0
+): { start: Date; end: Date } {
+	if (period === 'weekly') return getWeekWindow(now, weekStartDay);
+
+	const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	const end = new Date(start);
+	end.setDate(start.getDate() + 1);
+
+	return { start, end };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Get the level of a spend ratio
+ */
+export function getBudgetLevel(ratio: number): BudgetLevel {
+	if (ratio >= 1) return 'exceeded';
+	if (ratio >= BUDGET_WARNING_RATIO) return 'warning';
+	return 'ok';
+}
+
+/**
+ * Evaluate budgets against the usage of their period
+ *
+ * @param spend - Usage per project and agent, for each period
+ * @param weekStartDay - Day weeks start on (0 = Sunday … 6 = Saturday)
+ * @returns One status per budget and target, most used first
+ */
+export function evaluateBudgets(
+	budgets: Budget[],
+	spend: Record<BudgetPeriod, SpendEntry[]>,
+	now: Date = new Date(),
+	weekStartDay: number = 0
+): BudgetStatus[] {
+	const statuses: BudgetStatus[] = [];
+	const named = new Set(
+		budgets.filter(budget => budget.name !== undefined).map(budget => budgetKey(budget, budget.name ?? null))
+	);
+
+	for (const budget of budgets) {
+		const entries = spend[budget.period] ?? [];
+		const { start, end } = getBudgetPeriod(budget.period, now, weekStartDay);
+
+		for (const target of getTargets(budget, entries)) {
+			const key = budgetKey(budget, target);
+			if (budget.name === undefined && named.has(key)) continue;
+
+			const matching = entries.filter(
+				entry =>
+					target === null ||
+					(budget.scope === 'project' ? entry.project === target : entry.agent === target)
+			);
+
+			const spentUsd = matching.reduce((sum, entry) => sum + entry.cost, 0);
+			const spentTokens = matching.reduce((sum, entry) => sum + entry.tokens, 0);
+			const ratio = Math.max(
+				budget.limit_usd ? spentUsd / budget.limit_usd : 0,
+				budget.limit_tokens ? spentTokens / budget.limit_tokens : 0
+			);
+
+			statuses.push({
+				key,
+				budget,
+				target,
+				period_start: start.toISOString(),
+				period_end: end.toISOString(),
+				spent_usd: spentUsd,
+				spent_tokens: spentTokens,
+				ratio,
+				level: getBudgetLevel(ratio),
+				agents: rankAgents(matching)
+			});
+		}
+	}
+
+	return statuses.sort((a, b) => b.ratio - a.ratio);
+}
+
+function budgetKey(budget: Budget, target: string | null): string {
+	return `${budget.scope}:${target ?? '*'}:${budget.period}`;
+}
+
+/**
+ * The targets a budget is evaluated for
+ */
+function getTargets(budget: Budget, entries: SpendEntry[]): Array<string | null> {
+	if (budget.scope === 'global') return [null];
+	if (budget.name !== undefined) return [budget.name];
+
+	const names = entries.map(entry => (budget.scope === 'project' ? entry.project : entry.agent));
+	return [...new Set(names.filter((name): name is string => name !== null))];
+}
+
+/**
+ * Agents by spend, biggest first
+ */
+function rankAgents(entries: SpendEntry[]): string[] {
+	const byAgent = new Map<string, number>();
+	for (const entry of entries) {
+		if (entry.agent !== null && entry.tokens > 0) {
+			byAgent.set(entry.agent, (byAgent.get(entry.agent) ?? 0) + entry.cost);
+		}
+	}
+	return [...byAgent].sort((a, b) => b[1] - a[1]).map(([agent]) => agent);
+}
+
+/**
+ * Describe a budget for people (e.g. "Agent FreeMarsh daily budget")
+ */
+export function describeBudget(status: Pick<BudgetStatus, 'budget' | 'target'>): string {
+	const { budget, target } = status;
+	if (budget.scope === 'global') return `Global ${budget.period} budget`;
+	return `${budget.scope === 'project' ? 'Project' : 'Agent'} ${target} ${budget.period} budget`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Burn Rate Forecast Tests
+ *
+ * Tests for the seasonal model, intervals and exhaustion predictions in
+ * burnRateForecast.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	fitSeasonalModel,
+	forecastBuckets,
+	forecastBurnRate,
+	predictExhaustion,
+	sumForecast,
+	type ForecastPoint
+} from './burnRateForecast';
+import type { TimeSeriesDataPoint } from './tokenUsageTimeSeries';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Wednesday 08:00 local time
+const NOW = new Date(2025, 10, 19, 8, 0);
+
+/**
+ * Hourly values for `days` days before NOW: `busy` tokens 09:00-11:59, else `idle`
+ */
+function burstyHours(days: number, busy: number, idle: number) {
+	const points: Array<{ ms: number; value: number }> = [];
+	for (let ms = NOW.getTime() - days * 24 * HOUR_MS; ms < NOW.getTime(); ms += HOUR_MS) {
+		const hour = new Date(ms).getHours();
+		points.push({ ms, value: hour >= 9 && hour < 12 ? busy : idle });
+	}
+	return points;
+}
+
+/**
+ * 30-minute series with `tokens` rate-limited tokens (and 10x as many cache reads) per bucket
+ */
+function flatSeries(hours: number, tokens: number): TimeSeriesDataPoint[] {
+	const bucketMs = 30 * 60 * 1000;
+	const series: TimeSeriesDataPoint[] = [];
+	for (let ms = NOW.getTime() - hours * HOUR_MS; ms < NOW.getTime(); ms += bucketMs) {
+		series.push({
+			timestamp: new Date(ms).toISOString(),
+			tokens: tokens * 11,
+			cost: 0,
+			breakdown: { input: tokens / 2, cache_creation: 0, cache_read: tokens * 10, output: tokens / 2 }
+		});
+	}
+	return series;
+}
+
+// ============================================================================
+// Tests: seasonal model
+// ============================================================================
+
+describe('fitSeasonalModel', () => {
+	it('should learn time-of-day bursts from two or more days', () => {
+		const model = fitSeasonalModel(burstyHours(3, 1000, 0), HOUR_MS, NOW);
+
+		expect(model.seasonal).toBe(true);
+		expect(model.slots).toHaveLength(24);
+		// 3 samples of 1000, shrunk towards the overall mean of 125
+		expect(model.slots[10].mean).toBeCloseTo((3 * 1000 + 2 * 125) / 5, 6);
+		expect(model.slots[3].mean).toBeCloseTo((2 * 125) / 5, 6);
+		// Nothing in the last 3 hours (06:00 and 07:00), where the profile expects little
+		expect(model.level).toBeCloseTo((0 + 250) / (2 * 50 + 250), 6);
+	});
+
+	it('should use a flat profile with less than two days', () => {
+		const model = fitSeasonalModel(burstyHours(1, 1000, 0), HOUR_MS, NOW);
+
+		expect(model.seasonal).toBe(false);
+		expect(new Set(model.slots.map(slot => slot.mean)).size).toBe(1);
+	});
+});
+
+describe('forecastBuckets', () => {
+	it('should forecast the bursts with a confidence band', () => {
+		const model = fitSeasonalModel(burstyHours(3, 1000, 0), HOUR_MS, NOW);
+		const points = forecastBuckets(model, NOW.getTime(), 6);
+
+		expect(points.map(p => new Date(p.timestamp).getHours())).toEqual([8, 9, 10, 11, 12, 13]);
+		expect(points[2].expected).toBeGreaterThan(points[0].expected * 5);
+		for (const point of points) {
+			expect(point.lower).toBeLessThanOrEqual(point.expected);
+			expect(point.upper).toBeGreaterThan(point.expected);
+			expect(point.lower).toBeGreaterThanOrEqual(0);
+		}
+	});
+
+	it('should add variances when summing buckets', () => {
+		const point = (expected: number, spread: number): ForecastPoint => ({
+			timestamp: NOW.toISOString(),
+			expected,
+			lower: expected - spread,
+			upper: expected + spread
+		});
+
+		const sum = sumForecast([point(100, 30), point(100, 40)]);
+		expect(sum.expected).toBe(200);
+		expect(sum.upper).toBeCloseTo(250, 6);
+		expect(sum.lower).toBeCloseTo(150, 6);
+	});
+});
+
+// ============================================================================
+// Tests: exhaustion
+// ============================================================================
+
+describe('predictExhaustion', () => {
+	const steady = Array.from({ length: 5 }, (_, i) => ({
+		timestamp: new Date(NOW.getTime() + i * HOUR_MS).toISOString(),
+		expected: 100,
+		lower: 100,
+		upper: 100
+	}));
+
+	it('should interpolate the crossing within a bucket', () => {
+		const exhaustion = predictExhaustion(steady, 250, 500, NOW, NOW.getTime() + 5 * HOUR_MS);
+
+		expect(exhaustion.expectedAt).toBe(new Date(NOW.getTime() + 2.5 * HOUR_MS).toISOString());
+		expect(exhaustion.earliestAt).toBe(exhaustion.expectedAt);
+	});
+
+	it('should report limits already reached, and none past the window', () => {
+		expect(predictExhaustion(steady, 600, 500, NOW, NOW.getTime() + HOUR_MS).expectedAt).toBe(NOW.toISOString());
+		expect(predictExhaustion(steady, 250, 500, NOW, NOW.getTime() + 2 * HOUR_MS).expectedAt).toBeNull();
+	});
+});
+
+// ============================================================================
+// Tests: forecastBurnRate
+// ============================================================================
+
+describe('forecastBurnRate', () => {
+	it('should forecast rate-limited tokens and project series tokens', () => {
+		const forecast = forecastBurnRate(flatSeries(24, 1000), {
+			now: NOW,
+			sessionLimit: 20_000,
+			dailyLimit: 1_000_000
+		});
+
+		// Steady 1000 per 30 minutes, cache reads excluded
+		expect(forecast.seasonal).toBe(false);
+		expect(forecast.bucketMinutes).toBe(30);
+		expect(forecast.tokensPerHour.expected).toBeCloseTo(2000, 6);
+		expect(forecast.tokensPerSession.expected).toBeCloseTo(10_000, 6);
+
+		// Projection covers 5 hours of buckets, in the series' own tokens
+		expect(forecast.projection).toHaveLength(10);
+		expect(forecast.projection[0].expected).toBeCloseTo(11_000, 6);
+
+		// 10K used in the last 5 hours; another 10K takes the next 5 hours
+		expect(forecast.sessionWindow?.used).toBe(10_000);
+		expect(forecast.sessionWindow?.expectedAt).toBe(new Date(NOW.getTime() + 5 * HOUR_MS).toISOString());
+
+		// 16K used today; the rest of the day can't reach 1M
+		expect(forecast.dailyLimit?.used).toBe(16_000);
+		expect(forecast.dailyLimit?.expectedAt).toBeNull();
+	});
+
+	it('should skip limits that are not given', () => {
+		const forecast = forecastBurnRate(flatSeries(2, 100), { now: NOW });
+
+		expect(forecast.sessionWindow).toBeNull();
+		expect(forecast.dailyLimit).toBeNull();
+	});
+});
@@ -0,0 +1,352 @@
+/**
+ * Burn Rate Forecast
+ *
+ * Forecasts token usage from a getTokenTimeSeries result (evenly sized
+ * buckets, e.g. 7 days of 30-minute buckets):
+ * - Seasonal profile: agents run in bursts at similar times of day, so each
+ *   time-of-day slot gets its own mean and variance, shrunk towards the
+ *   overall mean when a slot has few samples (no profile with under 2 days
+ *   of history)
+ * - Level: the profile is scaled by how the last 3 hours compare to it, so
+ *   a burst in progress raises the forecast
+ * - Confidence intervals: buckets are treated as independent, so the
+ *   variance of a sum is the sum of the variances
+ *
+ * Rates and exhaustion use rate-limited tokens (input + cache creation +
+ * output; cache reads don't count towards limits). The projection band uses
+ * the series' own token counts, so it can be drawn after the series.
+ */
+
+import type { TimeSeriesDataPoint } from './tokenUsageTimeSeries';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Expected value with a confidence interval
+ */
+export interface ForecastInterval {
+	expected: number;
+	lower: number;
+	upper: number;
+}
+
+/**
+ * Forecast for one future bucket
+ */
+export interface ForecastPoint extends ForecastInterval {
+	/** Bucket start (ISO 8601) */
+	timestamp: string;
+}
+
+/**
+ * When a limit is predicted to run out (ISO 8601; null: not before `until`)
+ */
+export interface LimitExhaustion {
+	limit: number;
+	used: number;
+	/** End of the window the limit applies to */
+	until: string;
+	expectedAt: string | null;
+	/** At the upper bound of the forecast */
+	earliestAt: string | null;
+	/** At the lower bound of the forecast */
+	latestAt: string | null;
+}
+
+export interface BurnRateForecast {
+	/** Confidence level of the intervals (e.g. 0.8) */
+	confidence: number;
+	/** Whether a time-of-day profile was fitted */
+	seasonal: boolean;
+	bucketMinutes: number;
+	/** Rate-limited tokens expected over the next hour */
+	tokensPerHour: ForecastInterval;
+	/** Rate-limited tokens expected over the next 5 hours */
+	tokensPerSession: ForecastInterval;
+	/** Series tokens per bucket over the horizon, for drawing after the series */
+	projection: ForecastPoint[];
+	/** Rolling 5-hour window (tokens leaving the window are ignored, so this errs early) */
+	sessionWindow: LimitExhaustion | null;
+	/** Daily limit, until local midnight */
+	dailyLimit: LimitExhaustion | null;
+}
+
+export interface BurnRateForecastOptions {
+	/** Reference time (default: now) */
+	now?: Date;
+	/** Hours covered by `projection` (default 5) */
+	horizonHours?: number;
+	/** Tokens per 5-hour window (the tier's daily limit, like the session context) */
+	sessionLimit?: number;
+	/** Tokens used in the last 5 hours (default: from the series) */
+	sessionUsed?: number;
+	/** Tokens per day */
+	dailyLimit?: number;
+}
+
+/**
+ * Mean and variance per time-of-day slot
+ */
+export interface SeasonalModel {
+	bucketMs: number;
+	seasonal: boolean;
+	slots: Array<{ mean: number; variance: number }>;
+	/** Scale applied to the profile (recent usage relative to it) */
+	level: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FORECAST_CONFIDENCE = 0.8;
+
+/** Two-sided z-score for FORECAST_CONFIDENCE */
+const Z_SCORE = 1.2816;
+
+/** Weight of the overall mean in each slot, in samples */
+const SHRINKAGE_SAMPLES = 2;
+
+/** History needed for a time-of-day profile */
+const MIN_SEASONAL_DAYS = 2;
+
+/** Window compared to the profile to set the level */
+const LEVEL_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SESSION_WINDOW_MS = 5 * HOUR_MS;
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Tokens counted towards rate limits (cache reads excluded)
+ */
+export function getRateLimitedTokens(point: TimeSeriesDataPoint): number {
+	if (!point.breakdown) return point.tokens;
+	return point.breakdown.input + point.breakdown.cache_creation + point.breakdown.output;
+}
+
+/**
+ * Time-of-day slot of a bucket start (local time)
+ */
+function getSlot(ms: number, bucketMs: number): number {
+	const date = new Date(ms);
+	const msOfDay = ((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) * 1000;
+	return Math.floor(msOfDay / bucketMs);
+}
+
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+	if (values.length === 0) return { mean: 0, variance: 0 };
+	const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+	const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+	return { mean, variance };
+}
+
+/**
+ * Fit a time-of-day profile to evenly sized buckets
+ *
+ * @param points - Bucket start (ms since epoch) and value, oldest first
+ * @param bucketMs - Bucket size
+ * @param now - Reference time (buckets after it are ignored)
+ */
+export function fitSeasonalModel(
+	points: Array<{ ms: number; value: number }>,
+	bucketMs: number,
+	now: Date
+): SeasonalModel {
+	const history = points.filter(point => point.ms <= now.getTime());
+	const overall = meanAndVariance(history.map(point => point.value));
+	const slotCount = Math.max(1, Math.round(DAY_MS / bucketMs));
+	const seasonal = history.length * bucketMs >= MIN_SEASONAL_DAYS * DAY_MS;
+
+	const samples: number[][] = Array.from({ length: slotCount }, () => []);
+	if (seasonal) {
+		for (const point of history) {
+			samples[getSlot(point.ms, bucketMs) % slotCount].push(point.value);
+		}
+	}
+
+	const slots = samples.map(values => {
+		const slot = meanAndVariance(values);
+		const n = values.length;
+		return {
+			mean: (n * slot.mean + SHRINKAGE_SAMPLES * overall.mean) / (n + SHRINKAGE_SAMPLES),
+			variance: (n * slot.variance + SHRINKAGE_SAMPLES * overall.variance) / (n + SHRINKAGE_SAMPLES)
+		};
+	});
+
+	// Recent usage against the profile, shrunk towards 1 by one overall mean per bucket
+	const recent = history.filter(point => point.ms > now.getTime() - LEVEL_WINDOW_MS);
+	const actual = recent.reduce((sum, point) => sum + point.value, 0);
+	const expected = recent.reduce((sum, point) => sum + slots[getSlot(point.ms, bucketMs) % slotCount].mean, 0);
+	const prior = overall.mean * recent.length;
+	const level = expected + prior > 0 ? (actual + prior) / (expected + prior) : 1;
+
+	return { bucketMs, seasonal, slots, level };
+}
+
+/**
+ * Forecast `count` buckets starting at `startMs`
+ */
+export function forecastBuckets(model: SeasonalModel, startMs: number, count: number): ForecastPoint[] {
+	const points: ForecastPoint[] = [];
+	for (let i = 0; i < count; i++) {
+		const ms = startMs + i * model.bucketMs;
+		const slot = model.slots[getSlot(ms, model.bucketMs) % model.slots.length];
+		const expected = slot.mean * model.level;
+		const spread = Z_SCORE * Math.sqrt(slot.variance) * model.level;
+		points.push({
+			timestamp: new Date(ms).toISOString(),
+			expected,
+			lower: Math.max(0, expected - spread),
+			upper: expected + spread
+		});
+	}
+	return points;
+}
+
+/**
+ * Sum forecast buckets, with the interval of the sum
+ */
+export function sumForecast(points: ForecastPoint[]): ForecastInterval {
+	let expected = 0;
+	let variance = 0;
+	for (const point of points) {
+		expected += point.expected;
+		variance += ((point.upper - point.expected) / Z_SCORE) ** 2;
+	}
+	const spread = Z_SCORE * Math.sqrt(variance);
+	return { expected, lower: Math.max(0, expected - spread), upper: expected + spread };
+}
+
+/**
+ * Predict when usage reaches a limit
+ *
+ * Within a bucket, usage is assumed to grow linearly.
+ *
+ * @param points - Forecast buckets, starting now
+ * @param used - Usage so far
+ * @param limit - Limit
+ * @param now - Reference time
+ * @param untilMs - End of the window (no prediction beyond it)
+ */
+export function predictExhaustion(
+	points: ForecastPoint[],
+	used: number,
+	limit: number,
+	now: Date,
+	untilMs: number
+): LimitExhaustion {
+	const bucketMs = points.length > 1 ? Date.parse(points[1].timestamp) - Date.parse(points[0].timestamp) : HOUR_MS;
+
+	const crossingAt = (bound: keyof ForecastInterval): string | null => {
+		if (used >= limit) return now.toISOString();
+
+		let previous = used;
+		let expected = 0;
+		let variance = 0;
+		for (const point of points) {
+			const startMs = Date.parse(point.timestamp);
+			if (startMs >= untilMs) break;
+
+			expected += point.expected;
+			variance += ((point.upper - point.expected) / Z_SCORE) ** 2;
+			const spread = Z_SCORE * Math.sqrt(variance);
+			const current =
+				used + (bound === 'expected' ? expected : bound === 'upper' ? expected + spread : Math.max(0, expected - spread));
+
+			if (current >= limit) {
+				const fraction = current > previous ? (limit - previous) / (current - previous) : 0;
+				const ms = Math.max(now.getTime(), startMs + fraction * bucketMs);
+				return ms <= untilMs ? new Date(ms).toISOString() : null;
+			}
+			previous = current;
+		}
+		return null;
+	};
+
+	return {
+		limit,
+		used,
+		until: new Date(untilMs).toISOString(),
+		expectedAt: crossingAt('expected'),
+		earliestAt: crossingAt('upper'),
+		latestAt: crossingAt('lower')
+	};
+}
+
+// ============================================================================
+// Forecast
+// ============================================================================
+
+/**
+ * Forecast burn rate and limit exhaustion from a token time series
+ *
+ * @param series - getTokenTimeSeries data (fixed-size buckets, oldest first)
+ * @param options - Reference time, horizon and limits
+ */
+export function forecastBurnRate(
+	series: TimeSeriesDataPoint[],
+	options: BurnRateForecastOptions = {}
+): BurnRateForecast {
+	const now = options.now ?? new Date();
+	const horizonHours = options.horizonHours ?? 5;
+
+	const starts = series.map(point => Date.parse(point.timestamp));
+	const bucketMs = starts.length > 1 ? starts[1] - starts[0] : 30 * 60 * 1000;
+
+	const limited = fitSeasonalModel(
+		series.map((point, i) => ({ ms: starts[i], value: getRateLimitedTokens(point) })),
+		bucketMs,
+		now
+	);
+	const total = fitSeasonalModel(
+		series.map((point, i) => ({ ms: starts[i], value: point.tokens })),
+		bucketMs,
+		now
+	);
+
+	// Forecast from the next bucket boundary (the rest of the current bucket is left out)
+	const firstMs = Math.ceil(now.getTime() / bucketMs) * bucketMs;
+	const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+	const horizonMs = Math.max(midnight, now.getTime() + SESSION_WINDOW_MS) - now.getTime();
+	const upcoming = forecastBuckets(limited, firstMs, Math.ceil(horizonMs / bucketMs));
+
+	const perHour = Math.round(HOUR_MS / bucketMs);
+	const perSession = Math.round(SESSION_WINDOW_MS / bucketMs);
+
+	const usedSince = (sinceMs: number) =>
+		series.reduce((sum, point, i) => (starts[i] + bucketMs > sinceMs ? sum + getRateLimitedTokens(point) : sum), 0);
+
+	return {
+		confidence: FORECAST_CONFIDENCE,
+		seasonal: limited.seasonal,
+		bucketMinutes: bucketMs / 60_000,
+		tokensPerHour: sumForecast(upcoming.slice(0, perHour)),
+		tokensPerSession: sumForecast(upcoming.slice(0, perSession)),
+		projection: forecastBuckets(total, firstMs, Math.ceil((horizonHours * HOUR_MS) / bucketMs)),
+		sessionWindow: options.sessionLimit
+			? predictExhaustion(
+					upcoming,
+					options.sessionUsed ?? usedSince(now.getTime() - SESSION_WINDOW_MS),
+					options.sessionLimit,
+					now,
+					now.getTime() + SESSION_WINDOW_MS
+				)
+			: null,
+		dailyLimit: options.dailyLimit
+			? predictExhaustion(
+					upcoming,
+					usedSince(new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()),
+					options.dailyLimit,
+					now,
+					midnight
+				)
+			: null
+	};
+}
@@ -6,7 +6,10 @@
  *
  * Features:
  * - Subscription tier detection from ~/.claude/.credentials.json
- * - Real-time session context (per-minute rate limits from API headers)
+ * - Session context: per-minute and 5-hour usage estimated from local session
+ *   files (rateLimitEstimator.ts), optionally refined from API rate limit headers
+ * - Burn rate forecast with confidence intervals and limit exhaustion times
+ *   (burnRateForecast.ts)
  * - Caching layer to prevent API hammering
  * - Graceful error handling with fallbacks
  *
@@ -18,6 +21,10 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { computeAgentStatus, countByStatus, type AgentStatus } from './agentStatus';
+import { estimateSessionContext, loadUsageEvents, FIVE_HOUR_WINDOW_MS } from './rateLimitEstimator';
+import { forecastBurnRate, type BurnRateForecast } from './burnRateForecast';
+import { getTokenTimeSeries } from './tokenUsageTimeSeries';
 
 // ============================================================================
 // TypeScript Interfaces
@@ -53,7 +60,8 @@ export interface ClaudeCredentials {
 }
 
 /**
- * Real-time session context from API rate limit headers
+ * Session context: rate limit headroom, estimated from local session files
+ * (source 'estimate') or read from API rate limit headers (source 'api')
  */
 export interface SessionContext {
   // Per-minute quotas
@@ -67,7 +75,14 @@ export interface SessionContext {
 
   outputTokensRemaining: number;
 
+  // Rolling 5-hour window (always estimated), against the daily token limit
+  windowTokens: number;
+  windowTokensLimit: number;
+  windowTokensRemaining: number;
+  windowResetAt: Date | null; // When the oldest request leaves the window
+
   // Metadata
+  source: 'estimate' | 'api';
   tier: SubscriptionTier;
   fetchedAt: Date;
 }
@@ -84,12 +99,13 @@ export interface AgentMetrics {
 }
 
 /**
- * Token burn rate estimation
+ * Token burn rate estimation (rate-limited tokens, see burnRateForecast.ts)
  */
 export interface TokenBurnRate {
   tokensPerHour: number;
   tokensPerSession: number; // 5-hour sessions
-  hoursRemaining: number; // Based on current burn rate
+  hoursRemaining: number | null; // Until the first limit is expected to run out (null: not before it resets)
+  forecast: BurnRateForecast; // Confidence intervals, exhaustion times and projection band
 }
 
 /**
@@ -100,7 +116,7 @@ export interface ClaudeUsageMetrics {
   tier: SubscriptionTier;
   tierLimits: RateLimitTier;
 
-  // Session context (real-time from API)
+  // Session context (estimated locally, optionally refined from the API)
   sessionContext: SessionContext | null;
 
   // Agent activity
@@ -257,47 +273,80 @@ export function getRateLimitTier(): RateLimitTier {
 }
 
 // ============================================================================
-// Session Context Fetching (Placeholder)
+// Session Context Fetching
 // ============================================================================
 
 /**
- * Fetch real-time session context from Claude API rate limit headers
- *
- * IMPORTANT: This requires making an API call to Anthropic.
- * For now, this is a placeholder that returns null.
- *
- * Full implementation requires:
- * 1. Install @anthropic-ai/sdk
- * 2. Read OAuth token from ~/.claude/.credentials.json
- * 3. Make minimal API call to extract headers
- * 4. Parse rate limit headers
+ * Get the session context: rate limit headroom for the current tier
  *
- * See: dashboard/docs/claude-api-usage-research.md (Section 1)
+ * Estimated offline from local session files (see rateLimitEstimator.ts).
+ * With `ping` and an ANTHROPIC_API_KEY, the per-minute quotas are then
+ * refined from the rate limit headers of a minimal API request; this spends
+ * a real request, so it's off by default. The 5-hour window is always
+ * estimated (the API doesn't report it).
  *
+ * @param options.ping - Refine per-minute quotas from API headers (default false)
  * @returns SessionContext or null if unavailable
  */
-export async function fetchSessionContext(): Promise<SessionContext | null> {
-  // Check cache first
+export async function fetchSessionContext(
+  options: { ping?: boolean } = {}
+): Promise<SessionContext | null> {
+  // Check cache first (a cached estimate doesn't answer a ping)
   const cached = cache.getSessionContext();
-  if (cached) {
+  if (cached && (!options.ping || cached.source === 'api')) {
     return cached;
   }
 
   try {
-    // NOTE: Session context requires an Anthropic API key (sk-ant-api03-...),
-    // not the OAuth token from Claude.ai (sk-ant-oat01-...).
-    //
-    // Most users won't have a separate API key, so this will gracefully return null.
-    // To enable this feature:
-    // 1. Get an API key from https://console.anthropic.com/
-    // 2. Set ANTHROPIC_API_KEY environment variable
-
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      // No API key configured - this is expected for most users
-      return null;
+    const now = new Date();
+    const tier = getSubscriptionTier();
+    const events = await loadUsageEvents(now.getTime() - FIVE_HOUR_WINDOW_MS, now);
+    let sessionContext = estimateSessionContext(events, tier, TIER_LIMITS[tier], now);
+
+    if (options.ping) {
+      const headers = await fetchRateLimitHeaders();
+      if (headers) {
+        sessionContext = { ...sessionContext, ...headers, source: 'api', fetchedAt: new Date() };
+      }
     }
 
+    // Cache for 30 seconds
+    cache.setSessionContext(sessionContext);
+    return sessionContext;
+  } catch (error) {
+    console.error('Error estimating session context:', error);
+    return null; // Graceful degradation
+  }
+}
+
+/**
+ * Read per-minute quotas from Claude API rate limit headers
+ *
+ * Requires an Anthropic API key (sk-ant-api03-...) in ANTHROPIC_API_KEY, not
+ * the OAuth token from Claude.ai (sk-ant-oat01-...); get one from
+ * https://console.anthropic.com/. Makes a 1-token request to read the headers.
+ *
+ * See: dashboard/docs/claude-api-usage-research.md (Section 1)
+ *
+ * @returns Per-minute quota fields, or null if unavailable
+ */
+async function fetchRateLimitHeaders(): Promise<Pick<
+  SessionContext,
+  | 'requestsLimit'
+  | 'requestsRemaining'
+  | 'requestsResetAt'
+  | 'inputTokensLimit'
+  | 'inputTokensRemaining'
+  | 'inputTokensResetAt'
+  | 'outputTokensRemaining'
+> | null> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    // No API key configured - keep the estimate
+    return null;
+  }
+
+  try {
     // Make direct HTTP request to get response headers
     // The Anthropic SDK doesn't expose HTTP headers, so we use fetch
     const response = await fetch('https://api.anthropic.com/v1/messages', {
@@ -322,8 +371,7 @@ export async function fetchSessionContext(): Promise<SessionContext | null> {
     // Extract rate limit headers from HTTP response
     const headers = response.headers;
 
-    // Parse headers into SessionContext
-    const sessionContext: SessionContext = {
+    return {
       requestsLimit: parseInt(headers.get('anthropic-ratelimit-requests-limit') || '0'),
       requestsRemaining: parseInt(headers.get('anthropic-ratelimit-requests-remaining') || '0'),
       requestsResetAt: new Date(headers.get('anthropic-ratelimit-requests-reset') || Date.now() + 60000),
@@ -332,18 +380,11 @@ export async function fetchSessionContext(): Promise<SessionContext | null> {
       inputTokensRemaining: parseInt(headers.get('anthropic-ratelimit-input-tokens-remaining') || '0'),
       inputTokensResetAt: new Date(headers.get('anthropic-ratelimit-input-tokens-reset') || Date.now() + 60000),
 
-      outputTokensRemaining: parseInt(headers.get('anthropic-ratelimit-output-tokens-remaining') || '0'),
-
-      tier: getSubscriptionTier(),
-      fetchedAt: new Date()
+      outputTokensRemaining: parseInt(headers.get('anthropic-ratelimit-output-tokens-remaining') || '0')
     };
-
-    // Cache for 30 seconds
-    cache.setSessionContext(sessionContext);
-    return sessionContext;
   } catch (error) {
-    console.error('Error fetching session context:', error);
-    return null; // Graceful degradation
+    console.error('Error fetching rate limit headers:', error);
+    return null; // Keep the estimate
   }
 }
 
@@ -354,55 +395,46 @@ export async function fetchSessionContext(): Promise<SessionContext | null> {
 /**
  * Get agent activity metrics from Agent Mail
  *
- * IMPORTANT: This requires executing shell commands (am-agents).
+ * Statuses come from $lib/utils/agentStatus.ts: live, working and active
+ * agents count as working, idle as idle and offline as sleeping. Pass the
+ * statuses the server already computed (with configured thresholds); without
+ * them `am-agents` is queried and status is derived from activity alone.
+ *
+ * IMPORTANT: Without statuses this executes shell commands (am-agents).
  * For server-side use only (not browser).
  *
+ * @param statuses - Precomputed agent statuses (optional)
  * @returns AgentMetrics or null if unavailable
  */
-export async function fetchAgentMetrics(): Promise<AgentMetrics | null> {
+export async function fetchAgentMetrics(statuses?: AgentStatus[]): Promise<AgentMetrics | null> {
   // Check cache first
   const cached = cache.getAgentMetrics();
-  if (cached) {
+  if (cached && !statuses) {
     return cached;
   }
 
   try {
-    // Execute am-agents command to get agent status
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-
-    const { stdout } = await execAsync('am-agents --json');
-    const agents = JSON.parse(stdout);
-
-    // Calculate agent status counts
-    const working = agents.filter((a: any) => {
-      const lastActivity = new Date(a.last_activity_ts);
-      const minutesSinceActivity = (Date.now() - lastActivity.getTime()) / 60000;
-      // Consider "working" if active within last 10 minutes
-      return minutesSinceActivity < 10;
-    }).length;
-
-    const idle = agents.filter((a: any) => {
-      const lastActivity = new Date(a.last_activity_ts);
-      const minutesSinceActivity = (Date.now() - lastActivity.getTime()) / 60000;
-      // Consider "idle" if active between 10 min and 1 hour ago
-      return minutesSinceActivity >= 10 && minutesSinceActivity < 60;
-    }).length;
-
-    const sleeping = agents.filter((a: any) => {
-      const lastActivity = new Date(a.last_activity_ts);
-      const minutesSinceActivity = (Date.now() - lastActivity.getTime()) / 60000;
-      // Consider "sleeping" if inactive for over 1 hour
-      return minutesSinceActivity >= 60;
-    }).length;
+    if (!statuses) {
+      // Execute am-agents command to get agent activity
+      const { exec } = await import('child_process');
+      const { promisify } = await import('util');
+      const execAsync = promisify(exec);
+
+      const { stdout } = await execAsync('am-agents --json');
+      const agents: Array<{ last_active_ts?: string }> = JSON.parse(stdout);
+      const now = Date.now();
+      statuses = agents.map(a => computeAgentStatus(a, now));
+    }
+
+    const counts = countByStatus(statuses);
+    const working = counts.live + counts.working + counts.active;
 
     const metrics: AgentMetrics = {
-      totalAgents: agents.length,
+      totalAgents: statuses.length,
       workingAgents: working,
-      idleAgents: idle,
-      sleepingAgents: sleeping,
-      loadPercentage: agents.length > 0 ? Math.round((working / agents.length) * 100) : 0
+      idleAgents: counts.idle,
+      sleepingAgents: counts.offline,
+      loadPercentage: statuses.length > 0 ? Math.round((working / statuses.length) * 100) : 0
     };
 
     // Cache for 60 seconds
@@ -415,28 +447,53 @@ export async function fetchAgentMetrics(): Promise<AgentMetrics | null> {
 }
 
 // ============================================================================
-// Token Burn Rate (Placeholder)
+// Token Burn Rate
 // ============================================================================
 
 /**
- * Estimate token burn rate based on API usage samples
+ * Forecast the token burn rate from the last 7 days of usage
  *
- * IMPORTANT: This requires tracking API calls over time.
- * For now, returns null (not yet implemented).
+ * Fits an hour-of-day profile to 30-minute buckets of the project's usage
+ * (the same series as the dashboard sparkline) and predicts when the 5-hour
+ * window and the tier's daily limit run out (see burnRateForecast.ts).
  *
+ * @param options.projectPath - Project whose sessions are used (default: cwd, like the sparkline)
+ * @param options.sessionUsed - Tokens used in the last 5 hours across projects (default: from the series)
  * @returns TokenBurnRate or null if unavailable
  */
-export async function estimateTokenBurnRate(): Promise<TokenBurnRate | null> {
-  // TODO (future): Implement token burn rate tracking
-  // This requires:
-  // 1. Store API call samples (timestamp, tokens remaining)
-  // 2. Calculate delta over time
-  // 3. Estimate tokens/hour and hours remaining
-  //
-  // For now, return null
-
-  console.warn('estimateTokenBurnRate() not yet implemented - returning null');
-  return null;
+export async function estimateTokenBurnRate(
+  options: { projectPath?: string; sessionUsed?: number } = {}
+): Promise<TokenBurnRate | null> {
+  try {
+    const limits = TIER_LIMITS[getSubscriptionTier()];
+    const series = await getTokenTimeSeries({
+      range: '7d',
+      bucketSize: '30min',
+      projectPath: options.projectPath
+    });
+    if (series.data.length === 0) return null;
+
+    const forecast = forecastBurnRate(series.data, {
+      sessionLimit: limits.tokensPerDay,
+      sessionUsed: options.sessionUsed,
+      dailyLimit: limits.tokensPerDay
+    });
+
+    // Hours until the first limit is expected to run out
+    const exhaustions = [forecast.sessionWindow?.expectedAt, forecast.dailyLimit?.expectedAt]
+      .filter((at): at is string => !!at)
+      .map(at => (Date.parse(at) - Date.now()) / 3_600_000);
+
+    return {
+      tokensPerHour: forecast.tokensPerHour.expected,
+      tokensPerSession: forecast.tokensPerSession.expected,
+      hoursRemaining: exhaustions.length > 0 ? Math.max(0, Math.min(...exhaustions)) : null,
+      forecast
+    };
+  } catch (error) {
+    console.error('Error forecasting token burn rate:', error);
+    return null; // Graceful degradation
+  }
 }
 
 // ============================================================================
@@ -449,9 +506,13 @@ export async function estimateTokenBurnRate(): Promise<TokenBurnRate | null> {
  * This is the main API that components should use.
  * Fetches all metrics with graceful degradation (null for unavailable data).
  *
+ * @param options.agentStatuses - Precomputed agent statuses (see fetchAgentMetrics)
+ * @param options.ping - Refine the session context from API headers (see fetchSessionContext)
  * @returns ClaudeUsageMetrics object with all available metrics
  */
-export async function getClaudeUsageMetrics(): Promise<ClaudeUsageMetrics> {
+export async function getClaudeUsageMetrics(
+  options: { agentStatuses?: AgentStatus[]; ping?: boolean } = {}
+): Promise<ClaudeUsageMetrics> {
   const errors: string[] = [];
 
   // Fetch tier info (always available from local file)
@@ -461,7 +522,7 @@ export async function getClaudeUsageMetrics(): Promise<ClaudeUsageMetrics> {
   // Fetch session context (may be null)
   let sessionContext: SessionContext | null = null;
   try {
-    sessionContext = await fetchSessionContext();
+    sessionContext = await fetchSessionContext({ ping: options.ping });
   } catch (error) {
     errors.push(`Session context unavailable: ${error}`);
   }
@@ -469,7 +530,7 @@ export async function getClaudeUsageMetrics(): Promise<ClaudeUsageMetrics> {
   // Fetch agent metrics (may be null)
   let agentMetrics: AgentMetrics | null = null;
   try {
-    agentMetrics = await fetchAgentMetrics();
+    agentMetrics = await fetchAgentMetrics(options.agentStatuses);
   } catch (error) {
     errors.push(`Agent metrics unavailable: ${error}`);
   }
@@ -477,7 +538,7 @@ export async function getClaudeUsageMetrics(): Promise<ClaudeUsageMetrics> {
   // Estimate burn rate (may be null)
   let burnRate: TokenBurnRate | null = null;
   try {
-    burnRate = await estimateTokenBurnRate();
+    burnRate = await estimateTokenBurnRate({ sessionUsed: sessionContext?.windowTokens });
   } catch (error) {
     errors.push(`Burn rate estimation unavailable: ${error}`);
   }
@@ -0,0 +1,170 @@
+/**
+ * Date Range Tests
+ *
+ * Tests for zoned calendar arithmetic (including DST changes), boundary
+ * parsing and range resolution in dateRange.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	addZonedDays,
+	getWeekWindow,
+	getZonedParts,
+	isValidTimeZone,
+	parseDateBoundary,
+	parseWeekStartDay,
+	resolveDateRange,
+	startOfZonedDay,
+	startOfZonedWeek,
+	zonedTimeToMs
+} from './dateRange';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Tests: time zones
+// ============================================================================
+
+describe('isValidTimeZone', () => {
+	it('should accept IANA names and reject others', () => {
+		expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+		expect(isValidTimeZone('UTC')).toBe(true);
+		expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+	});
+});
+
+describe('zonedTimeToMs', () => {
+	it('should convert wall-clock time in a time zone', () => {
+		expect(zonedTimeToMs(2025, 1, 15, 9, 30, 'Europe/Berlin')).toBe(Date.UTC(2025, 0, 15, 8, 30));
+		expect(zonedTimeToMs(2025, 7, 15, 9, 30, 'Europe/Berlin')).toBe(Date.UTC(2025, 6, 15, 7, 30));
+		expect(zonedTimeToMs(2025, 7, 15, 9, 30, 'America/New_York')).toBe(Date.UTC(2025, 6, 15, 13, 30));
+	});
+
+	it('should resolve skipped times to after the gap and repeated times to the first', () => {
+		// Berlin skips 02:00-03:00 on 2025-03-30
+		expect(zonedTimeToMs(2025, 3, 30, 2, 30, 'Europe/Berlin')).toBe(Date.UTC(2025, 2, 30, 1, 30));
+		// and repeats 02:00-03:00 on 2025-10-26 (first at +02:00)
+		expect(zonedTimeToMs(2025, 10, 26, 2, 30, 'Europe/Berlin')).toBe(Date.UTC(2025, 9, 26, 0, 30));
+	});
+
+	it('should round-trip through getZonedParts', () => {
+		const ms = zonedTimeToMs(2025, 11, 19, 23, 45, 'Asia/Kolkata');
+		expect(getZonedParts(ms, 'Asia/Kolkata')).toMatchObject({ year: 2025, month: 11, day: 19, hour: 23, minute: 45 });
+	});
+});
+
+// ============================================================================
+// Tests: calendar arithmetic
+// ============================================================================
+
+describe('startOfZonedDay / addZonedDays', () => {
+	it('should use the day in the time zone, not UTC', () => {
+		// 2025-11-19 23:30 UTC is already the 20th in Berlin
+		const ms = Date.UTC(2025, 10, 19, 23, 30);
+		expect(startOfZonedDay(ms, 'Europe/Berlin')).toBe(Date.UTC(2025, 10, 19, 23, 0));
+		expect(startOfZonedDay(ms, 'UTC')).toBe(Date.UTC(2025, 10, 19));
+	});
+
+	it('should give 23- and 25-hour days at DST changes', () => {
+		const spring = startOfZonedDay(Date.UTC(2025, 2, 30, 12), 'Europe/Berlin');
+		expect(addZonedDays(spring, 1, 'Europe/Berlin') - spring).toBe(23 * HOUR_MS);
+
+		const autumn = startOfZonedDay(Date.UTC(2025, 9, 26, 12), 'Europe/Berlin');
+		expect(addZonedDays(autumn, 1, 'Europe/Berlin') - autumn).toBe(25 * HOUR_MS);
+	});
+});
+
+describe('startOfZonedWeek', () => {
+	// Wednesday 2025-11-19 12:00 UTC
+	const ms = Date.UTC(2025, 10, 19, 12);
+
+	it('should go back to the week start day', () => {
+		expect(startOfZonedWeek(ms, 'UTC')).toBe(Date.UTC(2025, 10, 16));
+		expect(startOfZonedWeek(ms, 'UTC', 1)).toBe(Date.UTC(2025, 10, 17));
+		expect(startOfZonedWeek(ms, 'America/New_York', 1)).toBe(Date.UTC(2025, 10, 17, 5));
+	});
+
+	it('should stay on the day when it is the week start', () => {
+		expect(startOfZonedWeek(ms, 'UTC', 3)).toBe(Date.UTC(2025, 10, 19));
+	});
+});
+
+// ============================================================================
+// Tests: local weeks
+// ============================================================================
+
+// Wednesday noon, local time
+const WEDNESDAY_NOON = new Date(2025, 10, 19, 12, 0);
+
+describe('parseWeekStartDay', () => {
+	it('should accept day numbers and names', () => {
+		expect(parseWeekStartDay('1')).toBe(1);
+		expect(parseWeekStartDay('Monday')).toBe(1);
+		expect(parseWeekStartDay('sat')).toBe(6);
+		expect(parseWeekStartDay('7')).toBeNull();
+		expect(parseWeekStartDay('s')).toBeNull();
+		expect(parseWeekStartDay(undefined)).toBeNull();
+	});
+});
+
+describe('getWeekWindow', () => {
+	it('should start on the configured day', () => {
+		expect(getWeekWindow(WEDNESDAY_NOON, 0)).toEqual({ start: new Date(2025, 10, 16), end: new Date(2025, 10, 23) });
+		expect(getWeekWindow(WEDNESDAY_NOON, 1)).toEqual({ start: new Date(2025, 10, 17), end: new Date(2025, 10, 24) });
+		expect(getWeekWindow(WEDNESDAY_NOON, 3).start).toEqual(new Date(2025, 10, 19));
+		expect(getWeekWindow(WEDNESDAY_NOON, 4).start).toEqual(new Date(2025, 10, 13));
+	});
+});
+
+// ============================================================================
+// Tests: parsing
+// ============================================================================
+
+describe('parseDateBoundary', () => {
+	it('should read bare dates as the start or end of the day in the time zone', () => {
+		expect(parseDateBoundary('2025-11-19', 'Asia/Tokyo')).toBe(Date.UTC(2025, 10, 18, 15));
+		expect(parseDateBoundary('2025-11-19', 'Asia/Tokyo', true)).toBe(Date.UTC(2025, 10, 19, 15) - 1);
+	});
+
+	it('should read date-times without an offset as wall-clock time', () => {
+		expect(parseDateBoundary('2025-11-19T09:15', 'America/New_York')).toBe(Date.UTC(2025, 10, 19, 14, 15));
+		expect(parseDateBoundary('2025-11-19T09:15:30', 'UTC')).toBe(Date.UTC(2025, 10, 19, 9, 15, 30));
+	});
+
+	it('should keep date-times with an offset absolute', () => {
+		expect(parseDateBoundary('2025-11-19T09:15:00Z', 'Asia/Tokyo')).toBe(Date.UTC(2025, 10, 19, 9, 15));
+		expect(parseDateBoundary('2025-11-19T09:15:00+02:00', 'Asia/Tokyo')).toBe(Date.UTC(2025, 10, 19, 7, 15));
+	});
+
+	it('should reject anything else', () => {
+		expect(parseDateBoundary('yesterday', 'UTC')).toBeNull();
+		expect(parseDateBoundary('2025-13-01', 'UTC')).toBeNull();
+		expect(parseDateBoundary('1732000000000', 'UTC')).toBeNull();
+		expect(parseDateBoundary(new Date('nope'), 'UTC')).toBeNull();
+	});
+});
+
+describe('resolveDateRange', () => {
+	const now = new Date(Date.UTC(2025, 10, 19, 12));
+
+	it('should default open ends to the epoch and now', () => {
+		expect(resolveDateRange({ from: '2025-11-01' }, 'UTC', now)).toEqual({
+			start: new Date(Date.UTC(2025, 10, 1)),
+			end: now
+		});
+		expect(resolveDateRange({ to: '2025-11-01' }, 'UTC', now).start.getTime()).toBe(0);
+	});
+
+	it('should include the whole end date', () => {
+		const { start, end } = resolveDateRange({ from: '2025-11-19', to: '2025-11-19' }, 'UTC', now);
+		expect(end.getTime() - start.getTime()).toBe(24 * HOUR_MS - 1);
+	});
+
+	it('should throw on invalid or reversed ranges', () => {
+		expect(() => resolveDateRange({ from: 'soon' }, 'UTC', now)).toThrow('Invalid "from" date: soon');
+		expect(() => resolveDateRange({ to: 'later' }, 'UTC', now)).toThrow('Invalid "to" date: later');
+		expect(() => resolveDateRange({ from: '2025-11-20', to: '2025-11-19' }, 'UTC', now)).toThrow(
+			'"from" must not be after "to"'
+		);
+	});
+});
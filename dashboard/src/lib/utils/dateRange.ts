@@ -0,0 +1,264 @@
+/**
+ * Date Ranges and Time Zones
+ *
+ * Calendar arithmetic in an IANA time zone (e.g. "Europe/Berlin"), for
+ * "today", day/week buckets and explicit from/to ranges in token usage.
+ * Without a time zone, the server's local time zone is used.
+ *
+ * Wall-clock times are converted with Intl.DateTimeFormat, so DST changes
+ * are handled: a zoned day is 23, 24 or 25 hours long.
+ *
+ * Also the local week windows of the weekly quota and budgets. Nothing here
+ * imports server-only code, so client components can use it.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Explicit range; open ends default to the epoch and now
+ */
+export interface DateRange {
+	/** ISO 8601 date-time, or YYYY-MM-DD for the start of that day */
+	from?: Date | string;
+	/** ISO 8601 date-time, or YYYY-MM-DD for the end of that day */
+	to?: Date | string;
+}
+
+/**
+ * Wall-clock time in a time zone
+ */
+export interface ZonedParts {
+	year: number;
+	/** 1-12 */
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	/** 0 = Sunday … 6 = Saturday */
+	weekday: number;
+}
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone?: string): Intl.DateTimeFormat {
+	const key = timeZone ?? '';
+	let formatter = formatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+			weekday: 'short'
+		});
+		formatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * Check that a time zone is a valid IANA name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Wall-clock time of an instant in a time zone (default: server local)
+ */
+export function getZonedParts(ms: number, timeZone?: string): ZonedParts {
+	const parts: Record<string, string> = {};
+	for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+		parts[part.type] = part.value;
+	}
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		hour: Number(parts.hour),
+		minute: Number(parts.minute),
+		second: Number(parts.second),
+		weekday: WEEKDAYS.indexOf(parts.weekday)
+	};
+}
+
+/**
+ * Offset of a time zone from UTC at an instant (ms; positive east of UTC)
+ */
+export function getTimeZoneOffsetMs(ms: number, timeZone?: string): number {
+	const p = getZonedParts(ms, timeZone);
+	const wallMs = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+	return wallMs - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a time zone
+ *
+ * Times skipped by a DST change resolve to the instant after the gap;
+ * repeated times resolve to the first occurrence.
+ */
+export function zonedTimeToMs(
+	year: number,
+	month: number,
+	day: number,
+	hour: number = 0,
+	minute: number = 0,
+	timeZone?: string
+): number {
+	const wallMs = Date.UTC(year, month - 1, day, hour, minute);
+
+	// Try the offsets in effect a day before and a day after (they differ around DST changes)
+	const before = wallMs - getTimeZoneOffsetMs(wallMs - DAY_MS, timeZone);
+	const after = wallMs - getTimeZoneOffsetMs(wallMs + DAY_MS, timeZone);
+	const valid = [before, after].filter(ms => ms + getTimeZoneOffsetMs(ms, timeZone) === wallMs);
+
+	// In a gap neither is valid; the offset from before lands after the gap
+	return valid.length > 0 ? Math.min(...valid) : before;
+}
+
+// ============================================================================
+// Calendar Arithmetic
+// ============================================================================
+
+/**
+ * Start of the day containing an instant, in a time zone
+ */
+export function startOfZonedDay(ms: number, timeZone?: string): number {
+	const p = getZonedParts(ms, timeZone);
+	return zonedTimeToMs(p.year, p.month, p.day, 0, 0, timeZone);
+}
+
+/**
+ * Start of the day `days` days after the day containing an instant
+ */
+export function addZonedDays(ms: number, days: number, timeZone?: string): number {
+	const p = getZonedParts(ms, timeZone);
+	return zonedTimeToMs(p.year, p.month, p.day + days, 0, 0, timeZone);
+}
+
+/**
+ * Start of the week containing an instant, in a time zone
+ *
+ * @param weekStartDay - 0 = Sunday … 6 = Saturday
+ */
+export function startOfZonedWeek(ms: number, timeZone?: string, weekStartDay: number = 0): number {
+	const p = getZonedParts(ms, timeZone);
+	return zonedTimeToMs(p.year, p.month, p.day - ((p.weekday - weekStartDay + 7) % 7), 0, 0, timeZone);
+}
+
+// ============================================================================
+// Local Weeks
+// ============================================================================
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Parse a week start day: 0-6 (0 = Sunday) or a day name ("monday", "mon")
+ *
+ * @returns Day number, or null if not recognised
+ */
+export function parseWeekStartDay(value: string | null | undefined): number | null {
+	const text = value?.trim().toLowerCase();
+	if (!text) return null;
+
+	if (/^[0-6]$/.test(text)) return Number(text);
+	const day = DAY_NAMES.findIndex(name => text.length >= 3 && name.startsWith(text));
+	return day === -1 ? null : day;
+}
+
+/**
+ * Get the local week containing `now`
+ *
+ * @returns Start (inclusive) and end (exclusive)
+ */
+export function getWeekWindow(now: Date, weekStartDay: number = 0): { start: Date; end: Date } {
+	const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	start.setDate(start.getDate() - ((start.getDay() - weekStartDay + 7) % 7));
+
+	const end = new Date(start);
+	end.setDate(start.getDate() + 7);
+
+	return { start, end };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a range boundary
+ *
+ * Date-times with an offset (or Z) are absolute; without one they are
+ * wall-clock times in the time zone. A bare date (YYYY-MM-DD) is the start
+ * of that day, or with `endOfDay` its last millisecond.
+ *
+ * @returns Milliseconds since epoch, or null if not a date
+ */
+export function parseDateBoundary(
+	value: Date | string,
+	timeZone?: string,
+	endOfDay: boolean = false
+): number | null {
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime()) ? null : value.getTime();
+	}
+
+	const text = value.trim();
+	const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+	if (date) {
+		const [year, month, day] = date.slice(1).map(Number);
+		if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+		return endOfDay
+			? zonedTimeToMs(year, month, day + 1, 0, 0, timeZone) - 1
+			: zonedTimeToMs(year, month, day, 0, 0, timeZone);
+	}
+
+	const local = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/.exec(text);
+	if (local) {
+		const [year, month, day, hour, minute, second] = local.slice(1).map(n => Number(n ?? 0));
+		return zonedTimeToMs(year, month, day, hour, minute, timeZone) + second * 1000;
+	}
+
+	if (!/^\d{4}-\d{2}-\d{2}T/.test(text)) return null;
+	const ms = Date.parse(text);
+	return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Resolve an explicit range to inclusive bounds
+ *
+ * @throws {Error} If a boundary can't be parsed or `from` is after `to`
+ */
+export function resolveDateRange(
+	range: DateRange,
+	timeZone?: string,
+	now: Date = new Date()
+): { start: Date; end: Date } {
+	const start = range.from !== undefined ? parseDateBoundary(range.from, timeZone) : 0;
+	const end = range.to !== undefined ? parseDateBoundary(range.to, timeZone, true) : now.getTime();
+
+	if (start === null) throw new Error(`Invalid "from" date: ${range.from}`);
+	if (end === null) throw new Error(`Invalid "to" date: ${range.to}`);
+	if (start > end) throw new Error('"from" must not be after "to"');
+
+	return { start: new Date(start), end: new Date(end) };
+}
@@ -0,0 +1,229 @@
+/**
+ * Dependency Utilities Tests
+ *
+ * Tests for transitive blocker analysis, cycle detection, topological
+ * ordering, critical path and unblock queries in dependencyUtils.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Task } from '$lib/stores/agents.svelte';
+import {
+	analyzeDependencies,
+	getDependencyBadge,
+	findCriticalPath,
+	findDependencyCycles,
+	getTasksUnblockedBy,
+	topologicalOrder,
+	type GraphTask
+} from './dependencyUtils';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+/**
+ * Build a task; `deps` lists the IDs it depends on (all open)
+ */
+function makeTask(id: string, deps: string[] = [], overrides: Partial<GraphTask> = {}): GraphTask {
+	return {
+		id,
+		status: 'open',
+		priority: 2,
+		depends_on: deps.map(dep => ({ id: dep, status: 'open' })),
+		...overrides
+	};
+}
+
+/**
+ * Build a store task; `deps` maps dependency IDs to their embedded status
+ */
+function makeStoreTask(id: string, deps: Record<string, string> = {}, status = 'open'): Task {
+	return {
+		id,
+		title: `Task ${id}`,
+		description: '',
+		status,
+		priority: 2,
+		issue_type: 'task',
+		project: id.split('-')[0],
+		labels: [],
+		depends_on: Object.entries(deps).map(([dep, depStatus]) => ({
+			id: dep,
+			title: `Task ${dep}`,
+			status: depStatus
+		}))
+	};
+}
+
+// ============================================================================
+// Tests: analyzeDependencies
+// ============================================================================
+
+describe('analyzeDependencies', () => {
+	// jat-a -> jat-b -> chimaro-c -> flush-d (three hops, two other repos)
+	const chain = [
+		makeStoreTask('jat-a', { 'jat-b': 'open' }),
+		makeStoreTask('jat-b', { 'chimaro-c': 'open' }),
+		makeStoreTask('chimaro-c', { 'flush-d': 'in_progress' }),
+		makeStoreTask('flush-d', {}, 'in_progress')
+	];
+
+	it('should only report direct blockers without the task list', () => {
+		const status = analyzeDependencies(chain[0]);
+
+		expect(status.blockerCount).toBe(1);
+		expect(status.transitiveBlockers.map(b => b.id)).toEqual(['jat-b']);
+		expect(status.blockerDepth).toBe(1);
+	});
+
+	it('should follow blockers across projects', () => {
+		const status = analyzeDependencies(chain[0], chain);
+
+		expect(status.transitiveBlockers.map(b => [b.id, b.depth, b.via])).toEqual([
+			['jat-b', 1, null],
+			['chimaro-c', 2, 'jat-b'],
+			['flush-d', 3, 'chimaro-c']
+		]);
+		expect(status.blockerDepth).toBe(3);
+		expect(status.blockerProjects).toEqual(['chimaro', 'flush']);
+		expect(status.blockingReason).toBe('Blocked by 1 unresolved task (+2 upstream, 3 hops deep) in chimaro, flush');
+		expect(getDependencyBadge(status).text).toBe('🚫 1+2');
+	});
+
+	it('should prefer live statuses and stop at closed tasks', () => {
+		// The embedded copy says jat-b is open, but it has since been closed
+		const tasks = [chain[0], { ...chain[1], status: 'closed' }, ...chain.slice(2)];
+		const status = analyzeDependencies(chain[0], tasks);
+
+		expect(status.hasBlockers).toBe(false);
+		expect(status.transitiveBlockers).toEqual([]);
+	});
+
+	it('should terminate on dependency cycles', () => {
+		const tasks = [makeStoreTask('jat-x', { 'jat-y': 'open' }), makeStoreTask('jat-y', { 'jat-x': 'open' })];
+		const status = analyzeDependencies(tasks[0], tasks);
+
+		expect(status.transitiveBlockers.map(b => b.id)).toEqual(['jat-y']);
+	});
+});
+
+// ============================================================================
+// Tests: findDependencyCycles
+// ============================================================================
+
+describe('findDependencyCycles', () => {
+	it('should return nothing for an acyclic graph', () => {
+		const tasks = [makeTask('a'), makeTask('b', ['a']), makeTask('c', ['a', 'b'])];
+
+		expect(findDependencyCycles(tasks)).toEqual([]);
+	});
+
+	it('should report the exact members and a concrete path', () => {
+		const tasks = [
+			makeTask('a', ['b']),
+			makeTask('b', ['c']),
+			makeTask('c', ['a']),
+			makeTask('d', ['a']) // depends on the cycle but is not part of it
+		];
+
+		expect(findDependencyCycles(tasks)).toEqual([
+			{ members: ['a', 'b', 'c'], path: ['a', 'b', 'c', 'a'] }
+		]);
+	});
+
+	it('should report separate cycles and self-dependencies', () => {
+		const tasks = [
+			makeTask('x', ['y']),
+			makeTask('y', ['x']),
+			makeTask('self', ['self']),
+			makeTask('free')
+		];
+
+		expect(findDependencyCycles(tasks)).toEqual([
+			{ members: ['self'], path: ['self', 'self'] },
+			{ members: ['x', 'y'], path: ['x', 'y', 'x'] }
+		]);
+	});
+
+	it('should ignore dependencies on unknown tasks', () => {
+		expect(findDependencyCycles([makeTask('a', ['missing'])])).toEqual([]);
+	});
+});
+
+// ============================================================================
+// Tests: topologicalOrder
+// ============================================================================
+
+describe('topologicalOrder', () => {
+	it('should put dependencies first, breaking ties by priority', () => {
+		const tasks = [
+			makeTask('c', ['a', 'b']),
+			makeTask('b', [], { priority: 0 }),
+			makeTask('a', [], { priority: 3 })
+		];
+
+		expect(topologicalOrder(tasks)).toEqual({ order: ['b', 'a', 'c'], unordered: [] });
+	});
+
+	it('should leave cycles and their dependents unordered', () => {
+		const tasks = [makeTask('root'), makeTask('x', ['y']), makeTask('y', ['x']), makeTask('z', ['y'])];
+
+		expect(topologicalOrder(tasks)).toEqual({ order: ['root'], unordered: ['x', 'y', 'z'] });
+	});
+});
+
+// ============================================================================
+// Tests: findCriticalPath
+// ============================================================================
+
+describe('findCriticalPath', () => {
+	it('should find the longest chain of open work', () => {
+		const tasks = [
+			makeTask('a'),
+			makeTask('b', ['a']),
+			makeTask('c', ['b']),
+			makeTask('side', ['a'])
+		];
+
+		expect(findCriticalPath(tasks)).toEqual({ path: ['a', 'b', 'c'], length: 3 });
+	});
+
+	it('should skip closed tasks and honor weights', () => {
+		const tasks = [
+			makeTask('done', [], { status: 'closed' }),
+			makeTask('short', ['done']),
+			makeTask('long1'),
+			makeTask('long2', ['long1'])
+		];
+
+		expect(findCriticalPath(tasks).path).toEqual(['long1', 'long2']);
+		expect(findCriticalPath(tasks, t => (t.id === 'short' ? 5 : 1))).toEqual({
+			path: ['short'],
+			length: 5
+		});
+	});
+
+	it('should return an empty path when everything is closed', () => {
+		expect(findCriticalPath([makeTask('a', [], { status: 'closed' })])).toEqual({ path: [], length: 0 });
+	});
+});
+
+// ============================================================================
+// Tests: getTasksUnblockedBy
+// ============================================================================
+
+describe('getTasksUnblockedBy', () => {
+	it('should return dependents whose other dependencies are closed', () => {
+		const tasks = [
+			makeTask('x'),
+			makeTask('other'),
+			makeTask('only-x', ['x']),
+			makeTask('x-and-other', ['x', 'other']),
+			makeTask('x-and-done', ['x', 'done']),
+			makeTask('done', [], { status: 'closed' }),
+			makeTask('closed-dependent', ['x'], { status: 'closed' })
+		];
+
+		expect(getTasksUnblockedBy('x', tasks).map(t => t.id)).toEqual(['only-x', 'x-and-done']);
+	});
+});
@@ -6,6 +6,20 @@
  */
 
 import type { Task } from '$lib/stores/agents.svelte';
+import { getProjectFromTaskId } from './projectUtils';
+
+export interface TransitiveBlocker {
+	id: string;
+	title: string;
+	status: string;
+	priority: number;
+	/** Hops from the analyzed task (1 = direct dependency) */
+	depth: number;
+	/** Project prefix of the blocker's task ID */
+	project: string | null;
+	/** The blocker one hop closer to the analyzed task (null for direct ones) */
+	via: string | null;
+}
 
 export interface DependencyStatus {
 	hasBlockers: boolean;
@@ -24,20 +38,84 @@ export interface DependencyStatus {
 		status: string;
 		priority: number;
 	}>;
+	/** Every open task upstream, direct ones included, nearest first */
+	transitiveBlockers: TransitiveBlocker[];
+	/** Hops to the farthest open blocker (0 when unblocked) */
+	blockerDepth: number;
+	/** Projects the open blockers live in, other than the task's own */
+	blockerProjects: string[];
 	canBeAssigned: boolean;
 	blockingReason: string | null;
 }
 
+/**
+ * Walk open blockers upstream, breadth first
+ *
+ * Statuses from `allTasks` win over the copies embedded in `depends_on`.
+ * Closed tasks end the walk (whatever blocked them no longer matters), and
+ * tasks missing from `allTasks` can't be followed past.
+ */
+function collectTransitiveBlockers(task: Task, allTasks: Task[]): TransitiveBlocker[] {
+	const byId = new Map(allTasks.map(t => [t.id, t]));
+	const seen = new Set<string>([task.id]);
+	const blockers: TransitiveBlocker[] = [];
+	const queue: Array<{ task: Task; depth: number }> = [{ task, depth: 0 }];
+
+	for (let i = 0; i < queue.length; i++) {
+		const { task: current, depth } = queue[i];
+
+		for (const dep of current.depends_on || []) {
+			if (seen.has(dep.id)) continue;
+			seen.add(dep.id);
+
+			const known = byId.get(dep.id);
+			const status = known?.status ?? dep.status;
+			if (status === 'closed') continue;
+
+			blockers.push({
+				id: dep.id,
+				title: known?.title ?? dep.title ?? dep.id,
+				status: status ?? 'unknown',
+				priority: known?.priority ?? (dep as { priority?: number }).priority ?? 99,
+				depth: depth + 1,
+				project: getProjectFromTaskId(dep.id),
+				via: depth === 0 ? null : current.id
+			});
+
+			if (known) {
+				queue.push({ task: known, depth: depth + 1 });
+			}
+		}
+	}
+
+	return blockers;
+}
+
 /**
  * Analyze a task's dependency status
+ *
+ * Pass `allTasks` (all projects) to also follow blockers of blockers; the
+ * direct fields stay based on the task's own `depends_on`.
  */
-export function analyzeDependencies(task: Task): DependencyStatus {
+export function analyzeDependencies(task: Task, allTasks: Task[] = []): DependencyStatus {
+	const statusOf = new Map(allTasks.map(t => [t.id, t.status]));
 	const unresolvedBlockers = (task.depends_on || []).filter(
-		(dep) => dep.status !== 'closed'
+		(dep) => (statusOf.get(dep.id) ?? dep.status) !== 'closed'
 	);
 
 	const blockedTasks = task.blocked_by || [];
 
+	const transitiveBlockers = collectTransitiveBlockers(task, allTasks);
+	const blockerDepth = transitiveBlockers.reduce((max, b) => Math.max(max, b.depth), 0);
+	const ownProject = getProjectFromTaskId(task.id);
+	const blockerProjects = [
+		...new Set(
+			transitiveBlockers
+				.map(b => b.project)
+				.filter((p): p is string => p !== null && p !== ownProject)
+		)
+	].sort();
+
 	const hasBlockers = unresolvedBlockers.length > 0;
 	const canBeAssigned = !hasBlockers;
 
@@ -46,6 +124,14 @@ export function analyzeDependencies(task: Task): DependencyStatus {
 		blockingReason = `Blocked by ${unresolvedBlockers.length} unresolved ${
 			unresolvedBlockers.length === 1 ? 'task' : 'tasks'
 		}`;
+
+		const upstream = transitiveBlockers.length - unresolvedBlockers.length;
+		if (upstream > 0) {
+			blockingReason += ` (+${upstream} upstream, ${blockerDepth} hops deep)`;
+		}
+		if (blockerProjects.length > 0) {
+			blockingReason += ` in ${blockerProjects.join(', ')}`;
+		}
 	}
 
 	return {
@@ -55,6 +141,9 @@ export function analyzeDependencies(task: Task): DependencyStatus {
 		blockedCount: blockedTasks.length,
 		unresolvedBlockers,
 		blockedTasks,
+		transitiveBlockers,
+		blockerDepth,
+		blockerProjects,
 		canBeAssigned,
 		blockingReason
 	};
@@ -71,14 +160,13 @@ export function getDependencyBadge(depStatus: DependencyStatus): {
 	tooltip: string;
 } {
 	if (depStatus.hasBlockers) {
+		const upstream = depStatus.transitiveBlockers.length - depStatus.blockerCount;
 		return {
 			show: true,
-			text: `🚫 ${depStatus.blockerCount}`,
+			text: upstream > 0 ? `🚫 ${depStatus.blockerCount}+${upstream}` : `🚫 ${depStatus.blockerCount}`,
 			color: 'badge-error',
 			icon: '🚫',
-			tooltip: `Blocked by ${depStatus.blockerCount} ${
-				depStatus.blockerCount === 1 ? 'task' : 'tasks'
-			}`
+			tooltip: depStatus.blockingReason ?? ''
 		};
 	}
 
@@ -113,19 +201,24 @@ export function getAgentForTask(taskId: string, allTasks: Task[]): string | null
 
 /**
  * Build full dependency chain (recursive)
+ *
+ * Works on any task shape with `id` and `depends_on`, so other utilities
+ * (e.g. autoAssign.ts) can walk chains of their own task type. Tasks already
+ * visited are skipped, so cycles end the walk quietly; use
+ * findDependencyCycles() to report them.
  */
-export function buildDependencyChain(
-	task: Task,
-	allTasks: Task[],
+export function buildDependencyChain<T extends { id: string; depends_on?: Array<{ id: string }> } = Task>(
+	task: T,
+	allTasks: T[],
 	visited = new Set<string>()
-): Array<{ level: number; task: Task }> {
+): Array<{ level: number; task: T }> {
 	if (visited.has(task.id)) {
 		return []; // Prevent infinite loops
 	}
 
 	visited.add(task.id);
 
-	const chain: Array<{ level: number; task: Task }> = [];
+	const chain: Array<{ level: number; task: T }> = [];
 
 	// Add direct blockers at level 1
 	if (task.depends_on) {
@@ -161,3 +254,262 @@ export function formatDependencyChain(chain: Array<{ level: number; task: Task }
 
 	return lines.join('\n');
 }
+
+/**
+ * Minimal task shape for graph analysis
+ */
+export type GraphTask = Pick<Task, 'id'> & {
+	status?: string;
+	priority?: number;
+	depends_on?: Array<{ id: string; status?: string }>;
+};
+
+export interface DependencyCycle {
+	/** Every task in the strongly connected component, sorted by ID */
+	members: string[];
+	/** One concrete cycle through the component: a → b → … → a (a depends on b) */
+	path: string[];
+}
+
+export interface CriticalPath {
+	/** Task IDs from the first task to start to the last to finish */
+	path: string[];
+	/** Summed weight of the path (task count with the default weight) */
+	length: number;
+}
+
+/**
+ * Build adjacency (task → tasks it depends on) restricted to known tasks
+ */
+function buildDependencyEdges<T extends GraphTask>(tasks: T[]): Map<string, string[]> {
+	const known = new Set(tasks.map(t => t.id));
+	const edges = new Map<string, string[]>();
+	for (const task of tasks) {
+		const deps = (task.depends_on || []).map(dep => dep.id).filter(id => known.has(id));
+		edges.set(task.id, [...new Set(deps)]);
+	}
+	return edges;
+}
+
+/**
+ * Find dependency cycles (Tarjan's strongly connected components)
+ *
+ * Returns one entry per cyclic component, including self-dependencies.
+ * Dependencies on tasks outside `tasks` are ignored.
+ */
+export function findDependencyCycles<T extends GraphTask>(tasks: T[]): DependencyCycle[] {
+	const edges = buildDependencyEdges(tasks);
+	const index = new Map<string, number>();
+	const lowlink = new Map<string, number>();
+	const onStack = new Set<string>();
+	const stack: string[] = [];
+	const components: string[][] = [];
+	let counter = 0;
+
+	// Iterative DFS so deep chains cannot overflow the call stack
+	for (const root of edges.keys()) {
+		if (index.has(root)) continue;
+
+		const work: Array<{ id: string; next: number }> = [{ id: root, next: 0 }];
+		index.set(root, counter);
+		lowlink.set(root, counter++);
+		stack.push(root);
+		onStack.add(root);
+
+		while (work.length > 0) {
+			const frame = work[work.length - 1];
+			const deps = edges.get(frame.id) || [];
+
+			if (frame.next < deps.length) {
+				const dep = deps[frame.next++];
+				if (!index.has(dep)) {
+					index.set(dep, counter);
+					lowlink.set(dep, counter++);
+					stack.push(dep);
+					onStack.add(dep);
+					work.push({ id: dep, next: 0 });
+				} else if (onStack.has(dep)) {
+					lowlink.set(frame.id, Math.min(lowlink.get(frame.id)!, index.get(dep)!));
+				}
+				continue;
+			}
+
+			work.pop();
+			if (work.length > 0) {
+				const parent = work[work.length - 1].id;
+				lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.id)!));
+			}
+
+			if (lowlink.get(frame.id) === index.get(frame.id)) {
+				const component: string[] = [];
+				let member: string;
+				do {
+					member = stack.pop()!;
+					onStack.delete(member);
+					component.push(member);
+				} while (member !== frame.id);
+				components.push(component);
+			}
+		}
+	}
+
+	const cycles: DependencyCycle[] = [];
+	for (const component of components) {
+		const isSelfLoop = component.length === 1 && (edges.get(component[0]) || []).includes(component[0]);
+		if (component.length < 2 && !isSelfLoop) continue;
+
+		const members = [...component].sort();
+		cycles.push({ members, path: traceCycle(members[0], new Set(members), edges) });
+	}
+
+	return cycles.sort((a, b) => a.members[0].localeCompare(b.members[0]));
+}
+
+/**
+ * Find a shortest cycle from `start` back to itself inside one component (BFS)
+ */
+function traceCycle(start: string, component: Set<string>, edges: Map<string, string[]>): string[] {
+	const previous = new Map<string, string>();
+	const queue = [start];
+
+	for (let i = 0; i < queue.length; i++) {
+		const current = queue[i];
+		for (const dep of edges.get(current) || []) {
+			if (!component.has(dep)) continue;
+			if (dep === start) {
+				const path = [start];
+				for (let node = current; node !== start; node = previous.get(node)!) {
+					path.splice(1, 0, node);
+				}
+				path.push(start);
+				return path;
+			}
+			if (!previous.has(dep)) {
+				previous.set(dep, current);
+				queue.push(dep);
+			}
+		}
+	}
+
+	return [start, start];
+}
+
+/**
+ * Order tasks so every task comes after the tasks it depends on (Kahn)
+ *
+ * Among tasks that are ready at the same time, higher priority (lower
+ * number) comes first, then ID. Tasks in a cycle, or depending on one,
+ * cannot be ordered and are returned in `unordered`.
+ */
+export function topologicalOrder<T extends GraphTask>(
+	tasks: T[]
+): { order: string[]; unordered: string[] } {
+	const edges = buildDependencyEdges(tasks);
+	const priority = new Map(tasks.map(t => [t.id, t.priority ?? 99]));
+	const remaining = new Map<string, number>();
+	const dependents = new Map<string, string[]>();
+
+	for (const [id, deps] of edges) {
+		remaining.set(id, deps.length);
+		for (const dep of deps) {
+			dependents.set(dep, [...(dependents.get(dep) || []), id]);
+		}
+	}
+
+	const byPriority = (a: string, b: string) =>
+		priority.get(a)! - priority.get(b)! || a.localeCompare(b);
+	let ready = [...edges.keys()].filter(id => remaining.get(id) === 0).sort(byPriority);
+	const order: string[] = [];
+
+	while (ready.length > 0) {
+		const id = ready.shift()!;
+		order.push(id);
+
+		let added = false;
+		for (const dependent of dependents.get(id) || []) {
+			const count = remaining.get(dependent)! - 1;
+			remaining.set(dependent, count);
+			if (count === 0) {
+				ready.push(dependent);
+				added = true;
+			}
+		}
+		if (added) ready = ready.sort(byPriority);
+	}
+
+	const ordered = new Set(order);
+	const unordered = [...edges.keys()].filter(id => !ordered.has(id)).sort();
+
+	return { order, unordered };
+}
+
+/**
+ * Find the critical path: the longest chain of remaining work
+ *
+ * Closed tasks are done and do not count. Each open task weighs
+ * `weight(task)` (1 by default). Tasks that cannot be ordered because of
+ * cycles are left out.
+ */
+export function findCriticalPath<T extends GraphTask>(
+	tasks: T[],
+	weight: (task: T) => number = () => 1
+): CriticalPath {
+	const open = tasks.filter(t => t.status !== 'closed');
+	const byId = new Map(open.map(t => [t.id, t]));
+	const edges = buildDependencyEdges(open);
+	const { order } = topologicalOrder(open);
+
+	// Longest distance ending at each task, and where it came from
+	const distance = new Map<string, number>();
+	const previous = new Map<string, string>();
+
+	for (const id of order) {
+		let best = 0;
+		// Sorted so ties always resolve to the same predecessor
+		for (const dep of [...(edges.get(id) || [])].sort()) {
+			const d = distance.get(dep) ?? 0;
+			if (d > best) {
+				best = d;
+				previous.set(id, dep);
+			}
+		}
+		distance.set(id, best + weight(byId.get(id)!));
+	}
+
+	let end: string | null = null;
+	for (const id of order) {
+		if (end === null || distance.get(id)! > distance.get(end)!) {
+			end = id;
+		}
+	}
+
+	if (end === null) {
+		return { path: [], length: 0 };
+	}
+
+	const path: string[] = [];
+	for (let id: string | undefined = end; id !== undefined; id = previous.get(id)) {
+		path.unshift(id);
+	}
+
+	return { path, length: distance.get(end)! };
+}
+
+/**
+ * Find tasks that become unblocked if the given task closes
+ *
+ * A task qualifies when it depends on `taskId`, is not closed itself, and
+ * every other dependency is already closed. Statuses from `allTasks` take
+ * precedence over the (possibly stale) ones embedded in `depends_on`.
+ */
+export function getTasksUnblockedBy<T extends GraphTask>(taskId: string, allTasks: T[]): T[] {
+	const status = new Map(allTasks.map(t => [t.id, t.status]));
+
+	return allTasks.filter(task => {
+		if (task.status === 'closed') return false;
+		const deps = task.depends_on || [];
+		if (!deps.some(dep => dep.id === taskId)) return false;
+
+		return deps.every(dep => dep.id === taskId || (status.get(dep.id) ?? dep.status) === 'closed');
+	});
+}
@@ -0,0 +1,180 @@
+/**
+ * Glob Intersection Tests
+ *
+ * Example and property-based tests for lib/glob-intersect.js (via the
+ * globIntersect.ts re-export). Generated patterns carry an equivalent
+ * RegExp that serves as the reference matcher.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { expandBraces, findCommonPath, globsIntersect, matchesGlob } from './globIntersect';
+
+// ============================================================================
+// Arbitraries
+// ============================================================================
+
+interface GeneratedGlob {
+	glob: string;
+	regex: string;
+}
+
+// Glob atoms and their regex equivalents. Small alphabets make overlaps
+// (and near misses) common.
+const atom = fc.constantFrom<GeneratedGlob>(
+	{ glob: 'a', regex: 'a' },
+	{ glob: 'b', regex: 'b' },
+	{ glob: '.', regex: '\\.' },
+	{ glob: '*', regex: '[^/]*' },
+	{ glob: '?', regex: '[^/]' },
+	{ glob: '[ab]', regex: '[ab]' },
+	{ glob: '[!a]', regex: '[^/a]' },
+	{ glob: '{a,b}', regex: '(?:a|b)' },
+	{ glob: '{a,ba}', regex: '(?:a|ba)' },
+	{ glob: '@(a|b)', regex: '(?:a|b)' },
+	{ glob: '+(a|b)', regex: '(?:a|b)+' },
+	{ glob: '*(b)', regex: '(?:b)*' },
+	{ glob: '?(a)', regex: '(?:a)?' }
+);
+
+// Each segment regex is followed by "/" (paths are tested with a trailing
+// slash), so `**` becomes "zero or more whole segments"
+const segment = fc.oneof(
+	{
+		weight: 5,
+		arbitrary: fc
+			.array(atom, { minLength: 1, maxLength: 3 })
+			.map(atoms => ({
+				glob: atoms.map(a => a.glob).join(''),
+				regex: atoms.map(a => a.regex).join('') + '/'
+			}))
+			// "*" + "*" is a globstar, and "." / ".." are not file names
+			.filter(s => !['**', '.', '..'].includes(s.glob))
+	},
+	{ weight: 1, arbitrary: fc.constant({ glob: '**', regex: '(?:[^/]+/)*' }) }
+);
+
+const pattern = fc.array(segment, { minLength: 1, maxLength: 3 }).map(segments => ({
+	glob: segments.map(s => s.glob).join('/'),
+	regex: '^' + segments.map(s => s.regex).join('') + '$'
+}));
+
+// Real paths: non-empty segments, never "." or ".."
+const path = fc
+	.array(
+		fc.stringMatching(/^[ab.]{1,3}$/).filter(s => s !== '.' && s !== '..'),
+		{ minLength: 1, maxLength: 4 }
+	)
+	.map(s => s.join('/'));
+
+/** Reference matcher for generated patterns */
+function reference(p: string, generated: GeneratedGlob): boolean {
+	return new RegExp(generated.regex).test(p + '/');
+}
+
+// ============================================================================
+// Tests: examples
+// ============================================================================
+
+describe('globsIntersect - examples', () => {
+	it.each([
+		['src/**/*.ts', 'src/lib/*.svelte', false],
+		['src/**/*.ts', 'src/lib/*.ts', true],
+		['src/**', 'lib/**', false],
+		['dashboard/**', 'dashboard/src/lib/utils/autoAssign.ts', true],
+		['**/*.{ts,js}', 'lib/beads.js', true],
+		['src/*.@(ts|js)', 'src/[a-c]*.js', true],
+		['src/*.+(ts|js)', 'src/*.svelte', false],
+		['docs/', 'docs/guide/intro.md', true],
+		['[!a]*', 'a*', false],
+		['file{1..3}.txt', 'file2.txt', true],
+		['file{1..3}.txt', 'file4.txt', false],
+		['./src/*.ts', 'src/index.ts', true],
+		['/abs/*.ts', 'abs/index.ts', false]
+	])('%s ∩ %s → %s', (a, b, expected) => {
+		expect(globsIntersect(a, b)).toBe(expected);
+		expect(globsIntersect(b, a)).toBe(expected);
+	});
+
+	it('should return a witness path matched by both patterns', () => {
+		const witness = findCommonPath('src/**/*.ts', 'src/lib/{db,api}/*.ts');
+		expect(witness).toMatch(/^src\/lib\/(db|api)\/[^/]*\.ts$/);
+	});
+
+	it('should treat !(...) conservatively', () => {
+		expect(globsIntersect('src/!(*.ts)', 'src/a.ts')).toBe(true);
+	});
+});
+
+describe('expandBraces', () => {
+	it('should expand nested alternatives and ranges', () => {
+		expect(expandBraces('a/{b,c{1..2}}/d')).toEqual(['a/b/d', 'a/c1/d', 'a/c2/d']);
+	});
+
+	it('should keep braces without alternatives literally', () => {
+		expect(expandBraces('a/{b}/c')).toEqual(['a/{b}/c']);
+	});
+
+	it('should refuse runaway expansions', () => {
+		expect(() => expandBraces('{1..40}{1..40}')).toThrow(RangeError);
+		expect(globsIntersect('{1..40}{1..40}', 'x')).toBe(true);
+	});
+});
+
+// ============================================================================
+// Tests: properties
+// ============================================================================
+
+describe('globsIntersect - properties', () => {
+	it('should find an overlap whenever some path matches both patterns', () => {
+		fc.assert(
+			fc.property(pattern, pattern, path, (a, b, p) => {
+				fc.pre(reference(p, a) && reference(p, b));
+				expect(globsIntersect(a.glob, b.glob)).toBe(true);
+			}),
+			{ numRuns: 500 }
+		);
+	});
+
+	it('should only return witnesses that match both patterns', () => {
+		fc.assert(
+			fc.property(pattern, pattern, (a, b) => {
+				const witness = findCommonPath(a.glob, b.glob);
+				if (witness !== null) {
+					expect(reference(witness, a)).toBe(true);
+					expect(reference(witness, b)).toBe(true);
+				}
+			}),
+			{ numRuns: 1000 }
+		);
+	});
+
+	it('should be symmetric', () => {
+		fc.assert(
+			fc.property(pattern, pattern, (a, b) => {
+				expect(globsIntersect(a.glob, b.glob)).toBe(globsIntersect(b.glob, a.glob));
+			}),
+			{ numRuns: 500 }
+		);
+	});
+
+	it('should find a path matching a pattern intersected with itself', () => {
+		fc.assert(
+			fc.property(pattern, a => {
+				const witness = findCommonPath(a.glob, a.glob);
+				expect(witness).not.toBeNull();
+				expect(reference(witness!, a)).toBe(true);
+			}),
+			{ numRuns: 300 }
+		);
+	});
+
+	it('should agree with the reference matcher on concrete paths', () => {
+		fc.assert(
+			fc.property(pattern, path, (a, p) => {
+				expect(matchesGlob(p, a.glob)).toBe(reference(p, a));
+			}),
+			{ numRuns: 1000 }
+		);
+	});
+});
@@ -0,0 +1,13 @@
+/**
+ * Glob Intersection
+ *
+ * Re-exports lib/glob-intersect.js so the dashboard (client and server) and
+ * the am-reserve CLI share one engine for reservation conflict detection.
+ */
+
+export {
+	expandBraces,
+	findCommonPath,
+	globsIntersect,
+	matchesGlob
+} from '../../../../lib/glob-intersect.js';
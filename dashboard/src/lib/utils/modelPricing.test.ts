@@ -0,0 +1,185 @@
+/**
+ * Model Pricing Tests
+ *
+ * Tests for model matching, effective-date selection and per-model
+ * aggregation in modelPricing.ts.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+	addModelUsage,
+	calculateModelCost,
+	getModelRates,
+	loadPricingTable,
+	mergeModelUsage,
+	resolveModel,
+	DEFAULT_PRICING_TABLE,
+	type ModelUsage,
+	type PricingTable
+} from './modelPricing';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const TABLE: PricingTable = {
+	default: 'model-a',
+	models: {
+		'model-a': [{ effective: '2025-01-01', input: 1, cache_creation: 1.25, cache_read: 0.1, output: 5 }],
+		'model-b': [
+			{ effective: '2025-06-01', input: 2, cache_creation: 2.5, cache_read: 0.2, output: 10 },
+			{ effective: '2025-01-01', input: 4, cache_creation: 5, cache_read: 0.4, output: 20 }
+		],
+		'model-b-fast': [{ effective: '2025-01-01', input: 8, cache_creation: 10, cache_read: 0.8, output: 40 }]
+	}
+};
+
+// ============================================================================
+// Tests: model matching
+// ============================================================================
+
+describe('resolveModel', () => {
+	it('should match the longest prefix and fall back to the default', () => {
+		expect(resolveModel('model-b-20250101', TABLE)).toBe('model-b');
+		expect(resolveModel('model-b-fast-20250101', TABLE)).toBe('model-b-fast');
+		expect(resolveModel('mystery-model', TABLE)).toBe('model-a');
+		expect(resolveModel(undefined, TABLE)).toBe('model-a');
+	});
+
+	it('should resolve dated Claude model ids in the built-in table', () => {
+		expect(resolveModel('claude-opus-4-5-20251101', DEFAULT_PRICING_TABLE)).toBe('claude-opus-4-5');
+		expect(resolveModel('claude-opus-4-1-20250805', DEFAULT_PRICING_TABLE)).toBe('claude-opus-4');
+		expect(resolveModel('claude-sonnet-4-5-20250929', DEFAULT_PRICING_TABLE)).toBe('claude-sonnet-4-5');
+	});
+});
+
+// ============================================================================
+// Tests: effective dates
+// ============================================================================
+
+describe('getModelRates', () => {
+	it('should pick the rates in effect at the timestamp', () => {
+		expect(getModelRates('model-b', '2025-03-15T12:00:00Z', TABLE).input).toBe(4);
+		expect(getModelRates('model-b', '2025-06-01T00:00:00Z', TABLE).input).toBe(2);
+		expect(getModelRates('model-b', '2026-01-01T00:00:00Z', TABLE).input).toBe(2);
+	});
+
+	it('should use the earliest rates for usage before the first entry', () => {
+		expect(getModelRates('model-b', '2024-12-31T23:59:59Z', TABLE).input).toBe(4);
+	});
+});
+
+// ============================================================================
+// Tests: override files
+// ============================================================================
+
+describe('loadPricingTable', () => {
+	const RATES = { effective: '2025-01-01', input: 1, cache_creation: 1.25, cache_read: 0.1, output: 5 };
+	let dir: string;
+
+	/** Write an override file and load it, returning the table and any warning */
+	function load(override: unknown) {
+		const file = join(dir, 'pricing.json');
+		writeFileSync(file, JSON.stringify(override));
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		try {
+			return { table: loadPricingTable(file), warning: warn.mock.calls[0]?.[0] as string | undefined };
+		} finally {
+			warn.mockRestore();
+		}
+	}
+
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), 'model-pricing-'));
+	});
+
+	afterAll(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('should merge a valid override into the built-in table', () => {
+		const { table, warning } = load({ default: 'my-model', models: { 'my-model': [RATES] } });
+
+		expect(warning).toBeUndefined();
+		expect(table.default).toBe('my-model');
+		expect(table.models['my-model']).toEqual([RATES]);
+		expect(table.models[DEFAULT_PRICING_TABLE.default]).toEqual(DEFAULT_PRICING_TABLE.models[DEFAULT_PRICING_TABLE.default]);
+	});
+
+	it('should ignore a default model that is not in the table', () => {
+		const { table, warning } = load({ default: 'missing-model', models: { 'my-model': [RATES] } });
+
+		expect(table).toBe(DEFAULT_PRICING_TABLE);
+		expect(warning).toMatch(/default model "missing-model" is not in "models"/);
+	});
+
+	it('should ignore models without rates', () => {
+		for (const rates of [[], {}, 'cheap', null]) {
+			const { table, warning } = load({ models: { 'my-model': rates } });
+
+			expect(table).toBe(DEFAULT_PRICING_TABLE);
+			expect(warning).toMatch(/my-model: rates must be a non-empty array/);
+		}
+	});
+
+	it('should ignore rates that are not numbers', () => {
+		const { table, warning } = load({ models: { 'my-model': [{ ...RATES, output: '5' }] } });
+		expect(table).toBe(DEFAULT_PRICING_TABLE);
+		expect(warning).toMatch(/my-model \(2025-01-01\): "output" must be a number/);
+
+		const { cache_read: _, ...missing } = RATES;
+		expect(load({ models: { 'my-model': [missing] } }).table).toBe(DEFAULT_PRICING_TABLE);
+		expect(load({ models: { 'my-model': [{ input: 1 }] } }).warning).toMatch(/"effective" date/);
+	});
+
+	it('should ignore unreadable files', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		expect(loadPricingTable(join(dir, 'missing.json'))).toBe(DEFAULT_PRICING_TABLE);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
+
+// ============================================================================
+// Tests: cost and aggregation
+// ============================================================================
+
+describe('calculateModelCost', () => {
+	it('should price all token kinds per million', () => {
+		const usage = {
+			input_tokens: 1_000_000,
+			cache_creation_input_tokens: 1_000_000,
+			cache_read_input_tokens: 1_000_000,
+			output_tokens: 1_000_000
+		};
+
+		expect(calculateModelCost(usage, 'model-a', '2025-02-01', TABLE)).toBeCloseTo(7.35, 6);
+		expect(calculateModelCost(usage, 'model-b', '2025-07-01', TABLE)).toBeCloseTo(14.7, 6);
+		expect(calculateModelCost({}, 'model-b', '2025-07-01', TABLE)).toBe(0);
+	});
+});
+
+describe('addModelUsage / mergeModelUsage', () => {
+	it('should accumulate usage per model', () => {
+		const byModel: Record<string, ModelUsage> = {};
+		addModelUsage(byModel, 'model-a', { input_tokens: 100, output_tokens: 50 }, 0.5);
+		addModelUsage(byModel, 'model-a', { cache_read_input_tokens: 10 }, 0.25);
+
+		const merged = mergeModelUsage({}, byModel);
+		mergeModelUsage(merged, { 'model-b': { ...byModel['model-a'], cost: 1 } });
+
+		expect(merged['model-a']).toEqual({
+			input_tokens: 100,
+			cache_creation_input_tokens: 0,
+			cache_read_input_tokens: 10,
+			output_tokens: 50,
+			total_tokens: 160,
+			cost: 0.75
+		});
+		expect(merged['model-b'].cost).toBe(1);
+	});
+});
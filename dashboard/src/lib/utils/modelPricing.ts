@@ -0,0 +1,247 @@
+/**
+ * Model Pricing
+ *
+ * Prices Claude usage per model, using a pricing table with effective dates.
+ * The built-in table lives in $lib/config/modelPricing.json; set
+ * JAT_PRICING_FILE to a JSON file of the same shape to add models or
+ * override their rates (entries replace built-in models with the same id).
+ *
+ * Model ids are matched by longest prefix, so "claude-opus-4-5-20251101"
+ * uses "claude-opus-4-5" and "claude-opus-4-1-20250805" uses "claude-opus-4".
+ * Unknown models are priced as the table's default model.
+ */
+
+import { readFileSync } from 'fs';
+import builtinPricing from '../config/modelPricing.json';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Rates in USD per million tokens, from `effective` (YYYY-MM-DD, UTC) on
+ */
+export interface ModelRates {
+	effective: string;
+	input: number;
+	cache_creation: number;
+	cache_read: number;
+	output: number;
+}
+
+export interface PricingTable {
+	/** Model id used for unknown models */
+	default: string;
+	/** Model id prefix → rates, in any order */
+	models: Record<string, ModelRates[]>;
+}
+
+/**
+ * Token counts as they appear in a JSONL `message.usage` field
+ */
+export interface UsageCounts {
+	input_tokens?: number;
+	cache_creation_input_tokens?: number;
+	cache_read_input_tokens?: number;
+	output_tokens?: number;
+}
+
+/**
+ * Usage and cost attributed to one model
+ */
+export interface ModelUsage {
+	input_tokens: number;
+	cache_creation_input_tokens: number;
+	cache_read_input_tokens: number;
+	output_tokens: number;
+	total_tokens: number;
+	cost: number;
+}
+
+// ============================================================================
+// Pricing Table
+// ============================================================================
+
+export const DEFAULT_PRICING_TABLE: PricingTable = builtinPricing;
+
+/** Model id recorded for turns without `message.model` (priced as the default model) */
+export const UNKNOWN_MODEL = 'unknown';
+
+let cachedTable: PricingTable | null = null;
+
+const RATE_FIELDS = ['input', 'cache_creation', 'cache_read', 'output'] as const;
+
+/**
+ * Describe what makes a pricing table unusable, or null if it's fine
+ */
+function findTableProblem(table: PricingTable): string | null {
+	if (!table.models || typeof table.models !== 'object') {
+		return '"models" must be an object';
+	}
+	if (typeof table.default !== 'string' || !Object.hasOwn(table.models, table.default)) {
+		return `default model ${JSON.stringify(table.default)} is not in "models"`;
+	}
+	for (const [id, rates] of Object.entries(table.models)) {
+		if (!Array.isArray(rates) || rates.length === 0) {
+			return `${id}: rates must be a non-empty array`;
+		}
+		for (const entry of rates) {
+			if (!entry || typeof entry.effective !== 'string') {
+				return `${id}: every entry needs an "effective" date`;
+			}
+			const field = RATE_FIELDS.find(name => typeof entry[name] !== 'number' || !Number.isFinite(entry[name]));
+			if (field) {
+				return `${id} (${entry.effective}): "${field}" must be a number`;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Build the pricing table from the built-in one and an override file
+ *
+ * An unreadable or invalid override file is logged and ignored (the
+ * built-in table is returned).
+ */
+export function loadPricingTable(overridePath: string): PricingTable {
+	try {
+		const override: Partial<PricingTable> = JSON.parse(readFileSync(overridePath, 'utf-8'));
+		const table: PricingTable = {
+			default: override.default ?? DEFAULT_PRICING_TABLE.default,
+			models: { ...DEFAULT_PRICING_TABLE.models, ...override.models }
+		};
+
+		const problem = findTableProblem(table);
+		if (problem) {
+			console.warn(`Ignoring pricing file ${overridePath}: ${problem}`);
+			return DEFAULT_PRICING_TABLE;
+		}
+		return table;
+	} catch (error) {
+		console.warn(`Could not load pricing file ${overridePath}:`, error);
+		return DEFAULT_PRICING_TABLE;
+	}
+}
+
+/**
+ * Get the active pricing table (built-in, plus JAT_PRICING_FILE overrides)
+ *
+ * Loaded once per process; see loadPricingTable().
+ */
+export function getPricingTable(): PricingTable {
+	if (cachedTable) return cachedTable;
+
+	const overridePath = typeof process !== 'undefined' ? process.env.JAT_PRICING_FILE : undefined;
+	cachedTable = overridePath ? loadPricingTable(overridePath) : DEFAULT_PRICING_TABLE;
+
+	return cachedTable;
+}
+
+/**
+ * Find the rates for a model at a point in time
+ *
+ * Uses the latest rates effective on or before `timestamp`; usage from
+ * before a model's first entry is priced at its earliest rates.
+ *
+ * @param model - Model id from `message.model` (null/unknown → default model)
+ * @param timestamp - When the usage happened (default: now)
+ */
+export function getModelRates(
+	model: string | null | undefined,
+	timestamp?: string | Date | null,
+	table: PricingTable = getPricingTable()
+): ModelRates {
+	const id = resolveModel(model, table);
+	const rates = [...table.models[id]].sort((a, b) => a.effective.localeCompare(b.effective));
+
+	const at = timestamp ? new Date(timestamp) : new Date();
+	const day = Number.isNaN(at.getTime()) ? null : at.toISOString().slice(0, 10);
+
+	let selected = rates[0];
+	for (const entry of rates) {
+		if (day !== null && entry.effective <= day) selected = entry;
+	}
+	return selected;
+}
+
+/**
+ * Resolve a model id to its pricing table key (longest matching prefix)
+ */
+export function resolveModel(model: string | null | undefined, table: PricingTable = getPricingTable()): string {
+	let match: string | null = null;
+	if (model) {
+		for (const key of Object.keys(table.models)) {
+			if (model.startsWith(key) && (match === null || key.length > match.length)) {
+				match = key;
+			}
+		}
+	}
+	return match ?? table.default;
+}
+
+// ============================================================================
+// Cost Calculation
+// ============================================================================
+
+/**
+ * Calculate the cost in USD of token usage for a model
+ */
+export function calculateModelCost(
+	usage: UsageCounts,
+	model?: string | null,
+	timestamp?: string | Date | null,
+	table: PricingTable = getPricingTable()
+): number {
+	const rates = getModelRates(model, timestamp, table);
+	return (
+		((usage.input_tokens || 0) / 1_000_000) * rates.input +
+		((usage.cache_creation_input_tokens || 0) / 1_000_000) * rates.cache_creation +
+		((usage.cache_read_input_tokens || 0) / 1_000_000) * rates.cache_read +
+		((usage.output_tokens || 0) / 1_000_000) * rates.output
+	);
+}
+
+/**
+ * Add usage into a per-model breakdown (mutates `byModel`)
+ */
+export function addModelUsage(
+	byModel: Record<string, ModelUsage>,
+	model: string,
+	usage: UsageCounts,
+	cost: number
+): void {
+	const entry = (byModel[model] ??= {
+		input_tokens: 0,
+		cache_creation_input_tokens: 0,
+		cache_read_input_tokens: 0,
+		output_tokens: 0,
+		total_tokens: 0,
+		cost: 0
+	});
+
+	const input = usage.input_tokens || 0;
+	const cacheCreation = usage.cache_creation_input_tokens || 0;
+	const cacheRead = usage.cache_read_input_tokens || 0;
+	const output = usage.output_tokens || 0;
+
+	entry.input_tokens += input;
+	entry.cache_creation_input_tokens += cacheCreation;
+	entry.cache_read_input_tokens += cacheRead;
+	entry.output_tokens += output;
+	entry.total_tokens += input + cacheCreation + cacheRead + output;
+	entry.cost += cost;
+}
+
+/**
+ * Merge per-model breakdowns into `target` (mutates `target`)
+ */
+export function mergeModelUsage(
+	target: Record<string, ModelUsage>,
+	source: Record<string, ModelUsage> | undefined
+): Record<string, ModelUsage> {
+	for (const [model, usage] of Object.entries(source ?? {})) {
+		addModelUsage(target, model, usage, usage.cost);
+	}
+	return target;
+}
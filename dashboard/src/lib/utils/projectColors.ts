@@ -1,8 +1,11 @@
 /**
  * Project Color Utilities
  * Provides consistent, visually distinct colors for projects
+ * (colors set in the project registry take precedence)
  */
 
+import { findProject, type ProjectInfo } from './projectUtils';
+
 // Vibrant color palette for project borders
 const projectColorPalette = [
 	'#3b82f6', // blue
@@ -25,14 +28,20 @@ const projectColorPalette = [
 
 /**
  * Get consistent color for a project
- * Uses simple hash to ensure same project always gets same color
+ * Uses the registry color if configured, else a simple hash to ensure
+ * same project always gets same color
+ *
+ * @param projects - Project registry (default: the registered one)
  */
-export function getProjectColor(taskId: string): string {
+export function getProjectColor(taskId: string, projects?: ProjectInfo[]): string {
 	if (!taskId) return '#6b7280'; // gray for unknown
 
 	// Extract project prefix (e.g., "jat-abc" → "jat")
 	const projectPrefix = taskId.split('-')[0];
 
+	const configured = findProject(projectPrefix, projects)?.color;
+	if (configured) return configured;
+
 	// Simple hash function to get consistent color
 	let hash = 0;
 	for (let i = 0; i < projectPrefix.length; i++) {
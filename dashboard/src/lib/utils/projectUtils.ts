@@ -1,9 +1,15 @@
 /**
  * Project detection utilities
  *
- * Extracts project names from task IDs for multi-project filtering
+ * Extracts project names from task IDs for multi-project filtering, and
+ * looks projects up in the project registry (lib/project-registry.js), which
+ * the root layout gets from the server on load. Components read it from
+ * context (getProjectsContext), so it's right during server rendering too;
+ * in the browser it is also registered for plain function calls.
  */
 
+import { getContext, setContext } from 'svelte';
+
 /**
  * Task interface with minimal required properties
  */
@@ -12,6 +18,72 @@ export interface Task {
   [key: string]: any; // Allow additional properties
 }
 
+/**
+ * A project from the registry
+ */
+export interface ProjectInfo {
+  /** Registry name (alias, or path relative to its root) */
+  name: string;
+  /** Absolute project directory */
+  path: string;
+  /** Task ID prefix (e.g. "jat") */
+  prefix: string;
+  /** Configured display color, if any */
+  color: string | null;
+}
+
+let registeredProjects: ProjectInfo[] = [];
+
+const PROJECTS_CONTEXT = Symbol('projects');
+
+/**
+ * Register the project registry (replaces any earlier registration)
+ *
+ * Module-wide, so only call it in the browser: on the server it would be
+ * shared between requests.
+ *
+ * @param projects - From $lib/server/beads.js getProjectRegistry()
+ */
+export function registerProjects(projects: ProjectInfo[]): void {
+  registeredProjects = Array.isArray(projects) ? projects : [];
+}
+
+/**
+ * Provide the project registry to the current component tree
+ *
+ * Call during component initialization (the root layout does).
+ *
+ * @param getProjects - Returns the current registry
+ */
+export function setProjectsContext(getProjects: () => ProjectInfo[]): void {
+  setContext(PROJECTS_CONTEXT, getProjects);
+}
+
+/**
+ * Get the project registry provided by setProjectsContext()
+ *
+ * Call during component initialization; read the returned function where
+ * the projects are needed. Without a provider it returns the registered ones.
+ */
+export function getProjectsContext(): () => ProjectInfo[] {
+  return getContext<(() => ProjectInfo[]) | undefined>(PROJECTS_CONTEXT) ?? (() => registeredProjects);
+}
+
+/**
+ * Find a project by task ID prefix or registry name
+ *
+ * @param prefixOrName - Task ID prefix (e.g. "jat") or registry name
+ * @param projects - Projects to search (default: the registered ones)
+ * @returns The project, or null if unknown
+ */
+export function findProject(prefixOrName: string, projects: ProjectInfo[] = registeredProjects): ProjectInfo | null {
+  return (
+    projects.find(project => project.prefix === prefixOrName) ??
+    projects.find(project => project.name === prefixOrName) ??
+    null
+  );
+}
+
 /**
  * Extract project name from a task ID
  *
@@ -140,23 +212,31 @@ export function getTaskCountByProject(tasks: Task[], statusFilter: string = 'ope
 /**
  * Get filesystem path for a project based on task ID
  *
+ * Projects in the registry resolve to their registered path; others are
+ * assumed to be in ~/code/{prefix}.
+ *
  * @param taskId - Task ID with project prefix (e.g., "chimaro-abc", "jat-xyz")
+ * @param projects - Project registry (default: the registered projects)
  * @returns Absolute path to project directory, or null if project cannot be determined
  *
  * @example
  * getProjectPath("chimaro-abc") // "/home/user/code/chimaro"
- * getProjectPath("jat-xyz") // "/home/user/code/jat"
+ * getProjectPath("jat-xyz") // "/home/user/code/jomarchy-agent-tools" (registered)
  * getProjectPath("invalid") // null
  */
-export function getProjectPath(taskId: string): string | null {
+export function getProjectPath(taskId: string, projects: ProjectInfo[] = registeredProjects): string | null {
   const projectName = getProjectFromTaskId(taskId);
 
   if (!projectName) {
     return null;
   }
 
-  // Map project name to filesystem path
-  // All projects are in ~/code/{project-name}
+  const registered = findProject(projectName, projects);
+  if (registered) {
+    return registered.path;
+  }
+
+  // Not registered: assume ~/code/{project-name}
   const homeDir = process.env.HOME || '~';
   return `${homeDir}/code/${projectName}`;
 }
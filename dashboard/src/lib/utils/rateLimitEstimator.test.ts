@@ -0,0 +1,138 @@
+/**
+ * Rate Limit Estimator Tests
+ *
+ * Tests for rolling windows and session context estimation in
+ * rateLimitEstimator.ts, and loading requests from session files in a
+ * temporary home directory.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import * as path from 'path';
+
+const { tmpHome } = vi.hoisted(() => {
+	const fs = require('fs');
+	const nodePath = require('path');
+	const nodeOs = require('os');
+	const tmpHome: string = fs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'rate-limit-'));
+	process.env.JAT_USAGE_DB = nodePath.join(tmpHome, 'usage.db');
+	return { tmpHome };
+});
+
+// Sessions are read from ~/.claude/projects
+vi.mock('os', async importOriginal => {
+	const actual = await importOriginal<typeof import('os')>();
+	return { ...actual, default: { ...actual, homedir: () => tmpHome }, homedir: () => tmpHome };
+});
+
+import {
+	estimateSessionContext,
+	loadUsageEvents,
+	sumWindow,
+	FIVE_HOUR_WINDOW_MS,
+	type UsageEvent
+} from './rateLimitEstimator';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const NOW = new Date('2025-11-19T12:00:00Z');
+const at = (iso: string) => new Date(iso).getTime();
+
+const LIMITS = { tokensPerMin: 50_000, tokensPerDay: 150_000, requestsPerMin: 3, requestsPerDay: 100 };
+
+const EVENTS: UsageEvent[] = [
+	{ tsMs: at('2025-11-19T06:30:00Z'), inputTokens: 90_000, outputTokens: 0 }, // Outside 5 hours
+	{ tsMs: at('2025-11-19T08:00:00Z'), inputTokens: 40_000, outputTokens: 10_000 },
+	{ tsMs: at('2025-11-19T11:59:00Z'), inputTokens: 5_000, outputTokens: 1_000 }, // Exactly a minute ago
+	{ tsMs: at('2025-11-19T11:59:30Z'), inputTokens: 20_000, outputTokens: 2_000 },
+	{ tsMs: at('2025-11-19T11:59:45Z'), inputTokens: 35_000, outputTokens: 3_000 },
+	{ tsMs: at('2025-11-19T11:59:50Z'), inputTokens: 1_000, outputTokens: 500 },
+	{ tsMs: at('2025-11-19T12:00:30Z'), inputTokens: 7_000, outputTokens: 7_000 } // In the future
+];
+
+// ============================================================================
+// Tests: estimation
+// ============================================================================
+
+describe('sumWindow', () => {
+	it('should sum requests in the trailing window', () => {
+		expect(sumWindow(EVENTS, 60_000, NOW)).toEqual({
+			requests: 3,
+			inputTokens: 56_000,
+			outputTokens: 5_500,
+			firstMs: at('2025-11-19T11:59:30Z'),
+			lastMs: at('2025-11-19T11:59:50Z')
+		});
+		expect(sumWindow([], 60_000, NOW).firstMs).toBeNull();
+	});
+});
+
+describe('estimateSessionContext', () => {
+	it('should compare per-minute and 5-hour usage to the tier limits', () => {
+		const context = estimateSessionContext(EVENTS, 'free', LIMITS, NOW);
+
+		expect(context.requestsLimit).toBe(3);
+		expect(context.requestsRemaining).toBe(0);
+		expect(context.inputTokensLimit).toBe(50_000);
+		expect(context.inputTokensRemaining).toBe(0); // 56K used, never negative
+		expect(context.outputTokensRemaining).toBe(44_500);
+		expect(context.requestsResetAt).toEqual(new Date('2025-11-19T12:00:50Z'));
+
+		expect(context.windowTokens).toBe(117_500);
+		expect(context.windowTokensLimit).toBe(150_000);
+		expect(context.windowTokensRemaining).toBe(32_500);
+		expect(context.windowResetAt).toEqual(new Date(at('2025-11-19T08:00:00Z') + FIVE_HOUR_WINDOW_MS));
+
+		expect(context.source).toBe('estimate');
+		expect(context.tier).toBe('free');
+	});
+
+	it('should report full quotas without recent usage', () => {
+		const context = estimateSessionContext([], 'max', LIMITS, NOW);
+
+		expect(context.requestsRemaining).toBe(3);
+		expect(context.inputTokensRemaining).toBe(50_000);
+		expect(context.requestsResetAt).toEqual(NOW);
+		expect(context.windowTokens).toBe(0);
+		expect(context.windowResetAt).toBeNull();
+	});
+});
+
+// ============================================================================
+// Tests: loading session files
+// ============================================================================
+
+describe('loadUsageEvents', () => {
+	beforeAll(() => {
+		const turn = (timestamp: string, usage: Record<string, number>) =>
+			JSON.stringify({ type: 'assistant', timestamp, message: { model: 'claude-sonnet-4-5-20250929', usage } });
+
+		for (const [slug, lines] of Object.entries({
+			'-home-user-code-jat': [
+				turn('2025-11-19T06:00:00Z', { input_tokens: 1_000, output_tokens: 100 }),
+				turn('2025-11-19T11:59:30Z', { input_tokens: 200, cache_creation_input_tokens: 300, cache_read_input_tokens: 9_000, output_tokens: 50 }),
+				JSON.stringify({ type: 'user', timestamp: '2025-11-19T11:59:40Z', message: { content: 'hi' } })
+			],
+			'-home-user-code-chimaro': [turn('2025-11-19T10:00:00Z', { input_tokens: 2_000, output_tokens: 400 })]
+		})) {
+			const dir = path.join(tmpHome, '.claude', 'projects', slug);
+			mkdirSync(dir, { recursive: true });
+			writeFileSync(path.join(dir, 'session.jsonl'), lines.join('\n') + '\n');
+		}
+	});
+
+	afterAll(() => {
+		rmSync(tmpHome, { recursive: true, force: true });
+	});
+
+	it('should load requests across all projects, excluding cache reads', async () => {
+		const events = await loadUsageEvents(NOW.getTime() - FIVE_HOUR_WINDOW_MS, NOW);
+
+		expect(events.sort((a, b) => a.tsMs - b.tsMs)).toEqual([
+			{ tsMs: at('2025-11-19T10:00:00Z'), inputTokens: 2_000, outputTokens: 400 },
+			{ tsMs: at('2025-11-19T11:59:30Z'), inputTokens: 500, outputTokens: 50 }
+		]);
+	});
+});
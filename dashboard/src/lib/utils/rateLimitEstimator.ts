@@ -0,0 +1,222 @@
+/**
+ * Rate Limit Estimator
+ *
+ * Estimates rate-limit headroom from local Claude Code session JSONL files
+ * (every project under ~/.claude/projects, since limits are per account),
+ * instead of spending an API request to read the rate-limit headers:
+ * - per-minute: requests, input tokens (input + cache creation; cache reads
+ *   don't count towards input limits) and output tokens in the last 60s
+ * - 5-hour window: input + output tokens in the last 5 hours, against the
+ *   tier's daily token limit (the only multi-hour limit we know)
+ *
+ * Each turn with usage counts as one request. Answered from the usage index
+ * when available (see usageIndex.ts), else from recently modified files.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { getUsageIndex } from './usageIndex';
+import type { JSONLEntry } from './tokenUsage';
+import type { RateLimitTier, SessionContext, SubscriptionTier } from './claudeUsageMetrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One API request, as recorded in a session file
+ */
+export interface UsageEvent {
+	/** Turn timestamp (ms since epoch) */
+	tsMs: number;
+	/** Input and cache creation tokens */
+	inputTokens: number;
+	outputTokens: number;
+}
+
+/**
+ * Usage summed over a rolling window
+ */
+export interface WindowUsage {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** Most recent request in the window (ms since epoch), null if none */
+	lastMs: number | null;
+	/** Oldest request in the window (ms since epoch), null if none */
+	firstMs: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MINUTE_WINDOW_MS = 60_000;
+export const FIVE_HOUR_WINDOW_MS = 5 * 60 * 60 * 1000;
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Sum the events in (now - windowMs, now]
+ */
+export function sumWindow(events: UsageEvent[], windowMs: number, now: Date): WindowUsage {
+	const endMs = now.getTime();
+	const startMs = endMs - windowMs;
+	const usage: WindowUsage = { requests: 0, inputTokens: 0, outputTokens: 0, lastMs: null, firstMs: null };
+
+	for (const event of events) {
+		if (event.tsMs <= startMs || event.tsMs > endMs) continue;
+
+		usage.requests++;
+		usage.inputTokens += event.inputTokens;
+		usage.outputTokens += event.outputTokens;
+		usage.lastMs = Math.max(usage.lastMs ?? event.tsMs, event.tsMs);
+		usage.firstMs = Math.min(usage.firstMs ?? event.tsMs, event.tsMs);
+	}
+
+	return usage;
+}
+
+/**
+ * Build a session context from local usage events
+ *
+ * Remaining quotas never go below zero. Per-minute quotas are fully
+ * replenished a minute after the last request in the window (like the API's
+ * reset headers); the 5-hour window starts freeing up five hours after its
+ * oldest request.
+ *
+ * @param events - Requests, in any order
+ * @param tier - Subscription tier
+ * @param limits - Rate limits of the tier
+ * @param now - Reference time (default: now)
+ */
+export function estimateSessionContext(
+	events: UsageEvent[],
+	tier: SubscriptionTier,
+	limits: RateLimitTier,
+	now: Date = new Date()
+): SessionContext {
+	const minute = sumWindow(events, MINUTE_WINDOW_MS, now);
+	const window = sumWindow(events, FIVE_HOUR_WINDOW_MS, now);
+	const minuteResetAt = new Date(minute.lastMs === null ? now.getTime() : minute.lastMs + MINUTE_WINDOW_MS);
+
+	return {
+		requestsLimit: limits.requestsPerMin,
+		requestsRemaining: Math.max(0, limits.requestsPerMin - minute.requests),
+		requestsResetAt: minuteResetAt,
+
+		inputTokensLimit: limits.tokensPerMin,
+		inputTokensRemaining: Math.max(0, limits.tokensPerMin - minute.inputTokens),
+		inputTokensResetAt: minuteResetAt,
+
+		outputTokensRemaining: Math.max(0, limits.tokensPerMin - minute.outputTokens),
+
+		windowTokens: window.inputTokens + window.outputTokens,
+		windowTokensLimit: limits.tokensPerDay,
+		windowTokensRemaining: Math.max(0, limits.tokensPerDay - window.inputTokens - window.outputTokens),
+		windowResetAt: window.firstMs === null ? null : new Date(window.firstMs + FIVE_HOUR_WINDOW_MS),
+
+		source: 'estimate',
+		tier,
+		fetchedAt: now
+	};
+}
+
+// ============================================================================
+// Loading Events
+// ============================================================================
+
+/**
+ * Load the requests made since `sinceMs` across all Claude Code projects
+ *
+ * Input: Start of the range (ms since epoch), reference time
+ * Output: UsageEvent[] in (sinceMs, now], unordered
+ * State: Read-only, answered from the usage index (or the JSONL files)
+ */
+export async function loadUsageEvents(sinceMs: number, now: Date = new Date()): Promise<UsageEvent[]> {
+	const projectsRoot = path.join(os.homedir(), '.claude', 'projects');
+
+	let slugs: string[];
+	try {
+		const entries = await readdir(projectsRoot, { withFileTypes: true });
+		slugs = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+	} catch {
+		return []; // No Claude Code sessions yet
+	}
+
+	const index = getUsageIndex();
+	if (index) {
+		try {
+			const events: UsageEvent[] = [];
+			for (const slug of slugs) {
+				// Exact turn timestamps; a bucket holds the turns of one model at one instant
+				const buckets = index.getBuckets(slug, { startMs: sinceMs + 1, endMs: now.getTime(), bucketMs: 0 });
+				for (const bucket of buckets) {
+					events.push({
+						tsMs: bucket.bucketMs,
+						inputTokens: bucket.input_tokens + bucket.cache_creation_input_tokens,
+						outputTokens: bucket.output_tokens
+					});
+				}
+			}
+			return events;
+		} catch (error) {
+			console.warn('Usage index query failed, parsing session files directly:', error);
+		}
+	}
+
+	const events: UsageEvent[] = [];
+	for (const slug of slugs) {
+		const dir = path.join(projectsRoot, slug);
+		let files: string[];
+		try {
+			files = (await readdir(dir)).filter(f => f.endsWith('.jsonl'));
+		} catch {
+			continue;
+		}
+
+		for (const file of files) {
+			const filePath = path.join(dir, file);
+			try {
+				// Files last written before the range can't have requests in it
+				if ((await stat(filePath)).mtimeMs <= sinceMs) continue;
+				events.push(...parseUsageEvents(await readFile(filePath, 'utf-8'), sinceMs, now.getTime()));
+			} catch {
+				// File might have been removed meanwhile
+			}
+		}
+	}
+	return events;
+}
+
+/**
+ * Extract the requests in (sinceMs, endMs] from JSONL content
+ */
+function parseUsageEvents(content: string, sinceMs: number, endMs: number): UsageEvent[] {
+	const events: UsageEvent[] = [];
+
+	for (const line of content.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const entry: JSONLEntry = JSON.parse(line);
+			const usage = entry.message?.usage;
+			if (!usage || !entry.timestamp) continue;
+
+			const tsMs = new Date(entry.timestamp).getTime();
+			if (!(tsMs > sinceMs && tsMs <= endMs)) continue;
+
+			events.push({
+				tsMs,
+				inputTokens: (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0),
+				outputTokens: usage.output_tokens || 0
+			});
+		} catch {
+			// Skip malformed lines
+		}
+	}
+
+	return events;
+}
@@ -0,0 +1,158 @@
+/**
+ * Task Cost Tests
+ *
+ * Tests for work signal extraction, interval derivation and ranking in
+ * taskCost.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	deriveWorkIntervals,
+	rankTaskCosts,
+	signalsFromMessages,
+	signalsFromStatusEvents,
+	type TaskCost
+} from './taskCost';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const NOW = Date.parse('2025-11-21T12:00:00Z');
+
+function message(subject: string, created_ts: string, sender_name = 'FreeMarsh') {
+	return { subject, created_ts, sender_name };
+}
+
+function cost(task_id: string, amount: number, total_tokens = 1000): TaskCost {
+	return {
+		task_id,
+		total_tokens,
+		tokens: { input: total_tokens, cache_creation: 0, cache_read: 0, output: 0 },
+		cost: amount,
+		byModel: {},
+		agents: [],
+		intervals: []
+	};
+}
+
+// ============================================================================
+// Tests: signals
+// ============================================================================
+
+describe('signalsFromMessages', () => {
+	it('should turn lifecycle subjects into start/stop signals', () => {
+		const signals = signalsFromMessages([
+			message('[jat-abc] Starting: Add cost view', '2025-11-21T10:00:00Z'),
+			message('Re: question about schema', '2025-11-21T10:10:00Z'),
+			message('[jat-abc] Paused: Blocked on review', '2025-11-21T10:20:00Z'),
+			message('[jat-abc] Completed: Add cost view', '2025-11-21T11:00:00Z', 'PaleStar')
+		]);
+
+		expect(signals).toEqual([
+			{ ts: '2025-11-21T10:00:00Z', kind: 'start', agent: 'FreeMarsh' },
+			{ ts: '2025-11-21T10:20:00Z', kind: 'stop', agent: 'FreeMarsh' },
+			{ ts: '2025-11-21T11:00:00Z', kind: 'stop', agent: 'PaleStar' }
+		]);
+	});
+});
+
+describe('signalsFromStatusEvents', () => {
+	it('should start on in_progress and stop on anything else', () => {
+		const signals = signalsFromStatusEvents([
+			{ status: 'in_progress', assignee: 'FreeMarsh', created_at: '2025-11-21 10:00:00' },
+			{ status: 'closed', assignee: null, created_at: '2025-11-21 11:00:00' }
+		]);
+
+		expect(signals).toEqual([
+			{ ts: '2025-11-21 10:00:00', kind: 'start', agent: 'FreeMarsh' },
+			{ ts: '2025-11-21 11:00:00', kind: 'stop', agent: null }
+		]);
+	});
+});
+
+// ============================================================================
+// Tests: intervals
+// ============================================================================
+
+describe('deriveWorkIntervals', () => {
+	it('should pair starts and stops per agent', () => {
+		const intervals = deriveWorkIntervals(
+			{ status: 'closed', assignee: 'FreeMarsh' },
+			signalsFromMessages([
+				message('[t] Starting: x', '2025-11-21T10:00:00Z'),
+				message('[t] Paused: x', '2025-11-21T10:30:00Z'),
+				message('[t] Starting: x', '2025-11-21T10:00:00Z', 'PaleStar'),
+				message('[t] Completed: x', '2025-11-21T11:00:00Z', 'PaleStar')
+			]),
+			NOW
+		);
+
+		expect(intervals).toEqual([
+			{ agent: 'FreeMarsh', start: '2025-11-21T10:00:00.000Z', end: '2025-11-21T10:30:00.000Z' },
+			{ agent: 'PaleStar', start: '2025-11-21T10:00:00.000Z', end: '2025-11-21T11:00:00.000Z' }
+		]);
+	});
+
+	it('should not open a second window when messages and status events overlap', () => {
+		const intervals = deriveWorkIntervals(
+			{ status: 'closed', assignee: 'FreeMarsh', closed_at: '2025-11-21T11:00:00Z' },
+			[
+				...signalsFromMessages([
+					message('[t] Starting: x', '2025-11-21T10:01:00Z'),
+					message('[t] Completed: x', '2025-11-21T10:55:00Z')
+				]),
+				...signalsFromStatusEvents([
+					{ status: 'in_progress', assignee: null, created_at: '2025-11-21 10:00:00' },
+					{ status: 'closed', created_at: '2025-11-21 11:00:00' }
+				])
+			],
+			NOW
+		);
+
+		expect(intervals).toEqual([
+			{ agent: 'FreeMarsh', start: '2025-11-21T10:00:00.000Z', end: '2025-11-21T10:55:00.000Z' }
+		]);
+	});
+
+	it('should close open windows at now, closed_at or updated_at', () => {
+		const start = signalsFromMessages([message('[t] Starting: x', '2025-11-21T10:00:00Z')]);
+
+		expect(deriveWorkIntervals({ status: 'in_progress' }, start, NOW)[0].end).toBe('2025-11-21T12:00:00.000Z');
+		expect(
+			deriveWorkIntervals(
+				{ status: 'closed', closed_at: '2025-11-21T10:45:00Z', updated_at: '2025-11-21T11:30:00Z' },
+				start,
+				NOW
+			)[0].end
+		).toBe('2025-11-21T10:45:00.000Z');
+		expect(
+			deriveWorkIntervals({ status: 'open', updated_at: '2025-11-21T11:30:00Z' }, start, NOW)[0].end
+		).toBe('2025-11-21T11:30:00.000Z');
+	});
+
+	it('should ignore stops without a matching start and starts without an agent', () => {
+		const intervals = deriveWorkIntervals(
+			{ status: 'open', assignee: null },
+			[
+				{ ts: '2025-11-21T09:00:00Z', kind: 'stop', agent: null },
+				{ ts: '2025-11-21T10:00:00Z', kind: 'start', agent: null },
+				{ ts: 'not a date', kind: 'start', agent: 'FreeMarsh' }
+			],
+			NOW
+		);
+
+		expect(intervals).toEqual([]);
+	});
+});
+
+// ============================================================================
+// Tests: ranking
+// ============================================================================
+
+describe('rankTaskCosts', () => {
+	it('should rank by cost and drop tasks without usage', () => {
+		const ranked = rankTaskCosts([cost('a', 1), cost('b', 5), cost('c', 0, 0), cost('d', 3)], 2);
+		expect(ranked.map(c => c.task_id)).toEqual(['b', 'd']);
+	});
+});
@@ -0,0 +1,192 @@
+/**
+ * Task Cost Attribution
+ *
+ * Works out when agents worked on a Beads task, so token usage in those
+ * windows can be charged to the task (see $lib/server/taskCost.js).
+ *
+ * Work signals come from:
+ * - Agent Mail lifecycle messages on the task's thread: "[id] Starting: ..."
+ *   (/agent:start) opens a window for the sender; "Paused:" and "Completed:"
+ *   (/agent:pause, /agent:complete) close it
+ * - Beads status events: moving to in_progress opens a window for the
+ *   assignee; moving anywhere else closes all open windows
+ *
+ * Windows still open at the end close when the task closed, now (if it is
+ * still in progress), or at its last update. Overlapping windows of the same
+ * agent are merged, so a task is never charged twice for the same minute.
+ * An agent juggling two tasks at once is charged to both.
+ */
+
+import { parseActivityTimestamp } from './agentStatus';
+import type { ModelUsage } from './modelPricing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkSignal {
+	/** When it happened (any format parseActivityTimestamp understands) */
+	ts: string;
+	kind: 'start' | 'stop';
+	/** Agent it applies to; null means the task's assignee (start) or everyone (stop) */
+	agent: string | null;
+}
+
+export interface WorkInterval {
+	agent: string;
+	/** ISO 8601 */
+	start: string;
+	/** ISO 8601 */
+	end: string;
+}
+
+/**
+ * Tokens and cost charged to a task
+ */
+export interface TaskCost {
+	task_id: string;
+	total_tokens: number;
+	tokens: {
+		input: number;
+		cache_creation: number;
+		cache_read: number;
+		output: number;
+	};
+	cost: number;
+	byModel: Record<string, ModelUsage>;
+	/** Agents charged, most expensive first */
+	agents: string[];
+	intervals: Array<WorkInterval & { total_tokens: number; cost: number }>;
+}
+
+/** The task fields used to close windows that are still open */
+export interface TaskTimes {
+	status: string;
+	assignee?: string | null;
+	updated_at?: string | null;
+	closed_at?: string | null;
+}
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+const START_SUBJECT = /\bStarting:/i;
+const STOP_SUBJECT = /\b(Paused|Completed):/i;
+
+/**
+ * Work signals from Agent Mail lifecycle messages
+ */
+export function signalsFromMessages(
+	messages: Array<{ subject: string; created_ts: string; sender_name: string }>
+): WorkSignal[] {
+	const signals: WorkSignal[] = [];
+	for (const message of messages) {
+		if (START_SUBJECT.test(message.subject)) {
+			signals.push({ ts: message.created_ts, kind: 'start', agent: message.sender_name });
+		} else if (STOP_SUBJECT.test(message.subject)) {
+			signals.push({ ts: message.created_ts, kind: 'stop', agent: message.sender_name });
+		}
+	}
+	return signals;
+}
+
+/**
+ * Work signals from Beads status events
+ */
+export function signalsFromStatusEvents(
+	events: Array<{ status: string; assignee?: string | null; created_at: string }>
+): WorkSignal[] {
+	return events.map(event =>
+		event.status === 'in_progress'
+			? { ts: event.created_at, kind: 'start', agent: event.assignee ?? null }
+			: { ts: event.created_at, kind: 'stop', agent: null }
+	);
+}
+
+// ============================================================================
+// Intervals
+// ============================================================================
+
+/**
+ * Derive the windows in which agents worked on a task
+ *
+ * @returns Merged windows, ordered by start
+ */
+export function deriveWorkIntervals(
+	task: TaskTimes,
+	signals: WorkSignal[],
+	now: number = Date.now()
+): WorkInterval[] {
+	const timed = signals
+		.map(signal => ({ ...signal, ms: parseActivityTimestamp(signal.ts) }))
+		.filter((signal): signal is WorkSignal & { ms: number } => signal.ms !== null)
+		// Stops sort before starts at the same instant, so a restart isn't swallowed
+		.sort((a, b) => a.ms - b.ms || (a.kind === b.kind ? 0 : a.kind === 'stop' ? -1 : 1));
+
+	const open = new Map<string, number>();
+	const windows: Array<{ agent: string; start: number; end: number }> = [];
+
+	for (const signal of timed) {
+		if (signal.kind === 'start') {
+			const agent = signal.agent ?? task.assignee;
+			if (agent && !open.has(agent)) {
+				open.set(agent, signal.ms);
+			}
+			continue;
+		}
+
+		for (const [agent, start] of open) {
+			if (signal.agent === null || signal.agent === agent) {
+				windows.push({ agent, start, end: signal.ms });
+				open.delete(agent);
+			}
+		}
+	}
+
+	// Close what is still open
+	if (open.size > 0) {
+		const end =
+			task.status === 'in_progress'
+				? now
+				: parseActivityTimestamp(task.status === 'closed' ? task.closed_at ?? task.updated_at : task.updated_at) ?? now;
+		for (const [agent, start] of open) {
+			windows.push({ agent, start, end: Math.max(start, end) });
+		}
+	}
+
+	return mergeWindows(windows).map(w => ({
+		agent: w.agent,
+		start: new Date(w.start).toISOString(),
+		end: new Date(w.end).toISOString()
+	}));
+}
+
+/**
+ * Merge overlapping windows of the same agent
+ */
+function mergeWindows(windows: Array<{ agent: string; start: number; end: number }>) {
+	const sorted = [...windows].sort((a, b) => a.agent.localeCompare(b.agent) || a.start - b.start);
+	const merged: typeof windows = [];
+
+	for (const window of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && last.agent === window.agent && window.start <= last.end) {
+			last.end = Math.max(last.end, window.end);
+		} else {
+			merged.push({ ...window });
+		}
+	}
+
+	return merged.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Sort task costs, most expensive first
+ */
+export function rankTaskCosts(costs: TaskCost[], limit?: number): TaskCost[] {
+	const ranked = costs
+		.filter(c => c.total_tokens > 0)
+		.sort((a, b) => b.cost - a.cost || b.total_tokens - a.total_tokens);
+	return limit === undefined ? ranked : ranked.slice(0, limit);
+}
@@ -0,0 +1,190 @@
+/**
+ * Task Query Language Tests
+ *
+ * Tests for lib/task-query.js (via the taskQuery.ts re-export): parsing,
+ * and running compiled conditions against an in-memory Beads database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import { compileTaskQuery, parseTaskQuery, quoteQueryValue } from './taskQuery';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const NOW = new Date(2025, 10, 20, 12, 0).getTime(); // Local time, like YYYY-MM-DD values
+const DAY_MS = 86_400_000;
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+const ISSUES = [
+	{ id: 'jat-a1', title: 'Fix auth bug in login', status: 'open', priority: 0, type: 'bug', assignee: null, updated: NOW - 2 * DAY_MS, closed: null },
+	{ id: 'jat-b2', title: 'Dashboard UI polish', status: 'in_progress', priority: 2, type: 'task', assignee: 'WisePrairie', updated: NOW - 10 * DAY_MS, closed: null },
+	{ id: 'jat-c3', title: 'Auth token refresh', status: 'closed', priority: 1, type: 'feature', assignee: 'PaleStar', updated: NOW - DAY_MS, closed: NOW - DAY_MS },
+	{ id: 'chimaro-d4', title: '100% coverage', status: 'open', priority: 3, type: 'chore', assignee: '', updated: NOW - 30 * DAY_MS, closed: null },
+	{ id: 'jat-sub-e5', title: 'Nested project task', status: 'blocked', priority: 1, type: 'task', assignee: null, updated: NOW, closed: null }
+];
+
+const LABELS: Array<[string, string]> = [
+	['jat-a1', 'backend'],
+	['jat-a1', 'needs review'],
+	['jat-b2', 'ui'],
+	['jat-c3', 'backend'],
+	['jat-c3', 'ui']
+];
+
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+	db = new Database(':memory:');
+	db.exec(`
+		CREATE TABLE issues (
+			id TEXT PRIMARY KEY, title TEXT, description TEXT, status TEXT, priority INTEGER,
+			issue_type TEXT, assignee TEXT, created_at DATETIME, updated_at DATETIME, closed_at DATETIME
+		);
+		CREATE TABLE labels (issue_id TEXT, label TEXT);
+	`);
+	const insert = db.prepare('INSERT INTO issues VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+	for (const issue of ISSUES) {
+		insert.run(
+			issue.id,
+			issue.title,
+			issue.id === 'jat-b2' ? 'Tweak spacing and colors' : null,
+			issue.status,
+			issue.priority,
+			issue.type,
+			issue.assignee,
+			iso(issue.updated - DAY_MS),
+			iso(issue.updated),
+			issue.closed === null ? null : iso(issue.closed)
+		);
+	}
+	const label = db.prepare('INSERT INTO labels VALUES (?, ?)');
+	for (const [id, name] of LABELS) label.run(id, name);
+});
+
+afterAll(() => {
+	db.close();
+});
+
+/** IDs of the fixture issues matching a query */
+function run(query: string): string[] {
+	const { sql, params } = compileTaskQuery(parseTaskQuery(query, { now: NOW }));
+	const where = sql ? `WHERE ${sql}` : '';
+	return (db.prepare(`SELECT i.id FROM issues i ${where} ORDER BY i.id`).all(...params) as Array<{ id: string }>).map(
+		(row) => row.id
+	);
+}
+
+// ============================================================================
+// Tests: parsing
+// ============================================================================
+
+describe('parseTaskQuery', () => {
+	it('should split fields, comparisons, negations and text', () => {
+		expect(parseTaskQuery('status:open,in-progress -label:"needs review" priority<=P1 "auth bug" login').terms).toEqual([
+			{ type: 'field', field: 'status', op: ':', values: ['open', 'in_progress'], negated: false },
+			{ type: 'field', field: 'label', op: ':', values: ['needs review'], negated: true },
+			{ type: 'field', field: 'priority', op: '<=', values: [1], negated: false },
+			{ type: 'text', value: 'auth bug', negated: false },
+			{ type: 'text', value: 'login', negated: false }
+		]);
+	});
+
+	it('should turn dates into time spans', () => {
+		const [age, day] = parseTaskQuery('updated>7d created:2025-11-01', { now: NOW }).terms;
+
+		expect(age).toMatchObject({ values: [{ start: NOW - 7 * DAY_MS, end: NOW - 7 * DAY_MS }] });
+		expect(day).toMatchObject({
+			values: [{ start: new Date(2025, 10, 1).getTime(), end: new Date(2025, 10, 2).getTime() }]
+		});
+	});
+
+	it('should give an empty query for blank input', () => {
+		expect(parseTaskQuery('   ').terms).toEqual([]);
+		expect(compileTaskQuery(parseTaskQuery(''))).toEqual({ sql: '', params: [] });
+	});
+
+	it('should reject unknown fields and invalid values', () => {
+		expect(() => parseTaskQuery('owner:me')).toThrow('Unknown field "owner"');
+		expect(() => parseTaskQuery('status:done')).toThrow('Invalid status "done"');
+		expect(() => parseTaskQuery('priority:7')).toThrow('Invalid priority');
+		expect(() => parseTaskQuery('type:story')).toThrow('Invalid type');
+		expect(() => parseTaskQuery('updated>soon')).toThrow('Invalid date "soon"');
+		expect(() => parseTaskQuery('created:2025-02-30')).toThrow('Invalid date');
+		expect(() => parseTaskQuery('label<ui')).toThrow('can\'t be compared');
+		expect(() => parseTaskQuery('priority<1,2')).toThrow('single value');
+		expect(() => parseTaskQuery('label:')).toThrow('Missing value');
+		expect(() => parseTaskQuery('"auth bug')).toThrow('Unterminated quote');
+	});
+});
+
+describe('quoteQueryValue', () => {
+	it('should quote only values that need it', () => {
+		expect(quoteQueryValue('ui')).toBe('ui');
+		expect(quoteQueryValue('needs review')).toBe('"needs review"');
+		expect(quoteQueryValue('say "hi"')).toBe('"say \\"hi\\""');
+		expect(parseTaskQuery(`label:${quoteQueryValue('a,b "c"')}`).terms[0]).toMatchObject({ values: ['a,b "c"'] });
+	});
+});
+
+// ============================================================================
+// Tests: compiled SQL
+// ============================================================================
+
+describe('compileTaskQuery', () => {
+	it('should filter by status, type and priority', () => {
+		expect(run('status:open')).toEqual(['chimaro-d4', 'jat-a1']);
+		expect(run('status:open,blocked type:task')).toEqual(['jat-sub-e5']);
+		expect(run('priority<=1')).toEqual(['jat-a1', 'jat-c3', 'jat-sub-e5']);
+		expect(run('priority:2,3')).toEqual(['chimaro-d4', 'jat-b2']);
+	});
+
+	it('should require every label, and match labels with spaces', () => {
+		expect(run('label:backend')).toEqual(['jat-a1', 'jat-c3']);
+		expect(run('label:backend label:ui')).toEqual(['jat-c3']);
+		expect(run('label:"needs review"')).toEqual(['jat-a1']);
+		expect(run('-label:ui')).toEqual(['chimaro-d4', 'jat-a1', 'jat-sub-e5']);
+	});
+
+	it('should treat null and empty assignees as none', () => {
+		expect(run('assignee:none')).toEqual(['chimaro-d4', 'jat-a1', 'jat-sub-e5']);
+		expect(run('assignee:any')).toEqual(['jat-b2', 'jat-c3']);
+		expect(run('assignee:wiseprairie,none status:in_progress')).toEqual(['jat-b2']);
+	});
+
+	it('should match projects by task ID prefix', () => {
+		expect(run('project:jat')).toEqual(['jat-a1', 'jat-b2', 'jat-c3']);
+		expect(run('project:jat-sub')).toEqual(['jat-sub-e5']);
+		expect(run('project:chimaro,jat-sub')).toEqual(['chimaro-d4', 'jat-sub-e5']);
+	});
+
+	it('should compare dates and ages', () => {
+		expect(run('updated>7d')).toEqual(['jat-a1', 'jat-c3', 'jat-sub-e5']);
+		expect(run('updated:7d')).toEqual(run('updated>7d'));
+		expect(run('updated<7d')).toEqual(['chimaro-d4', 'jat-b2']);
+
+		const day = new Date(NOW - DAY_MS);
+		const ymd = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+		expect(run(`closed:${ymd}`)).toEqual(['jat-c3']);
+		expect(run(`updated>${ymd}`)).toEqual(['jat-sub-e5']);
+		expect(run(`updated>=${ymd}`)).toEqual(['jat-c3', 'jat-sub-e5']);
+	});
+
+	it('should include tasks without a date in negated date terms', () => {
+		expect(run('closed>30d')).toEqual(['jat-c3']);
+		expect(run('-closed>30d')).toEqual(['chimaro-d4', 'jat-a1', 'jat-b2', 'jat-sub-e5']);
+	});
+
+	it('should match text in ID, title, description and labels, treating wildcards literally', () => {
+		expect(run('auth')).toEqual(['jat-a1', 'jat-c3']);
+		expect(run('"auth bug"')).toEqual(['jat-a1']);
+		expect(run('review')).toEqual(['jat-a1']);
+		expect(run('d4')).toEqual(['chimaro-d4']);
+		expect(run('100%')).toEqual(['chimaro-d4']);
+		expect(run('"spacing and"')).toEqual(['jat-b2']);
+		expect(run('spacing_and')).toEqual([]);
+		expect(run('auth -token status:open,closed')).toEqual(['jat-a1']);
+	});
+});
@@ -0,0 +1,15 @@
+/**
+ * Task Query Language
+ *
+ * Re-exports lib/task-query.js so the dashboard builds and checks the same
+ * queries that /api/tasks?q= runs against the Beads databases.
+ */
+
+export {
+	compileTaskQuery,
+	parseTaskQuery,
+	quoteQueryValue,
+	QUERY_FIELDS,
+	QUERY_STATUSES,
+	QUERY_TYPES
+} from '../../../../lib/task-query.js';
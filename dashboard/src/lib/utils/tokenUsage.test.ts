@@ -212,6 +212,25 @@ describe('parseSessionUsage', () => {
 		expect(usage?.tokens.output).toBe(0);
 	});
 
+	it('should price each turn for its model', async () => {
+		const mixedModels = `{"type":"assistant","message":{"model":"claude-opus-4-5-20251101","usage":{"input_tokens":1000000}},"timestamp":"2025-12-01T10:00:00Z"}
+{"type":"assistant","message":{"model":"claude-haiku-4-5-20251001","usage":{"output_tokens":1000000}},"timestamp":"2025-12-01T10:05:00Z"}
+{"type":"assistant","message":{"usage":{"output_tokens":1000000}},"timestamp":"2025-12-01T10:10:00Z"}`;
+		vi.mocked(readFile).mockResolvedValue(mixedModels);
+
+		const usage = await parseSessionUsage('session-abc', '/test/project');
+
+		// Opus 4.5 input $5 + Haiku 4.5 output $5 + unknown (Sonnet 4.5) output $15
+		expect(usage?.cost).toBeCloseTo(25, 6);
+		expect(Object.keys(usage?.byModel ?? {})).toEqual([
+			'claude-opus-4-5-20251101',
+			'claude-haiku-4-5-20251001',
+			'unknown'
+		]);
+		expect(usage?.byModel['claude-opus-4-5-20251101']).toMatchObject({ input_tokens: 1_000_000, cost: 5 });
+		expect(usage?.byModel.unknown.cost).toBeCloseTo(15, 6);
+	});
+
 	it('should convert project path to slug correctly', async () => {
 		vi.mocked(readFile).mockResolvedValue(MOCK_JSONL_VALID);
 
@@ -3,19 +3,22 @@
  *
  * Parses Claude Code JSONL session files to aggregate token usage and costs.
  * Data sources:
- * - JSONL files: ~/.claude/projects/{project}/{session-id}.jsonl
+ * - JSONL files: ~/.claude/projects/{project}/{session-id}.jsonl, read through
+ *   the persistent usage index (usageIndex.ts) when available
  * - Session-agent mapping: .claude/agent-{session_id}.txt
  *
- * Pricing: Claude Sonnet 4.5
- * - Input: $3.00 per million tokens
- * - Cache creation: $3.75 per million tokens
- * - Cache read: $0.30 per million tokens
- * - Output: $15.00 per million tokens
+ * Pricing: each turn is priced for its `message.model` at the rates effective
+ * on its timestamp (see modelPricing.ts), and costs are broken down per model.
  */
 
 import { readdir, readFile } from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { addModelUsage, calculateModelCost, mergeModelUsage, UNKNOWN_MODEL, type ModelUsage } from './modelPricing';
+import { getProjectSlug, getUsageIndex } from './usageIndex';
+import { resolveDateRange, startOfZonedDay, type DateRange } from './dateRange';
+
+export type { ModelUsage } from './modelPricing';
 
 // ============================================================================
 // Types
@@ -29,6 +32,8 @@ export interface TokenUsage {
 	total_tokens: number;
 	cost: number;
 	sessionCount: number;
+	/** Usage and cost per model id */
+	byModel?: Record<string, ModelUsage>;
 }
 
 export interface SessionUsage {
@@ -43,11 +48,14 @@ export interface SessionUsage {
 		total: number;
 	};
 	cost: number;
+	/** Usage and cost per model id */
+	byModel: Record<string, ModelUsage>;
 }
 
 export interface JSONLEntry {
 	type?: string;
 	message?: {
+		model?: string;
 		usage?: {
 			input_tokens?: number;
 			cache_creation_input_tokens?: number;
@@ -64,19 +72,11 @@ export interface HourlyUsage {
 	cost: number;
 }
 
-export type TimeRange = 'today' | 'week' | 'all';
-
-// ============================================================================
-// Constants
-// ============================================================================
-
-// Claude Sonnet 4.5 Pricing (per million tokens)
-const PRICING = {
-	input: 3.0,
-	cache_creation: 3.75,
-	cache_read: 0.30,
-	output: 15.0
-} as const;
+/**
+ * 'today' is the calendar day in the requested time zone (default: server
+ * local), 'week' the last 7 days; a DateRange gives explicit bounds
+ */
+export type TimeRange = 'today' | 'week' | 'all' | DateRange;
 
 // ============================================================================
 // Session-Agent Mapping
@@ -124,6 +124,25 @@ export async function buildSessionAgentMap(projectPath: string): Promise<Map<str
 	return map;
 }
 
+/**
+ * List the IDs of all sessions recorded for a project, with or without an agent.
+ *
+ * Input: Project path (e.g., /home/user/code/project)
+ * Output: Session IDs (~/.claude/projects/{project-slug}/*.jsonl)
+ * State: Read-only
+ */
+export async function getAllSessionIds(projectPath: string): Promise<string[]> {
+	const sessionsDir = path.join(os.homedir(), '.claude', 'projects', getProjectSlug(projectPath));
+
+	try {
+		const files = await readdir(sessionsDir);
+		return files.filter(f => f.endsWith('.jsonl')).map(f => f.slice(0, -6));
+	} catch {
+		// No sessions recorded for this project yet
+		return [];
+	}
+}
+
 // ============================================================================
 // JSONL Parsing
 // ============================================================================
@@ -133,9 +152,38 @@ export async function buildSessionAgentMap(projectPath: string): Promise<Map<str
  *
  * Input: sessionId (string), projectPath (string)
  * Output: SessionUsage object or null if parsing fails
- * State: Read-only, parses ~/.claude/projects/{project-slug}/{sessionId}.jsonl
+ * State: Read-only, answered from the usage index (or ~/.claude/projects/{project-slug}/{sessionId}.jsonl)
  */
 export async function parseSessionUsage(sessionId: string, projectPath: string): Promise<SessionUsage | null> {
+	const [usage] = await loadSessionUsages([sessionId], projectPath);
+	return usage;
+}
+
+/**
+ * Get usage for several sessions, from the usage index when available.
+ *
+ * Input: sessionIds (string[]), projectPath (string)
+ * Output: SessionUsage (or null if missing/unreadable) per session, in order
+ * State: Read-only (the index tails new JSONL data as a side effect)
+ */
+async function loadSessionUsages(sessionIds: string[], projectPath: string): Promise<Array<SessionUsage | null>> {
+	const index = getUsageIndex();
+	if (index) {
+		try {
+			const usages = index.getSessionUsage(getProjectSlug(projectPath), sessionIds);
+			return sessionIds.map(id => usages.get(id) ?? null);
+		} catch (error) {
+			console.warn('Usage index query failed, parsing session files directly:', error);
+		}
+	}
+
+	return Promise.all(sessionIds.map(id => parseSessionFile(id, projectPath)));
+}
+
+/**
+ * Parse a session's JSONL file directly (fallback when the index is unavailable).
+ */
+async function parseSessionFile(sessionId: string, projectPath: string): Promise<SessionUsage | null> {
 	try {
 		// Construct path to JSONL file
 		const homeDir = os.homedir();
@@ -151,6 +199,8 @@ export async function parseSessionUsage(sessionId: string, projectPath: string):
 		let totalCacheCreation = 0;
 		let totalCacheRead = 0;
 		let totalOutput = 0;
+		let cost = 0;
+		const byModel: Record<string, ModelUsage> = {};
 		let lastTimestamp = new Date().toISOString();
 
 		for (const line of lines) {
@@ -164,13 +214,17 @@ export async function parseSessionUsage(sessionId: string, projectPath: string):
 					lastTimestamp = entry.timestamp;
 				}
 
-				// Sum up token usage from .message.usage field
+				// Sum up token usage from .message.usage field, priced per model
 				if (entry.message?.usage) {
 					const usage = entry.message.usage;
 					totalInput += usage.input_tokens || 0;
 					totalCacheCreation += usage.cache_creation_input_tokens || 0;
 					totalCacheRead += usage.cache_read_input_tokens || 0;
 					totalOutput += usage.output_tokens || 0;
+
+					const turnCost = calculateModelCost(usage, entry.message.model, entry.timestamp);
+					addModelUsage(byModel, entry.message.model || UNKNOWN_MODEL, usage, turnCost);
+					cost += turnCost;
 				}
 			} catch (parseError) {
 				// Skip malformed lines
@@ -180,14 +234,6 @@ export async function parseSessionUsage(sessionId: string, projectPath: string):
 
 		const totalTokens = totalInput + totalCacheCreation + totalCacheRead + totalOutput;
 
-		// Calculate cost
-		const cost = (
-			(totalInput / 1_000_000) * PRICING.input +
-			(totalCacheCreation / 1_000_000) * PRICING.cache_creation +
-			(totalCacheRead / 1_000_000) * PRICING.cache_read +
-			(totalOutput / 1_000_000) * PRICING.output
-		);
-
 		return {
 			sessionId,
 			agentName: null, // Will be filled in by caller
@@ -199,7 +245,8 @@ export async function parseSessionUsage(sessionId: string, projectPath: string):
 				output: totalOutput,
 				total: totalTokens
 			},
-			cost
+			cost,
+			byModel
 		};
 	} catch (error) {
 		// Session file might not exist or be unreadable
@@ -214,23 +261,24 @@ export async function parseSessionUsage(sessionId: string, projectPath: string):
 /**
  * Check if a timestamp falls within the specified time range.
  *
- * Input: timestamp (ISO string), range ('today' | 'week' | 'all')
+ * Input: timestamp (ISO string), range ('today' | 'week' | 'all' | DateRange), timeZone (IANA, optional)
  * Output: boolean
  * State: Read-only, pure function
  */
-function isWithinTimeRange(timestamp: string, range: TimeRange): boolean {
+function isWithinTimeRange(timestamp: string, range: TimeRange, timeZone?: string): boolean {
 	if (range === 'all') return true;
 
 	const now = new Date();
 	const date = new Date(timestamp);
 
+	if (typeof range === 'object') {
+		const { start, end } = resolveDateRange(range, timeZone, now);
+		return date >= start && date <= end;
+	}
+
 	if (range === 'today') {
-		// Check if same calendar day
-		return (
-			date.getFullYear() === now.getFullYear() &&
-			date.getMonth() === now.getMonth() &&
-			date.getDate() === now.getDate()
-		);
+		// Check if same calendar day in the time zone
+		return startOfZonedDay(date.getTime(), timeZone) === startOfZonedDay(now.getTime(), timeZone);
 	}
 
 	if (range === 'week') {
@@ -249,14 +297,17 @@ function isWithinTimeRange(timestamp: string, range: TimeRange): boolean {
 /**
  * Get token usage for a specific agent within a time range.
  *
- * Input: agentName (string), timeRange ('today' | 'week' | 'all'), projectPath (string)
+ * Sessions count in full if their last activity falls within the range.
+ *
+ * Input: agentName (string), timeRange (see TimeRange), projectPath (string), timeZone (IANA, optional)
  * Output: TokenUsage object
  * State: Read-only, aggregates data from session files
  */
 export async function getAgentUsage(
 	agentName: string,
 	timeRange: TimeRange,
-	projectPath: string
+	projectPath: string,
+	timeZone?: string
 ): Promise<TokenUsage> {
 	// Build session → agent mapping
 	const sessionAgentMap = await buildSessionAgentMap(projectPath);
@@ -267,40 +318,34 @@ export async function getAgentUsage(
 		.map(([sessionId, _]) => sessionId);
 
 	// Parse usage for each session
-	const sessionUsages = await Promise.all(
-		agentSessions.map(sessionId => parseSessionUsage(sessionId, projectPath))
-	);
+	const sessionUsages = await loadSessionUsages(agentSessions, projectPath);
 
 	// Aggregate tokens across sessions (filtering by time range)
 	let totalInput = 0;
 	let totalCacheCreation = 0;
 	let totalCacheRead = 0;
 	let totalOutput = 0;
+	let cost = 0;
+	const byModel: Record<string, ModelUsage> = {};
 	let sessionCount = 0;
 
 	for (const usage of sessionUsages) {
 		if (!usage) continue;
 
 		// Filter by time range
-		if (!isWithinTimeRange(usage.timestamp, timeRange)) continue;
+		if (!isWithinTimeRange(usage.timestamp, timeRange, timeZone)) continue;
 
 		totalInput += usage.tokens.input;
 		totalCacheCreation += usage.tokens.cache_creation;
 		totalCacheRead += usage.tokens.cache_read;
 		totalOutput += usage.tokens.output;
+		cost += usage.cost;
+		mergeModelUsage(byModel, usage.byModel);
 		sessionCount++;
 	}
 
 	const totalTokens = totalInput + totalCacheCreation + totalCacheRead + totalOutput;
 
-	// Calculate cost
-	const cost = (
-		(totalInput / 1_000_000) * PRICING.input +
-		(totalCacheCreation / 1_000_000) * PRICING.cache_creation +
-		(totalCacheRead / 1_000_000) * PRICING.cache_read +
-		(totalOutput / 1_000_000) * PRICING.output
-	);
-
 	return {
 		input_tokens: totalInput,
 		cache_creation_input_tokens: totalCacheCreation,
@@ -308,7 +353,8 @@ export async function getAgentUsage(
 		output_tokens: totalOutput,
 		total_tokens: totalTokens,
 		cost,
-		sessionCount
+		sessionCount,
+		byModel
 	};
 }
 
@@ -319,13 +365,14 @@ export async function getAgentUsage(
 /**
  * Get token usage for all agents within a time range.
  *
- * Input: timeRange ('today' | 'week' | 'all'), projectPath (string)
+ * Input: timeRange (see TimeRange), projectPath (string), timeZone (IANA, optional)
  * Output: Map<agentName, TokenUsage>
  * State: Read-only, aggregates data from all session files
  */
 export async function getAllAgentUsage(
 	timeRange: TimeRange,
-	projectPath: string
+	projectPath: string,
+	timeZone?: string
 ): Promise<Map<string, TokenUsage>> {
 	const usageMap = new Map<string, TokenUsage>();
 
@@ -337,13 +384,112 @@ export async function getAllAgentUsage(
 
 	// Fetch usage for each agent
 	for (const agentName of agentNames) {
-		const usage = await getAgentUsage(agentName, timeRange, projectPath);
+		const usage = await getAgentUsage(agentName, timeRange, projectPath, timeZone);
 		usageMap.set(agentName, usage);
 	}
 
 	return usageMap;
 }
 
+// ============================================================================
+// Time-Window Usage
+// ============================================================================
+
+/**
+ * Get token usage of some sessions between two points in time.
+ *
+ * Input: projectPath (string), sessionIds (string[]), startMs/endMs (inclusive, ms since epoch)
+ * Output: TokenUsage object (sessionCount = sessions with usage in the window)
+ * State: Read-only, answered from the usage index (or the sessions' JSONL files)
+ *
+ * Use case: attributing cost to the work on a task (see taskCost.ts)
+ */
+export async function getUsageBetween(
+	projectPath: string,
+	sessionIds: string[],
+	startMs: number,
+	endMs: number
+): Promise<TokenUsage> {
+	const byModel: Record<string, ModelUsage> = {};
+	const activeSessions = new Set<string>();
+
+	const index = getUsageIndex();
+	let indexed = false;
+	if (index) {
+		try {
+			const slug = getProjectSlug(projectPath);
+			for (const sessionId of sessionIds) {
+				// One bucket spanning the window (at most two, as buckets are epoch-aligned)
+				const buckets = index.getBuckets(slug, {
+					sessionIds: [sessionId],
+					startMs,
+					endMs,
+					bucketMs: endMs - startMs + 1
+				});
+				for (const bucket of buckets) {
+					addModelUsage(byModel, bucket.model, bucket, bucket.cost);
+					activeSessions.add(sessionId);
+				}
+			}
+			indexed = true;
+		} catch (error) {
+			console.warn('Usage index query failed, parsing session files directly:', error);
+		}
+	}
+
+	if (!indexed) {
+		const homeDir = os.homedir();
+		const projectSlug = getProjectSlug(projectPath);
+
+		for (const sessionId of sessionIds) {
+			const sessionFile = path.join(homeDir, '.claude', 'projects', projectSlug, `${sessionId}.jsonl`);
+			let content: string;
+			try {
+				content = await readFile(sessionFile, 'utf-8');
+			} catch {
+				continue; // Session file might not exist
+			}
+
+			for (const line of content.split('\n')) {
+				if (!line.trim()) continue;
+				try {
+					const entry: JSONLEntry = JSON.parse(line);
+					if (!entry.message?.usage || !entry.timestamp) continue;
+
+					const ms = new Date(entry.timestamp).getTime();
+					if (!(ms >= startMs && ms <= endMs)) continue;
+
+					const cost = calculateModelCost(entry.message.usage, entry.message.model, entry.timestamp);
+					addModelUsage(byModel, entry.message.model || UNKNOWN_MODEL, entry.message.usage, cost);
+					activeSessions.add(sessionId);
+				} catch {
+					// Skip malformed lines
+				}
+			}
+		}
+	}
+
+	const usage: TokenUsage = {
+		input_tokens: 0,
+		cache_creation_input_tokens: 0,
+		cache_read_input_tokens: 0,
+		output_tokens: 0,
+		total_tokens: 0,
+		cost: 0,
+		sessionCount: activeSessions.size,
+		byModel
+	};
+	for (const model of Object.values(byModel)) {
+		usage.input_tokens += model.input_tokens;
+		usage.cache_creation_input_tokens += model.cache_creation_input_tokens;
+		usage.cache_read_input_tokens += model.cache_read_input_tokens;
+		usage.output_tokens += model.output_tokens;
+		usage.total_tokens += model.total_tokens;
+		usage.cost += model.cost;
+	}
+	return usage;
+}
+
 // ============================================================================
 // Cost Calculation Helper
 // ============================================================================
@@ -351,17 +497,16 @@ export async function getAllAgentUsage(
 /**
  * Calculate cost from token usage breakdown.
  *
- * Input: TokenUsage object
+ * Input: TokenUsage object, model id (default model if omitted), timestamp (default now)
  * Output: number (cost in USD)
- * State: Pure function
+ * State: Pure function of the pricing table
  */
-export function calculateCost(usage: TokenUsage): number {
-	return (
-		(usage.input_tokens / 1_000_000) * PRICING.input +
-		(usage.cache_creation_input_tokens / 1_000_000) * PRICING.cache_creation +
-		(usage.cache_read_input_tokens / 1_000_000) * PRICING.cache_read +
-		(usage.output_tokens / 1_000_000) * PRICING.output
-	);
+export function calculateCost(
+	usage: Pick<TokenUsage, 'input_tokens' | 'cache_creation_input_tokens' | 'cache_read_input_tokens' | 'output_tokens'>,
+	model?: string | null,
+	timestamp?: string | Date | null
+): number {
+	return calculateModelCost(usage, model, timestamp);
 }
 
 // ============================================================================
@@ -371,7 +516,7 @@ export function calculateCost(usage: TokenUsage): number {
 /**
  * Get aggregated token usage across ALL agents for a time range.
  *
- * Input: timeRange ('today' | 'week' | 'all'), projectPath (string)
+ * Input: timeRange (see TimeRange), projectPath (string), timeZone (IANA, optional)
  * Output: TokenUsage object (system-wide totals)
  * State: Read-only, aggregates data from all agents
  *
@@ -379,16 +524,19 @@ export function calculateCost(usage: TokenUsage): number {
  */
 export async function getSystemUsage(
 	timeRange: TimeRange,
-	projectPath: string
+	projectPath: string,
+	timeZone?: string
 ): Promise<TokenUsage> {
-	const allAgentUsage = await getAllAgentUsage(timeRange, projectPath);
+	const allAgentUsage = await getAllAgentUsage(timeRange, projectPath, timeZone);
 
-	// Sum across all agents
+	// Sum across all agents (costs were already priced per model)
 	let totalInput = 0;
 	let totalCacheCreation = 0;
 	let totalCacheRead = 0;
 	let totalOutput = 0;
 	let totalSessions = 0;
+	let cost = 0;
+	const byModel: Record<string, ModelUsage> = {};
 
 	for (const usage of allAgentUsage.values()) {
 		totalInput += usage.input_tokens;
@@ -396,18 +544,11 @@ export async function getSystemUsage(
 		totalCacheRead += usage.cache_read_input_tokens;
 		totalOutput += usage.output_tokens;
 		totalSessions += usage.sessionCount;
+		cost += usage.cost;
+		mergeModelUsage(byModel, usage.byModel);
 	}
 
 	const totalTokens = totalInput + totalCacheCreation + totalCacheRead + totalOutput;
-	const cost = calculateCost({
-		input_tokens: totalInput,
-		cache_creation_input_tokens: totalCacheCreation,
-		cache_read_input_tokens: totalCacheRead,
-		output_tokens: totalOutput,
-		total_tokens: totalTokens,
-		cost: 0,
-		sessionCount: totalSessions
-	});
 
 	return {
 		input_tokens: totalInput,
@@ -416,7 +557,8 @@ export async function getSystemUsage(
 		output_tokens: totalOutput,
 		total_tokens: totalTokens,
 		cost,
-		sessionCount: totalSessions
+		sessionCount: totalSessions,
+		byModel
 	};
 }
 
@@ -430,7 +572,7 @@ export async function getSystemUsage(
  *
  * Input: projectPath (string)
  * Output: Array of HourlyUsage objects (24 hours, oldest to newest)
- * State: Read-only, parses all JSONL files and groups by hour
+ * State: Read-only, groups the usage index (or all JSONL files) by hour
  */
 export async function getHourlyUsage(projectPath: string): Promise<HourlyUsage[]> {
 	// Initialize 24 hours of empty data (newest to oldest)
@@ -446,6 +588,70 @@ export async function getHourlyUsage(projectPath: string): Promise<HourlyUsage[]
 		hourlyBuckets.set(hourKey, { tokens: 0, cost: 0 });
 	}
 
+	if (!addHourlyFromIndex(projectPath, now, hourlyBuckets)) {
+		await addHourlyFromFiles(projectPath, now, hourlyBuckets);
+	}
+
+	// Convert map to array (sorted oldest to newest)
+	return Array.from(hourlyBuckets.entries())
+		.sort(([a], [b]) => new Date(a).getTime() - new Date(b).getTime())
+		.map(([timestamp, data]) => ({
+			timestamp,
+			tokens: data.tokens,
+			cost: data.cost
+		}));
+}
+
+/**
+ * Fill hourly buckets from the usage index.
+ *
+ * Output: false if the index is unavailable (buckets untouched)
+ * State: Mutates hourlyBuckets
+ */
+function addHourlyFromIndex(
+	projectPath: string,
+	now: Date,
+	hourlyBuckets: Map<string, { tokens: number; cost: number }>
+): boolean {
+	const index = getUsageIndex();
+	if (!index) return false;
+
+	try {
+		// Minute buckets, rounded to local hours like the direct parser does
+		const buckets = index.getBuckets(getProjectSlug(projectPath), {
+			startMs: now.getTime() - 24 * 60 * 60 * 1000,
+			endMs: now.getTime(),
+			bucketMs: 60 * 1000
+		});
+
+		for (const usage of buckets) {
+			const hourTime = new Date(usage.bucketMs);
+			hourTime.setMinutes(0, 0, 0);
+
+			const bucket = hourlyBuckets.get(hourTime.toISOString());
+			if (!bucket) continue;
+
+			bucket.tokens +=
+				usage.input_tokens + usage.cache_creation_input_tokens + usage.cache_read_input_tokens + usage.output_tokens;
+			bucket.cost += usage.cost;
+		}
+		return true;
+	} catch (error) {
+		console.warn('Usage index query failed, parsing session files directly:', error);
+		return false;
+	}
+}
+
+/**
+ * Fill hourly buckets by parsing every session file of the project.
+ *
+ * State: Mutates hourlyBuckets
+ */
+async function addHourlyFromFiles(
+	projectPath: string,
+	now: Date,
+	hourlyBuckets: Map<string, { tokens: number; cost: number }>
+): Promise<void> {
 	try {
 		// Get all session files
 		const homeDir = os.homedir();
@@ -510,13 +716,8 @@ export async function getHourlyUsage(projectPath: string): Promise<HourlyUsage[]
 							(usage.output_tokens || 0)
 						);
 
-						// Calculate cost
-						const cost = (
-							((usage.input_tokens || 0) / 1_000_000) * PRICING.input +
-							((usage.cache_creation_input_tokens || 0) / 1_000_000) * PRICING.cache_creation +
-							((usage.cache_read_input_tokens || 0) / 1_000_000) * PRICING.cache_read +
-							((usage.output_tokens || 0) / 1_000_000) * PRICING.output
-						);
+						// Calculate cost for the turn's model
+						const cost = calculateModelCost(usage, entry.message.model, entry.timestamp);
 
 						bucket.tokens += totalTokens;
 						bucket.cost += cost;
@@ -535,13 +736,4 @@ export async function getHourlyUsage(projectPath: string): Promise<HourlyUsage[]
 		// Sessions directory might not exist
 		console.warn('Could not read sessions directory:', error);
 	}
-
-	// Convert map to array (sorted oldest to newest)
-	return Array.from(hourlyBuckets.entries())
-		.sort(([a], [b]) => new Date(a).getTime() - new Date(b).getTime())
-		.map(([timestamp, data]) => ({
-			timestamp,
-			tokens: data.tokens,
-			cost: data.cost
-		}));
 }
@@ -6,8 +6,10 @@
  * Features:
  * - System-wide 24-hour view (48 × 30-minute buckets)
  * - Per-agent session-based view (variable bucket size based on session duration)
- * - Filtering by agent, session, date range
- * - Performance optimized (<100ms for 24h aggregation)
+ * - Filtering by agent, session, date range (preset or explicit from/to)
+ * - Day and week buckets, aligned to an IANA time zone (default: server local)
+ * - Performance optimized (<100ms for 24h aggregation; answered from the
+ *   persistent usage index when available, see usageIndex.ts)
  *
  * Usage:
  * ```typescript
@@ -19,6 +21,11 @@
  *
  * // Specific session
  * const sessionData = await getTokenTimeSeries({ sessionId: 'abc123' });
+ *
+ * // Daily buckets for November, in Berlin time
+ * const monthData = await getTokenTimeSeries({
+ *   from: '2025-11-01', to: '2025-11-30', bucketSize: 'day', timeZone: 'Europe/Berlin'
+ * });
  * ```
  */
 
@@ -27,6 +34,14 @@ import * as path from 'path';
 import * as os from 'os';
 import { parseSessionUsage, buildSessionAgentMap, calculateCost } from './tokenUsage';
 import type { TimeRange, SessionUsage, TokenUsage } from './tokenUsage';
+import { getProjectSlug, getUsageIndex } from './usageIndex';
+import {
+	addZonedDays,
+	getTimeZoneOffsetMs,
+	resolveDateRange,
+	startOfZonedDay,
+	startOfZonedWeek
+} from './dateRange';
 
 // ============================================================================
 // Types
@@ -35,7 +50,7 @@ import type { TimeRange, SessionUsage, TokenUsage } from './tokenUsage';
 /**
  * Time bucket size options
  */
-export type BucketSize = '30min' | 'hour' | 'session';
+export type BucketSize = '30min' | 'hour' | 'day' | 'week' | 'session';
 
 /**
  * Time-series data point
@@ -60,8 +75,16 @@ export interface TimeSeriesDataPoint {
  * Options for time-series aggregation
  */
 export interface TimeSeriesOptions {
-	/** Time range filter */
+	/** Time range filter (ignored when from or to is set) */
 	range?: '24h' | '7d' | 'all';
+	/** Range start: ISO 8601 date-time, or YYYY-MM-DD (start of that day in timeZone) */
+	from?: Date | string;
+	/** Range end: ISO 8601 date-time, or YYYY-MM-DD (end of that day in timeZone) */
+	to?: Date | string;
+	/** IANA time zone for bucket boundaries and bare dates (default: server local) */
+	timeZone?: string;
+	/** Day weeks start on for week buckets (0 = Sunday … 6 = Saturday, default 0) */
+	weekStartDay?: number;
 	/** Filter by agent name */
 	agentName?: string;
 	/** Filter by specific session ID */
@@ -90,6 +113,17 @@ export interface TimeSeriesResult {
 	startTime: string;
 	/** End timestamp of range */
 	endTime: string;
+	/** Time zone buckets are aligned to (null: server local) */
+	timeZone: string | null;
+}
+
+/**
+ * How timestamps are grouped into buckets
+ */
+interface Bucketing {
+	bucketSize: BucketSize;
+	timeZone?: string;
+	weekStartDay: number;
 }
 
 // ============================================================================
@@ -97,7 +131,13 @@ export interface TimeSeriesResult {
 // ============================================================================
 
 /**
- * Get bucket duration in milliseconds
+ * Index bucket size: fine enough to re-bucket into any time zone's
+ * 30-minute, hour, day or week buckets (UTC offsets are multiples of 15 minutes)
+ */
+const INDEX_BUCKET_MS = 15 * 60 * 1000;
+
+/**
+ * Get bucket duration in milliseconds (0 for variable-length buckets)
  */
 function getBucketDurationMs(bucketSize: BucketSize): number {
 	switch (bucketSize) {
@@ -105,45 +145,76 @@ function getBucketDurationMs(bucketSize: BucketSize): number {
 			return 30 * 60 * 1000;
 		case 'hour':
 			return 60 * 60 * 1000;
+		case 'day':
+		case 'week':
 		case 'session':
 			return 0; // Special case: variable bucket size
 	}
 }
 
 /**
- * Round timestamp down to bucket start
+ * Round timestamp down to bucket start (on the time zone's wall clock)
  */
-function roundToBucketStart(timestamp: Date, bucketSize: BucketSize): Date {
-	if (bucketSize === 'session') {
-		return timestamp; // Session-based: use exact timestamp
+function roundToBucketStart(timestamp: Date, bucketing: Bucketing): Date {
+	const ms = timestamp.getTime();
+
+	switch (bucketing.bucketSize) {
+		case 'session':
+			return timestamp; // Session-based: use exact timestamp
+		case 'day':
+			return new Date(startOfZonedDay(ms, bucketing.timeZone));
+		case 'week':
+			return new Date(startOfZonedWeek(ms, bucketing.timeZone, bucketing.weekStartDay));
+		default: {
+			const bucketMs = getBucketDurationMs(bucketing.bucketSize);
+			const offset = getTimeZoneOffsetMs(ms, bucketing.timeZone);
+			return new Date(Math.floor((ms + offset) / bucketMs) * bucketMs - offset);
+		}
 	}
+}
 
-	const ms = timestamp.getTime();
-	const bucketMs = getBucketDurationMs(bucketSize);
-	const roundedMs = Math.floor(ms / bucketMs) * bucketMs;
-	return new Date(roundedMs);
+/**
+ * Start of the bucket after the one starting at `bucketStart`
+ */
+function getNextBucketStart(bucketStart: Date, bucketing: Bucketing): Date {
+	const ms = bucketStart.getTime();
+
+	switch (bucketing.bucketSize) {
+		case 'day':
+			return new Date(addZonedDays(ms, 1, bucketing.timeZone));
+		case 'week':
+			return new Date(addZonedDays(ms, 7, bucketing.timeZone));
+		default:
+			return new Date(ms + getBucketDurationMs(bucketing.bucketSize));
+	}
 }
 
 /**
  * Generate bucket key for grouping
  */
-function getBucketKey(timestamp: Date, bucketSize: BucketSize): string {
-	if (bucketSize === 'session') {
+function getBucketKey(timestamp: Date, bucketing: Bucketing): string {
+	if (bucketing.bucketSize === 'session') {
 		return timestamp.toISOString(); // Exact timestamp for session-based
 	}
 
-	const rounded = roundToBucketStart(timestamp, bucketSize);
+	const rounded = roundToBucketStart(timestamp, bucketing);
 	return rounded.toISOString();
 }
 
 /**
- * Calculate date range boundaries
+ * Calculate date range boundaries (from/to, else the preset range)
+ *
+ * @throws {Error} If from/to can't be parsed (see resolveDateRange)
  */
-function getDateRange(range: TimeSeriesOptions['range']): { start: Date; end: Date } {
+export function getDateRange(options: TimeSeriesOptions): { start: Date; end: Date } {
+	if (options.from !== undefined || options.to !== undefined) {
+		return resolveDateRange({ from: options.from, to: options.to }, options.timeZone);
+	}
+
 	const now = new Date();
 	let start: Date;
 
-	switch (range) {
+	switch (options.range) {
 		case '24h':
 			start = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 			break;
@@ -162,29 +233,34 @@ function getDateRange(range: TimeSeriesOptions['range']): { start: Date; end: Da
 
 /**
  * Fill missing buckets with zero values
+ *
+ * Open-ended ranges (starting at the epoch) are filled from the first bucket
+ * with data rather than from 1970.
  */
 function fillMissingBuckets(
 	data: Map<string, TimeSeriesDataPoint>,
-	bucketSize: BucketSize,
+	bucketing: Bucketing,
 	startTime: Date,
 	endTime: Date
 ): TimeSeriesDataPoint[] {
-	if (bucketSize === 'session') {
+	if (bucketing.bucketSize === 'session') {
 		// Session-based: don't fill gaps, use actual data only
 		return Array.from(data.values()).sort((a, b) =>
 			new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
 		);
 	}
 
-	const bucketMs = getBucketDurationMs(bucketSize);
 	const filledData: TimeSeriesDataPoint[] = [];
 
 	// Generate all bucket timestamps in range
-	let currentBucketStart = roundToBucketStart(startTime, bucketSize);
-	const endBucketStart = roundToBucketStart(endTime, bucketSize);
+	const firstMs = startTime.getTime() > 0 ? startTime.getTime() : Math.min(...Array.from(data.keys(), Date.parse));
+	if (!Number.isFinite(firstMs)) return [];
+
+	let currentBucketStart = roundToBucketStart(new Date(firstMs), bucketing);
+	const endBucketStart = roundToBucketStart(endTime, bucketing);
 
 	while (currentBucketStart <= endBucketStart) {
-		const key = getBucketKey(currentBucketStart, bucketSize);
+		const key = getBucketKey(currentBucketStart, bucketing);
 
 		if (data.has(key)) {
 			filledData.push(data.get(key)!);
@@ -204,12 +280,88 @@ function fillMissingBuckets(
 		}
 
 		// Move to next bucket
-		currentBucketStart = new Date(currentBucketStart.getTime() + bucketMs);
+		currentBucketStart = getNextBucketStart(currentBucketStart, bucketing);
 	}
 
 	return filledData;
 }
 
+/**
+ * Add a bucket's usage to the aggregation map
+ */
+function addToBucket(
+	buckets: Map<string, TimeSeriesDataPoint>,
+	bucketKey: string,
+	tokens: { input: number; cache_creation: number; cache_read: number; output: number },
+	cost: number
+): void {
+	const totalTokens = tokens.input + tokens.cache_creation + tokens.cache_read + tokens.output;
+	const bucket = buckets.get(bucketKey);
+
+	if (bucket) {
+		bucket.tokens += totalTokens;
+		bucket.cost += cost;
+		if (bucket.breakdown) {
+			bucket.breakdown.input += tokens.input;
+			bucket.breakdown.cache_creation += tokens.cache_creation;
+			bucket.breakdown.cache_read += tokens.cache_read;
+			bucket.breakdown.output += tokens.output;
+		}
+	} else {
+		buckets.set(bucketKey, {
+			timestamp: bucketKey,
+			tokens: totalTokens,
+			cost,
+			breakdown: { ...tokens }
+		});
+	}
+}
+
+/**
+ * Fill buckets from the usage index
+ *
+ * @returns false if the index is unavailable (buckets untouched)
+ */
+function addBucketsFromIndex(
+	buckets: Map<string, TimeSeriesDataPoint>,
+	projectSlug: string,
+	sessionIds: string[] | undefined,
+	startTime: Date,
+	endTime: Date,
+	bucketing: Bucketing
+): boolean {
+	const index = getUsageIndex();
+	if (!index) return false;
+
+	try {
+		// Fine-grained buckets, re-bucketed below (exact timestamps for sessions)
+		const rows = index.getBuckets(projectSlug, {
+			sessionIds,
+			startMs: startTime.getTime(),
+			endMs: endTime.getTime(),
+			bucketMs: bucketing.bucketSize === 'session' ? 0 : INDEX_BUCKET_MS
+		});
+
+		for (const row of rows) {
+			addToBucket(
+				buckets,
+				getBucketKey(new Date(row.bucketMs), bucketing),
+				{
+					input: row.input_tokens,
+					cache_creation: row.cache_creation_input_tokens,
+					cache_read: row.cache_read_input_tokens,
+					output: row.output_tokens
+				},
+				row.cost
+			);
+		}
+		return true;
+	} catch (error) {
+		console.warn('Usage index query failed, parsing session files directly:', error);
+		return false;
+	}
+}
+
 // ============================================================================
 // Main Function
 // ============================================================================
@@ -219,6 +371,7 @@ function fillMissingBuckets(
  *
  * @param options - Aggregation options
  * @returns Time-series result with bucketed data
+ * @throws {Error} If options.from/to are invalid (see resolveDateRange)
  */
 export async function getTokenTimeSeries(
 	options: TimeSeriesOptions = {}
@@ -228,8 +381,11 @@ export async function getTokenTimeSeries(
 		agentName,
 		sessionId,
 		bucketSize = '30min',
-		projectPath = process.cwd()
+		projectPath = process.cwd(),
+		timeZone,
+		weekStartDay = 0
 	} = options;
+	const bucketing: Bucketing = { bucketSize, timeZone, weekStartDay };
 
 	const homeDir = os.homedir();
 	// Strip /dashboard suffix if present (when running from dashboard directory)
@@ -238,7 +394,7 @@ export async function getTokenTimeSeries(
 	const projectsDir = path.join(homeDir, '.claude', 'projects', projectSlug);
 
 	// Get date range boundaries
-	const { start: startTime, end: endTime } = getDateRange(range);
+	const { start: startTime, end: endTime } = getDateRange({ ...options, range });
 
 	// Build session-agent map for filtering
 	const sessionAgentMap = await buildSessionAgentMap(projectPath);
@@ -265,7 +421,8 @@ export async function getTokenTimeSeries(
 				bucketCount: 0,
 				bucketSize,
 				startTime: startTime.toISOString(),
-				endTime: endTime.toISOString()
+				endTime: endTime.toISOString(),
+				timeZone: timeZone ?? null
 			};
 		}
 	}
@@ -278,90 +435,82 @@ export async function getTokenTimeSeries(
 	// Map to store aggregated data by bucket
 	const buckets = new Map<string, TimeSeriesDataPoint>();
 
-	// Process each session
-	for (const sid of sessionIds) {
-		const jsonlPath = path.join(projectsDir, `${sid}.jsonl`);
-
-		try {
-			const content = await readFile(jsonlPath, 'utf-8');
-			const lines = content.split('\n').filter((line) => line.trim());
-
-			// Parse each JSONL line
-			for (const line of lines) {
-				try {
-					const entry = JSON.parse(line);
+	// Prefer the usage index; parse the session files only without it
+	const filtered = Boolean(sessionId || agentName);
+	const indexed = addBucketsFromIndex(
+		buckets,
+		getProjectSlug(actualProjectPath),
+		filtered ? sessionIds : undefined,
+		startTime,
+		endTime,
+		bucketing
+	);
+
+	if (!indexed) {
+		// Process each session file
+		for (const sid of sessionIds) {
+			const jsonlPath = path.join(projectsDir, `${sid}.jsonl`);
+
+			try {
+				const content = await readFile(jsonlPath, 'utf-8');
+				const lines = content.split('\n').filter((line) => line.trim());
+
+				// Parse each JSONL line
+				for (const line of lines) {
+					try {
+						const entry = JSON.parse(line);
+
+						// Skip entries without usage data or timestamp
+						if (!entry.message?.usage || !entry.timestamp) {
+							continue;
+						}
 
-					// Skip entries without usage data or timestamp
-					if (!entry.message?.usage || !entry.timestamp) {
-						continue;
-					}
+						const timestamp = new Date(entry.timestamp);
 
-					const timestamp = new Date(entry.timestamp);
+						// Filter by date range
+						if (timestamp < startTime || timestamp > endTime) {
+							continue;
+						}
 
-					// Filter by date range
-					if (timestamp < startTime || timestamp > endTime) {
+						const usage = entry.message.usage;
+						const inputTokens = usage.input_tokens || 0;
+						const cacheCreation = usage.cache_creation_input_tokens || 0;
+						const cacheRead = usage.cache_read_input_tokens || 0;
+						const outputTokens = usage.output_tokens || 0;
+
+						// Calculate cost for this entry's model
+						const cost = calculateCost({
+							input_tokens: inputTokens,
+							cache_creation_input_tokens: cacheCreation,
+							cache_read_input_tokens: cacheRead,
+							output_tokens: outputTokens
+						}, entry.message.model, entry.timestamp);
+
+						// Determine bucket
+						const bucketKey = getBucketKey(timestamp, bucketing);
+
+						// Add to bucket (or create new bucket)
+						addToBucket(
+							buckets,
+							bucketKey,
+							{ input: inputTokens, cache_creation: cacheCreation, cache_read: cacheRead, output: outputTokens },
+							cost
+						);
+					} catch (parseError) {
+						// Skip malformed JSON lines
 						continue;
 					}
-
-					const usage = entry.message.usage;
-					const inputTokens = usage.input_tokens || 0;
-					const cacheCreation = usage.cache_creation_input_tokens || 0;
-					const cacheRead = usage.cache_read_input_tokens || 0;
-					const outputTokens = usage.output_tokens || 0;
-					const totalTokens = inputTokens + cacheCreation + cacheRead + outputTokens;
-
-					// Calculate cost for this entry
-					const cost = calculateCost({
-						input_tokens: inputTokens,
-						cache_creation_input_tokens: cacheCreation,
-						cache_read_input_tokens: cacheRead,
-						output_tokens: outputTokens,
-						total_tokens: totalTokens,
-						cost: 0,
-						sessionCount: 1
-					});
-
-					// Determine bucket
-					const bucketKey = getBucketKey(timestamp, bucketSize);
-
-					// Add to bucket (or create new bucket)
-					if (buckets.has(bucketKey)) {
-						const bucket = buckets.get(bucketKey)!;
-						bucket.tokens += totalTokens;
-						bucket.cost += cost;
-						if (bucket.breakdown) {
-							bucket.breakdown.input += inputTokens;
-							bucket.breakdown.cache_creation += cacheCreation;
-							bucket.breakdown.cache_read += cacheRead;
-							bucket.breakdown.output += outputTokens;
-						}
-					} else {
-						buckets.set(bucketKey, {
-							timestamp: bucketKey,
-							tokens: totalTokens,
-							cost,
-							breakdown: {
-								input: inputTokens,
-								cache_creation: cacheCreation,
-								cache_read: cacheRead,
-								output: outputTokens
-							}
-						});
-					}
-				} catch (parseError) {
-					// Skip malformed JSON lines
-					continue;
 				}
+			} catch (error) {
+				// Skip sessions that can't be read
+				console.warn(`Could not read JSONL file for session ${sid}:`, error);
+				continue;
 			}
-		} catch (error) {
-			// Skip sessions that can't be read
-			console.warn(`Could not read JSONL file for session ${sid}:`, error);
-			continue;
 		}
 	}
 
 	// Fill missing buckets and sort by timestamp
-	const filledData = fillMissingBuckets(buckets, bucketSize, startTime, endTime);
+	const filledData = fillMissingBuckets(buckets, bucketing, startTime, endTime);
 
 	// Calculate totals
 	const totalTokens = filledData.reduce((sum, point) => sum + point.tokens, 0);
@@ -374,7 +523,8 @@ export async function getTokenTimeSeries(
 		bucketCount: filledData.length,
 		bucketSize,
 		startTime: startTime.toISOString(),
-		endTime: endTime.toISOString()
+		endTime: endTime.toISOString(),
+		timeZone: timeZone ?? null
 	};
 }
 
@@ -0,0 +1,192 @@
+/**
+ * Usage Export Tests
+ *
+ * Tests for the CSV, JSON Lines and OpenMetrics writers in usageExport.ts,
+ * and for collecting rows from session files in a temporary home directory.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import * as path from 'path';
+
+const { tmpHome } = vi.hoisted(() => {
+	const fs = require('fs');
+	const nodePath = require('path');
+	const nodeOs = require('os');
+	const tmpHome: string = fs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'usage-export-'));
+	process.env.JAT_USAGE_DB = nodePath.join(tmpHome, 'usage.db');
+	return { tmpHome };
+});
+
+// Sessions are read from ~/.claude/projects
+vi.mock('os', async importOriginal => {
+	const actual = await importOriginal<typeof import('os')>();
+	return { ...actual, default: { ...actual, homedir: () => tmpHome }, homedir: () => tmpHome };
+});
+
+import {
+	collectUsageExport,
+	formatCsv,
+	formatJsonLines,
+	formatOpenMetrics,
+	groupByAgent,
+	type SessionExportRow,
+	type UsageExport
+} from './usageExport';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const totals = (input: number, output: number, cost: number) => ({
+	input_tokens: input,
+	cache_creation_input_tokens: 0,
+	cache_read_input_tokens: 0,
+	output_tokens: output,
+	total_tokens: input + output,
+	cost_usd: cost
+});
+
+const SESSIONS: SessionExportRow[] = [
+	{ session_id: 's1', agent: 'WisePrairie', ...totals(100, 10, 0.5) },
+	{ session_id: 's2', agent: null, ...totals(50, 5, 0.25) },
+	{ session_id: 's3', agent: 'WisePrairie', ...totals(200, 20, 1) }
+];
+
+// ============================================================================
+// Tests: formats
+// ============================================================================
+
+describe('groupByAgent', () => {
+	it('should sum sessions per agent, unassigned last', () => {
+		expect(groupByAgent(SESSIONS)).toEqual([
+			{ agent: 'WisePrairie', sessions: 2, ...totals(300, 30, 1.5) },
+			{ agent: null, sessions: 1, ...totals(50, 5, 0.25) }
+		]);
+	});
+});
+
+describe('formatCsv', () => {
+	it('should write a header and one line per row', () => {
+		expect(formatCsv('agent', groupByAgent(SESSIONS)).split('\r\n')).toEqual([
+			'agent,sessions,input_tokens,cache_creation_input_tokens,cache_read_input_tokens,output_tokens,total_tokens,cost_usd',
+			'WisePrairie,2,300,0,0,30,330,1.5',
+			',1,50,0,0,5,55,0.25',
+			''
+		]);
+	});
+
+	it('should quote fields with commas, quotes or newlines', () => {
+		const csv = formatCsv('session', [{ session_id: 'a,b', agent: 'say "hi"\n', ...totals(1, 1, 0) }]);
+		expect(csv.split('\r\n')[1]).toBe('"a,b","say ""hi""\n",1,0,0,1,2,0');
+	});
+});
+
+describe('formatJsonLines', () => {
+	it('should write one object per line', () => {
+		const lines = formatJsonLines(SESSIONS).trimEnd().split('\n');
+		expect(lines).toHaveLength(3);
+		expect(JSON.parse(lines[1])).toEqual(SESSIONS[1]);
+	});
+});
+
+describe('formatOpenMetrics', () => {
+	const exported = (overrides: Partial<UsageExport>): UsageExport => ({
+		level: 'agent',
+		rows: groupByAgent(SESSIONS),
+		startTime: new Date(0).toISOString(),
+		endTime: '2025-11-19T12:00:00.000Z',
+		cumulative: true,
+		...overrides
+	});
+
+	it('should expose all-time agent totals as counters', () => {
+		const text = formatOpenMetrics(exported({}));
+
+		expect(text).toContain('# TYPE jat_tokens counter');
+		expect(text).toContain('jat_tokens_total{agent="WisePrairie",type="input"} 300');
+		expect(text).toContain('jat_tokens_total{agent="",type="output"} 5');
+		expect(text).toContain('# UNIT jat_cost_usd usd');
+		expect(text).toContain('jat_cost_usd_total{agent="WisePrairie"} 1.5');
+		expect(text).toContain('jat_sessions{agent="WisePrairie"} 2');
+		expect(text.endsWith('# EOF\n')).toBe(true);
+	});
+
+	it('should use gauges for bounded ranges and escape labels', () => {
+		const text = formatOpenMetrics(
+			exported({ level: 'session', rows: [{ session_id: 's"1', agent: 'a\\b', ...totals(1, 2, 0) }], cumulative: false })
+		);
+
+		expect(text).toContain('# TYPE jat_tokens gauge');
+		expect(text).toContain('jat_tokens{session="s\\"1",agent="a\\\\b",type="output"} 2');
+		expect(text).not.toContain('jat_sessions');
+	});
+
+	it('should timestamp bucket samples at the bucket start', () => {
+		const text = formatOpenMetrics(
+			exported({
+				level: 'bucket',
+				rows: [
+					{ bucket_start: '2025-11-19T10:00:00.000Z', ...totals(1, 1, 0.1) },
+					{ bucket_start: '2025-11-19T11:00:00.000Z', ...totals(2, 2, 0.2) }
+				]
+			})
+		);
+
+		expect(text).toContain('# TYPE jat_cost_usd gauge');
+		expect(text).toContain('jat_tokens{type="input"} 2 1763550000');
+		expect(text).toContain('jat_cost_usd 0.1 1763546400');
+	});
+});
+
+// ============================================================================
+// Tests: collection
+// ============================================================================
+
+describe('collectUsageExport', () => {
+	const projectPath = path.join(tmpHome, 'code', 'jat');
+
+	beforeAll(() => {
+		const turn = (timestamp: string, input: number) =>
+			JSON.stringify({
+				type: 'assistant',
+				timestamp,
+				message: { model: 'claude-sonnet-4-5-20250929', usage: { input_tokens: input, output_tokens: 10 } }
+			});
+
+		const sessionsDir = path.join(tmpHome, '.claude', 'projects', projectPath.replace(/\//g, '-'));
+		mkdirSync(sessionsDir, { recursive: true });
+		writeFileSync(
+			path.join(sessionsDir, 'alpha.jsonl'),
+			[turn('2025-11-18T09:00:00Z', 1_000), turn('2025-11-19T09:00:00Z', 100)].join('\n') + '\n'
+		);
+		writeFileSync(path.join(sessionsDir, 'beta.jsonl'), turn('2025-11-19T10:30:00Z', 200) + '\n');
+
+		mkdirSync(path.join(projectPath, '.claude'), { recursive: true });
+		writeFileSync(path.join(projectPath, '.claude', 'agent-alpha.txt'), 'WisePrairie\n');
+	});
+
+	afterAll(() => {
+		rmSync(tmpHome, { recursive: true, force: true });
+	});
+
+	const filters = { projectPath, from: '2025-11-19', to: '2025-11-19', timeZone: 'UTC' };
+
+	it('should only count usage within the range', async () => {
+		const usage = await collectUsageExport('session', filters);
+
+		expect(usage.cumulative).toBe(false);
+		expect(usage.rows).toMatchObject([
+			{ session_id: 'alpha', agent: 'WisePrairie', input_tokens: 100, output_tokens: 10 },
+			{ session_id: 'beta', agent: null, input_tokens: 200, output_tokens: 10 }
+		]);
+	});
+
+	it('should give the same totals per agent and per bucket', async () => {
+		const agents = await collectUsageExport('agent', { ...filters, agentName: 'WisePrairie' });
+		expect(agents.rows).toMatchObject([{ agent: 'WisePrairie', sessions: 1, total_tokens: 110 }]);
+
+		const buckets = await collectUsageExport('bucket', { ...filters, bucketSize: 'day' });
+		expect(buckets.rows).toMatchObject([{ bucket_start: '2025-11-19T00:00:00.000Z', input_tokens: 300, total_tokens: 320 }]);
+	});
+});
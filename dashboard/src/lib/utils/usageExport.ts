@@ -0,0 +1,309 @@
+/**
+ * Usage Export
+ *
+ * Token usage as flat rows, at one of three levels, for spreadsheets and
+ * metrics systems:
+ * - session: usage of each session within the range
+ * - agent: sessions summed per agent (sessions without an agent have agent null)
+ * - bucket: the getTokenTimeSeries buckets
+ *
+ * Session and agent rows only count usage inside the range (unlike
+ * getAllAgentUsage, which counts whole sessions by their last activity), so
+ * all three levels add up to the same totals.
+ *
+ * Rows can be written as CSV, JSON Lines or OpenMetrics text. OpenMetrics
+ * session/agent totals are counters when the range covers all time (for
+ * scraping), and gauges otherwise; bucket rows become gauge samples with
+ * the bucket start as timestamp (for backfilling, e.g. with
+ * `promtool tsdb create-blocks-from openmetrics`).
+ */
+
+import { buildSessionAgentMap, getAllSessionIds, getUsageBetween } from './tokenUsage';
+import { getDateRange, getTokenTimeSeries, type TimeSeriesOptions } from './tokenUsageTimeSeries';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = 'csv' | 'jsonl' | 'openmetrics';
+export type ExportLevel = 'session' | 'agent' | 'bucket';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'openmetrics'];
+export const EXPORT_LEVELS: ExportLevel[] = ['session', 'agent', 'bucket'];
+
+export interface UsageTotals {
+	input_tokens: number;
+	cache_creation_input_tokens: number;
+	cache_read_input_tokens: number;
+	output_tokens: number;
+	total_tokens: number;
+	cost_usd: number;
+}
+
+export interface SessionExportRow extends UsageTotals {
+	session_id: string;
+	agent: string | null;
+}
+
+export interface AgentExportRow extends UsageTotals {
+	agent: string | null;
+	sessions: number;
+}
+
+export interface BucketExportRow extends UsageTotals {
+	/** Bucket start (ISO 8601) */
+	bucket_start: string;
+}
+
+export type UsageExportRow = SessionExportRow | AgentExportRow | BucketExportRow;
+
+export interface UsageExport {
+	level: ExportLevel;
+	rows: UsageExportRow[];
+	startTime: string;
+	endTime: string;
+	/** Whether the range covers all usage up to now (totals only grow) */
+	cumulative: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOTAL_COLUMNS: Array<keyof UsageTotals> = [
+	'input_tokens',
+	'cache_creation_input_tokens',
+	'cache_read_input_tokens',
+	'output_tokens',
+	'total_tokens',
+	'cost_usd'
+];
+
+/** CSV columns per level, in order */
+export const EXPORT_COLUMNS: Record<ExportLevel, string[]> = {
+	session: ['session_id', 'agent', ...TOTAL_COLUMNS],
+	agent: ['agent', 'sessions', ...TOTAL_COLUMNS],
+	bucket: ['bucket_start', ...TOTAL_COLUMNS]
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+	csv: 'text/csv; charset=utf-8',
+	jsonl: 'application/x-ndjson; charset=utf-8',
+	openmetrics: 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+};
+
+/** Token columns as OpenMetrics `type` label values */
+const TOKEN_TYPES: Array<[keyof UsageTotals, string]> = [
+	['input_tokens', 'input'],
+	['cache_creation_input_tokens', 'cache_creation'],
+	['cache_read_input_tokens', 'cache_read'],
+	['output_tokens', 'output']
+];
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+function emptyTotals(): UsageTotals {
+	return {
+		input_tokens: 0,
+		cache_creation_input_tokens: 0,
+		cache_read_input_tokens: 0,
+		output_tokens: 0,
+		total_tokens: 0,
+		cost_usd: 0
+	};
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+	for (const column of TOTAL_COLUMNS) {
+		target[column] += source[column];
+	}
+}
+
+/**
+ * Usage of each session within the range (sessions without usage in it are left out)
+ */
+async function collectSessionRows(options: TimeSeriesOptions, start: Date, end: Date): Promise<SessionExportRow[]> {
+	const projectPath = options.projectPath ?? process.cwd();
+	const sessionAgentMap = await buildSessionAgentMap(projectPath);
+
+	let sessionIds = await getAllSessionIds(projectPath);
+	if (options.sessionId) {
+		sessionIds = sessionIds.filter(id => id === options.sessionId);
+	}
+	if (options.agentName) {
+		sessionIds = sessionIds.filter(id => sessionAgentMap.get(id) === options.agentName);
+	}
+
+	const rows: SessionExportRow[] = [];
+	for (const sessionId of sessionIds.sort()) {
+		const usage = await getUsageBetween(projectPath, [sessionId], start.getTime(), end.getTime());
+		if (usage.sessionCount === 0) continue;
+
+		rows.push({
+			session_id: sessionId,
+			agent: sessionAgentMap.get(sessionId) ?? null,
+			input_tokens: usage.input_tokens,
+			cache_creation_input_tokens: usage.cache_creation_input_tokens,
+			cache_read_input_tokens: usage.cache_read_input_tokens,
+			output_tokens: usage.output_tokens,
+			total_tokens: usage.total_tokens,
+			cost_usd: usage.cost
+		});
+	}
+	return rows;
+}
+
+/**
+ * Sum session rows per agent (sorted by agent, sessions without an agent last)
+ */
+export function groupByAgent(sessions: SessionExportRow[]): AgentExportRow[] {
+	const byAgent = new Map<string | null, AgentExportRow>();
+	for (const session of sessions) {
+		let row = byAgent.get(session.agent);
+		if (!row) {
+			row = { agent: session.agent, sessions: 0, ...emptyTotals() };
+			byAgent.set(session.agent, row);
+		}
+		row.sessions++;
+		addTotals(row, session);
+	}
+
+	return Array.from(byAgent.values()).sort((a, b) => {
+		if (a.agent === null || b.agent === null) return a.agent === null ? 1 : -1;
+		return a.agent.localeCompare(b.agent);
+	});
+}
+
+/**
+ * Collect usage rows at a level
+ *
+ * @param level - Row granularity
+ * @param options - The getTokenTimeSeries filters (range, from/to, time zone, agent, session, bucket size)
+ * @throws {Error} If options.from/to are invalid (see resolveDateRange)
+ */
+export async function collectUsageExport(level: ExportLevel, options: TimeSeriesOptions = {}): Promise<UsageExport> {
+	const { start, end } = getDateRange(options);
+	const cumulative = options.to === undefined && start.getTime() === 0;
+
+	let rows: UsageExportRow[];
+	if (level === 'bucket') {
+		const series = await getTokenTimeSeries(options);
+		rows = series.data.map(point => ({
+			bucket_start: point.timestamp,
+			input_tokens: point.breakdown?.input ?? 0,
+			cache_creation_input_tokens: point.breakdown?.cache_creation ?? 0,
+			cache_read_input_tokens: point.breakdown?.cache_read ?? 0,
+			output_tokens: point.breakdown?.output ?? 0,
+			total_tokens: point.tokens,
+			cost_usd: point.cost
+		}));
+	} else {
+		const sessions = await collectSessionRows(options, start, end);
+		rows = level === 'agent' ? groupByAgent(sessions) : sessions;
+	}
+
+	return { level, rows, startTime: start.toISOString(), endTime: end.toISOString(), cumulative };
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+function csvField(value: unknown): string {
+	if (value === null || value === undefined) return '';
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV (RFC 4180) with a header row; null values are empty fields
+ */
+export function formatCsv(level: ExportLevel, rows: UsageExportRow[]): string {
+	const columns = EXPORT_COLUMNS[level];
+	const lines = [columns.join(',')];
+	for (const row of rows) {
+		const record = row as unknown as Record<string, unknown>;
+		lines.push(columns.map(column => csvField(record[column])).join(','));
+	}
+	return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * One JSON object per line
+ */
+export function formatJsonLines(rows: UsageExportRow[]): string {
+	return rows.map(row => JSON.stringify(row) + '\n').join('');
+}
+
+function labelValue(value: string | null): string {
+	return (value ?? '').replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Array<[string, string | null]>): string {
+	if (labels.length === 0) return '';
+	return `{${labels.map(([name, value]) => `${name}="${labelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * OpenMetrics text exposition
+ *
+ * Families: jat_tokens (by `type`), jat_cost_usd and, per agent, jat_sessions.
+ * Session rows are labelled with `session` and `agent`, agent rows with
+ * `agent`; bucket rows are unlabelled samples timestamped at the bucket start.
+ */
+export function formatOpenMetrics(usage: UsageExport): string {
+	const lines: string[] = [];
+	const counter = usage.level !== 'bucket' && usage.cumulative;
+	const suffix = counter ? '_total' : '';
+
+	const rowLabels = (row: UsageExportRow): Array<[string, string | null]> => {
+		if ('session_id' in row) return [['session', row.session_id], ['agent', row.agent]];
+		if ('sessions' in row) return [['agent', row.agent]];
+		return [];
+	};
+	const timestamp = (row: UsageExportRow): string =>
+		'bucket_start' in row ? ` ${Date.parse(row.bucket_start) / 1000}` : '';
+
+	lines.push(`# TYPE jat_tokens ${counter ? 'counter' : 'gauge'}`);
+	lines.push('# HELP jat_tokens Claude tokens used, by token type.');
+	for (const [column, type] of TOKEN_TYPES) {
+		for (const row of usage.rows) {
+			const labels = formatLabels([...rowLabels(row), ['type', type]]);
+			lines.push(`jat_tokens${suffix}${labels} ${row[column]}${timestamp(row)}`);
+		}
+	}
+
+	lines.push(`# TYPE jat_cost_usd ${counter ? 'counter' : 'gauge'}`);
+	lines.push('# UNIT jat_cost_usd usd');
+	lines.push('# HELP jat_cost_usd Estimated cost of Claude tokens used.');
+	for (const row of usage.rows) {
+		lines.push(`jat_cost_usd${suffix}${formatLabels(rowLabels(row))} ${row.cost_usd}${timestamp(row)}`);
+	}
+
+	if (usage.level === 'agent') {
+		lines.push('# TYPE jat_sessions gauge');
+		lines.push('# HELP jat_sessions Sessions with usage in the range.');
+		for (const row of usage.rows as AgentExportRow[]) {
+			lines.push(`jat_sessions${formatLabels(rowLabels(row))} ${row.sessions}`);
+		}
+	}
+
+	lines.push('# EOF');
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Write collected usage in a format
+ */
+export function formatUsageExport(usage: UsageExport, format: ExportFormat): string {
+	switch (format) {
+		case 'csv':
+			return formatCsv(usage.level, usage.rows);
+		case 'jsonl':
+			return formatJsonLines(usage.rows);
+		case 'openmetrics':
+			return formatOpenMetrics(usage);
+	}
+}
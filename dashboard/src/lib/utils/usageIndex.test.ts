@@ -0,0 +1,133 @@
+/**
+ * Usage Index Tests
+ *
+ * Tests for byte-offset tailing and queries in usageIndex.ts, against real
+ * files in a temporary directory.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { UsageIndex } from './usageIndex';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const SLUG = '-home-user-code-jat';
+
+function turn(timestamp: string, usage: Record<string, number>, model?: string): string {
+	return JSON.stringify({ type: 'assistant', message: { model, usage }, timestamp }) + '\n';
+}
+
+let tmpDir: string;
+let sessionsDir: string;
+let index: UsageIndex;
+
+beforeEach(() => {
+	tmpDir = mkdtempSync(path.join(os.tmpdir(), 'usage-index-'));
+	sessionsDir = path.join(tmpDir, 'projects', SLUG);
+	mkdirSync(sessionsDir, { recursive: true });
+	index = new UsageIndex(path.join(tmpDir, 'usage.db'), {
+		projectsRoot: path.join(tmpDir, 'projects'),
+		minSyncIntervalMs: 0
+	});
+});
+
+afterEach(() => {
+	index.close();
+	rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Tests: tailing
+// ============================================================================
+
+describe('UsageIndex.sync', () => {
+	it('should only read bytes appended since the last sync', () => {
+		const file = path.join(sessionsDir, 'session-a.jsonl');
+		writeFileSync(file, turn('2025-11-21T10:00:00Z', { input_tokens: 100 }));
+
+		expect(index.sync(SLUG)).toBe(1);
+		expect(index.sync(SLUG)).toBe(0);
+
+		appendFileSync(file, turn('2025-11-21T10:05:00Z', { output_tokens: 50 }));
+		expect(index.sync(SLUG)).toBe(1);
+
+		const usage = index.getSessionUsage(SLUG).get('session-a');
+		expect(usage?.tokens).toEqual({ input: 100, cache_creation: 0, cache_read: 0, output: 50, total: 150 });
+		expect(usage?.timestamp).toBe('2025-11-21T10:05:00Z');
+	});
+
+	it('should leave a partially written line for the next sync', () => {
+		const file = path.join(sessionsDir, 'session-a.jsonl');
+		const line = turn('2025-11-21T10:00:00Z', { input_tokens: 100 });
+		writeFileSync(file, line.slice(0, 20));
+
+		expect(index.sync(SLUG)).toBe(0);
+
+		appendFileSync(file, line.slice(20));
+		expect(index.sync(SLUG)).toBe(1);
+		expect(index.getSessionUsage(SLUG).get('session-a')?.tokens.input).toBe(100);
+	});
+
+	it('should re-read truncated files and forget deleted ones', () => {
+		const file = path.join(sessionsDir, 'session-a.jsonl');
+		writeFileSync(file, turn('2025-11-21T10:00:00Z', { input_tokens: 100 }) + turn('2025-11-21T10:01:00Z', { input_tokens: 100 }));
+		index.sync(SLUG);
+
+		writeFileSync(file, turn('2025-11-21T11:00:00Z', { input_tokens: 7 }));
+		index.sync(SLUG);
+		expect(index.getSessionUsage(SLUG).get('session-a')?.tokens.input).toBe(7);
+
+		rmSync(file);
+		expect(index.getSessionUsage(SLUG).has('session-a')).toBe(false);
+	});
+});
+
+// ============================================================================
+// Tests: queries
+// ============================================================================
+
+describe('UsageIndex queries', () => {
+	beforeEach(() => {
+		writeFileSync(
+			path.join(sessionsDir, 'session-a.jsonl'),
+			turn('2025-12-01T10:10:00Z', { input_tokens: 1_000_000 }, 'claude-opus-4-5-20251101') +
+				'{not json}\n' +
+				turn('2025-12-01T10:40:00Z', { output_tokens: 1_000_000 }, 'claude-haiku-4-5-20251001')
+		);
+		writeFileSync(
+			path.join(sessionsDir, 'session-b.jsonl'),
+			turn('2025-12-01T10:20:00Z', { output_tokens: 1_000_000 })
+		);
+	});
+
+	it('should price sessions per model', () => {
+		const usages = index.getSessionUsage(SLUG, ['session-a', 'missing']);
+
+		expect([...usages.keys()]).toEqual(['session-a']);
+		expect(usages.get('session-a')?.cost).toBeCloseTo(10, 6); // $5 Opus input + $5 Haiku output
+		expect(Object.keys(usages.get('session-a')?.byModel ?? {}).sort()).toEqual([
+			'claude-haiku-4-5-20251001',
+			'claude-opus-4-5-20251101'
+		]);
+	});
+
+	it('should sum usage into time buckets', () => {
+		const startMs = Date.parse('2025-12-01T10:00:00Z');
+		const endMs = Date.parse('2025-12-01T11:00:00Z');
+
+		const buckets = index.getBuckets(SLUG, { startMs, endMs, bucketMs: 30 * 60 * 1000 });
+		expect(buckets.map(b => [new Date(b.bucketMs).toISOString(), b.model, b.cost])).toEqual([
+			['2025-12-01T10:00:00.000Z', 'claude-opus-4-5-20251101', 5],
+			['2025-12-01T10:00:00.000Z', 'unknown', 15],
+			['2025-12-01T10:30:00.000Z', 'claude-haiku-4-5-20251001', 5]
+		]);
+
+		const onlyB = index.getBuckets(SLUG, { sessionIds: ['session-b'], startMs, endMs, bucketMs: 0 });
+		expect(onlyB.map(b => b.bucketMs)).toEqual([Date.parse('2025-12-01T10:20:00Z')]);
+		expect(index.getBuckets(SLUG, { sessionIds: [], startMs, endMs, bucketMs: 0 })).toEqual([]);
+	});
+});
@@ -0,0 +1,462 @@
+/**
+ * Usage Index
+ *
+ * Persistent SQLite index of Claude Code token usage, so tokenUsage.ts and
+ * tokenUsageTimeSeries.ts don't re-parse every session file on each call.
+ *
+ * - Lives next to the Agent Mail DB: ~/.jat-usage.db (override: JAT_USAGE_DB)
+ * - Tails ~/.claude/projects/{slug}/*.jsonl by byte offset: each sync only
+ *   reads what was appended since the last one (a trailing partial line is
+ *   left for the next sync). Truncated or replaced files are re-read.
+ * - Stores one row per turn with usage (model, timestamp, token counts);
+ *   costs are priced at query time, so pricing changes apply retroactively.
+ *
+ * Set JAT_USAGE_INDEX=off to disable the index; callers then fall back to
+ * parsing the JSONL files directly.
+ */
+
+import Database from 'better-sqlite3';
+import { closeSync, openSync, readSync, readdirSync, statSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { addModelUsage, calculateModelCost, UNKNOWN_MODEL } from './modelPricing';
+import type { SessionUsage } from './tokenUsage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Usage summed per bucket and model
+ */
+export interface UsageBucket {
+	/** Bucket start (ms since epoch); the turn's own timestamp when bucketMs is 0 */
+	bucketMs: number;
+	model: string;
+	input_tokens: number;
+	cache_creation_input_tokens: number;
+	cache_read_input_tokens: number;
+	output_tokens: number;
+	cost: number;
+}
+
+export interface BucketQuery {
+	/** Restrict to these sessions (default: all sessions of the project) */
+	sessionIds?: string[];
+	/** Inclusive range (ms since epoch) */
+	startMs: number;
+	endMs: number;
+	/** Bucket width in ms; 0 buckets by exact turn timestamp */
+	bucketMs: number;
+}
+
+interface FileRow {
+	path: string;
+	offset: number;
+	inode: number;
+	last_ts: string | null;
+}
+
+interface TokenRow {
+	model: string;
+	input_tokens: number;
+	cache_creation_input_tokens: number;
+	cache_read_input_tokens: number;
+	output_tokens: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Skip re-syncing a project more often than this (ms) */
+const DEFAULT_MIN_SYNC_INTERVAL_MS = 1000;
+
+/** Read appended data in chunks of this size */
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS files (
+		path TEXT PRIMARY KEY,
+		project_slug TEXT NOT NULL,
+		session_id TEXT NOT NULL,
+		offset INTEGER NOT NULL DEFAULT 0,
+		inode INTEGER NOT NULL DEFAULT 0,
+		last_ts TEXT
+	);
+	CREATE TABLE IF NOT EXISTS turns (
+		id INTEGER PRIMARY KEY,
+		file_path TEXT NOT NULL,
+		project_slug TEXT NOT NULL,
+		session_id TEXT NOT NULL,
+		ts_ms INTEGER,
+		model TEXT NOT NULL,
+		input_tokens INTEGER NOT NULL DEFAULT 0,
+		cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+		cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+		output_tokens INTEGER NOT NULL DEFAULT 0
+	);
+	CREATE INDEX IF NOT EXISTS idx_turns_session ON turns(project_slug, session_id);
+	CREATE INDEX IF NOT EXISTS idx_turns_ts ON turns(project_slug, ts_ms);
+	CREATE INDEX IF NOT EXISTS idx_turns_file ON turns(file_path);
+`;
+
+// ============================================================================
+// Usage Index
+// ============================================================================
+
+export class UsageIndex {
+	private db: Database.Database;
+	private projectsRoot: string;
+	private minSyncIntervalMs: number;
+	private lastSync = new Map<string, number>();
+
+	/**
+	 * @param dbPath - SQLite file (created if missing)
+	 * @param options.projectsRoot - Claude Code projects dir (default ~/.claude/projects)
+	 * @param options.minSyncIntervalMs - Throttle for automatic syncs (default 1s)
+	 */
+	constructor(
+		dbPath: string,
+		options: { projectsRoot?: string; minSyncIntervalMs?: number } = {}
+	) {
+		this.projectsRoot = options.projectsRoot ?? path.join(os.homedir(), '.claude', 'projects');
+		this.minSyncIntervalMs = options.minSyncIntervalMs ?? DEFAULT_MIN_SYNC_INTERVAL_MS;
+
+		this.db = new Database(dbPath);
+		this.db.pragma('journal_mode = WAL');
+		this.db.pragma('busy_timeout = 5000');
+		this.db.exec(SCHEMA);
+	}
+
+	close(): void {
+		this.db.close();
+	}
+
+	/**
+	 * Bring a project's index up to date with its JSONL files
+	 *
+	 * Reads only bytes appended since the last sync. Returns the number of
+	 * turns added.
+	 */
+	sync(projectSlug: string): number {
+		const dir = path.join(this.projectsRoot, projectSlug);
+		let names: string[];
+		try {
+			names = readdirSync(dir).filter(f => f.endsWith('.jsonl'));
+		} catch {
+			names = [];
+		}
+
+		const known = new Map<string, FileRow>();
+		const rows = this.db
+			.prepare('SELECT path, offset, inode, last_ts FROM files WHERE project_slug = ?')
+			.all(projectSlug) as FileRow[];
+		for (const row of rows) {
+			known.set(row.path, row);
+		}
+
+		let added = 0;
+		for (const name of names) {
+			const filePath = path.join(dir, name);
+			known.delete(filePath);
+			added += this.syncFile(projectSlug, name.slice(0, -'.jsonl'.length), filePath);
+		}
+
+		// Files that disappeared take their turns with them
+		for (const filePath of known.keys()) {
+			this.forgetFile(filePath);
+		}
+
+		this.lastSync.set(projectSlug, Date.now());
+		return added;
+	}
+
+	/**
+	 * Usage per session, like parseSessionUsage (agentName left null)
+	 *
+	 * Sessions without a JSONL file are missing from the result.
+	 */
+	getSessionUsage(projectSlug: string, sessionIds?: string[]): Map<string, SessionUsage> {
+		this.syncIfStale(projectSlug);
+
+		const result = new Map<string, SessionUsage>();
+		const files = this.db
+			.prepare('SELECT session_id, last_ts FROM files WHERE project_slug = ?')
+			.all(projectSlug) as Array<{ session_id: string; last_ts: string | null }>;
+
+		const wanted = sessionIds ? new Set(sessionIds) : null;
+		for (const file of files) {
+			if (wanted && !wanted.has(file.session_id)) continue;
+			result.set(file.session_id, {
+				sessionId: file.session_id,
+				agentName: null,
+				timestamp: file.last_ts ?? new Date().toISOString(),
+				tokens: { input: 0, cache_creation: 0, cache_read: 0, output: 0, total: 0 },
+				cost: 0,
+				byModel: {}
+			});
+		}
+
+		// Group by UTC day so each group is priced at the rates effective that day
+		const groups = this.db
+			.prepare(`
+				SELECT session_id, model,
+					CASE WHEN ts_ms IS NULL THEN NULL ELSE date(ts_ms / 1000, 'unixepoch') END AS day,
+					SUM(input_tokens) AS input_tokens,
+					SUM(cache_creation_input_tokens) AS cache_creation_input_tokens,
+					SUM(cache_read_input_tokens) AS cache_read_input_tokens,
+					SUM(output_tokens) AS output_tokens
+				FROM turns
+				WHERE project_slug = ?
+				GROUP BY session_id, model, day
+			`)
+			.all(projectSlug) as Array<TokenRow & { session_id: string; day: string | null }>;
+
+		for (const group of groups) {
+			const usage = result.get(group.session_id);
+			if (!usage) continue;
+
+			const cost = calculateModelCost(group, group.model, group.day);
+			usage.tokens.input += group.input_tokens;
+			usage.tokens.cache_creation += group.cache_creation_input_tokens;
+			usage.tokens.cache_read += group.cache_read_input_tokens;
+			usage.tokens.output += group.output_tokens;
+			usage.tokens.total +=
+				group.input_tokens + group.cache_creation_input_tokens + group.cache_read_input_tokens + group.output_tokens;
+			usage.cost += cost;
+			addModelUsage(usage.byModel, group.model, group, cost);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Usage summed into time buckets (per model), for time series
+	 *
+	 * Turns without a timestamp are left out.
+	 */
+	getBuckets(projectSlug: string, query: BucketQuery): UsageBucket[] {
+		this.syncIfStale(projectSlug);
+
+		const params: Array<string | number> = [];
+		// Parameters bind as REAL; cast so the division truncates
+		const bucketExpr = query.bucketMs > 0 ? '(ts_ms / CAST(? AS INTEGER)) * CAST(? AS INTEGER)' : 'ts_ms';
+		if (query.bucketMs > 0) params.push(query.bucketMs, query.bucketMs);
+		params.push(projectSlug, query.startMs, query.endMs);
+
+		let sessionFilter = '';
+		if (query.sessionIds) {
+			if (query.sessionIds.length === 0) return [];
+			sessionFilter = `AND session_id IN (${query.sessionIds.map(() => '?').join(', ')})`;
+			params.push(...query.sessionIds);
+		}
+
+		const groups = this.db
+			.prepare(`
+				SELECT ${bucketExpr} AS bucket_ms, model,
+					date(ts_ms / 1000, 'unixepoch') AS day,
+					SUM(input_tokens) AS input_tokens,
+					SUM(cache_creation_input_tokens) AS cache_creation_input_tokens,
+					SUM(cache_read_input_tokens) AS cache_read_input_tokens,
+					SUM(output_tokens) AS output_tokens
+				FROM turns
+				WHERE project_slug = ? AND ts_ms BETWEEN ? AND ? ${sessionFilter}
+				GROUP BY bucket_ms, model, day
+				ORDER BY bucket_ms
+			`)
+			.all(...params) as Array<TokenRow & { bucket_ms: number; day: string }>;
+
+		return groups.map(group => ({
+			bucketMs: group.bucket_ms,
+			model: group.model,
+			input_tokens: group.input_tokens,
+			cache_creation_input_tokens: group.cache_creation_input_tokens,
+			cache_read_input_tokens: group.cache_read_input_tokens,
+			output_tokens: group.output_tokens,
+			cost: calculateModelCost(group, group.model, group.day)
+		}));
+	}
+
+	private syncIfStale(projectSlug: string): void {
+		const last = this.lastSync.get(projectSlug) ?? 0;
+		if (Date.now() - last >= this.minSyncIntervalMs) {
+			this.sync(projectSlug);
+		}
+	}
+
+	/**
+	 * Index what was appended to one file since its stored offset
+	 */
+	private syncFile(projectSlug: string, sessionId: string, filePath: string): number {
+		let stat;
+		try {
+			stat = statSync(filePath);
+		} catch {
+			return 0;
+		}
+
+		let row = this.db
+			.prepare('SELECT path, offset, inode, last_ts FROM files WHERE path = ?')
+			.get(filePath) as FileRow | undefined;
+
+		// Truncated or replaced: start over
+		if (row && (stat.size < row.offset || row.inode !== stat.ino)) {
+			this.forgetFile(filePath);
+			row = undefined;
+		}
+
+		const offset = row?.offset ?? 0;
+		if (row && stat.size === offset) return 0;
+
+		const { turns, consumed, lastTs } = readTurns(filePath, offset, stat.size);
+
+		const insertTurn = this.db.prepare(`
+			INSERT INTO turns (file_path, project_slug, session_id, ts_ms, model,
+				input_tokens, cache_creation_input_tokens, cache_read_input_tokens, output_tokens)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const upsertFile = this.db.prepare(`
+			INSERT INTO files (path, project_slug, session_id, offset, inode, last_ts)
+			VALUES (?, ?, ?, ?, ?, ?)
+			ON CONFLICT(path) DO UPDATE SET offset = excluded.offset, inode = excluded.inode, last_ts = excluded.last_ts
+		`);
+
+		this.db.transaction(() => {
+			for (const turn of turns) {
+				insertTurn.run(
+					filePath,
+					projectSlug,
+					sessionId,
+					turn.tsMs,
+					turn.model,
+					turn.input_tokens,
+					turn.cache_creation_input_tokens,
+					turn.cache_read_input_tokens,
+					turn.output_tokens
+				);
+			}
+			upsertFile.run(filePath, projectSlug, sessionId, offset + consumed, stat.ino, lastTs ?? row?.last_ts ?? null);
+		})();
+
+		return turns.length;
+	}
+
+	private forgetFile(filePath: string): void {
+		this.db.transaction(() => {
+			this.db.prepare('DELETE FROM turns WHERE file_path = ?').run(filePath);
+			this.db.prepare('DELETE FROM files WHERE path = ?').run(filePath);
+		})();
+	}
+}
+
+// ============================================================================
+// JSONL Tailing
+// ============================================================================
+
+/**
+ * Parse the turns in bytes [start, end) of a JSONL file
+ *
+ * Only complete lines are consumed; a final line without a newline is
+ * consumed only if it already parses (otherwise it's still being written).
+ *
+ * @returns Turns with usage, bytes consumed, and the last timestamp seen
+ */
+function readTurns(filePath: string, start: number, end: number) {
+	const turns: Array<TokenRow & { tsMs: number | null }> = [];
+	let lastTs: string | null = null;
+	let consumed = 0;
+
+	const handleLine = (line: string): boolean => {
+		if (!line.trim()) return true;
+
+		let entry;
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			return false;
+		}
+
+		if (entry.timestamp) lastTs = entry.timestamp;
+
+		const usage = entry.message?.usage;
+		if (usage) {
+			const ms = entry.timestamp ? new Date(entry.timestamp).getTime() : NaN;
+			turns.push({
+				tsMs: Number.isNaN(ms) ? null : ms,
+				model: entry.message.model || UNKNOWN_MODEL,
+				input_tokens: usage.input_tokens || 0,
+				cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+				cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+				output_tokens: usage.output_tokens || 0
+			});
+		}
+		return true;
+	};
+
+	const fd = openSync(filePath, 'r');
+	try {
+		let pending = Buffer.alloc(0);
+		let position = start;
+
+		while (position < end) {
+			const chunk = Buffer.alloc(Math.min(READ_CHUNK_BYTES, end - position));
+			const bytesRead = readSync(fd, chunk, 0, chunk.length, position);
+			if (bytesRead === 0) break;
+			position += bytesRead;
+
+			pending = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+
+			// Consume complete lines; malformed lines are skipped like the direct parser does
+			let newline;
+			while ((newline = pending.indexOf(0x0a)) !== -1) {
+				handleLine(pending.subarray(0, newline).toString('utf-8'));
+				consumed += newline + 1;
+				pending = pending.subarray(newline + 1);
+			}
+		}
+
+		if (pending.length > 0 && handleLine(pending.toString('utf-8'))) {
+			consumed += pending.length;
+		}
+	} finally {
+		closeSync(fd);
+	}
+
+	return { turns, consumed, lastTs };
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+let sharedIndex: UsageIndex | null | undefined;
+
+/**
+ * Get the shared usage index, or null if it is disabled or can't be opened
+ * (callers then parse JSONL files directly)
+ */
+export function getUsageIndex(): UsageIndex | null {
+	if (sharedIndex !== undefined) return sharedIndex;
+
+	if (process.env.JAT_USAGE_INDEX === 'off') {
+		sharedIndex = null;
+		return sharedIndex;
+	}
+
+	const dbPath = process.env.JAT_USAGE_DB || path.join(os.homedir(), '.jat-usage.db');
+	try {
+		sharedIndex = new UsageIndex(dbPath);
+	} catch (error) {
+		console.warn(`Usage index unavailable (${dbPath}), parsing session files directly:`, error);
+		sharedIndex = null;
+	}
+	return sharedIndex;
+}
+
+/**
+ * Convert a project path to its ~/.claude/projects directory name
+ */
+export function getProjectSlug(projectPath: string): string {
+	return projectPath.replace(/\//g, '-');
+}
@@ -0,0 +1,110 @@
+/**
+ * Weekly Quota Tests
+ *
+ * Tests for projections and getWeeklyQuota in weeklyQuota.ts.
+ * getWeeklyQuota reads the JSONL sessions in fixtures/weekly-quota, copied
+ * into a temporary home directory.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { copyFileSync, mkdirSync, rmSync } from 'fs';
+import * as path from 'path';
+
+const { tmpHome } = vi.hoisted(() => {
+	const fs = require('fs');
+	const nodePath = require('path');
+	const nodeOs = require('os');
+	const tmpHome: string = fs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'weekly-quota-'));
+	process.env.JAT_USAGE_DB = nodePath.join(tmpHome, 'usage.db');
+	return { tmpHome };
+});
+
+// Sessions are read from ~/.claude/projects
+vi.mock('os', async importOriginal => {
+	const actual = await importOriginal<typeof import('os')>();
+	return { ...actual, default: { ...actual, homedir: () => tmpHome }, homedir: () => tmpHome };
+});
+
+import { getWeekWindow } from './dateRange';
+import { getWeeklyQuota, projectLinear, projectTrailing } from './weeklyQuota';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const PROJECT = '/home/user/code/jat';
+const FIXTURES = path.join(__dirname, 'fixtures', 'weekly-quota');
+
+// Wednesday noon, local time (3.5 days into a Sunday week)
+const NOW = new Date(2025, 10, 19, 12, 0);
+
+beforeAll(() => {
+	const sessionsDir = path.join(tmpHome, '.claude', 'projects', '-home-user-code-jat');
+	mkdirSync(sessionsDir, { recursive: true });
+	for (const file of ['session-a.jsonl', 'session-b.jsonl']) {
+		copyFileSync(path.join(FIXTURES, file), path.join(sessionsDir, file));
+	}
+});
+
+afterAll(() => {
+	rmSync(tmpHome, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Tests: projections
+// ============================================================================
+
+describe('projections', () => {
+	it('should extrapolate linearly and from the trailing average', () => {
+		const { start, end } = getWeekWindow(NOW, 0);
+
+		expect(projectLinear(10, start, end, NOW)).toBeCloseTo(20, 6);
+		expect(projectLinear(10, start, end, start)).toBe(10);
+		expect(projectTrailing(10, 2, end, NOW)).toBeCloseTo(17, 6);
+		expect(projectTrailing(10, 2, end, end)).toBe(10);
+	});
+});
+
+// ============================================================================
+// Tests: getWeeklyQuota (fixture sessions)
+// ============================================================================
+
+describe('getWeeklyQuota', () => {
+	it('should sum this week and project the end of the week', async () => {
+		const quota = await getWeeklyQuota([PROJECT], { costLimit: 100 }, NOW);
+
+		// Nov 17 (2M input), Nov 18 (100K output) and Nov 18 23:00Z (500K input)
+		expect(quota.tokensUsed).toBe(2_600_000);
+		expect(quota.costUsd).toBeCloseTo(9, 6);
+		expect(quota.costLimit).toBe(100);
+		expect(quota.tokensLimit).toBeNull();
+		expect(quota.periodStart).toBe(new Date(2025, 10, 16).toISOString());
+		expect(quota.periodEnd).toBe(new Date(2025, 10, 23).toISOString());
+
+		// Linear: 3.5 of 7 days elapsed
+		expect(quota.projections.linear.cost).toBeCloseTo(18, 6);
+		expect(quota.projections.linear.tokens).toBeCloseTo(5_200_000, 0);
+
+		// Trailing: last 7 days also include Nov 13 ($3), so $12 / 7 per remaining day
+		expect(quota.projections.trailing.cost).toBeCloseTo(15, 6);
+		expect(quota.projections.trailing.tokens).toBeCloseTo(4_400_000, 0);
+
+		expect(quota.projection).toBe('trailing');
+		expect(quota.estimatedEndOfWeekCost).toBe(quota.projections.trailing.cost);
+	});
+
+	it('should honour the week start and projection options', async () => {
+		const quota = await getWeeklyQuota([PROJECT], { weekStartDay: 1, projection: 'linear' }, NOW);
+
+		expect(quota.periodStart).toBe(new Date(2025, 10, 17).toISOString());
+		expect(quota.costUsd).toBeCloseTo(9, 6);
+		expect(quota.estimatedEndOfWeekCost).toBeCloseTo(9 * (7 / 2.5), 6);
+	});
+
+	it('should report zero usage for projects without sessions', async () => {
+		const quota = await getWeeklyQuota(['/home/user/code/empty'], {}, NOW);
+
+		expect(quota.tokensUsed).toBe(0);
+		expect(quota.estimatedEndOfWeekCost).toBe(0);
+	});
+});
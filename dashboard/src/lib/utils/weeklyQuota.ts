@@ -0,0 +1,147 @@
+/**
+ * Weekly Quota
+ *
+ * Usage so far this week, from local Claude session JSONL files (the same
+ * source as getSystemUsage), against an optional weekly token/cost limit,
+ * with two projections for the end of the week:
+ * - linear: this week's spend so far, extrapolated over the whole week
+ * - trailing average: spend so far, plus the average daily spend of the last
+ *   few days for each remaining day (steadier early in the week)
+ *
+ * Weeks follow local time and start on a configurable day (default Sunday).
+ */
+
+import { getWeekWindow } from './dateRange';
+import { getAllSessionIds, getUsageBetween } from './tokenUsage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WeeklyProjection = 'linear' | 'trailing';
+
+export interface WeeklyQuotaOptions {
+	/** Day the week starts on (0 = Sunday … 6 = Saturday) */
+	weekStartDay: number;
+	tokensLimit: number | null;
+	costLimit: number | null;
+	/** Days averaged by the trailing projection */
+	trailingDays: number;
+	/** Projection reported as estimatedEndOfWeekCost */
+	projection: WeeklyProjection;
+}
+
+export interface ProjectedUsage {
+	tokens: number;
+	cost: number;
+}
+
+export interface WeeklyQuota {
+	tokensUsed: number;
+	tokensLimit: number | null;
+	costUsd: number;
+	costLimit: number | null;
+	/** ISO 8601, start of the week */
+	periodStart: string;
+	/** ISO 8601, start of the next week */
+	periodEnd: string;
+	estimatedEndOfWeekCost: number;
+	estimatedEndOfWeekTokens: number;
+	projection: WeeklyProjection;
+	projections: {
+		linear: ProjectedUsage;
+		trailing: ProjectedUsage;
+	};
+}
+
+export const DEFAULT_WEEKLY_QUOTA_OPTIONS: WeeklyQuotaOptions = {
+	weekStartDay: 0,
+	tokensLimit: null,
+	costLimit: null,
+	trailingDays: 7,
+	projection: 'trailing'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Projections
+// ============================================================================
+
+/**
+ * Extrapolate usage so far over the whole window
+ */
+export function projectLinear(used: number, start: Date, end: Date, now: Date): number {
+	const elapsed = now.getTime() - start.getTime();
+	if (elapsed <= 0) return used;
+	return used * ((end.getTime() - start.getTime()) / elapsed);
+}
+
+/**
+ * Add the trailing daily average for the rest of the window to usage so far
+ */
+export function projectTrailing(used: number, dailyAverage: number, end: Date, now: Date): number {
+	const remainingDays = Math.max(0, end.getTime() - now.getTime()) / DAY_MS;
+	return used + dailyAverage * remainingDays;
+}
+
+// ============================================================================
+// Weekly Quota
+// ============================================================================
+
+/**
+ * Compute this week's usage and projections across projects
+ *
+ * Input: Project paths (all their sessions count, with or without an agent)
+ * Output: WeeklyQuota
+ * State: Read-only, answered from the usage index (or the JSONL files)
+ */
+export async function getWeeklyQuota(
+	projectPaths: string[],
+	options: Partial<WeeklyQuotaOptions> = {},
+	now: Date = new Date()
+): Promise<WeeklyQuota> {
+	const config = { ...DEFAULT_WEEKLY_QUOTA_OPTIONS, ...options };
+	const { start, end } = getWeekWindow(now, config.weekStartDay);
+	const trailingStart = now.getTime() - config.trailingDays * DAY_MS;
+
+	const week: ProjectedUsage = { tokens: 0, cost: 0 };
+	const trailing: ProjectedUsage = { tokens: 0, cost: 0 };
+
+	for (const projectPath of projectPaths) {
+		const sessionIds = await getAllSessionIds(projectPath);
+		if (sessionIds.length === 0) continue;
+
+		const weekUsage = await getUsageBetween(projectPath, sessionIds, start.getTime(), now.getTime());
+		week.tokens += weekUsage.total_tokens;
+		week.cost += weekUsage.cost;
+
+		const trailingUsage = await getUsageBetween(projectPath, sessionIds, trailingStart, now.getTime());
+		trailing.tokens += trailingUsage.total_tokens;
+		trailing.cost += trailingUsage.cost;
+	}
+
+	const projections = {
+		linear: {
+			tokens: projectLinear(week.tokens, start, end, now),
+			cost: projectLinear(week.cost, start, end, now)
+		},
+		trailing: {
+			tokens: projectTrailing(week.tokens, trailing.tokens / config.trailingDays, end, now),
+			cost: projectTrailing(week.cost, trailing.cost / config.trailingDays, end, now)
+		}
+	};
+
+	return {
+		tokensUsed: week.tokens,
+		tokensLimit: config.tokensLimit,
+		costUsd: week.cost,
+		costLimit: config.costLimit,
+		periodStart: start.toISOString(),
+		periodEnd: end.toISOString(),
+		estimatedEndOfWeekCost: projections[config.projection].cost,
+		estimatedEndOfWeekTokens: projections[config.projection].tokens,
+		projection: config.projection,
+		projections
+	};
+}
@@ -0,0 +1,12 @@
+/**
+ * Root layout data
+ * Sends the project registry (names, paths, task ID prefixes and colors) to
+ * the client once per page load; see $lib/utils/projectUtils.ts.
+ */
+
+import { getProjectRegistry } from '$lib/server/beads.js';
+
+/** @type {import('./$types').LayoutServerLoad} */
+export function load() {
+	return { projects: getProjectRegistry() };
+}
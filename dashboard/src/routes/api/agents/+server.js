@@ -4,7 +4,9 @@
  * GET /api/agents              → Simple agent list (lightweight, for dropdowns/lists)
  * GET /api/agents?full=true    → Full orchestration data (agents + tasks + reservations + stats + activities)
  * GET /api/agents?orchestration=true → Alias for full orchestration data
- * GET /api/agents?usage=true   → Include token usage data for each agent
+ * GET /api/agents?usage=true   → Include token usage data (with per-model cost) for each agent
+ *                                (add &tz=<IANA zone> for "today"/"week" in that time zone)
+ * GET /api/agents?full=true&since=<cursor> → Only what changed since an earlier response
  * POST /api/agents             → Assign task to agent (body: { taskId, agentName })
  *
  * Each agent in full mode includes an 'activities' array with recent Beads task history:
@@ -12,19 +14,30 @@
  * - preview: task status update (e.g., "[jat-abc] Completed: Task title")
  * - content: task description
  * - type: 'urgent' | 'action_required' | 'message' (based on task status)
+ *
+ * Each agent also carries `status` (live/working/active/idle/offline, see
+ * $lib/utils/agentStatus.ts) and `status_since` (ISO 8601, or null if unknown).
+ *
+ * Full responses carry a `cursor` (also sent as the ETag). Passing it back as
+ * `since` returns `{ delta: true, agents, tasks, reservations, removed }` with
+ * only changed items plus tombstones (removed agent names, task IDs and
+ * reservation IDs); derived fields (task_stats, unassigned_tasks, ...) are
+ * left to the client. Unknown cursors get a full response. Sending the ETag
+ * as If-None-Match returns 304 when nothing changed.
  */
 
 import { json } from '@sveltejs/kit';
-import { getAgents, getReservations, getBeadsActivities } from '$lib/server/agent-mail.js';
-import { getTasks } from '$lib/server/beads.js';
+import { getAgents, getReservations } from '$lib/server/agent-mail.js';
+import { getTasks, getProjectFromTaskId } from '$lib/server/beads.js';
+import { buildAgentStats } from '$lib/server/orchestration.js';
+import { registerPayload, diffSince, etagFor } from '$lib/server/agentsDelta.js';
+import { groupReservationsByAgent, summarizeTasks } from '$lib/utils/agentEvents';
 import { getAllAgentUsage, getHourlyUsage } from '$lib/utils/tokenUsage.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { isValidTimeZone } from '$lib/utils/dateRange';
+import { assignTask, MUTATION_ERROR_STATUS } from '$lib/server/taskMutations.js';
 
 /** @type {import('./$types').RequestHandler} */
-export async function GET({ url }) {
+export async function GET({ url, request }) {
 	// Check if full orchestration data requested
 	const fullData = url.searchParams.get('full') === 'true' ||
 	                 url.searchParams.get('orchestration') === 'true';
@@ -47,14 +60,19 @@ export async function GET({ url }) {
 		const agentFilter = url.searchParams.get('agent');
 		const includeUsage = url.searchParams.get('usage') === 'true';
 		const includeHourly = url.searchParams.get('hourly') === 'true';
+		// Unknown time zones fall back to server local time
+		const tzParam = url.searchParams.get('tz');
+		const tz = tzParam && isValidTimeZone(tzParam) ? tzParam : undefined;
 
 		// Fetch all data sources in parallel for performance
 		// NOTE: Agents and reservations are NOT filtered by project
 		// because agents work across multiple projects. Only tasks are filtered.
+		// Reservations and tasks are filtered after loading, so agent status
+		// still reflects all of an agent's work.
 		const promises = [
 			Promise.resolve(getAgents(null)),  // Show all agents (don't filter by project)
-			Promise.resolve(getReservations(agentFilter, null)),  // Show all reservations
-			Promise.resolve(getTasks({ projectName: projectFilter }))  // Filter tasks only
+			Promise.resolve(getReservations(null, null)),  // Show all reservations
+			Promise.resolve(getTasks({}))  // Filter tasks only (below)
 		];
 
 		const projectPath = process.cwd().replace('/dashboard', '');
@@ -62,8 +80,8 @@ export async function GET({ url }) {
 		// Optionally fetch token usage data
 		if (includeUsage) {
 			promises.push(
-				getAllAgentUsage('today', projectPath),
-				getAllAgentUsage('week', projectPath)
+				getAllAgentUsage('today', projectPath, tz),
+				getAllAgentUsage('week', projectPath, tz)
 			);
 		}
 
@@ -74,123 +92,89 @@ export async function GET({ url }) {
 
 		const results = await Promise.all(promises);
 		const agents = results[0];
-		const reservations = results[1];
-		const tasks = results[2];
+		const allReservations = results[1];
+		const allTasks = results[2];
+		const reservations = agentFilter
+			? allReservations.filter(r => r.agent_name === agentFilter)
+			: allReservations;
+		const tasks = projectFilter
+			? allTasks.filter(t => getProjectFromTaskId(t.id) === projectFilter)
+			: allTasks;
 		const usageToday = includeUsage ? results[3] : null;
 		const usageWeek = includeUsage ? results[4] : null;
 		const hourlyUsage = includeHourly ? results[includeUsage ? 5 : 3] : null;
 
 		// Calculate agent statistics
-		const agentStats = agents.map(agent => {
-			// Count reservations per agent
-			const agentReservations = reservations.filter(r => r.agent_name === agent.name);
-
-			// Count tasks assigned to agent
-			const agentTasks = tasks.filter(t => t.assignee === agent.name);
-			const openTasks = agentTasks.filter(t => t.status === 'open').length;
-			const inProgressTasks = agentTasks.filter(t => t.status === 'in_progress').length;
-
-			// Determine if agent is active based on reservations or active tasks
-			const hasActiveReservations = agentReservations.some(r => {
-				const expiresAt = new Date(r.expires_ts);
-				return expiresAt > new Date() && !r.released_ts;
-			});
-
-			// Get recent activities from Beads task history (last 10 task updates)
-			let activities = [];
-			try {
-				activities = getBeadsActivities(agent.name, tasks);
-			} catch (error) {
-				console.error(`Failed to fetch activities for agent ${agent.name}:`, error);
-				// Continue with empty activities array
-			}
-
-			const baseStats = {
-				...agent,
-				reservation_count: agentReservations.length,
-				task_count: agentTasks.length,
-				open_tasks: openTasks,
-				in_progress_tasks: inProgressTasks,
-				active: hasActiveReservations || inProgressTasks > 0,
-				activities: activities
-			};
-
+		const agentStats = buildAgentStats(agents, reservations, tasks, {
+			reservations: allReservations,
+			tasks: allTasks
+		}).map(baseStats => {
 			// Optionally include token usage data
 			if (includeUsage && usageToday && usageWeek) {
-				const todayUsage = usageToday.get(agent.name);
-				const weekUsage = usageWeek.get(agent.name);
+				const todayUsage = usageToday.get(baseStats.name);
+				const weekUsage = usageWeek.get(baseStats.name);
 
 				baseStats.usage = {
 					today: todayUsage ? {
 						total_tokens: todayUsage.total_tokens,
 						cost: todayUsage.cost,
-						sessionCount: todayUsage.sessionCount
-					} : { total_tokens: 0, cost: 0, sessionCount: 0 },
+						sessionCount: todayUsage.sessionCount,
+						byModel: todayUsage.byModel
+					} : { total_tokens: 0, cost: 0, sessionCount: 0, byModel: {} },
 					week: weekUsage ? {
 						total_tokens: weekUsage.total_tokens,
 						cost: weekUsage.cost,
-						sessionCount: weekUsage.sessionCount
-					} : { total_tokens: 0, cost: 0, sessionCount: 0 }
+						sessionCount: weekUsage.sessionCount,
+						byModel: weekUsage.byModel
+					} : { total_tokens: 0, cost: 0, sessionCount: 0, byModel: {} }
 				};
 			}
 
 			return baseStats;
 		});
 
-		// Group reservations by agent for easy lookup
-		const reservationsByAgent = {};
-		reservations.forEach(r => {
-			if (!reservationsByAgent[r.agent_name]) {
-				reservationsByAgent[r.agent_name] = [];
-			}
-			reservationsByAgent[r.agent_name].push(r);
-		});
+		const payload = { agents: agentStats, tasks, reservations };
+		const { cursor, prints } = registerPayload(payload);
+		const headers = { ETag: etagFor(cursor, hourlyUsage) };
 
-		// Calculate task statistics
-		const taskStats = {
-			total: tasks.length,
-			open: tasks.filter(t => t.status === 'open').length,
-			in_progress: tasks.filter(t => t.status === 'in_progress').length,
-			blocked: tasks.filter(t => t.status === 'blocked').length,
-			closed: tasks.filter(t => t.status === 'closed').length,
-			by_priority: {
-				p0: tasks.filter(t => t.priority === 0).length,
-				p1: tasks.filter(t => t.priority === 1).length,
-				p2: tasks.filter(t => t.priority === 2).length,
-				p3: tasks.filter(t => t.priority === 3).length,
-				p4: tasks.filter(t => t.priority === 4).length
-			}
-		};
+		// Client already has exactly this data
+		if (request.headers.get('if-none-match') === headers.ETag) {
+			return new Response(null, { status: 304, headers });
+		}
 
-		// Find tasks with dependencies for visualization
-		const tasksWithDeps = tasks.filter(t =>
-			(t.depends_on && t.depends_on.length > 0) ||
-			(t.blocked_by && t.blocked_by.length > 0)
-		);
+		const meta = {
+			poll_interval_ms: 3000, // Recommended poll interval for frontend
+			data_sources: ['agent-mail', 'beads'],
+			cache_ttl_ms: 2000 // Data freshness guarantee
+		};
 
-		// Find unassigned tasks (ready for assignment)
-		const unassignedTasks = tasks.filter(t =>
-			!t.assignee && t.status === 'open'
-		);
+		// Only changes since the client's cursor (null if the cursor was evicted)
+		const since = url.searchParams.get('since');
+		const delta = since ? diffSince(since, payload, prints) : null;
+		if (delta) {
+			return json({
+				delta: true,
+				since,
+				cursor,
+				...delta,
+				hourlyUsage: hourlyUsage,
+				timestamp: new Date().toISOString(),
+				meta
+			}, { headers });
+		}
 
 		// Return unified orchestration data
 		return json({
 			agents: agentStats,
 			reservations,
-			reservations_by_agent: reservationsByAgent,
+			reservations_by_agent: groupReservationsByAgent(reservations),
 			tasks: tasks, // Return all tasks (frontend handles pagination/filtering)
-			unassigned_tasks: unassignedTasks,
-			task_stats: taskStats,
-			tasks_with_deps_count: tasksWithDeps.length,
-			tasks_with_deps: tasksWithDeps,
+			...summarizeTasks(tasks),
 			hourlyUsage: hourlyUsage, // Raw hourly token usage (last 24 hours)
+			cursor,
 			timestamp: new Date().toISOString(),
-			meta: {
-				poll_interval_ms: 3000, // Recommended poll interval for frontend
-				data_sources: ['agent-mail', 'beads'],
-				cache_ttl_ms: 2000 // Data freshness guarantee
-			}
-		});
+			meta
+		}, { headers });
 	} catch (error) {
 		console.error('Error fetching agent data:', error);
 		console.error('Error stack:', error.stack);
@@ -221,69 +205,50 @@ export async function GET({ url }) {
 
 /** @type {import('./$types').RequestHandler} */
 export async function POST({ request }) {
+	/** @type {{taskId?: unknown, agentName?: unknown}} */
+	let body;
 	try {
-		const { taskId, agentName } = await request.json();
-
-		// Validate input
-		if (!taskId || !agentName) {
-			return json({
-				error: 'Missing required fields',
-				message: 'Both taskId and agentName are required'
-			}, { status: 400 });
-		}
-
-		// Validate task ID format (project-xxx)
-		if (!/^[a-z]+-[a-z0-9]{3}$/.test(taskId)) {
-			return json({
-				error: 'Invalid task ID format',
-				message: 'Task ID must be in format: project-xxx (e.g., jat-abc)'
-			}, { status: 400 });
-		}
-
-		// Verify task exists before assigning
-		try {
-			const { stdout } = await execAsync(`bd show "${taskId}" --json`);
-			const taskData = JSON.parse(stdout);
-			if (!taskData || taskData.length === 0) {
-				return json({
-					error: 'Task not found',
-					message: `Task ${taskId} does not exist`
-				}, { status: 404 });
-			}
-		} catch (error) {
-			return json({
-				error: 'Task not found',
-				message: `Task ${taskId} does not exist or could not be retrieved`
-			}, { status: 404 });
-		}
+		body = await request.json();
+	} catch (error) {
+		return json({
+			error: 'Invalid request',
+			message: 'Failed to parse request body'
+		}, { status: 400 });
+	}
+	const { taskId, agentName } = body ?? {};
 
-		// Assign task to agent using bd CLI
-		try {
-			const { stdout, stderr } = await execAsync(
-				`bd update "${taskId}" --assignee "${agentName}"`
-			);
+	// Validate input
+	if (typeof taskId !== 'string' || typeof agentName !== 'string' || !taskId || !agentName.trim()) {
+		return json({
+			error: 'Missing required fields',
+			message: 'Both taskId and agentName are required'
+		}, { status: 400 });
+	}
 
-			// Get updated task data
-			const { stdout: updatedTaskJson } = await execAsync(`bd show "${taskId}" --json`);
-			const updatedTask = JSON.parse(updatedTaskJson);
+	// Validate task ID format (project-xxx)
+	if (!/^[a-z]+-[a-z0-9]{3}$/.test(taskId)) {
+		return json({
+			error: 'Invalid task ID format',
+			message: 'Task ID must be in format: project-xxx (e.g., jat-abc)'
+		}, { status: 400 });
+	}
 
-			return json({
-				success: true,
-				message: `Task ${taskId} assigned to ${agentName}`,
-				task: updatedTask[0]
-			});
-		} catch (error) {
-			console.error('Failed to assign task:', error);
-			return json({
-				error: 'Failed to assign task',
-				message: error.message || 'Unknown error occurred'
-			}, { status: 500 });
+	// Assign task to agent (bd update in the task's project, see $lib/server/taskMutations.js)
+	const result = await assignTask(taskId, agentName.trim());
+	if (!result.ok) {
+		if (result.error.code !== 'not_found') {
+			console.error('Failed to assign task:', result.error.message);
 		}
-	} catch (error) {
-		console.error('Error in POST /api/agents:', error);
 		return json({
-			error: 'Invalid request',
-			message: error.message || 'Failed to parse request body'
-		}, { status: 400 });
+			error: result.error.code === 'not_found' ? 'Task not found' : 'Failed to assign task',
+			message: result.error.message,
+			type: result.error.code
+		}, { status: MUTATION_ERROR_STATUS[result.error.code] });
 	}
+
+	return json({
+		success: true,
+		message: `Task ${taskId} assigned to ${agentName.trim()}`,
+		task: result.task
+	});
 }
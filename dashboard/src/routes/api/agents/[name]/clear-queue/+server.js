@@ -3,15 +3,12 @@
  * POST /api/agents/[name]/clear-queue
  *
  * Unassigns all open tasks from the agent using bd update
+ * (see $lib/server/taskMutations.js)
  */
 
 import { json } from '@sveltejs/kit';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { getProjectPath } from '$lib/utils/projectUtils.js';
 import { getTasks } from '$lib/server/beads.js';
-
-const execAsync = promisify(exec);
+import { assignTask } from '$lib/server/taskMutations.js';
 
 /** @type {import('./$types').RequestHandler} */
 export async function POST({ params }) {
@@ -26,57 +23,57 @@ export async function POST({ params }) {
 		}
 
 		// Get all tasks from all projects and filter to this agent's open tasks
-		try {
-			const allTasks = getTasks({ status: 'open' });
-
-			// Filter to tasks assigned to this agent
-			const agentTasks = allTasks.filter(
-				(t) => t.assignee === agentName
-			);
-
-			if (agentTasks.length === 0) {
-				return json({
-					success: true,
-					agentName,
-					message: 'No open tasks to clear',
-					clearedCount: 0,
-					timestamp: new Date().toISOString()
-				});
-			}
+		const allTasks = /** @type {any[]} */ (getTasks({ status: 'open' }));
 
-			// Unassign each task using its project-specific path
-			const updatePromises = agentTasks.map((task) => {
-				const projectPath = getProjectPath(task.id);
-				if (!projectPath) {
-					throw new Error(`Could not determine project path for task ${task.id}`);
-				}
-				return execAsync(`bd update ${task.id} --assignee ""`, { cwd: projectPath });
-			});
-
-			await Promise.all(updatePromises);
+		// Filter to tasks assigned to this agent
+		const agentTasks = allTasks.filter(
+			(t) => t.assignee === agentName
+		);
 
+		if (agentTasks.length === 0) {
 			return json({
 				success: true,
 				agentName,
-				message: `Cleared ${agentTasks.length} tasks from ${agentName}'s queue`,
-				clearedCount: agentTasks.length,
-				clearedTasks: agentTasks.map((t) => t.id),
+				message: 'No open tasks to clear',
+				clearedCount: 0,
 				timestamp: new Date().toISOString()
 			});
-		} catch (execError) {
-			console.error('clear-queue error:', execError);
+		}
 
+		// Unassign each task (bd runs in the task's own project)
+		const results = await Promise.all(agentTasks.map((task) => assignTask(task.id, null)));
+
+		const clearedTasks = agentTasks.filter((_, i) => results[i].ok).map((t) => t.id);
+		const errors = agentTasks.flatMap((task, i) => {
+			const { error } = results[i];
+			return error ? [{ taskId: task.id, code: error.code, message: error.message }] : [];
+		});
+
+		if (errors.length > 0) {
+			console.error('clear-queue errors:', errors);
 			return json({
 				error: 'Failed to clear queue',
-				message: execError.stderr || execError.message,
-				agentName
+				message: `Could not unassign ${errors.length} of ${agentTasks.length} tasks`,
+				agentName,
+				clearedCount: clearedTasks.length,
+				clearedTasks,
+				errors
 			}, { status: 500 });
 		}
+
+		return json({
+			success: true,
+			agentName,
+			message: `Cleared ${agentTasks.length} tasks from ${agentName}'s queue`,
+			clearedCount: agentTasks.length,
+			clearedTasks,
+			timestamp: new Date().toISOString()
+		});
 	} catch (error) {
 		console.error('Error in POST /api/agents/[name]/clear-queue:', error);
 		return json({
 			error: 'Internal server error',
-			message: error.message
+			message: /** @type {Error} */ (error).message
 		}, { status: 500 });
 	}
 }
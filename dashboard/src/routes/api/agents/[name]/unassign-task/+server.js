@@ -3,14 +3,12 @@
  * POST /api/agents/[name]/unassign-task
  *
  * Unassigns a specific task from the agent using bd update
+ * (see $lib/server/taskMutations.js)
  */
 
 import { json } from '@sveltejs/kit';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { getProjectPath } from '$lib/utils/projectUtils.js';
-
-const execAsync = promisify(exec);
+import { getTaskById } from '$lib/server/beads.js';
+import { assignTask, MUTATION_ERROR_STATUS } from '$lib/server/taskMutations.js';
 
 /** @type {import('./$types').RequestHandler} */
 export async function POST({ params, request }) {
@@ -18,74 +16,57 @@ export async function POST({ params, request }) {
 		const agentName = params.name;
 		const { taskId } = await request.json();
 
-		if (!agentName || !taskId) {
+		if (!agentName || !taskId || typeof taskId !== 'string') {
 			return json({
 				error: 'Missing required fields',
 				message: 'Agent name and task ID are required'
 			}, { status: 400 });
 		}
 
-		// Determine project path from task ID
-		const projectPath = getProjectPath(taskId);
-		if (!projectPath) {
+		// Verify task exists and is assigned to this agent
+		const task = /** @type {any} */ (getTaskById(taskId));
+		if (!task) {
 			return json({
-				error: 'Invalid task ID',
-				message: `Could not determine project for task ${taskId}`,
+				error: 'Task not found',
+				message: `Task ${taskId} does not exist`,
 				taskId
-			}, { status: 400 });
+			}, { status: 404 });
 		}
 
-		// Verify task exists and is assigned to this agent
-		const showCommand = `bd show ${taskId} --json`;
-
-		try {
-			const { stdout } = await execAsync(showCommand, { cwd: projectPath });
-			const task = JSON.parse(stdout.trim());
-
-			if (task.assignee !== agentName) {
-				return json({
-					error: 'Task not assigned to agent',
-					message: `Task ${taskId} is not assigned to ${agentName}`,
-					agentName,
-					taskId
-				}, { status: 400 });
-			}
-
-			// Unassign the task
-			const updateCommand = `bd update ${taskId} --assignee ""`;
-			await execAsync(updateCommand, { cwd: projectPath });
-
+		if (task.assignee !== agentName) {
 			return json({
-				success: true,
+				error: 'Task not assigned to agent',
+				message: `Task ${taskId} is not assigned to ${agentName}`,
 				agentName,
-				taskId,
-				message: `Task ${taskId} unassigned from ${agentName}`,
-				timestamp: new Date().toISOString()
-			});
-		} catch (execError) {
-			console.error('unassign-task error:', execError);
-
-			// Check if task not found
-			if (execError.stderr?.includes('not found')) {
-				return json({
-					error: 'Task not found',
-					message: `Task ${taskId} does not exist`,
-					taskId
-				}, { status: 404 });
-			}
+				taskId
+			}, { status: 400 });
+		}
 
+		// Unassign the task
+		const result = await assignTask(taskId, null);
+		if (!result.ok) {
+			console.error('unassign-task error:', result.error.message);
 			return json({
 				error: 'Failed to unassign task',
-				message: execError.stderr || execError.message,
+				message: result.error.message,
+				type: result.error.code,
 				agentName,
 				taskId
-			}, { status: 500 });
+			}, { status: MUTATION_ERROR_STATUS[result.error.code] });
 		}
+
+		return json({
+			success: true,
+			agentName,
+			taskId,
+			message: `Task ${taskId} unassigned from ${agentName}`,
+			timestamp: new Date().toISOString()
+		});
 	} catch (error) {
 		console.error('Error in POST /api/agents/[name]/unassign-task:', error);
 		return json({
 			error: 'Internal server error',
-			message: error.message
+			message: /** @type {Error} */ (error).message
 		}, { status: 500 });
 	}
 }
@@ -5,11 +5,14 @@
  *
  * Query parameters:
  * - range: 'today' | 'week' | 'all' (default: 'all')
+ * - from / to: Explicit range instead of `range` (ISO 8601 date-time, or
+ *   YYYY-MM-DD for the start / end of that day in `tz`); either may be omitted
+ * - tz: IANA time zone for 'today' and bare dates (default: server local)
  *
  * Response:
  * {
  *   agent: string,
- *   range: string,
+ *   range: string | { from?: string, to?: string },
  *   usage: {
  *     input_tokens: number,
  *     cache_creation_input_tokens: number,
@@ -26,6 +29,7 @@
 
 import { json } from '@sveltejs/kit';
 import { getAgentUsage } from '$lib/utils/tokenUsage';
+import { isValidTimeZone, resolveDateRange } from '$lib/utils/dateRange';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -38,6 +42,9 @@ const CACHE_TTL = 60 * 1000; // 1 minute
 /** @type {import('./$types').RequestHandler} */
 export async function GET({ params, url }) {
 	const agentName = params.name;
+	const from = url.searchParams.get('from') || undefined;
+	const to = url.searchParams.get('to') || undefined;
+	const tz = url.searchParams.get('tz') || undefined;
 	const range = url.searchParams.get('range') || 'all';
 
 	// Validate range parameter
@@ -50,8 +57,26 @@ export async function GET({ params, url }) {
 		);
 	}
 
+	if (tz && !isValidTimeZone(tz)) {
+		return json({ error: `Invalid tz parameter. Unknown time zone: ${tz}` }, { status: 400 });
+	}
+
+	if (from || to) {
+		try {
+			resolveDateRange({ from, to }, tz);
+		} catch (rangeError) {
+			return json(
+				{ error: `Invalid from/to parameters. ${rangeError instanceof Error ? rangeError.message : rangeError}` },
+				{ status: 400 }
+			);
+		}
+	}
+
+	// Explicit from/to takes precedence over the preset range
+	const timeRange = from || to ? { from, to } : range;
+
 	// Check cache
-	const cacheKey = `${agentName}:${range}`;
+	const cacheKey = `${agentName}:${JSON.stringify(timeRange)}:${tz ?? ''}`;
 	const cached = cache.get(cacheKey);
 	if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
 		return json({
@@ -80,11 +105,11 @@ export async function GET({ params, url }) {
 		const projectPath = process.cwd().replace('/dashboard', '');
 
 		// Get token usage for agent
-		const usage = await getAgentUsage(agentName, range, projectPath);
+		const usage = await getAgentUsage(agentName, timeRange, projectPath, tz);
 
 		const response = {
 			agent: agentName,
-			range,
+			range: timeRange,
 			usage: {
 				input_tokens: usage.input_tokens,
 				cache_creation_input_tokens: usage.cache_creation_input_tokens,
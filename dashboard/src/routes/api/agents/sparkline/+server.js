@@ -2,14 +2,19 @@
  * Sparkline API Endpoint with Caching
  *
  * GET /api/agents/sparkline?range=24h&agent=AgentName&session=sessionId
+ * GET /api/agents/sparkline?from=2025-11-01&to=2025-11-30&bucketSize=day&tz=Europe/Berlin
  *
  * Returns time-series token usage data for sparkline visualization.
  *
  * Query Parameters:
  * - range: Time range (24h | 7d | all) - defaults to 24h
+ * - from / to: Explicit range instead of `range` (ISO 8601 date-time, or
+ *   YYYY-MM-DD for the start / end of that day in `tz`); either may be omitted
+ * - tz: IANA time zone for bucket boundaries and bare dates (default: server local)
  * - agent: Agent name filter (optional)
  * - session: Session ID filter (optional)
- * - bucketSize: Time bucket size (30min | hour | session) - defaults to 30min
+ * - bucketSize: Time bucket size (30min | hour | day | week | session) - defaults to 30min
+ *   (weeks start on JAT_WEEK_START, default Sunday)
  *
  * Response Format:
  * {
@@ -20,6 +25,7 @@
  *   bucketSize: string,
  *   startTime: string,
  *   endTime: string,
+ *   timeZone: string | null,
  *   cached: boolean,
  *   cacheAge: number
  * }
@@ -27,12 +33,14 @@
  * Caching:
  * - 30-second TTL per unique query combination
  * - In-memory Map-based cache
- * - Cache key: `${range}-${agent}-${session}-${bucketSize}`
+ * - Cache key: `${range}-${from}-${to}-${tz}-${agent}-${session}-${bucketSize}`
  * - Performance: <5ms (cache hit), <100ms (cache miss)
  */
 
 import { json } from '@sveltejs/kit';
 import { getTokenTimeSeries } from '$lib/utils/tokenUsageTimeSeries.js';
+import { getWeekStartDay } from '$lib/server/budgets.js';
+import { parseUsageFilters } from '$lib/server/usageFilters.js';
 
 // ============================================================================
 // In-Memory Cache
@@ -47,7 +55,7 @@ import { getTokenTimeSeries } from '$lib/utils/tokenUsageTimeSeries.js';
 
 /**
  * In-memory cache for sparkline data
- * Key format: `${range}-${agent}-${session}-${bucketSize}`
+ * Key format: `${range}-${from}-${to}-${tz}-${agent}-${session}-${bucketSize}`
  * @type {Map<string, CacheEntry>}
  */
 const cache = new Map();
@@ -98,14 +106,17 @@ function setCache(key, data) {
  *
  * @param {Object} params - Query parameters
  * @param {string} [params.range] - Time range
+ * @param {string} [params.from] - Explicit range start
+ * @param {string} [params.to] - Explicit range end
+ * @param {string} [params.tz] - Time zone
  * @param {string} [params.agent] - Agent name
  * @param {string} [params.session] - Session ID
  * @param {string} [params.bucketSize] - Bucket size
  * @returns {string} Cache key
  */
 function getCacheKey(params) {
-	const { range = '24h', agent = '', session = '', bucketSize = '30min' } = params;
-	return `${range}-${agent}-${session}-${bucketSize}`;
+	const { range = '24h', from = '', to = '', tz = '', agent = '', session = '', bucketSize = '30min' } = params;
+	return `${range}-${from}-${to}-${tz}-${agent}-${session}-${bucketSize}`;
 }
 
 // ============================================================================
@@ -115,37 +126,15 @@ function getCacheKey(params) {
 /** @type {import('./$types').RequestHandler} */
 export async function GET({ url }) {
 	try {
-		// Extract query parameters
-		const range = url.searchParams.get('range') || '24h';
-		const agentName = url.searchParams.get('agent') || undefined;
-		const sessionId = url.searchParams.get('session') || undefined;
-		const bucketSize = url.searchParams.get('bucketSize') || '30min';
-
-		// Validate parameters
-		if (!['24h', '7d', 'all'].includes(range)) {
-			return json(
-				{
-					error: 'Invalid range parameter',
-					message: 'Range must be: 24h, 7d, or all',
-					validValues: ['24h', '7d', 'all']
-				},
-				{ status: 400 }
-			);
-		}
-
-		if (!['30min', 'hour', 'session'].includes(bucketSize)) {
-			return json(
-				{
-					error: 'Invalid bucketSize parameter',
-					message: 'Bucket size must be: 30min, hour, or session',
-					validValues: ['30min', 'hour', 'session']
-				},
-				{ status: 400 }
-			);
+		// Extract and validate query parameters
+		const parsed = parseUsageFilters(url.searchParams);
+		if (parsed.error) {
+			return json(parsed.error, { status: 400 });
 		}
+		const { range, from, to, tz, agentName, sessionId, bucketSize } = parsed.filters;
 
 		// Generate cache key
-		const cacheKey = getCacheKey({ range, agent: agentName, session: sessionId, bucketSize });
+		const cacheKey = getCacheKey({ range, from, to, tz, agent: agentName, session: sessionId, bucketSize });
 
 		// Check cache
 		const cached = getCached(cacheKey);
@@ -169,6 +158,10 @@ export async function GET({ url }) {
 
 		const result = await getTokenTimeSeries({
 			range,
+			from,
+			to,
+			timeZone: tz,
+			weekStartDay: getWeekStartDay(),
 			agentName,
 			sessionId,
 			bucketSize,
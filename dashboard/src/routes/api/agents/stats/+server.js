@@ -1,85 +1,49 @@
 import { json } from '@sveltejs/kit';
-import { execSync } from 'child_process';
+import { getAgents, getReservations } from '$lib/server/agent-mail.js';
+import { getTasks } from '$lib/server/beads.js';
+import { buildAgentStats } from '$lib/server/orchestration.js';
+import { getStatusThresholds, getStatusTransitions } from '$lib/server/agentStatus.js';
+import { countByStatus } from '$lib/utils/agentStatus';
 
 /**
  * API endpoint for fetching agent statistics
  *
- * Returns agent status breakdown from Agent Mail + Beads
+ * Returns agent status breakdown from Agent Mail + Beads, using the same
+ * status as /api/agents (see $lib/utils/agentStatus.ts)
  *
  * Response format:
  * {
  *   total: number,
- *   working: number,    // Agents with in_progress tasks
- *   idle: number,       // Agents with no tasks, active <24h
- *   offline: number,    // Agents inactive >24h
+ *   working: number,    // Agents with in_progress tasks or file locks
+ *   idle: number,       // Live, active or idle agents without work
+ *   offline: number,    // Agents inactive past the idle threshold
+ *   by_status: { live, working, active, idle, offline },
+ *   agents: [{ name, status, status_since, transitions: [{ from, to, at }] }],
+ *   thresholds: { liveMs, activeMs, idleMs },
  *   lastUpdate: ISO date string
  * }
  */
-export async function GET({ url }) {
+export async function GET() {
 	try {
-		// Get all tasks from Beads
-		const tasksJson = execSync('bd list --json', {
-			encoding: 'utf-8',
-			cwd: process.env.HOME + '/code/jat'
-		});
-		const tasks = JSON.parse(tasksJson);
-
-		// Get all agents from Agent Mail
-		const agentsOutput = execSync('am-agents', {
-			encoding: 'utf-8',
-			cwd: process.env.HOME + '/code/jat'
-		});
-
-		// Parse agent list (format: "AgentName <program> last_active_minutes_ago")
-		const agentLines = agentsOutput
-			.split('\n')
-			.filter((line) => line.trim() && !line.startsWith('Agent') && !line.startsWith('==='));
-
-		const registeredAgents = new Set();
-		const agentLastActive = new Map();
-
-		agentLines.forEach((line) => {
-			const parts = line.trim().split(/\s+/);
-			if (parts.length >= 3) {
-				const agentName = parts[0];
-				const minutesAgo = parseInt(parts[2]) || 0;
-				registeredAgents.add(agentName);
-				agentLastActive.set(agentName, minutesAgo);
-			}
-		});
-
-		// Find agents with in_progress tasks
-		const workingAgents = new Set();
-		tasks.forEach((task) => {
-			if (task.status === 'in_progress' && task.assignee) {
-				workingAgents.add(task.assignee);
-			}
-		});
+		const reservations = getReservations(null, null);
+		const tasks = getTasks({});
+		const agents = buildAgentStats(getAgents(null), reservations, tasks);
 
-		// Categorize agents
-		let working = 0;
-		let idle = 0;
-		let offline = 0;
-
-		registeredAgents.forEach((agent) => {
-			const minutesAgo = agentLastActive.get(agent) || 0;
-
-			if (workingAgents.has(agent)) {
-				working++;
-			} else if (minutesAgo < 24 * 60) {
-				// Active in last 24 hours
-				idle++;
-			} else {
-				// Inactive >24h
-				offline++;
-			}
-		});
+		const byStatus = countByStatus(agents.map(a => a.status));
 
 		return json({
-			total: registeredAgents.size,
-			working,
-			idle,
-			offline,
+			total: agents.length,
+			working: byStatus.working,
+			idle: byStatus.live + byStatus.active + byStatus.idle,
+			offline: byStatus.offline,
+			by_status: byStatus,
+			agents: agents.map(a => ({
+				name: a.name,
+				status: a.status,
+				status_since: a.status_since,
+				transitions: getStatusTransitions(a.name)
+			})),
+			thresholds: getStatusThresholds(),
 			lastUpdate: new Date().toISOString()
 		});
 	} catch (error) {
@@ -91,6 +55,8 @@ export async function GET({ url }) {
 			working: 0,
 			idle: 0,
 			offline: 0,
+			by_status: countByStatus([]),
+			agents: [],
 			lastUpdate: new Date().toISOString()
 		});
 	}
@@ -100,8 +66,7 @@ export async function GET({ url }) {
  * Enhancement ideas for future:
  *
  * 1. Cache results (30-second TTL)
- * 2. Add agent details (names, tasks, time working)
- * 3. Add workload distribution (tasks per agent)
- * 4. Add agent performance metrics (tasks completed today)
- * 5. Add agent availability forecast (based on historical patterns)
+ * 2. Add workload distribution (tasks per agent)
+ * 3. Add agent performance metrics (tasks completed today)
+ * 4. Add agent availability forecast (based on historical patterns)
  */
@@ -0,0 +1,31 @@
+/**
+ * Budgets API Route
+ * Evaluates spend budgets against token usage (and sends alerts for budgets
+ * at 80%/100% as a side effect; see $lib/server/budgets.js)
+ *
+ * Query params:
+ *   refresh - "true" to skip the 30s cache
+ *
+ * Response: { statuses: BudgetStatus[], file: string }
+ *   statuses are most used first; the banner shows those not at level "ok"
+ */
+import { json } from '@sveltejs/kit';
+import { getBudgetStatuses, getBudgetsPath } from '$lib/server/budgets.js';
+
+/** @type {import('./$types').RequestHandler} */
+export async function GET({ url }) {
+	try {
+		const statuses = await getBudgetStatuses({ refresh: url.searchParams.get('refresh') === 'true' });
+		return json({ statuses, file: getBudgetsPath() });
+	} catch (error) {
+		console.error('Error evaluating budgets:', error);
+		return json(
+			{
+				error: 'Failed to evaluate budgets',
+				message: error instanceof Error ? error.message : String(error),
+				file: getBudgetsPath()
+			},
+			{ status: 500 }
+		);
+	}
+}
@@ -4,8 +4,13 @@
  * Returns Claude API usage metrics including:
  * - Subscription tier (from ~/.claude/.credentials.json)
  * - Rate limits for the tier
- * - Session context (placeholder - requires API integration)
- * - Agent metrics (placeholder - requires am-agents integration)
+ * - Session context (estimated from local session files; with
+ *   JAT_RATE_LIMIT_PING=on and ANTHROPIC_API_KEY, refined from the
+ *   rate limit headers of a minimal API request)
+ * - Agent metrics (same statuses as /api/agents, see $lib/utils/agentStatus.ts)
+ * - Burn rate forecast: tokens/hour with confidence intervals, when the
+ *   5-hour window and daily limit run out, and a projection band for the
+ *   sparkline (see $lib/utils/burnRateForecast.ts)
  *
  * Task: jat-sk1 - Claude API usage data fetching
  */
@@ -13,6 +18,23 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
 import { getClaudeUsageMetrics } from '$lib/utils/claudeUsageMetrics';
+import { getAgents, getReservations } from '$lib/server/agent-mail.js';
+import { getTasks } from '$lib/server/beads.js';
+import { buildAgentStats } from '$lib/server/orchestration.js';
+
+/**
+ * Agent statuses as /api/agents computes them, or undefined to let the
+ * utility fall back to am-agents
+ */
+function loadAgentStatuses() {
+	try {
+		return buildAgentStats(getAgents(null), getReservations(null, null), getTasks({}))
+			.map(a => a.status);
+	} catch (error) {
+		console.error('Error computing agent statuses:', error);
+		return undefined;
+	}
+}
 
 export async function GET({ request }) {
 	try {
@@ -23,7 +45,10 @@ export async function GET({ request }) {
 		}
 
 		// Fetch metrics using server-side utility
-		const metrics = await getClaudeUsageMetrics();
+		const metrics = await getClaudeUsageMetrics({
+			agentStatuses: loadAgentStatuses(),
+			ping: env.JAT_RATE_LIMIT_PING === 'on'
+		});
 
 		return json(metrics);
 	} catch (error) {
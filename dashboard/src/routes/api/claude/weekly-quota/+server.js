@@ -1,61 +1,96 @@
 import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { getProjects } from '$lib/server/beads.js';
+import { getWeekStartDay, loadBudgets } from '$lib/server/budgets.js';
+import { getWeeklyQuota } from '$lib/utils/weeklyQuota';
 
 /**
  * API endpoint for fetching weekly Claude API quota data
  *
- * Returns weekly usage metrics from Cost Report API (when available)
- * For now, returns mock data until Cost Report API is integrated
+ * Computed from local session JSONL usage across all Beads projects
+ * (see $lib/utils/weeklyQuota.ts). Configuration (environment):
+ *   JAT_WEEK_START           - Day the week starts on, 0-6 or a name (default Sunday)
+ *   JAT_WEEKLY_TOKEN_LIMIT   - Weekly token limit
+ *   JAT_WEEKLY_COST_LIMIT    - Weekly cost limit in USD
+ *                              (limits default to the global weekly budget, if any)
+ *   JAT_WEEKLY_PROJECTION    - "trailing" (default) or "linear"
+ *   JAT_WEEKLY_TRAILING_DAYS - Days averaged by the trailing projection (default 7)
+ *
+ * Query params:
+ *   projection - Override JAT_WEEKLY_PROJECTION
  *
  * Response format:
  * {
  *   tokensUsed: number,
- *   tokensLimit: number,
+ *   tokensLimit: number | null,
  *   costUsd: number,
- *   costLimit: number,
+ *   costLimit: number | null,
  *   periodStart: ISO date string,
- *   periodEnd: ISO date string,
- *   estimatedEndOfWeekCost: number (optional)
+ *   periodEnd: ISO date string (start of next week),
+ *   estimatedEndOfWeekCost: number,
+ *   estimatedEndOfWeekTokens: number,
+ *   projection: 'linear' | 'trailing',
+ *   projections: { linear: {tokens, cost}, trailing: {tokens, cost} }
  * }
  */
 export async function GET({ url }) {
-	// TODO (jat-sk1): Replace with actual Cost Report API integration
-	// For now, return mock data for development
+	try {
+		const projection = url.searchParams.get('projection') ?? env.JAT_WEEKLY_PROJECTION ?? 'trailing';
+		if (projection !== 'linear' && projection !== 'trailing') {
+			return json(
+				{ error: 'Invalid projection', message: 'projection must be "linear" or "trailing"' },
+				{ status: 400 }
+			);
+		}
 
-	const now = new Date();
-	const weekStart = new Date(now);
-	weekStart.setDate(now.getDate() - now.getDay()); // Sunday of current week
-	const weekEnd = new Date(weekStart);
-	weekEnd.setDate(weekStart.getDate() + 6); // Saturday of current week
+		const limits = await getWeeklyLimits();
+		const quota = await getWeeklyQuota(
+			getProjects().map(project => project.path),
+			{
+				weekStartDay: getWeekStartDay(),
+				tokensLimit: limits.tokens,
+				costLimit: limits.cost,
+				trailingDays: parsePositive(env.JAT_WEEKLY_TRAILING_DAYS) ?? 7,
+				projection
+			}
+		);
 
-	// Mock data (simulating mid-week usage)
-	const mockData = {
-		tokensUsed: 650000, // 650K tokens
-		tokensLimit: 1000000, // 1M tokens per week
-		costUsd: 45.23, // $45.23 spent
-		costLimit: 100, // $100 weekly budget
-		periodStart: weekStart.toISOString(),
-		periodEnd: weekEnd.toISOString(),
-		estimatedEndOfWeekCost: 64.3 // Projected total
-	};
+		return json(quota);
+	} catch (error) {
+		console.error('Error computing weekly quota:', error);
+		return json(
+			{
+				error: 'Failed to compute weekly quota',
+				message: error instanceof Error ? error.message : String(error)
+			},
+			{ status: 500 }
+		);
+	}
+}
+
+/**
+ * Weekly limits from the environment, else from the global weekly budget
+ * @returns {Promise<{tokens: number|null, cost: number|null}>}
+ */
+async function getWeeklyLimits() {
+	let budget;
+	try {
+		budget = (await loadBudgets()).find(b => b.scope === 'global' && b.period === 'weekly');
+	} catch (error) {
+		console.warn('Ignoring budgets for weekly limits:', error instanceof Error ? error.message : error);
+	}
 
-	return json(mockData);
+	return {
+		tokens: parsePositive(env.JAT_WEEKLY_TOKEN_LIMIT) ?? budget?.limit_tokens ?? null,
+		cost: parsePositive(env.JAT_WEEKLY_COST_LIMIT) ?? budget?.limit_usd ?? null
+	};
 }
 
 /**
- * Integration notes for jat-sk1:
- *
- * 1. Add ANTHROPIC_ADMIN_API_KEY to environment variables
- * 2. Implement Cost Report API call:
- *    POST https://api.anthropic.com/v1/organization/cost_report
- *    Authorization: x-api-key: <admin-key>
- *    Body: { start_date: "YYYY-MM-DD", end_date: "YYYY-MM-DD" }
- *
- * 3. Parse response:
- *    - Sum daily_costs[].cost_usd for total cost
- *    - Estimate tokens from cost (rough: 20K tokens per dollar)
- *    - Calculate daily average and projected total
- *
- * 4. Cache response (5-minute TTL to respect rate limits)
- * 5. Handle errors gracefully (return last known good data)
- * 6. Add token limit from config (not returned by API)
+ * @param {string|undefined} value
+ * @returns {number|null}
  */
+function parsePositive(value) {
+	const number = parseFloat(value ?? '');
+	return Number.isFinite(number) && number > 0 ? number : null;
+}
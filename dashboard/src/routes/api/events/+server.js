@@ -0,0 +1,84 @@
+/**
+ * Events API - Server-Sent Events stream of orchestration changes
+ * GET /api/events                → Deltas for all projects
+ * GET /api/events?project=jat    → Task deltas limited to one project (like /api/agents?project=)
+ *
+ * Event names match the `type` of each payload (see $lib/utils/agentEvents.ts):
+ * agent-updated, task-status-changed, task-updated, task-removed,
+ * reservation-created, reservation-released, message-sent.
+ *
+ * A `ready` event is sent once the subscription is live; clients should
+ * (re)load /api/agents?full=true then and apply deltas on top.
+ */
+
+import { subscribeToChanges } from '$lib/server/events.js';
+
+/** Comment line interval that keeps proxies from closing an idle stream */
+const HEARTBEAT_MS = 15000;
+
+/** Reconnect delay suggested to EventSource clients */
+const RETRY_MS = 3000;
+
+/** @type {import('./$types').RequestHandler} */
+export function GET({ url, request }) {
+	const projectName = url.searchParams.get('project');
+	const encoder = new TextEncoder();
+
+	/** @type {(() => void) | null} */
+	let unsubscribe = null;
+	/** @type {ReturnType<typeof setInterval> | null} */
+	let heartbeat = null;
+
+	function cleanup() {
+		if (heartbeat) {
+			clearInterval(heartbeat);
+			heartbeat = null;
+		}
+		if (unsubscribe) {
+			unsubscribe();
+			unsubscribe = null;
+		}
+	}
+
+	const stream = new ReadableStream({
+		start(controller) {
+			/** @param {string} chunk */
+			function write(chunk) {
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					// Stream already closed by the client
+					cleanup();
+				}
+			}
+
+			write(`retry: ${RETRY_MS}\n\n`);
+
+			try {
+				unsubscribe = subscribeToChanges(projectName, (event) => {
+					write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+				});
+			} catch (error) {
+				console.error('Error in GET /api/events:', error);
+				controller.error(error);
+				return;
+			}
+
+			write(`event: ready\ndata: ${JSON.stringify({ timestamp: new Date().toISOString() })}\n\n`);
+			heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+			request.signal.addEventListener('abort', cleanup);
+		},
+		cancel() {
+			cleanup();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+}
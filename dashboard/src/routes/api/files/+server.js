@@ -0,0 +1,100 @@
+/**
+ * Project Files API - Path completion for file scope globs
+ * GET /api/files?project=jat&prefix=src/lib/co
+ *
+ * Lists entries of the directory named by `prefix` (everything up to the last
+ * "/") that start with the remaining partial name. Used by the task drawers to
+ * autocomplete declared `files:` scopes against the project tree.
+ */
+
+import { json } from '@sveltejs/kit';
+import { readdirSync } from 'fs';
+import { resolve, sep } from 'path';
+import { getProjects } from '../../../../../lib/beads.js';
+
+/** Directories that never make sense as task scopes */
+const IGNORED_DIRS = new Set(['.git', '.beads', 'node_modules', '.svelte-kit', 'build', 'dist', 'coverage']);
+
+/** Maximum number of suggestions returned */
+const MAX_SUGGESTIONS = 50;
+
+/** @type {import('./$types').RequestHandler} */
+export async function GET({ url }) {
+	const projectName = url.searchParams.get('project');
+	const prefix = (url.searchParams.get('prefix') || '').replace(/^(\.\/)+/, '');
+
+	if (!projectName) {
+		return json({
+			error: 'Missing project',
+			message: 'project query parameter is required'
+		}, { status: 400 });
+	}
+
+	const project = getProjects().find(p => p.name === projectName);
+	if (!project) {
+		return json({
+			error: 'Project not found',
+			message: `No Beads project named '${projectName}'`
+		}, { status: 404 });
+	}
+
+	const slash = prefix.lastIndexOf('/');
+	const dirPart = prefix.slice(0, slash + 1);
+	const partial = prefix.slice(slash + 1);
+
+	// Only complete literal directories; once the user types glob syntax
+	// there is nothing meaningful to list
+	if (/[*?[\]{}!]/.test(dirPart)) {
+		return json({ project: projectName, prefix, suggestions: [] });
+	}
+
+	// Stay inside the project directory
+	const root = resolve(project.path);
+	const dir = resolve(root, dirPart);
+	if (dir !== root && !dir.startsWith(root + sep)) {
+		return json({
+			error: 'Invalid prefix',
+			message: 'prefix must stay inside the project directory'
+		}, { status: 400 });
+	}
+
+	const suggestions = [];
+
+	// A bare directory is most often meant as "everything under it"
+	if (dirPart && !partial) {
+		suggestions.push(`${dirPart}**`);
+	}
+
+	try {
+		const entries = readdirSync(dir, { withFileTypes: true })
+			.filter(entry => entry.name.startsWith(partial))
+			.filter(entry => !(entry.isDirectory() && IGNORED_DIRS.has(entry.name)))
+			.sort((a, b) => {
+				// Directories first, then alphabetical
+				if (a.isDirectory() !== b.isDirectory()) {
+					return a.isDirectory() ? -1 : 1;
+				}
+				return a.name.localeCompare(b.name);
+			});
+
+		for (const entry of entries) {
+			suggestions.push(entry.isDirectory() ? `${dirPart}${entry.name}/` : `${dirPart}${entry.name}`);
+		}
+	} catch (error) {
+		// Missing directory just means no completions
+		const { code, message } = /** @type {NodeJS.ErrnoException} */ (error);
+		if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+			console.error('Error in GET /api/files:', error);
+			return json({
+				error: 'Internal server error',
+				message
+			}, { status: 500 });
+		}
+	}
+
+	return json({
+		project: projectName,
+		prefix,
+		suggestions: suggestions.slice(0, MAX_SUGGESTIONS)
+	});
+}
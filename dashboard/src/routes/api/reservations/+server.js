@@ -1,11 +1,18 @@
 import { json } from '@sveltejs/kit';
-import { getReservations } from '$lib/server/agent-mail.js';
+import { getReservations, getReservationHistory } from '$lib/server/agent-mail.js';
 
-/** @type {import('./$types').RequestHandler} */
+/**
+ * GET /api/reservations                → Active reservations (?agent=Name to filter)
+ * GET /api/reservations?history=true   → Every pattern each agent has reserved,
+ *                                        released and expired ones included
+ * @type {import('./$types').RequestHandler}
+ */
 export async function GET({ url }) {
 	try {
 		const agentName = url.searchParams.get('agent');
-		const reservations = getReservations(agentName);
+		const reservations = url.searchParams.get('history') === 'true'
+			? getReservationHistory(agentName)
+			: getReservations(agentName);
 
 		return json({ reservations });
 	} catch (error) {
@@ -0,0 +1,68 @@
+/**
+ * Task Search API
+ *
+ * GET /api/search?q=oauth%20refresh&limit=10
+ *
+ * Full-text search over the tasks of all projects: ID, title, description,
+ * notes, comments and the Agent Mail messages on each task's thread (see
+ * lib/task-search.js). Results are ranked best first, with the matching
+ * terms marked in `title_highlight` and `snippet` (arrays of
+ * {text, match} segments, so they can be rendered without HTML).
+ *
+ * Query Parameters:
+ * - q: words and "quoted phrases", all of which must match; the last word
+ *   also matches as a prefix (required)
+ * - limit: maximum results, 1-100 (default 20)
+ * - project: only tasks of this project
+ */
+
+import { json } from '@sveltejs/kit';
+import { searchTasks, DEFAULT_SEARCH_LIMIT } from '../../../../../lib/task-search.js';
+
+const MAX_LIMIT = 100;
+
+/** @type {import('./$types').RequestHandler} */
+export async function GET({ url }) {
+	const q = url.searchParams.get('q');
+	const limitParam = url.searchParams.get('limit');
+	const project = url.searchParams.get('project') || undefined;
+
+	if (!q || !q.trim()) {
+		return json(
+			{
+				error: 'Missing q parameter',
+				message: 'Provide the text to search for, e.g. ?q=oauth refresh'
+			},
+			{ status: 400 }
+		);
+	}
+
+	const limit = limitParam === null ? DEFAULT_SEARCH_LIMIT : Number(limitParam);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+		return json(
+			{
+				error: 'Invalid limit parameter',
+				message: `Limit must be a whole number from 1 to ${MAX_LIMIT}`
+			},
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const results = searchTasks(q, { limit, project });
+		return json({
+			query: q,
+			results,
+			count: results.length
+		});
+	} catch (error) {
+		console.error('Error searching tasks:', error);
+		return json(
+			{
+				error: 'Failed to search tasks',
+				message: error instanceof Error ? error.message : String(error)
+			},
+			{ status: 500 }
+		);
+	}
+}
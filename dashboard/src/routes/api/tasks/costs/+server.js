@@ -0,0 +1,56 @@
+/**
+ * Task Costs API Route
+ * Lists the most expensive tasks by attributed token cost
+ *
+ * Query params:
+ *   limit   - Number of tasks to return (default 20, max 200)
+ *   project - Only tasks from this project
+ *   status  - Only tasks with this status
+ */
+import { json } from '@sveltejs/kit';
+import { getTasks } from '../../../../../../lib/beads.js';
+import { getTaskCosts } from '$lib/server/taskCost.js';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+/** @type {import('./$types').RequestHandler} */
+export async function GET({ url }) {
+	const project = url.searchParams.get('project');
+	const status = url.searchParams.get('status');
+	const limitParam = parseInt(url.searchParams.get('limit') ?? '', 10);
+	const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+
+	try {
+		/** @type {{projectName?: string, status?: string}} */
+		const filters = {};
+		if (project) filters.projectName = project;
+		if (status) filters.status = status;
+
+		const tasks = /** @type {Array<import('$lib/server/taskCost.js').CostedTask & {title?: string, project?: string}>} */ (
+			getTasks(filters)
+		);
+		const costs = await getTaskCosts(tasks, { limit });
+
+		/** @type {Map<string, any>} */
+		const tasksById = new Map(tasks.map(task => [task.id, task]));
+		return json({
+			tasks: costs.map(cost => {
+				const task = tasksById.get(cost.task_id);
+				return {
+					...cost,
+					title: task?.title ?? null,
+					status: task?.status ?? null,
+					project: task?.project ?? null
+				};
+			}),
+			count: costs.length
+		});
+	} catch (error) {
+		console.error('Error computing task costs:', error);
+		return json(
+			{ error: 'Failed to compute task costs', message: error instanceof Error ? error.message : String(error) },
+			{ status: 500 }
+		);
+	}
+}
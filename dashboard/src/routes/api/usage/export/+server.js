@@ -0,0 +1,100 @@
+/**
+ * Usage Export API
+ *
+ * GET /api/usage/export?format=csv&level=agent&from=2025-11-01&to=2025-11-30
+ * GET /api/usage/export?format=openmetrics&level=agent   (Prometheus scrape target)
+ *
+ * Exports token usage per session, per agent or per time bucket (see
+ * $lib/utils/usageExport.ts).
+ *
+ * Query Parameters:
+ * - format: csv | jsonl | openmetrics - defaults to csv
+ * - level: session | agent | bucket - defaults to session
+ * - range, from, to, tz, agent, session, bucketSize: as for /api/agents/sparkline,
+ *   except that range defaults to all
+ *
+ * CSV is sent as an attachment (jat-usage-<level>-<date>.csv). For scraping,
+ * use level=agent: session labels make one series per session, and only
+ * all-time totals (no from/to, range=all) are exposed as counters.
+ */
+
+import { json } from '@sveltejs/kit';
+import { parseUsageFilters } from '$lib/server/usageFilters.js';
+import { getWeekStartDay } from '$lib/server/budgets.js';
+import {
+	collectUsageExport,
+	formatUsageExport,
+	EXPORT_CONTENT_TYPES,
+	EXPORT_FORMATS,
+	EXPORT_LEVELS
+} from '$lib/utils/usageExport';
+
+/** @type {import('./$types').RequestHandler} */
+export async function GET({ url }) {
+	const format = url.searchParams.get('format') || 'csv';
+	const level = url.searchParams.get('level') || 'session';
+
+	if (!(/** @type {string[]} */ (EXPORT_FORMATS).includes(format))) {
+		return json(
+			{
+				error: 'Invalid format parameter',
+				message: 'Format must be: csv, jsonl, or openmetrics',
+				validValues: EXPORT_FORMATS
+			},
+			{ status: 400 }
+		);
+	}
+
+	if (!(/** @type {string[]} */ (EXPORT_LEVELS).includes(level))) {
+		return json(
+			{
+				error: 'Invalid level parameter',
+				message: 'Level must be: session, agent, or bucket',
+				validValues: EXPORT_LEVELS
+			},
+			{ status: 400 }
+		);
+	}
+
+	const parsed = parseUsageFilters(url.searchParams, { range: 'all' });
+	if (parsed.error) {
+		return json(parsed.error, { status: 400 });
+	}
+	const { range, from, to, tz, agentName, sessionId, bucketSize } = parsed.filters;
+
+	try {
+		// Get project path (dashboard runs from /dashboard subdirectory)
+		const projectPath = process.cwd().replace(/\/dashboard$/, '');
+
+		const usage = await collectUsageExport(/** @type {import('$lib/utils/usageExport').ExportLevel} */ (level), {
+			range,
+			from,
+			to,
+			timeZone: tz,
+			weekStartDay: getWeekStartDay(),
+			agentName,
+			sessionId,
+			bucketSize,
+			projectPath
+		});
+
+		const exportFormat = /** @type {import('$lib/utils/usageExport').ExportFormat} */ (format);
+		/** @type {Record<string, string>} */
+		const headers = { 'Content-Type': EXPORT_CONTENT_TYPES[exportFormat] };
+		if (exportFormat === 'csv') {
+			const date = new Date().toISOString().slice(0, 10);
+			headers['Content-Disposition'] = `attachment; filename="jat-usage-${level}-${date}.csv"`;
+		}
+
+		return new Response(formatUsageExport(usage, exportFormat), { headers });
+	} catch (error) {
+		console.error('[Usage Export API] Error:', error);
+		return json(
+			{
+				error: 'Failed to export usage',
+				message: error instanceof Error ? error.message : String(error)
+			},
+			{ status: 500 }
+		);
+	}
+}
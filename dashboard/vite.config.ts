@@ -2,5 +2,11 @@ import { sveltekit } from '@sveltejs/kit/vite';
 import { defineConfig } from 'vite';
 
 export default defineConfig({
-	plugins: [sveltekit()]
+	plugins: [sveltekit()],
+	server: {
+		fs: {
+			// Shared modules in the repo root lib/ (e.g. glob-intersect.js)
+			allow: ['..']
+		}
+	}
 });
@@ -2,14 +2,15 @@
  * Agent Mail SQLite Query Layer
  *
  * Provides functions to query Agent Mail message database.
- * Queries ~/.agent-mail.db for multi-agent coordination messages.
+ * Queries ~/.agent-mail.db for multi-agent coordination messages, through a
+ * long-lived pooled connection (db-pool.js).
  */
 
-import Database from 'better-sqlite3';
 import { join } from 'path';
 import { homedir } from 'os';
+import { prepare } from './db-pool.js';
 
-const DB_PATH = join(homedir(), '.agent-mail.db');
+export const DB_PATH = join(homedir(), '.agent-mail.db');
 
 /**
  * Get all messages in a thread
@@ -22,8 +23,6 @@ export function getThreadMessages(threadId, options = {}) {
   const { projectPath } = options;
 
   try {
-    const db = new Database(DB_PATH, { readonly: true });
-
     let query = `
       SELECT
         m.id,
@@ -51,26 +50,24 @@ export function getThreadMessages(threadId, options = {}) {
 
     query += ' ORDER BY m.created_ts ASC';
 
-    const stmt = db.prepare(query);
+    const stmt = prepare(DB_PATH, query);
     const messages = stmt.all(...params);
 
     // For each message, get recipients
+    const recipientsStmt = prepare(DB_PATH, `
+      SELECT
+        a.name AS agent_name,
+        mr.kind,
+        mr.read_ts,
+        mr.ack_ts
+      FROM message_recipients mr
+      JOIN agents a ON mr.agent_id = a.id
+      WHERE mr.message_id = ?
+    `);
     for (const message of messages) {
-      const recipients = db.prepare(`
-        SELECT
-          a.name AS agent_name,
-          mr.kind,
-          mr.read_ts,
-          mr.ack_ts
-        FROM message_recipients mr
-        JOIN agents a ON mr.agent_id = a.id
-        WHERE mr.message_id = ?
-      `).all(message.id);
-
-      message.recipients = recipients;
+      message.recipients = recipientsStmt.all(message.id);
     }
 
-    db.close();
     return messages;
   } catch (error) {
     console.error('Error querying thread messages:', error);
@@ -91,8 +88,6 @@ export function getInboxForThread(agentName, threadId = null, options = {}) {
   const { unreadOnly = false, projectPath } = options;
 
   try {
-    const db = new Database(DB_PATH, { readonly: true });
-
     let query = `
       SELECT
         m.id,
@@ -134,10 +129,9 @@ export function getInboxForThread(agentName, threadId = null, options = {}) {
 
     query += ' ORDER BY m.created_ts DESC';
 
-    const stmt = db.prepare(query);
+    const stmt = prepare(DB_PATH, query);
     const messages = stmt.all(...params);
 
-    db.close();
     return messages;
   } catch (error) {
     console.error('Error querying inbox for thread:', error);
@@ -152,8 +146,6 @@ export function getInboxForThread(agentName, threadId = null, options = {}) {
  */
 export function getAgents(projectPath = null) {
   try {
-    const db = new Database(DB_PATH, { readonly: true });
-
     let query = `
       SELECT
         a.id,
@@ -178,10 +170,9 @@ export function getAgents(projectPath = null) {
 
     query += ' ORDER BY a.last_active_ts DESC';
 
-    const stmt = db.prepare(query);
+    const stmt = prepare(DB_PATH, query);
     const agents = stmt.all(...params);
 
-    db.close();
     return agents;
   } catch (error) {
     console.error('Error querying agents:', error);
@@ -200,8 +191,6 @@ export function getThreads(options = {}) {
   const { projectPath, agentName } = options;
 
   try {
-    const db = new Database(DB_PATH, { readonly: true });
-
     let query = `
       SELECT
         m.thread_id,
@@ -239,10 +228,9 @@ export function getThreads(options = {}) {
       ORDER BY last_message_ts DESC
     `;
 
-    const stmt = db.prepare(query);
+    const stmt = prepare(DB_PATH, query);
     const threads = stmt.all(...params);
 
-    db.close();
     return threads;
   } catch (error) {
     console.error('Error querying threads:', error);
@@ -262,8 +250,6 @@ export function searchMessages(searchQuery, options = {}) {
   const { threadId, projectPath } = options;
 
   try {
-    const db = new Database(DB_PATH, { readonly: true });
-
     let query = `
       SELECT
         m.id,
@@ -294,10 +280,9 @@ export function searchMessages(searchQuery, options = {}) {
 
     query += ' ORDER BY m.created_ts DESC';
 
-    const stmt = db.prepare(query);
+    const stmt = prepare(DB_PATH, query);
     const messages = stmt.all(...params);
 
-    db.close();
     return messages;
   } catch (error) {
     console.error('Error searching messages:', error);
@@ -313,8 +298,6 @@ export function searchMessages(searchQuery, options = {}) {
  */
 export function getReservations(agentName = null, projectPath = null) {
   try {
-    const db = new Database(DB_PATH, { readonly: true });
-
     let query = `
       SELECT
         r.id,
@@ -347,10 +330,9 @@ export function getReservations(agentName = null, projectPath = null) {
 
     query += ' ORDER BY r.created_ts DESC';
 
-    const stmt = db.prepare(query);
+    const stmt = prepare(DB_PATH, query);
     const reservations = stmt.all(...params);
 
-    db.close();
     return reservations;
   } catch (error) {
     console.error('Error fetching reservations:', error);
@@ -358,11 +340,161 @@ export function getReservations(agentName = null, projectPath = null) {
   }
 }
 
+/**
+ * Get every file pattern each agent has reserved, released and expired
+ * reservations included (the latest reservation per agent and pattern)
+ * @param {string|null} agentName - Optional agent name to filter by
+ * @param {string|null} projectPath - Optional project path to filter by
+ * @returns {Array<Object>} - Array of reservation objects with agent and project info
+ */
+export function getReservationHistory(agentName = null, projectPath = null) {
+  try {
+    // With MAX(r.id), SQLite takes the other columns from that (latest) row
+    let query = `
+      SELECT
+        MAX(r.id) AS id,
+        r.path_pattern,
+        r.exclusive,
+        r.reason,
+        r.created_ts,
+        r.expires_ts,
+        r.released_ts,
+        a.name AS agent_name,
+        p.human_key AS project_path
+      FROM file_reservations r
+      JOIN agents a ON r.agent_id = a.id
+      JOIN projects p ON r.project_id = p.id
+      WHERE 1 = 1
+    `;
+    const params = [];
+
+    if (agentName !== null) {
+      query += ' AND a.name = ?';
+      params.push(agentName);
+    }
+
+    if (projectPath !== null) {
+      // Match project name against the last segment of the path
+      query += ' AND p.human_key LIKE ?';
+      params.push(`%/${projectPath}`);
+    }
+
+    query += ' GROUP BY a.name, r.path_pattern, p.human_key ORDER BY MAX(r.id) DESC';
+
+    const stmt = prepare(DB_PATH, query);
+    return stmt.all(...params);
+  } catch (error) {
+    console.error('Error fetching reservation history:', error);
+    return [];
+  }
+}
+
+/**
+ * Get messages sent after a given message ID (oldest first)
+ * @param {number} afterId - Only return messages with a greater ID
+ * @param {number} [limit=100] - Maximum number of messages
+ * @returns {Array<Object>} List of messages with sender and project info
+ */
+export function getMessagesSince(afterId, limit = 100) {
+  try {
+    const messages = prepare(DB_PATH, `
+      SELECT
+        m.id,
+        m.thread_id,
+        m.subject,
+        m.importance,
+        m.ack_required,
+        m.created_ts,
+        sender.name AS sender_name,
+        p.human_key AS project_path
+      FROM messages m
+      JOIN agents sender ON m.sender_id = sender.id
+      JOIN projects p ON m.project_id = p.id
+      WHERE m.id > ?
+      ORDER BY m.id ASC
+      LIMIT ?
+    `).all(afterId, limit);
+
+    const recipientsStmt = prepare(DB_PATH, `
+      SELECT a.name
+      FROM message_recipients mr
+      JOIN agents a ON mr.agent_id = a.id
+      WHERE mr.message_id = ?
+    `);
+    for (const message of messages) {
+      message.recipients = recipientsStmt.all(message.id).map(r => r.name);
+    }
+
+    return messages;
+  } catch (error) {
+    console.error('Error querying new messages:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the ID of the most recent message
+ * @returns {number} Highest message ID (0 if there are no messages)
+ */
+export function getLatestMessageId() {
+  try {
+    const row = prepare(DB_PATH, 'SELECT MAX(id) AS id FROM messages').get();
+    return row?.id ?? 0;
+  } catch (error) {
+    console.error('Error querying latest message:', error);
+    return 0;
+  }
+}
+
+/**
+ * Get task lifecycle announcements (oldest first)
+ *
+ * /agent:start, /agent:pause and /agent:complete send "[task-id] Starting: ...",
+ * "[task-id] Paused: ..." and "[task-id] Completed: ..." on the task's thread.
+ * @param {string|null} [threadId] - Only this task's thread (default: all)
+ * @returns {Array<Object>} Messages with id, thread_id, subject, created_ts and sender_name
+ */
+export function getTaskLifecycleMessages(threadId = null) {
+  try {
+    let query = `
+      SELECT
+        m.id,
+        m.thread_id,
+        m.subject,
+        m.created_ts,
+        sender.name AS sender_name
+      FROM messages m
+      JOIN agents sender ON m.sender_id = sender.id
+      WHERE m.thread_id IS NOT NULL
+        AND (m.subject LIKE '%Starting:%' OR m.subject LIKE '%Paused:%' OR m.subject LIKE '%Completed:%')
+    `;
+    const params = [];
+
+    if (threadId) {
+      query += ' AND m.thread_id = ?';
+      params.push(threadId);
+    }
+
+    query += ' ORDER BY m.created_ts ASC, m.id ASC';
+
+    const messages = prepare(DB_PATH, query).all(...params);
+    return messages;
+  } catch (error) {
+    console.error('Error querying task lifecycle messages:', error);
+    return [];
+  }
+}
+
 export default {
+  DB_PATH,
   getThreadMessages,
   getInboxForThread,
   getAgents,
   getThreads,
   searchMessages,
-  getReservations
+  getReservations,
+  getReservationHistory,
+  getMessagesSince,
+  getLatestMessageId,
+  getTaskLifecycleMessages
 };
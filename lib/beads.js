@@ -2,51 +2,243 @@
  * Beads SQLite Query Layer
  *
  * Provides functions to query Beads task databases across multiple projects.
- * Scans ~/code/PROJECT/.beads/ for project databases and returns normalized task data.
+ * Projects come from the project registry (see project-registry.js; by
+ * default ~/code/PROJECT/.beads/) and task data is returned normalized.
+ * Databases are read through long-lived pooled connections (db-pool.js).
  */
 
-import Database from 'better-sqlite3';
-import { readdirSync, existsSync, statSync } from 'fs';
-import { join, resolve } from 'path';
-import { homedir } from 'os';
+import { basename } from 'path';
+import { expandBraces } from './glob-intersect.js';
+import { getConnection, prepare } from './db-pool.js';
+import { compileTaskQuery } from './task-query.js';
+import { discoverProjects, loadProjectRegistryConfig } from './project-registry.js';
 
 /**
- * Get all projects that have Beads databases
- * @returns {Array<{name: string, path: string, dbPath: string}>} List of projects
+ * Label prefix for declared file scopes (e.g. "files:src/lib/server/**")
+ *
+ * Beads has no dedicated column for this, so scopes ride along as labels and
+ * are split back out into `task.files` when tasks are loaded.
  */
-export function getProjects() {
-  const codeDir = join(homedir(), 'code');
+export const FILE_SCOPE_PREFIX = 'files:';
 
-  if (!existsSync(codeDir)) {
-    return [];
+/**
+ * Split raw Beads labels into regular labels and declared file scopes
+ * @param {string[]} rawLabels - Labels as stored in the labels table
+ * @returns {{labels: string[], files: string[]}} Labels without scopes, and the scope globs
+ */
+export function splitFileScopes(rawLabels) {
+  /** @type {string[]} */
+  const labels = [];
+  /** @type {string[]} */
+  const files = [];
+
+  for (const label of rawLabels) {
+    if (label.startsWith(FILE_SCOPE_PREFIX)) {
+      const glob = label.slice(FILE_SCOPE_PREFIX.length).trim();
+      if (glob && !files.includes(glob)) {
+        files.push(glob);
+      }
+    } else {
+      labels.push(label);
+    }
   }
 
-  const projects = [];
+  return { labels, files };
+}
 
-  try {
-    const entries = readdirSync(codeDir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const projectPath = join(codeDir, entry.name);
-        const beadsDir = join(projectPath, '.beads');
-        const dbPath = join(beadsDir, 'beads.db');
-
-        if (existsSync(dbPath)) {
-          projects.push({
-            name: entry.name,
-            path: projectPath,
-            dbPath: dbPath
-          });
-        }
+/**
+ * Convert file scope globs into `files:` labels ready for `bd`
+ *
+ * Labels are stored comma-joined, so brace alternatives are expanded into one
+ * label per alternative and leading "./" is dropped.
+ * @param {string[]} globs - File scope globs (e.g. ["src/lib/{auth,session}/**"])
+ * @returns {string[]} Unique labels (e.g. ["files:src/lib/auth/**", "files:src/lib/session/**"])
+ * @throws {Error} If a glob is empty or still contains a comma after expansion
+ */
+export function toFileScopeLabels(globs) {
+  /** @type {string[]} */
+  const labels = [];
+
+  for (const glob of globs) {
+    const trimmed = String(glob).trim().replace(/^(\.\/)+/, '');
+    if (!trimmed) {
+      throw new Error('File scope globs must be non-empty');
+    }
+
+    for (const expanded of expandBraces(trimmed)) {
+      if (expanded.includes(',')) {
+        throw new Error(`File scope "${glob}" cannot contain a comma outside braces`);
+      }
+      const label = FILE_SCOPE_PREFIX + expanded;
+      if (!labels.includes(label)) {
+        labels.push(label);
       }
     }
+  }
+
+  return labels;
+}
+
+/**
+ * Get all projects that have Beads databases
+ *
+ * Re-reads the registry config (JAT_PROJECTS_FILE, JAT_PROJECT_ROOTS) and
+ * rescans the roots on every call.
+ * @returns {Array<{name: string, path: string, dbPath: string, color: string|null}>} List of projects
+ */
+export function getProjects() {
+  try {
+    return discoverProjects(loadProjectRegistryConfig());
   } catch (error) {
     console.error('Error scanning projects:', error);
     return [];
   }
+}
+
+/**
+ * Read a project's configured task ID prefix
+ * @param {{dbPath: string}} project - From getProjects()
+ * @returns {string|null} The database's issue_prefix, or null if it has none
+ */
+export function getIssuePrefix(project) {
+  try {
+    const row = /** @type {{value: string}|undefined} */ (
+      prepare(project.dbPath, "SELECT value FROM config WHERE key = 'issue_prefix'").get()
+    );
+    return row?.value || null;
+  } catch {
+    // Older databases have no config table
+    return null;
+  }
+}
+
+/**
+ * Extract the project prefix from a task ID
+ * @param {string} taskId - Task ID (e.g., "chimaro-abc")
+ * @returns {string|null} Prefix (e.g., "chimaro") or null if the ID has none
+ */
+export function getProjectFromTaskId(taskId) {
+  if (!taskId || typeof taskId !== 'string') {
+    return null;
+  }
+  const match = taskId.match(/^([a-zA-Z0-9_-]+?)-([a-zA-Z0-9]+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Map task ID prefixes to projects
+ *
+ * Uses each database's configured issue prefix, falling back to the
+ * directory name (the two differ, e.g. "jat" vs "jomarchy-agent-tools") and
+ * the project's registry name.
+ * @param {Array<{name: string, path: string, dbPath: string}>} projects - From getProjects()
+ * @returns {Map<string, {name: string, path: string, dbPath: string}>} Prefix → project
+ */
+function getPrefixIndex(projects) {
+  const index = new Map();
+
+  for (const project of projects) {
+    index.set(project.name, project);
+    index.set(basename(project.path), project);
 
-  return projects;
+    const prefix = getIssuePrefix(project);
+    if (prefix) {
+      index.set(prefix, project);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Fill in dependency references that point into other projects
+ *
+ * Dependencies are joined against the owning project's database only, so
+ * references to another project's task come back with null title/status.
+ * This looks them up in the right database (by task ID prefix) and tags
+ * them with `project`. Unresolvable references keep their null fields.
+ * @param {Array<{id: string, title: string|null, status: string|null, priority: number|null, project?: string}>} refs - Dependency references (mutated)
+ * @param {Array<{name: string, path: string, dbPath: string}>} projects - From getProjects()
+ */
+function resolveCrossProjectRefs(refs, projects) {
+  const missing = refs.filter(ref => ref.status === null || ref.status === undefined);
+  if (missing.length === 0) {
+    return;
+  }
+
+  const prefixIndex = getPrefixIndex(projects);
+
+  // Group by target database so each is opened once
+  const byProject = new Map();
+  for (const ref of missing) {
+    const project = prefixIndex.get(getProjectFromTaskId(ref.id) ?? '');
+    if (!project) continue;
+    if (!byProject.has(project)) byProject.set(project, []);
+    byProject.get(project).push(ref);
+  }
+
+  for (const [project, projectRefs] of byProject) {
+    try {
+      const ids = [...new Set(projectRefs.map(ref => ref.id))];
+      // Not cached: the placeholder count varies
+      const rows = getConnection(project.dbPath).prepare(`
+        SELECT id, title, status, priority FROM issues
+        WHERE id IN (${ids.map(() => '?').join(',')})
+      `).all(...ids);
+      const found = new Map(rows.map(row => [row.id, row]));
+
+      for (const ref of projectRefs) {
+        const row = found.get(ref.id);
+        if (row) {
+          ref.title = row.title;
+          ref.status = row.status;
+          ref.priority = row.priority;
+          ref.project = project.name;
+        }
+      }
+    } catch (error) {
+      console.error(`Error resolving dependencies in project ${project.name}:`, error);
+    }
+  }
+}
+
+/**
+ * Fill in `depends_on` and `blocked_by` for a project's tasks
+ *
+ * Reads every dependency row of the database once, rather than two queries
+ * per task. References are joined against the same database, so ones that
+ * point into other projects come back with null title/status.
+ * @param {string} dbPath - The project's database
+ * @param {Map<string, {depends_on: Array<Object>, blocked_by: Array<Object>}>} tasks - Loaded tasks by ID (mutated)
+ */
+function loadDependencies(dbPath, tasks) {
+  const rows = prepare(dbPath, `
+    SELECT
+      d.issue_id, d.depends_on_id, d.type,
+      target.title AS target_title, target.status AS target_status, target.priority AS target_priority,
+      source.title AS source_title, source.status AS source_status, source.priority AS source_priority
+    FROM dependencies d
+    LEFT JOIN issues target ON d.depends_on_id = target.id
+    LEFT JOIN issues source ON d.issue_id = source.id
+  `).all();
+
+  for (const row of rows) {
+    tasks.get(row.issue_id)?.depends_on.push({
+      id: row.depends_on_id,
+      type: row.type,
+      title: row.target_title,
+      status: row.target_status,
+      priority: row.target_priority
+    });
+
+    tasks.get(row.depends_on_id)?.blocked_by.push({
+      id: row.issue_id,
+      type: row.type,
+      title: row.source_title,
+      status: row.source_status,
+      priority: row.source_priority
+    });
+  }
 }
 
 /**
@@ -55,19 +247,18 @@ export function getProjects() {
  * @param {string} [options.status] - Filter by status (open, closed, etc.)
  * @param {number} [options.priority] - Filter by priority (0-4)
  * @param {string} [options.projectName] - Filter by task ID prefix (e.g., "dirt" matches "dirt-abc")
+ * @param {import('./task-query.js').TaskQuery} [options.query] - Parsed task query (see task-query.js), applied in SQL
  * @returns {Array<Object>} List of tasks with project information
  */
 export function getTasks(options = {}) {
-  const { status, priority, projectName } = options;
+  const { status, priority, projectName, query: taskQuery } = options;
   const projects = getProjects();
+  const compiled = taskQuery ? compileTaskQuery(taskQuery) : null;
 
   const allTasks = [];
 
   for (const project of projects) {
-
     try {
-      const db = new Database(project.dbPath, { readonly: true });
-
       // Build query with optional filters
       let query = `
         SELECT
@@ -88,64 +279,73 @@ export function getTasks(options = {}) {
         params.push(priority);
       }
 
+      if (compiled?.sql) {
+        query += ` AND ${compiled.sql}`;
+        params.push(...compiled.params);
+      }
+
       query += ' ORDER BY i.priority ASC, i.created_at DESC';
 
-      const stmt = db.prepare(query);
-      const tasks = stmt.all(...params);
+      const tasks = prepare(project.dbPath, query).all(...params);
+      const projectTasks = new Map();
 
       // Add project information and parse labels
       for (const task of tasks) {
         task.project = project.name;
         task.project_path = project.path;
 
-        // Parse labels from comma-separated string to array
-        if (task.labels) {
-          task.labels = task.labels.split(',').filter(Boolean);
-        } else {
-          task.labels = [];
-        }
-
-        // Load dependencies for this task
-        const dependencies = db.prepare(`
-          SELECT d.depends_on_id, d.type, i.title, i.status, i.priority
-          FROM dependencies d
-          LEFT JOIN issues i ON d.depends_on_id = i.id
-          WHERE d.issue_id = ?
-        `).all(task.id);
-
-        task.depends_on = dependencies.map(dep => ({
-          id: dep.depends_on_id,
-          type: dep.type,
-          title: dep.title,
-          status: dep.status,
-          priority: dep.priority
-        }));
-
-        // Load dependents (tasks that depend on this one)
-        const dependents = db.prepare(`
-          SELECT d.issue_id, d.type, i.title, i.status, i.priority
-          FROM dependencies d
-          LEFT JOIN issues i ON d.issue_id = i.id
-          WHERE d.depends_on_id = ?
-        `).all(task.id);
-
-        task.blocked_by = dependents.map(dep => ({
-          id: dep.issue_id,
-          type: dep.type,
-          title: dep.title,
-          status: dep.status,
-          priority: dep.priority
-        }));
+        // Parse labels from comma-separated string to array, pulling out file scopes
+        const { labels, files } = splitFileScopes(task.labels ? task.labels.split(',').filter(Boolean) : []);
+        task.labels = labels;
+        task.files = files;
 
+        task.depends_on = [];
+        task.blocked_by = [];
+        projectTasks.set(task.id, task);
         allTasks.push(task);
       }
 
-      db.close();
+      // Load dependencies in both directions with one query for the whole project
+      if (projectTasks.size > 0) {
+        loadDependencies(project.dbPath, projectTasks);
+      }
     } catch (error) {
       console.error(`Error querying project ${project.name}:`, error);
     }
   }
 
+  // Resolve dependencies on tasks in other projects. Tasks from every project
+  // are already loaded, so use them directly and only query what's left.
+  const taskIndex = new Map(allTasks.map(task => [task.id, task]));
+  const unresolved = [];
+  for (const task of allTasks) {
+    for (const dep of task.depends_on) {
+      if (dep.status !== null) continue;
+      const target = taskIndex.get(dep.id);
+      if (target) {
+        dep.title = target.title;
+        dep.status = target.status;
+        dep.priority = target.priority;
+        dep.project = target.project;
+
+        // Dependents are per-database too; add this task to the target's list
+        if (!target.blocked_by.some(d => d.id === task.id)) {
+          target.blocked_by.push({
+            id: task.id,
+            type: dep.type,
+            title: task.title,
+            status: task.status,
+            priority: task.priority,
+            project: task.project
+          });
+        }
+      } else {
+        unresolved.push(dep);
+      }
+    }
+  }
+  resolveCrossProjectRefs(unresolved, projects);
+
   // Sort by priority (P0 first) then by created_at
   allTasks.sort((a, b) => {
     if (a.priority !== b.priority) {
@@ -180,10 +380,8 @@ export function getTaskById(taskId) {
 
   for (const project of projects) {
     try {
-      const db = new Database(project.dbPath, { readonly: true });
-
       // Get the main task
-      const task = db.prepare(`
+      const task = prepare(project.dbPath, `
         SELECT
           i.*,
           (SELECT GROUP_CONCAT(label, ',') FROM labels WHERE issue_id = i.id) as labels
@@ -196,15 +394,13 @@ export function getTaskById(taskId) {
         task.project = project.name;
         task.project_path = project.path;
 
-        // Parse labels
-        if (task.labels) {
-          task.labels = task.labels.split(',').filter(Boolean);
-        } else {
-          task.labels = [];
-        }
+        // Parse labels, pulling out file scopes
+        const { labels, files } = splitFileScopes(task.labels ? task.labels.split(',').filter(Boolean) : []);
+        task.labels = labels;
+        task.files = files;
 
         // Get dependencies (tasks this task depends on)
-        const dependencies = db.prepare(`
+        const dependencies = prepare(project.dbPath, `
           SELECT d.depends_on_id, d.type, i.title, i.status, i.priority
           FROM dependencies d
           LEFT JOIN issues i ON d.depends_on_id = i.id
@@ -220,7 +416,7 @@ export function getTaskById(taskId) {
         }));
 
         // Get dependents (tasks that depend on this task)
-        const dependents = db.prepare(`
+        const dependents = prepare(project.dbPath, `
           SELECT d.issue_id, d.type, i.title, i.status, i.priority
           FROM dependencies d
           LEFT JOIN issues i ON d.issue_id = i.id
@@ -235,8 +431,36 @@ export function getTaskById(taskId) {
           priority: dep.priority
         }));
 
+        // Dependencies on tasks in other projects come back unresolved
+        resolveCrossProjectRefs(task.depends_on, projects);
+
+        // Tasks in other projects that depend on this one
+        for (const other of projects) {
+          if (other.dbPath === project.dbPath) continue;
+          try {
+            const rows = prepare(other.dbPath, `
+              SELECT d.issue_id, d.type, i.title, i.status, i.priority
+              FROM dependencies d
+              JOIN issues i ON d.issue_id = i.id
+              WHERE d.depends_on_id = ?
+            `).all(taskId);
+            for (const row of rows) {
+              task.blocked_by.push({
+                id: row.issue_id,
+                type: row.type,
+                title: row.title,
+                status: row.status,
+                priority: row.priority,
+                project: other.name
+              });
+            }
+          } catch (error) {
+            console.error(`Error querying dependents in project ${other.name}:`, error);
+          }
+        }
+
         // Get comments
-        const comments = db.prepare(`
+        const comments = prepare(project.dbPath, `
           SELECT id, author, text, created_at
           FROM comments
           WHERE issue_id = ?
@@ -245,11 +469,8 @@ export function getTaskById(taskId) {
 
         task.comments = comments;
 
-        db.close();
         return task;
       }
-
-      db.close();
     } catch (error) {
       console.error(`Error querying task ${taskId} in project ${project.name}:`, error);
     }
@@ -286,9 +507,86 @@ export function getReadyTasks() {
   return readyTasks;
 }
 
+/**
+ * Get status history events for tasks (oldest first)
+ *
+ * Reads the Beads `events` table: status changes, closes and reopens.
+ * `status` is the status the task moved to; `assignee` is set when the
+ * same update assigned the task. Databases without an events table are skipped.
+ * @param {string|null} [taskId] - Only this task's events (default: all tasks)
+ * @returns {Array<{issue_id: string, event_type: string, actor: string, status: string, assignee: string|null, created_at: string, project: string}>} Events
+ */
+export function getTaskStatusEvents(taskId = null) {
+  const projects = getProjects();
+  const events = [];
+
+  for (const project of projects) {
+    try {
+      let query = `
+        SELECT issue_id, event_type, actor, new_value, created_at
+        FROM events
+        WHERE event_type IN ('status_changed', 'closed', 'reopened')
+      `;
+      const params = [];
+      if (taskId) {
+        query += ' AND issue_id = ?';
+        params.push(taskId);
+      }
+
+      for (const row of prepare(project.dbPath, query).all(...params)) {
+        const { status, assignee } = parseStatusChange(row);
+        if (!status) continue;
+        events.push({
+          issue_id: row.issue_id,
+          event_type: row.event_type,
+          actor: row.actor,
+          status,
+          assignee,
+          created_at: row.created_at,
+          project: project.name
+        });
+      }
+    } catch (error) {
+      // Older databases have no events table
+      if (!String(error.message).includes('no such table')) {
+        console.error(`Error querying events in project ${project.name}:`, error);
+      }
+    }
+  }
+
+  return events.sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+}
+
+/**
+ * Work out the new status (and assignee) recorded by a status event
+ * `new_value` holds the JSON of the update, or the bare status
+ * @param {{event_type: string, new_value: string|null}} row
+ * @returns {{status: string|null, assignee: string|null}}
+ */
+function parseStatusChange(row) {
+  if (row.event_type === 'closed') return { status: 'closed', assignee: null };
+  if (row.event_type === 'reopened') return { status: 'open', assignee: null };
+
+  try {
+    const update = JSON.parse(row.new_value);
+    if (update && typeof update === 'object') {
+      return { status: update.status ?? null, assignee: update.assignee ?? null };
+    }
+  } catch {
+    // Not JSON: the value is the status itself
+  }
+  return { status: row.new_value || null, assignee: null };
+}
+
 export default {
+  FILE_SCOPE_PREFIX,
+  getProjectFromTaskId,
+  splitFileScopes,
+  toFileScopeLabels,
   getProjects,
+  getIssuePrefix,
   getTasks,
   getTaskById,
-  getReadyTasks
+  getReadyTasks,
+  getTaskStatusEvents
 };
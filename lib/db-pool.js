@@ -0,0 +1,148 @@
+/**
+ * SQLite Connection Pool
+ *
+ * Keeps one read-only better-sqlite3 handle per database file for the life
+ * of the process, instead of opening and closing one per query. Used by the
+ * Beads and Agent Mail query layers.
+ *
+ * A handle is reopened when its file is replaced (a different device and
+ * inode: `bd init`, a backup moved into place) and dropped when the file
+ * disappears. Writes to the same file, by bd, Agent Mail or anything copying
+ * over it, keep the handle and its cached statements: SQLite checks for them
+ * at the start of every read. Only a handle on a replaced file would go on
+ * reading the old, unlinked one.
+ */
+
+import Database from 'better-sqlite3';
+import { statSync } from 'fs';
+
+/** @typedef {InstanceType<typeof Database>} SqliteDatabase */
+/** @typedef {ReturnType<SqliteDatabase['prepare']>} SqliteStatement */
+
+/**
+ * @typedef {Object} PooledConnection
+ * @property {SqliteDatabase} db - Read-only handle
+ * @property {string} signature - File identity when the handle was opened
+ * @property {Map<string, SqliteStatement>} statements - Prepared statements by SQL
+ */
+
+/** Prepared statements kept per connection; the oldest is dropped beyond this */
+const MAX_CACHED_STATEMENTS = 200;
+
+/** @type {Map<string, PooledConnection>} */
+const pool = new Map();
+
+/**
+ * Identify the current version of a database file
+ * @param {string} dbPath
+ * @returns {string|null} Signature, or null if the file doesn't exist
+ */
+function getFileSignature(dbPath) {
+  try {
+    const stats = statSync(dbPath);
+    return `${stats.dev}:${stats.ino}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the pooled entry for a database, opening or reopening it as needed
+ * @param {string} dbPath - Absolute path of the database file
+ * @returns {PooledConnection}
+ * @throws {Error} If the database can't be opened (e.g. it doesn't exist)
+ */
+function acquire(dbPath) {
+  const signature = getFileSignature(dbPath);
+  const pooled = pool.get(dbPath);
+
+  if (pooled) {
+    if (pooled.signature === signature && pooled.db.open) {
+      return pooled;
+    }
+    closeConnection(dbPath);
+  }
+
+  const entry = {
+    db: new Database(dbPath, { readonly: true }),
+    signature: signature ?? '',
+    statements: new Map()
+  };
+  pool.set(dbPath, entry);
+  return entry;
+}
+
+/**
+ * Get a long-lived read-only connection to a database
+ *
+ * Don't close it: it is shared, and closed by closeConnection() /
+ * closeAllConnections().
+ * @param {string} dbPath - Absolute path of the database file
+ * @returns {SqliteDatabase}
+ * @throws {Error} If the database can't be opened (e.g. it doesn't exist)
+ */
+export function getConnection(dbPath) {
+  return acquire(dbPath).db;
+}
+
+/**
+ * Prepare a statement on a pooled connection, reusing an earlier one for the same SQL
+ * @param {string} dbPath - Absolute path of the database file
+ * @param {string} sql
+ * @returns {SqliteStatement}
+ * @throws {Error} If the database can't be opened or the SQL is invalid
+ */
+export function prepare(dbPath, sql) {
+  const entry = acquire(dbPath);
+
+  let statement = entry.statements.get(sql);
+  if (!statement) {
+    statement = entry.db.prepare(sql);
+    entry.statements.set(sql, statement);
+    if (entry.statements.size > MAX_CACHED_STATEMENTS) {
+      entry.statements.delete(/** @type {string} */ (entry.statements.keys().next().value));
+    }
+  }
+  return statement;
+}
+
+/**
+ * Close and forget the connection to a database, if there is one
+ * @param {string} dbPath
+ */
+export function closeConnection(dbPath) {
+  const pooled = pool.get(dbPath);
+  if (!pooled) return;
+
+  pool.delete(dbPath);
+  try {
+    pooled.db.close();
+  } catch (error) {
+    console.error(`Error closing database ${dbPath}:`, error);
+  }
+}
+
+/**
+ * Close every pooled connection (tests, shutdown)
+ */
+export function closeAllConnections() {
+  for (const dbPath of [...pool.keys()]) {
+    closeConnection(dbPath);
+  }
+}
+
+/**
+ * Paths of the databases with an open pooled connection
+ * @returns {string[]}
+ */
+export function getPooledPaths() {
+  return [...pool.keys()];
+}
+
+export default {
+  getConnection,
+  prepare,
+  closeConnection,
+  closeAllConnections,
+  getPooledPaths
+};
@@ -0,0 +1,659 @@
+/**
+ * Glob Intersection Engine
+ *
+ * Decides whether two glob patterns can match a common path. Shared by
+ * file reservation conflict detection in the dashboard (autoAssign,
+ * AgentCard drag-and-drop) and the am-reserve CLI.
+ *
+ * Supported syntax: `*`, `?`, `**`, `[abc]`, `[a-z]`, `[!abc]`, `{a,b}`,
+ * `{1..3}` and the extglobs `?(a|b)`, `*(a|b)`, `+(a|b)`, `@(a|b)`, `!(a|b)`.
+ *
+ * Notes:
+ * - Dotfiles are not special: `*` matches `.env`.
+ * - `**` must be a whole segment and matches zero or more segments.
+ * - A trailing slash reserves a directory: `src/lib/` is `src/lib/**`.
+ * - `!(...)` is approximated as `*`, so it may report an overlap that does
+ *   not exist, never the other way round. For conflict detection that errs
+ *   on the safe side.
+ */
+
+const MAX_BRACE_EXPANSIONS = 1024;
+const SLASH = 47;
+const DOT = 46;
+
+/**
+ * @typedef {{negated: boolean, ranges: Array<[number, number]>}} CharSet
+ * @typedef {{type: 'char', set: CharSet} | {type: 'star'} | {type: 'group', op: string, alts: Node[][]}} Node
+ * @typedef {{eps: number[], edges: Array<{set: CharSet, to: number}>}} NfaState
+ * @typedef {{states: NfaState[], accept: number}} Nfa
+ * @typedef {{absolute: boolean, segments: Array<Nfa | typeof GLOBSTAR>}} CompiledGlob
+ */
+
+/** Segment placeholder for `**` */
+const GLOBSTAR = Symbol('globstar');
+
+/** Character set matching any character (except `/`) @type {CharSet} */
+const ANY = { negated: true, ranges: [] };
+
+// Characters tried first when inventing a witness character
+const PREFERRED_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789_-.';
+
+// ============================================================================
+// Brace expansion
+// ============================================================================
+
+/**
+ * Find the index of the bracket closing the one at `start`
+ * @param {string} str
+ * @param {number} start - Index of the opening bracket
+ * @param {string} open
+ * @param {string} close
+ * @returns {number} Index of the closing bracket, or -1
+ */
+function findClosing(str, start, open, close) {
+  let depth = 0;
+  for (let i = start; i < str.length; i++) {
+    const ch = str[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === open) {
+      depth++;
+    } else if (ch === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split on a separator that is not escaped or nested in (), [] or {}
+ * @param {string} str
+ * @param {string} separator
+ * @returns {string[]}
+ */
+function splitTopLevel(str, separator) {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < str.length; i++) {
+    const ch = str[i];
+    if (ch === '\\') {
+      current += ch + (str[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (ch === '{' || ch === '(' || ch === '[') depth++;
+    if (ch === '}' || ch === ')' || ch === ']') depth--;
+    if (ch === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Expand a `{a..b}` range body into its members
+ * @param {string} body - Text between the braces
+ * @returns {string[]|null} Members, or null if the body is not a range
+ */
+function expandRange(body) {
+  const numeric = body.match(/^(-?\d+)\.\.(-?\d+)$/);
+  if (numeric) {
+    const from = parseInt(numeric[1], 10);
+    const to = parseInt(numeric[2], 10);
+    const step = from <= to ? 1 : -1;
+    const members = [];
+    for (let n = from; n !== to + step; n += step) {
+      members.push(String(n));
+      if (members.length > MAX_BRACE_EXPANSIONS) break;
+    }
+    return members;
+  }
+
+  const alpha = body.match(/^([a-zA-Z])\.\.([a-zA-Z])$/);
+  if (alpha) {
+    const from = alpha[1].charCodeAt(0);
+    const to = alpha[2].charCodeAt(0);
+    const step = from <= to ? 1 : -1;
+    const members = [];
+    for (let c = from; c !== to + step; c += step) {
+      members.push(String.fromCharCode(c));
+    }
+    return members;
+  }
+
+  return null;
+}
+
+/**
+ * Expand brace alternatives and ranges into plain glob patterns
+ *
+ * Braces without a comma or range (e.g. `{foo}`) are kept literally.
+ *
+ * @param {string} pattern - Glob pattern
+ * @returns {string[]} Expanded patterns (at least one)
+ * @throws {RangeError} If the pattern expands to more than 1024 patterns
+ */
+export function expandBraces(pattern) {
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch !== '{') continue;
+
+    const end = findClosing(pattern, i, '{', '}');
+    if (end === -1) break;
+
+    const body = pattern.slice(i + 1, end);
+    const alternatives = splitTopLevel(body, ',');
+    const members = alternatives.length > 1 ? alternatives : expandRange(body);
+    if (!members) continue;
+
+    const prefix = pattern.slice(0, i);
+    const suffix = pattern.slice(end + 1);
+    const expanded = [];
+
+    for (const member of members) {
+      for (const result of expandBraces(prefix + member + suffix)) {
+        expanded.push(result);
+        if (expanded.length > MAX_BRACE_EXPANSIONS) {
+          throw new RangeError(`Pattern expands to more than ${MAX_BRACE_EXPANSIONS} globs: ${pattern}`);
+        }
+      }
+    }
+
+    return expanded;
+  }
+
+  return [pattern];
+}
+
+// ============================================================================
+// Segment parsing
+// ============================================================================
+
+/**
+ * Parse a bracket expression starting at `start` (the `[`)
+ * @param {string} str
+ * @param {number} start
+ * @returns {{set: CharSet, end: number}|null}
+ */
+function parseBracket(str, start) {
+  let i = start + 1;
+  let negated = false;
+
+  if (str[i] === '!' || str[i] === '^') {
+    negated = true;
+    i++;
+  }
+
+  /** @type {Array<[number, number]>} */
+  const ranges = [];
+  let first = true;
+
+  while (i < str.length) {
+    let ch = str[i];
+    if (ch === ']' && !first) {
+      return { set: { negated, ranges }, end: i };
+    }
+    first = false;
+
+    if (ch === '\\' && i + 1 < str.length) {
+      i++;
+      ch = str[i];
+    }
+
+    const lo = ch.charCodeAt(0);
+    if (str[i + 1] === '-' && i + 2 < str.length && str[i + 2] !== ']') {
+      let hiChar = str[i + 2];
+      let skip = 3;
+      if (hiChar === '\\' && i + 3 < str.length) {
+        hiChar = str[i + 3];
+        skip = 4;
+      }
+      const hi = hiChar.charCodeAt(0);
+      ranges.push([Math.min(lo, hi), Math.max(lo, hi)]);
+      i += skip;
+    } else {
+      ranges.push([lo, lo]);
+      i++;
+    }
+  }
+
+  return null; // Unterminated: caller treats `[` literally
+}
+
+/**
+ * Parse one path segment into a sequence of nodes
+ *
+ * Node shapes:
+ * - { type: 'char', set }            one character from a set
+ * - { type: 'star' }                 any run of characters
+ * - { type: 'group', op, alts }      extglob with alternatives
+ *
+ * @param {string} str - Segment text (no `/`)
+ * @returns {Node[]} Node sequence
+ */
+function parseSegment(str) {
+  /** @type {Node[]} */
+  const nodes = [];
+
+  for (let i = 0; i < str.length; i++) {
+    const ch = str[i];
+
+    if (ch === '\\' && i + 1 < str.length) {
+      i++;
+      const code = str.charCodeAt(i);
+      nodes.push({ type: 'char', set: { negated: false, ranges: [[code, code]] } });
+      continue;
+    }
+
+    if ('@?*+!'.includes(ch) && str[i + 1] === '(') {
+      const end = findClosing(str, i + 1, '(', ')');
+      if (end !== -1) {
+        const body = str.slice(i + 2, end);
+        const alts = splitTopLevel(body, '|').map(parseSegment);
+        nodes.push({ type: 'group', op: ch, alts });
+        i = end;
+        continue;
+      }
+    }
+
+    if (ch === '*') {
+      // Collapse runs of stars
+      if (nodes.length === 0 || nodes[nodes.length - 1].type !== 'star') {
+        nodes.push({ type: 'star' });
+      }
+      continue;
+    }
+
+    if (ch === '?') {
+      nodes.push({ type: 'char', set: ANY });
+      continue;
+    }
+
+    if (ch === '[') {
+      const bracket = parseBracket(str, i);
+      if (bracket) {
+        nodes.push({ type: 'char', set: bracket.set });
+        i = bracket.end;
+        continue;
+      }
+    }
+
+    const code = str.charCodeAt(i);
+    nodes.push({ type: 'char', set: { negated: false, ranges: [[code, code]] } });
+  }
+
+  return nodes;
+}
+
+// ============================================================================
+// Segment automata
+// ============================================================================
+
+/**
+ * Thompson-construct an NFA for a node sequence
+ *
+ * States are objects `{ eps: number[], edges: Array<{set, to}> }` indexed
+ * by position in the returned `states` array. State 0 is the start.
+ *
+ * @param {Node[]} nodes
+ * @returns {Nfa}
+ */
+function buildNfa(nodes) {
+  /** @type {NfaState[]} */
+  const states = [];
+  const newState = () => {
+    states.push({ eps: [], edges: [] });
+    return states.length - 1;
+  };
+
+  /**
+   * @param {Node[]} sequence
+   * @param {number} from
+   * @returns {number} Final state
+   */
+  const build = (sequence, from) => {
+    let current = from;
+
+    for (const node of sequence) {
+      if (node.type === 'char') {
+        const next = newState();
+        states[current].edges.push({ set: node.set, to: next });
+        current = next;
+      } else if (node.type === 'star' || (node.type === 'group' && node.op === '!')) {
+        const loop = newState();
+        states[current].eps.push(loop);
+        states[loop].edges.push({ set: ANY, to: loop });
+        current = loop;
+      } else if (node.op === '*') {
+        const loop = newState();
+        states[current].eps.push(loop);
+        for (const alt of node.alts) {
+          const altStart = newState();
+          states[loop].eps.push(altStart);
+          states[build(alt, altStart)].eps.push(loop);
+        }
+        current = loop;
+      } else {
+        // '@' exactly one, '?' at most one, '+' one or more
+        const entry = newState();
+        const exit = newState();
+        states[current].eps.push(entry);
+        for (const alt of node.alts) {
+          const altStart = newState();
+          states[entry].eps.push(altStart);
+          states[build(alt, altStart)].eps.push(exit);
+        }
+        if (node.op === '?') states[entry].eps.push(exit);
+        if (node.op === '+') states[exit].eps.push(entry);
+        current = exit;
+      }
+    }
+
+    return current;
+  };
+
+  const start = newState();
+  const accept = build(nodes, start);
+  return { states, accept };
+}
+
+/**
+ * Epsilon closure of a single state
+ * @param {NfaState[]} states
+ * @param {number} state
+ * @returns {number[]}
+ */
+function closure(states, state) {
+  const seen = new Set([state]);
+  const stack = [state];
+  for (let s = stack.pop(); s !== undefined; s = stack.pop()) {
+    for (const next of states[s].eps) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return [...seen];
+}
+
+/**
+ * Is a character code in a set?
+ * @param {{negated: boolean, ranges: Array<[number, number]>}} set
+ * @param {number} code
+ * @returns {boolean}
+ */
+function inSet(set, code) {
+  const listed = set.ranges.some(([lo, hi]) => code >= lo && code <= hi);
+  return set.negated ? !listed : listed;
+}
+
+/**
+ * Pick a character that belongs to both sets
+ *
+ * The smallest common character outside `excluded` is always the start of
+ * a listed range, one past the end of a listed range, or just past an
+ * excluded character, so only those candidates need checking.
+ *
+ * @param {CharSet} a
+ * @param {CharSet} b
+ * @param {number[]} excluded - Character codes that must not be picked
+ * @returns {number} Character code, or -1 if there is none
+ */
+function pickCommonChar(a, b, excluded) {
+  const candidates = [];
+  for (let i = 0; i < PREFERRED_CHARS.length; i++) {
+    candidates.push(PREFERRED_CHARS.charCodeAt(i));
+  }
+  for (const [lo, hi] of [...a.ranges, ...b.ranges]) {
+    candidates.push(lo, hi + 1);
+  }
+  candidates.push(0x21, ...excluded.map(code => code + 1));
+
+  for (const code of candidates) {
+    if (!excluded.includes(code) && inSet(a, code) && inSet(b, code)) return code;
+  }
+
+  return -1;
+}
+
+// Progress of a segment witness: nothing read yet, exactly ".", exactly
+// "..", or anything else. Only the last is a usable file name.
+const EMPTY = 0;
+const ONE_DOT = 1;
+const TWO_DOTS = 2;
+const NAME = 3;
+
+/**
+ * Find a file name accepted by two segment automata
+ *
+ * Breadth-first search over the product automaton. The extra progress flag
+ * keeps the search from accepting the empty string, "." or "..", which are
+ * never file names.
+ *
+ * @param {Nfa} nfaA
+ * @param {Nfa} nfaB
+ * @returns {string|null} Shortest common segment, or null if none exists
+ */
+function intersectSegments(nfaA, nfaB) {
+  /** @type {Map<string, {parent: string|null, code: number}>} */
+  const parents = new Map();
+  /** @type {Array<[number, number, number, string]>} */
+  const queue = [];
+
+  /**
+   * @param {number} qa
+   * @param {number} qb
+   * @param {number} progress
+   * @param {string|null} parent
+   * @param {number} code - Character read to get here (-1 for the start)
+   */
+  const visit = (qa, qb, progress, parent, code) => {
+    for (const ca of closure(nfaA.states, qa)) {
+      for (const cb of closure(nfaB.states, qb)) {
+        const k = `${ca},${cb},${progress}`;
+        if (parents.has(k)) continue;
+        parents.set(k, { parent, code });
+        queue.push([ca, cb, progress, k]);
+      }
+    }
+  };
+
+  visit(0, 0, EMPTY, null, -1);
+
+  for (let head = 0; head < queue.length; head++) {
+    const [qa, qb, progress, k] = queue[head];
+
+    if (progress === NAME && qa === nfaA.accept && qb === nfaB.accept) {
+      const chars = [];
+      for (let cur = /** @type {string|null} */ (k); cur !== null; ) {
+        const entry = /** @type {{parent: string|null, code: number}} */ (parents.get(cur));
+        if (entry.code >= 0) chars.push(entry.code);
+        cur = entry.parent;
+      }
+      return String.fromCharCode(...chars.reverse());
+    }
+
+    for (const edgeA of nfaA.states[qa].edges) {
+      for (const edgeB of nfaB.states[qb].edges) {
+        // Reading a dot and reading anything else lead to different progress
+        if (progress < TWO_DOTS && inSet(edgeA.set, DOT) && inSet(edgeB.set, DOT)) {
+          visit(edgeA.to, edgeB.to, progress + 1, k, DOT);
+        }
+        const excluded = progress < TWO_DOTS ? [SLASH, DOT] : [SLASH];
+        const code = pickCommonChar(edgeA.set, edgeB.set, excluded);
+        if (code >= 0) {
+          visit(edgeA.to, edgeB.to, NAME, k, code);
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Path-level intersection
+// ============================================================================
+
+const STAR_NFA = buildNfa([{ type: 'star' }]);
+
+/**
+ * Split a brace-free pattern into compiled segments
+ * @param {string} pattern
+ * @returns {CompiledGlob}
+ */
+function compile(pattern) {
+  let normalized = pattern.trim().replace(/\/{2,}/g, '/');
+  while (normalized.startsWith('./')) normalized = normalized.slice(2);
+
+  const absolute = normalized.startsWith('/');
+  if (absolute) normalized = normalized.slice(1);
+  if (normalized.endsWith('/')) normalized += '**';
+
+  const segments = splitTopLevel(normalized, '/')
+    .filter(segment => segment !== '')
+    .map(segment => (segment === '**' ? GLOBSTAR : buildNfa(parseSegment(segment))));
+
+  return { absolute, segments };
+}
+
+/**
+ * Find a path matched by two brace-free patterns
+ * @param {CompiledGlob} a
+ * @param {CompiledGlob} b
+ * @returns {string|null}
+ */
+function intersectCompiled(a, b) {
+  if (a.absolute !== b.absolute) return null;
+
+  const A = a.segments;
+  const B = b.segments;
+  /** @type {Map<string, string[]|null>} */
+  const memo = new Map();
+
+  /**
+   * Segments of a common path for A[i..] and B[j..]
+   * @param {number} i
+   * @param {number} j
+   * @returns {string[]|null}
+   */
+  const rec = (i, j) => {
+    const k = `${i},${j}`;
+    if (memo.has(k)) return memo.get(k) ?? null;
+    memo.set(k, null); // Guards against re-entry; every step advances i or j
+
+    let result = null;
+
+    if (i === A.length && j === B.length) {
+      result = [];
+    }
+
+    // `**` on either side: match zero segments, or swallow one of the other's
+    if (!result && A[i] === GLOBSTAR) {
+      result = rec(i + 1, j);
+      if (!result && j < B.length && B[j] !== GLOBSTAR) {
+        const segment = intersectSegments(STAR_NFA, B[j]);
+        const rest = segment !== null ? rec(i, j + 1) : null;
+        if (rest) result = [segment, ...rest];
+      }
+    }
+
+    if (!result && B[j] === GLOBSTAR) {
+      result = rec(i, j + 1);
+      if (!result && i < A.length && A[i] !== GLOBSTAR) {
+        const segment = intersectSegments(A[i], STAR_NFA);
+        const rest = segment !== null ? rec(i + 1, j) : null;
+        if (rest) result = [segment, ...rest];
+      }
+    }
+
+    if (!result && i < A.length && j < B.length && A[i] !== GLOBSTAR && B[j] !== GLOBSTAR) {
+      const segment = intersectSegments(A[i], B[j]);
+      const rest = segment !== null ? rec(i + 1, j + 1) : null;
+      if (rest) result = [segment, ...rest];
+    }
+
+    memo.set(k, result);
+    return result;
+  };
+
+  const segments = rec(0, 0);
+  if (!segments) return null;
+
+  // Only `**` segments on both sides: any one-segment path will do
+  const path = segments.length > 0 ? segments.join('/') : 'a';
+  return a.absolute ? '/' + path : path;
+}
+
+/**
+ * Find a concrete path matched by both patterns
+ * @param {string} patternA - Glob pattern
+ * @param {string} patternB - Glob pattern
+ * @returns {string|null} A common path (a witness), or null if none exists
+ * @throws {RangeError} If brace expansion exceeds 1024 patterns
+ */
+export function findCommonPath(patternA, patternB) {
+  const compiledB = expandBraces(patternB).map(compile);
+
+  for (const expandedA of expandBraces(patternA)) {
+    const compiledA = compile(expandedA);
+    for (const b of compiledB) {
+      const path = intersectCompiled(compiledA, b);
+      if (path !== null) return path;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if two glob patterns can match a common path
+ *
+ * Patterns too large to analyse (brace expansion over 1024 patterns) are
+ * assumed to overlap.
+ *
+ * @param {string} patternA - Glob pattern
+ * @param {string} patternB - Glob pattern
+ * @returns {boolean} True if some path matches both patterns
+ */
+export function globsIntersect(patternA, patternB) {
+  if (patternA === patternB) return true;
+
+  try {
+    return findCommonPath(patternA, patternB) !== null;
+  } catch (error) {
+    if (error instanceof RangeError) return true;
+    throw error;
+  }
+}
+
+/**
+ * Check if a concrete path matches a glob pattern
+ * @param {string} path - File path (no glob syntax is interpreted)
+ * @param {string} pattern - Glob pattern
+ * @returns {boolean}
+ */
+export function matchesGlob(path, pattern) {
+  const literal = path.replace(/[\\*?[\]{}()@!+|]/g, ch => '\\' + ch);
+  return globsIntersect(literal, pattern);
+}
+
+export default {
+  expandBraces,
+  findCommonPath,
+  globsIntersect,
+  matchesGlob
+};
@@ -0,0 +1,295 @@
+/**
+ * Project Registry
+ *
+ * Decides which Beads projects the query layer sees. Projects are directories
+ * with a `.beads/beads.db`, discovered under root directories and tuned by a
+ * config file (JAT_PROJECTS_FILE, default ~/.jat-projects.json):
+ *
+ *   {
+ *     "roots": ["~/code", "~/work"],
+ *     "depth": 3,
+ *     "include": ["**"],
+ *     "exclude": ["archive/**", "*-old"],
+ *     "projects": {
+ *       "jomarchy-agent-tools": { "alias": "jat", "color": "#3b82f6" },
+ *       "~/vendor/billing": { "color": "#f59e0b" },
+ *       "old-experiment": { "hidden": true }
+ *     }
+ *   }
+ *
+ * - roots: directories to search (default ~/code); JAT_PROJECT_ROOTS
+ *   (colon-separated) overrides them
+ * - depth: directory levels searched below each root (default 1, direct
+ *   children only); projects nested in other projects are found too
+ * - include / exclude: globs matched against a project's path relative to
+ *   its root (e.g. "acme/packages/api"), which is also its default name
+ * - projects: per-project settings, keyed by default name or by path (starting
+ *   with "/" or "~"); path keys add projects outside the roots, whatever the
+ *   globs say. `alias` renames a project, `color` sets its display color
+ *   (#rgb or #rrggbb) and `hidden` leaves it out.
+ *
+ * A missing config file means the defaults; an unreadable or invalid one is
+ * reported and ignored.
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { basename, join, relative, resolve, sep } from 'path';
+import { homedir } from 'os';
+import { matchesGlob } from './glob-intersect.js';
+
+/**
+ * @typedef {Object} ProjectSettings
+ * @property {string} [alias] - Name to use instead of the default
+ * @property {string} [color] - Display color (#rgb or #rrggbb)
+ * @property {boolean} [hidden] - Leave the project out
+ */
+
+/**
+ * @typedef {Object} ProjectRegistryConfig
+ * @property {string[]} roots - Absolute root directories
+ * @property {number} depth - Directory levels searched below each root
+ * @property {string[]} include - Globs a project must match (relative to its root)
+ * @property {string[]} exclude - Globs a project must not match
+ * @property {Record<string, ProjectSettings>} projects - Settings by default name or absolute path
+ */
+
+/**
+ * @typedef {Object} RegisteredProject
+ * @property {string} name - Alias, or the path relative to its root
+ * @property {string} path - Absolute project directory
+ * @property {string} dbPath - Absolute path of .beads/beads.db
+ * @property {string|null} color - Configured display color
+ */
+
+export const DEFAULT_DEPTH = 1;
+
+/** Deepest search allowed, to keep a misconfigured root from walking the disk */
+export const MAX_DEPTH = 8;
+
+/** Directories not searched for nested projects (neither are dot directories) */
+const SKIPPED_DIRS = new Set(['node_modules', 'vendor', 'dist', 'build']);
+
+const COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}){1,2}$/;
+
+/**
+ * Expand a leading "~" and make a path absolute
+ * @param {string} path
+ * @param {string} [home]
+ * @returns {string}
+ */
+export function expandHome(path, home = homedir()) {
+  if (path === '~') return home;
+  if (path.startsWith('~/')) return join(home, path.slice(2));
+  return resolve(path);
+}
+
+/**
+ * Path of the registry config file
+ * @returns {string}
+ */
+export function getProjectRegistryPath() {
+  return process.env.JAT_PROJECTS_FILE || join(homedir(), '.jat-projects.json');
+}
+
+/**
+ * Validate and fill in a registry config
+ * @param {unknown} raw - Parsed config file contents (null/undefined for none)
+ * @param {{roots?: string, home?: string}} [env] - JAT_PROJECT_ROOTS and home directory
+ * @returns {ProjectRegistryConfig}
+ * @throws {Error} If a field has the wrong type or value
+ */
+export function normalizeRegistryConfig(raw, env = {}) {
+  const home = env.home ?? homedir();
+  const config = raw ?? {};
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Project registry must be a JSON object');
+  }
+  const { roots, depth, include, exclude, projects } = /** @type {Record<string, unknown>} */ (config);
+
+  /**
+   * @param {unknown} value
+   * @param {string} field
+   * @returns {string[]|undefined}
+   */
+  const stringList = (value, field) => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim())) {
+      throw new Error(`"${field}" must be a list of non-empty strings`);
+    }
+    return value.map(item => item.trim());
+  };
+
+  const envRoots = env.roots?.split(':').map(root => root.trim()).filter(Boolean);
+  const rootList = envRoots?.length ? envRoots : (stringList(roots, 'roots') ?? ['~/code']);
+
+  if (depth !== undefined && (!Number.isInteger(depth) || /** @type {number} */ (depth) < 1 || /** @type {number} */ (depth) > MAX_DEPTH)) {
+    throw new Error(`"depth" must be a whole number from 1 to ${MAX_DEPTH}`);
+  }
+
+  if (projects !== undefined && (typeof projects !== 'object' || projects === null || Array.isArray(projects))) {
+    throw new Error('"projects" must be an object keyed by project name or path');
+  }
+
+  /** @type {Record<string, ProjectSettings>} */
+  const settings = {};
+  for (const [key, value] of Object.entries(/** @type {Record<string, unknown>} */ (projects ?? {}))) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Settings for project "${key}" must be an object`);
+    }
+    const { alias, color, hidden } = /** @type {Record<string, unknown>} */ (value);
+    if (alias !== undefined && (typeof alias !== 'string' || !alias.trim())) {
+      throw new Error(`"alias" of project "${key}" must be a non-empty string`);
+    }
+    if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+      throw new Error(`"color" of project "${key}" must be a hex color like #3b82f6`);
+    }
+    if (hidden !== undefined && typeof hidden !== 'boolean') {
+      throw new Error(`"hidden" of project "${key}" must be true or false`);
+    }
+
+    const isPath = key.startsWith('/') || key.startsWith('~');
+    settings[isPath ? expandHome(key, home) : key] = {
+      alias: alias?.trim(),
+      color: /** @type {string|undefined} */ (color),
+      hidden: /** @type {boolean|undefined} */ (hidden)
+    };
+  }
+
+  return {
+    roots: rootList.map(root => expandHome(root, home)),
+    depth: /** @type {number|undefined} */ (depth) ?? DEFAULT_DEPTH,
+    include: stringList(include, 'include') ?? ['**'],
+    exclude: stringList(exclude, 'exclude') ?? [],
+    projects: settings
+  };
+}
+
+/**
+ * Load the registry config (defaults if there is none or it is invalid)
+ * @param {string} [configPath] - Config file (default: getProjectRegistryPath())
+ * @returns {ProjectRegistryConfig}
+ */
+export function loadProjectRegistryConfig(configPath = getProjectRegistryPath()) {
+  const env = { roots: process.env.JAT_PROJECT_ROOTS };
+
+  /** @type {unknown} */
+  let raw = null;
+  if (existsSync(configPath)) {
+    try {
+      raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+      console.error(`Ignoring project registry ${configPath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  try {
+    return normalizeRegistryConfig(raw, env);
+  } catch (error) {
+    console.error(`Ignoring project registry ${configPath}:`, error instanceof Error ? error.message : error);
+    return normalizeRegistryConfig(null, env);
+  }
+}
+
+/**
+ * Find directories with a Beads database below a root
+ * @param {string} root - Absolute directory
+ * @param {number} depth - Levels to search
+ * @returns {string[]} Project directories, in sorted walk order
+ */
+function findBeadsDirs(root, depth) {
+  /** @type {string[]} */
+  const found = [];
+
+  /**
+   * @param {string} dir
+   * @param {number} level
+   */
+  const walk = (dir, level) => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable or missing
+    }
+
+    const subdirs = entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of subdirs) {
+      const path = join(dir, name);
+      if (existsSync(join(path, '.beads', 'beads.db'))) {
+        found.push(path);
+      }
+      if (level < depth && !name.startsWith('.') && !SKIPPED_DIRS.has(name)) {
+        walk(path, level + 1);
+      }
+    }
+  };
+
+  walk(root, 1);
+  return found;
+}
+
+/**
+ * Discover projects according to a registry config
+ *
+ * Projects appear in root order, then by path. When two projects end up with
+ * the same name, the first is kept and the other reported (give one an alias).
+ * @param {ProjectRegistryConfig} config
+ * @returns {RegisteredProject[]}
+ */
+export function discoverProjects(config) {
+  /** @type {RegisteredProject[]} */
+  const projects = [];
+  const seenPaths = new Set();
+  const seenNames = new Map();
+
+  /**
+   * @param {string} path - Project directory
+   * @param {string} defaultName - Path relative to its root, or the directory name
+   */
+  const add = (path, defaultName) => {
+    if (seenPaths.has(path)) return;
+    seenPaths.add(path);
+
+    const settings = config.projects[path] ?? config.projects[defaultName] ?? {};
+    if (settings.hidden) return;
+
+    const name = settings.alias ?? defaultName;
+    if (seenNames.has(name)) {
+      console.warn(`Project name "${name}" is used by both ${seenNames.get(name)} and ${path}; ignoring the latter (set an alias)`);
+      return;
+    }
+    seenNames.set(name, path);
+
+    projects.push({ name, path, dbPath: join(path, '.beads', 'beads.db'), color: settings.color ?? null });
+  };
+
+  for (const root of config.roots) {
+    for (const path of findBeadsDirs(root, config.depth)) {
+      const relativePath = relative(root, path).split(sep).join('/');
+      if (!config.include.some(glob => matchesGlob(relativePath, glob))) continue;
+      if (config.exclude.some(glob => matchesGlob(relativePath, glob))) continue;
+      add(path, relativePath);
+    }
+  }
+
+  // Projects listed by path, wherever they are
+  for (const key of Object.keys(config.projects)) {
+    if (key.startsWith('/') && existsSync(join(key, '.beads', 'beads.db'))) {
+      add(key, basename(key));
+    }
+  }
+
+  return projects;
+}
+
+export default {
+  discoverProjects,
+  expandHome,
+  getProjectRegistryPath,
+  loadProjectRegistryConfig,
+  normalizeRegistryConfig
+};
@@ -0,0 +1,379 @@
+/**
+ * Task Query Language
+ *
+ * Parses task filters such as
+ *
+ *   status:open label:ui assignee:none priority<=1 updated>7d "auth bug"
+ *
+ * and compiles them into a condition on a Beads `issues` table, so that
+ * getTasks({ query }) filters inside each project's database. Shared by
+ * /api/tasks?q=, the dashboard's task search and TaskQueue's saved filters.
+ *
+ * Syntax:
+ * - Terms are separated by spaces; a task must match all of them.
+ * - `field:value` matches a field; `field:a,b` matches either value.
+ * - priority and the dates also take `<`, `<=`, `>` and `>=`.
+ * - A leading `-` negates a term (`-label:wontfix`, `-"draft"`).
+ * - Anything else is text, matched case-insensitively against the ID,
+ *   title, description and labels. Quote values and phrases with spaces.
+ *
+ * Fields:
+ * - status: open, in_progress, blocked, closed
+ * - priority: 0-4 (or P0-P4)
+ * - type: task, bug, feature, epic, chore
+ * - label: a label (`label:ui label:api` needs both)
+ * - assignee: an agent name (case-insensitive), `none` or `any`
+ * - project: task ID prefix (`project:jat` matches jat-abc)
+ * - created, updated, closed: a day (YYYY-MM-DD, server time) or an age
+ *   (30m, 12h, 7d, 2w). Ages are points in time, so `updated>7d` means
+ *   "updated in the last 7 days"; `updated:7d` means the same. With a day,
+ *   `created:2025-11-20` is that day and `created<2025-11-20` before it.
+ */
+
+export const QUERY_FIELDS = ['status', 'priority', 'type', 'label', 'assignee', 'project', 'created', 'updated', 'closed'];
+
+export const QUERY_STATUSES = ['open', 'in_progress', 'blocked', 'closed'];
+
+export const QUERY_TYPES = ['task', 'bug', 'feature', 'epic', 'chore'];
+
+const DATE_FIELDS = ['created', 'updated', 'closed'];
+
+/** Fields that take <, <=, > and >= as well as ":" */
+const ORDERED_FIELDS = ['priority', ...DATE_FIELDS];
+
+const OPERATORS = ['<=', '>=', '<', '>', ':'];
+
+const AGE_UNITS_MS = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * @typedef {{start: number, end: number}} TimeSpan - Epoch ms, end exclusive (equal for an instant)
+ * @typedef {{type: 'text', value: string, negated: boolean}} TextTerm
+ * @typedef {{type: 'field', field: string, op: string, values: Array<string|number|TimeSpan>, negated: boolean}} FieldTerm
+ * @typedef {TextTerm | FieldTerm} QueryTerm
+ * @typedef {{terms: QueryTerm[]}} TaskQuery
+ */
+
+/**
+ * Quote a value for use in a query, if it needs quoting
+ * @param {string} value
+ * @returns {string} e.g. `ui` or `"needs review"`
+ */
+export function quoteQueryValue(value) {
+  if (/^[^\s",\\]+$/.test(value) && !/^[-"]/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Read a quoted string starting at `start` (the opening quote)
+ * @param {string} input
+ * @param {number} start
+ * @returns {{value: string, end: number}} Unescaped value and the index after the closing quote
+ */
+function readQuoted(input, start) {
+  let value = '';
+  for (let i = start + 1; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === '\\' && i + 1 < input.length) {
+      value += input[++i];
+    } else if (ch === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += ch;
+    }
+  }
+  throw new Error(`Unterminated quote at position ${start + 1}`);
+}
+
+/**
+ * Work out the time span a date value stands for
+ * @param {string} value - YYYY-MM-DD or an age like 7d
+ * @param {number} now - Epoch ms
+ * @returns {TimeSpan}
+ */
+function parseDateValue(value, now) {
+  const age = value.match(/^(\d+)([mhdw])$/i);
+  if (age) {
+    const at = now - Number(age[1]) * AGE_UNITS_MS[/** @type {keyof typeof AGE_UNITS_MS} */ (age[2].toLowerCase())];
+    return { start: at, end: at };
+  }
+
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const start = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+    if (start.getMonth() === Number(day[2]) - 1) {
+      const end = new Date(start);
+      end.setDate(end.getDate() + 1);
+      return { start: start.getTime(), end: end.getTime() };
+    }
+  }
+
+  throw new Error(`Invalid date "${value}": use YYYY-MM-DD or an age like 7d`);
+}
+
+/**
+ * Check and normalize one value of a field term
+ * @param {string} field
+ * @param {string} value
+ * @param {number} now - Epoch ms
+ * @returns {string|number|TimeSpan}
+ */
+function normalizeValue(field, value, now) {
+  switch (field) {
+    case 'status': {
+      const status = value.toLowerCase().replace(/-/g, '_');
+      if (!QUERY_STATUSES.includes(status)) {
+        throw new Error(`Invalid status "${value}": use ${QUERY_STATUSES.join(', ')}`);
+      }
+      return status;
+    }
+    case 'priority': {
+      const match = value.match(/^p?([0-4])$/i);
+      if (!match) {
+        throw new Error(`Invalid priority "${value}": use 0-4`);
+      }
+      return Number(match[1]);
+    }
+    case 'type': {
+      const type = value.toLowerCase();
+      if (!QUERY_TYPES.includes(type)) {
+        throw new Error(`Invalid type "${value}": use ${QUERY_TYPES.join(', ')}`);
+      }
+      return type;
+    }
+    case 'created':
+    case 'updated':
+    case 'closed':
+      return parseDateValue(value, now);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse a task query
+ * @param {string} input - e.g. `status:open label:ui priority<=1 "auth bug"`
+ * @param {{now?: number}} [options] - Reference time for ages (default: now)
+ * @returns {TaskQuery}
+ * @throws {Error} On unknown fields, invalid values or unbalanced quotes
+ */
+export function parseTaskQuery(input, options = {}) {
+  const now = options.now ?? Date.now();
+  /** @type {QueryTerm[]} */
+  const terms = [];
+  let i = 0;
+
+  const isSpace = (/** @type {number} */ at) => /\s/.test(input[at] ?? ' ');
+
+  while (i < input.length) {
+    if (isSpace(i)) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (input[i] === '-' && !isSpace(i + 1)) {
+      negated = true;
+      i++;
+    }
+
+    // Quoted phrase
+    if (input[i] === '"') {
+      const { value, end } = readQuoted(input, i);
+      if (value.trim()) {
+        terms.push({ type: 'text', value: value.trim(), negated });
+      }
+      i = end;
+      continue;
+    }
+
+    const field = input.slice(i).match(/^([a-zA-Z_]+)(<=|>=|<|>|:)/);
+    if (!field) {
+      // Bare word
+      let end = i;
+      while (end < input.length && !isSpace(end)) end++;
+      terms.push({ type: 'text', value: input.slice(i, end), negated });
+      i = end;
+      continue;
+    }
+
+    const name = field[1].toLowerCase();
+    const op = field[2];
+    if (!QUERY_FIELDS.includes(name)) {
+      throw new Error(`Unknown field "${field[1]}": use ${QUERY_FIELDS.join(', ')}, or quote the text`);
+    }
+    if (op !== ':' && !ORDERED_FIELDS.includes(name)) {
+      throw new Error(`"${name}" can't be compared with ${op}; use ${name}:value`);
+    }
+    i += field[0].length;
+
+    // Comma-separated values, each bare or quoted
+    /** @type {string[]} */
+    const rawValues = [];
+    for (;;) {
+      let value;
+      if (input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        value = quoted.value;
+        i = quoted.end;
+      } else {
+        let end = i;
+        while (end < input.length && !isSpace(end) && input[end] !== ',') end++;
+        value = input.slice(i, end);
+        i = end;
+      }
+      if (!value) {
+        throw new Error(`Missing value for "${name}"`);
+      }
+      rawValues.push(value);
+
+      if (input[i] !== ',') break;
+      i++;
+    }
+
+    if (op !== ':' && rawValues.length > 1) {
+      throw new Error(`"${name}${op}" takes a single value`);
+    }
+
+    terms.push({
+      type: 'field',
+      field: name,
+      op,
+      values: rawValues.map(value => normalizeValue(name, value, now)),
+      negated
+    });
+  }
+
+  return { terms };
+}
+
+/**
+ * Escape LIKE wildcards (with "\" as the escape character)
+ * @param {string} value
+ * @returns {string}
+ */
+function escapeLike(value) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * SQL for one field term (before negation)
+ * @param {FieldTerm} term
+ * @param {string} alias - Alias of the issues table
+ * @param {unknown[]} params - Receives the parameters
+ * @returns {string}
+ */
+function compileFieldTerm(term, alias, params) {
+  const { field, op, values } = term;
+  const placeholders = values.map(() => '?').join(', ');
+
+  switch (field) {
+    case 'status':
+      params.push(...values);
+      return `${alias}.status IN (${placeholders})`;
+
+    case 'type':
+      params.push(...values);
+      return `${alias}.issue_type IN (${placeholders})`;
+
+    case 'priority':
+      params.push(...values);
+      return op === ':' ? `${alias}.priority IN (${placeholders})` : `${alias}.priority ${op} ?`;
+
+    case 'label':
+      params.push(...values);
+      return `EXISTS (SELECT 1 FROM labels l WHERE l.issue_id = ${alias}.id AND l.label IN (${placeholders}))`;
+
+    case 'assignee': {
+      const conditions = [];
+      const names = [];
+      for (const value of /** @type {string[]} */ (values)) {
+        const lower = value.toLowerCase();
+        if (lower === 'none') conditions.push(`COALESCE(${alias}.assignee, '') = ''`);
+        else if (lower === 'any') conditions.push(`COALESCE(${alias}.assignee, '') <> ''`);
+        else names.push(value);
+      }
+      if (names.length > 0) {
+        conditions.push(`${alias}.assignee COLLATE NOCASE IN (${names.map(() => '?').join(', ')})`);
+        params.push(...names);
+      }
+      return conditions.length === 1 ? conditions[0] : `(${conditions.join(' OR ')})`;
+    }
+
+    case 'project': {
+      // Same rule as getProjectFromTaskId(): the prefix is everything before the last "-"
+      const conditions = [];
+      for (const prefix of /** @type {string[]} */ (values)) {
+        conditions.push(`(${alias}.id LIKE ? ESCAPE '\\' AND instr(substr(${alias}.id, ?), '-') = 0)`);
+        params.push(`${escapeLike(prefix)}-%`, prefix.length + 2);
+      }
+      return conditions.length === 1 ? conditions[0] : `(${conditions.join(' OR ')})`;
+    }
+
+    default: {
+      // Dates: compare as julianday so stored time zone offsets are honoured
+      const column = `julianday(${alias}.${field}_at)`;
+      const conditions = [];
+      for (const { start, end } of /** @type {TimeSpan[]} */ (values)) {
+        const startIso = new Date(start).toISOString();
+        const endIso = new Date(end).toISOString();
+        if (op === '>') {
+          conditions.push(`${column} >= julianday(?)`);
+          params.push(endIso);
+        } else if (op === '>=' || (op === ':' && start === end)) {
+          conditions.push(`${column} >= julianday(?)`);
+          params.push(startIso);
+        } else if (op === '<') {
+          conditions.push(`${column} < julianday(?)`);
+          params.push(startIso);
+        } else if (op === '<=') {
+          conditions.push(`${column} < julianday(?)`);
+          params.push(endIso);
+        } else {
+          conditions.push(`(${column} >= julianday(?) AND ${column} < julianday(?))`);
+          params.push(startIso, endIso);
+        }
+      }
+      return conditions.length === 1 ? conditions[0] : `(${conditions.join(' OR ')})`;
+    }
+  }
+}
+
+/**
+ * Compile a parsed query into a SQL condition on the issues table
+ * @param {TaskQuery} query - From parseTaskQuery()
+ * @param {string} [alias='i'] - Alias of the issues table in the surrounding query
+ * @returns {{sql: string, params: unknown[]}} Condition ('' for an empty query) and its parameters
+ */
+export function compileTaskQuery(query, alias = 'i') {
+  /** @type {unknown[]} */
+  const params = [];
+  const conditions = [];
+
+  for (const term of query.terms) {
+    let sql;
+    if (term.type === 'text') {
+      const pattern = `%${escapeLike(term.value)}%`;
+      sql = `(${alias}.id LIKE ? ESCAPE '\\' OR ${alias}.title LIKE ? ESCAPE '\\' OR COALESCE(${alias}.description, '') LIKE ? ESCAPE '\\'` +
+        ` OR EXISTS (SELECT 1 FROM labels l WHERE l.issue_id = ${alias}.id AND l.label LIKE ? ESCAPE '\\'))`;
+      params.push(pattern, pattern, pattern, pattern);
+    } else {
+      sql = compileFieldTerm(term, alias, params);
+    }
+
+    // NULL (e.g. closed_at of an open task) counts as no match, so negations include it
+    conditions.push(term.negated ? `NOT COALESCE(${sql}, 0)` : sql);
+  }
+
+  return { sql: conditions.join(' AND '), params };
+}
+
+export default {
+  QUERY_FIELDS,
+  QUERY_STATUSES,
+  QUERY_TYPES,
+  compileTaskQuery,
+  parseTaskQuery,
+  quoteQueryValue
+};
@@ -0,0 +1,331 @@
+/**
+ * Task Search Index
+ *
+ * Full-text search over Beads tasks in all projects (getProjects()): ID,
+ * title, description, notes and comments, plus the Agent Mail messages on
+ * each task's thread (thread ID = task ID), so a task can be found by what
+ * was discussed about it.
+ *
+ * The index is an in-memory SQLite FTS5 table. Before each search, projects
+ * whose database changed since they were indexed (SQLite's data_version on
+ * the pooled connection, see db-pool.js) are re-read, as are all tasks when
+ * the Agent Mail database changed. Results are ranked with BM25, title and
+ * ID matches counting most.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+import { getProjects } from './beads.js';
+import { DB_PATH as AGENT_MAIL_DB } from './agent-mail.js';
+import { getConnection } from './db-pool.js';
+
+/** Highlight delimiters used inside SQLite, turned into segments afterwards */
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/** BM25 column weights: id, title, description, notes, messages (the rest are unindexed) */
+const COLUMN_WEIGHTS = [5, 10, 4, 2, 1, 0, 0, 0];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+const SCHEMA = `
+  CREATE VIRTUAL TABLE task_fts USING fts5(
+    id, title, description, notes, messages,
+    project UNINDEXED, status UNINDEXED, priority UNINDEXED,
+    tokenize = 'porter unicode61'
+  );
+`;
+
+/**
+ * @typedef {{text: string, match: boolean}} TextSegment - Part of a highlighted text
+ */
+
+/**
+ * @typedef {Object} TaskSearchResult
+ * @property {string} id - Task ID
+ * @property {string} project - Project name
+ * @property {string} title
+ * @property {string} status
+ * @property {number} priority
+ * @property {number} score - Relevance (higher is better)
+ * @property {TextSegment[]} title_highlight - Title with matching terms marked
+ * @property {TextSegment[]} snippet - Best matching excerpt from any field, terms marked
+ */
+
+/**
+ * @typedef {Object} SearchSource
+ * @property {unknown} connection - Pooled connection the version was read on
+ * @property {number} version - PRAGMA data_version when indexed
+ */
+
+/**
+ * Turn user input into an FTS5 query
+ *
+ * Words and "quoted phrases" must all match; the last word also matches as
+ * a prefix, for search-as-you-type. Punctuation can't break the query: every
+ * term is passed as an FTS5 string.
+ * @param {string} text - e.g. `oauth "refresh bug" tok`
+ * @returns {string} e.g. `"oauth" "refresh bug" "tok"*`, or '' if nothing searchable
+ */
+export function toFtsQuery(text) {
+  /** @type {string[]} */
+  const terms = [];
+  let lastIsWord = false;
+
+  for (const match of text.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const value = match[1] ?? match[2];
+    if (!/[\p{L}\p{N}]/u.test(value)) continue;
+    terms.push(`"${value.replace(/"/g, '""')}"`);
+    lastIsWord = match[2] !== undefined;
+  }
+
+  if (terms.length > 0 && lastIsWord) {
+    terms[terms.length - 1] += '*';
+  }
+  return terms.join(' ');
+}
+
+/**
+ * Split a string marked with MATCH_START/MATCH_END into segments
+ * @param {string} marked
+ * @returns {TextSegment[]}
+ */
+function toSegments(marked) {
+  /** @type {TextSegment[]} */
+  const segments = [];
+  for (const part of marked.split(MATCH_START)) {
+    const end = part.indexOf(MATCH_END);
+    if (end === -1) {
+      if (part) segments.push({ text: part, match: false });
+      continue;
+    }
+    if (end > 0) segments.push({ text: part.slice(0, end), match: true });
+    if (end + 1 < part.length) segments.push({ text: part.slice(end + 1), match: false });
+  }
+  return segments;
+}
+
+/**
+ * Read a database's data_version on its pooled connection
+ * @param {string} dbPath
+ * @returns {SearchSource}
+ */
+function readSource(dbPath) {
+  const connection = getConnection(dbPath);
+  return { connection, version: Number(connection.pragma('data_version', { simple: true })) };
+}
+
+/**
+ * @param {SearchSource|undefined} a
+ * @param {SearchSource|undefined} b
+ */
+function sameSource(a, b) {
+  return !!a && !!b && a.connection === b.connection && a.version === b.version;
+}
+
+export class TaskSearchIndex {
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.agentMailPath] - Agent Mail database (default ~/.agent-mail.db)
+   */
+  constructor(options = {}) {
+    this.agentMailPath = options.agentMailPath ?? AGENT_MAIL_DB;
+    this.db = new Database(':memory:');
+    this.db.exec(SCHEMA);
+
+    /** @type {Map<string, SearchSource>} Indexed projects by database path */
+    this.projects = new Map();
+    /** @type {SearchSource|undefined} */
+    this.agentMail = undefined;
+    /** @type {Map<string, string>} Thread ID → concatenated message subjects and bodies */
+    this.threads = new Map();
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * Read the Agent Mail thread messages, if Agent Mail has changed
+   * @returns {boolean} Whether the messages changed (all tasks need reindexing)
+   */
+  syncThreads() {
+    if (!existsSync(this.agentMailPath)) {
+      const changed = this.agentMail !== undefined || this.threads.size > 0;
+      this.agentMail = undefined;
+      this.threads = new Map();
+      return changed;
+    }
+
+    try {
+      const source = readSource(this.agentMailPath);
+      if (sameSource(source, this.agentMail)) return false;
+
+      const rows = /** @type {Array<{thread_id: string, subject: string|null, body_md: string|null}>} */ (
+        getConnection(this.agentMailPath).prepare(`
+          SELECT thread_id, subject, body_md
+          FROM messages
+          WHERE thread_id IS NOT NULL
+          ORDER BY created_ts ASC
+        `).all()
+      );
+
+      /** @type {Map<string, string>} */
+      const threads = new Map();
+      for (const row of rows) {
+        const text = [row.subject, row.body_md].filter(Boolean).join('\n');
+        threads.set(row.thread_id, threads.has(row.thread_id) ? `${threads.get(row.thread_id)}\n\n${text}` : text);
+      }
+
+      this.threads = threads;
+      this.agentMail = source;
+      return true;
+    } catch (error) {
+      console.error('Error reading Agent Mail threads for task search:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Replace a project's rows in the index
+   * @param {{name: string, dbPath: string}} project
+   */
+  indexProject(project) {
+    const db = getConnection(project.dbPath);
+    const issues = /** @type {Array<Record<string, any>>} */ (db.prepare('SELECT * FROM issues').all());
+
+    /** @type {Map<string, string[]>} */
+    const comments = new Map();
+    try {
+      const rows = /** @type {Array<{issue_id: string, text: string}>} */ (
+        db.prepare('SELECT issue_id, text FROM comments ORDER BY created_at ASC').all()
+      );
+      for (const row of rows) {
+        if (!comments.has(row.issue_id)) comments.set(row.issue_id, []);
+        comments.get(row.issue_id)?.push(row.text);
+      }
+    } catch {
+      // Older databases have no comments table
+    }
+
+    const remove = this.db.prepare('DELETE FROM task_fts WHERE project = ?');
+    const insert = this.db.prepare(`
+      INSERT INTO task_fts (id, title, description, notes, messages, project, status, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      remove.run(project.name);
+      for (const issue of issues) {
+        const notes = [issue.notes, ...(comments.get(issue.id) ?? [])].filter(Boolean).join('\n\n');
+        insert.run(
+          issue.id,
+          issue.title ?? '',
+          issue.description ?? '',
+          notes,
+          this.threads.get(issue.id) ?? '',
+          project.name,
+          issue.status ?? null,
+          issue.priority ?? null
+        );
+      }
+    })();
+  }
+
+  /**
+   * Bring the index up to date with the Beads and Agent Mail databases
+   */
+  sync() {
+    const threadsChanged = this.syncThreads();
+    const projects = getProjects();
+    const current = new Set(projects.map(project => project.dbPath));
+
+    for (const project of projects) {
+      try {
+        const source = readSource(project.dbPath);
+        if (!threadsChanged && sameSource(source, this.projects.get(project.dbPath))) continue;
+
+        this.indexProject(project);
+        this.projects.set(project.dbPath, source);
+      } catch (error) {
+        console.error(`Error indexing project ${project.name} for task search:`, error);
+      }
+    }
+
+    // Projects that are gone (or renamed) take their rows with them
+    const names = projects.map(project => project.name);
+    this.db.prepare(`DELETE FROM task_fts WHERE project NOT IN (${names.map(() => '?').join(', ') || "''"})`).run(...names);
+    for (const dbPath of this.projects.keys()) {
+      if (!current.has(dbPath)) this.projects.delete(dbPath);
+    }
+  }
+
+  /**
+   * Search tasks
+   * @param {string} text - Words and "phrases" (see toFtsQuery)
+   * @param {Object} [options]
+   * @param {number} [options.limit] - Maximum results (default 20)
+   * @param {string} [options.project] - Only this project
+   * @returns {TaskSearchResult[]} Best matches first
+   */
+  search(text, options = {}) {
+    const { limit = DEFAULT_SEARCH_LIMIT, project } = options;
+    const query = toFtsQuery(text);
+    if (!query) return [];
+
+    this.sync();
+
+    let sql = `
+      SELECT
+        id, title, project, status, priority,
+        bm25(task_fts, ${COLUMN_WEIGHTS.join(', ')}) AS rank,
+        highlight(task_fts, 1, '${MATCH_START}', '${MATCH_END}') AS title_marked,
+        snippet(task_fts, -1, '${MATCH_START}', '${MATCH_END}', '…', 16) AS snippet_marked
+      FROM task_fts
+      WHERE task_fts MATCH ?
+    `;
+    /** @type {unknown[]} */
+    const params = [query];
+
+    if (project) {
+      sql += ' AND project = ?';
+      params.push(project);
+    }
+
+    sql += ' ORDER BY rank LIMIT ?';
+    params.push(limit);
+
+    const rows = /** @type {Array<Record<string, any>>} */ (this.db.prepare(sql).all(...params));
+    return rows.map(row => ({
+      id: row.id,
+      project: row.project,
+      title: row.title,
+      status: row.status,
+      priority: row.priority,
+      score: -row.rank,
+      title_highlight: toSegments(row.title_marked),
+      snippet: toSegments(row.snippet_marked)
+    }));
+  }
+}
+
+/** @type {TaskSearchIndex|undefined} */
+let sharedIndex;
+
+/**
+ * Search tasks in all projects with the shared index
+ * @param {string} text - Words and "phrases" (see toFtsQuery)
+ * @param {{limit?: number, project?: string}} [options]
+ * @returns {TaskSearchResult[]} Best matches first
+ */
+export function searchTasks(text, options = {}) {
+  sharedIndex ??= new TaskSearchIndex();
+  return sharedIndex.search(text, options);
+}
+
+export default {
+  DEFAULT_SEARCH_LIMIT,
+  TaskSearchIndex,
+  searchTasks,
+  toFtsQuery
+};
@@ -22,7 +22,7 @@ projects.forEach(p => {
 });
 
 if (projects.length === 0) {
-  console.log('⚠️  No projects found. Make sure ~/code/*/.beads/beads.db exists');
+  console.log('⚠️  No projects found. Make sure ~/code/*/.beads/beads.db exists (or configure ~/.jat-projects.json / JAT_PROJECT_ROOTS)');
   process.exit(1);
 }
 